@@ -0,0 +1,43 @@
+// Standalone lead job worker: `pnpm worker`. Runs next to (or instead of) the Next.js
+// server and scores jobs the API routes enqueue. SIGTERM/SIGINT stop claiming and hand
+// running jobs back to the queue before exiting.
+import { existsSync } from "node:fs";
+
+// Next.js loads .env.local for the app; the worker has to do it itself, before any app
+// module is imported, since several read their settings from process.env at load time.
+for (const file of [".env.local", ".env"]) {
+  if (existsSync(file)) {
+    process.loadEnvFile(file);
+  }
+}
+
+async function main() {
+  const { readWorkerOptions, runLeadJobWorker } = await import("@/lib/jobWorker");
+  const { getSupabaseAdminClient } = await import("@/lib/supabase");
+
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    console.error("Supabase environment variables missing; the worker needs the service role key");
+    process.exit(1);
+  }
+
+  const controller = new AbortController();
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      console.warn("Forced shutdown", { signal });
+      process.exit(1);
+    }
+    console.info("Shutting down lead job worker", { signal });
+    controller.abort();
+  };
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+
+  await runLeadJobWorker(client, controller.signal, readWorkerOptions());
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Lead job worker crashed", error);
+  process.exit(1);
+});
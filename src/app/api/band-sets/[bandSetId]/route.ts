@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+import { BandSetValidationError, deleteBandSet, updateBandSet } from "@/lib/bandSets";
+
+type Context = {
+  params: {
+    bandSetId: string;
+  };
+};
+
+const readUserId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { bandSetId } = await params;
+
+  try {
+    const payload = await request.json();
+    const userId = readUserId(payload?.user_id);
+
+    if (!userId) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+
+    const bandSet = await updateBandSet(bandSetId, userId, {
+      name: payload?.name,
+      bands: payload?.bands,
+      isActive: payload?.isActive
+    });
+
+    if (!bandSet) {
+      return NextResponse.json({ error: "Band set not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ bandSet });
+  } catch (error) {
+    if (error instanceof BandSetValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to update band set", { bandSetId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { bandSetId } = await params;
+  const url = new URL(request.url);
+  const userId = readUserId(url.searchParams.get("user_id") ?? url.searchParams.get("userId"));
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteBandSet(bandSetId, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Band set not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete band set", { bandSetId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
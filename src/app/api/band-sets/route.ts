@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { BandSetValidationError, createBandSet, getActiveBandSet, listBandSets } from "@/lib/bandSets";
+import { DEFAULT_BAND_SET } from "@/lib/bands";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const userId = url.searchParams.get("user_id") ?? url.searchParams.get("userId");
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const [bandSets, active] = await Promise.all([listBandSets(userId), getActiveBandSet(userId)]);
+    return NextResponse.json({ bandSets, active, defaults: DEFAULT_BAND_SET });
+  } catch (error) {
+    console.error("Failed to list band sets", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json();
+    const userId = typeof payload?.user_id === "string" && payload.user_id.trim() !== ""
+      ? payload.user_id.trim()
+      : null;
+
+    if (!userId) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+
+    const bandSet = await createBandSet(userId, {
+      name: payload?.name,
+      bands: payload?.bands,
+      isActive: payload?.isActive
+    });
+
+    return NextResponse.json({ bandSet }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BandSetValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to create band set", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
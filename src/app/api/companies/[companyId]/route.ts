@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { getCompanyHistory } from "@/lib/companies";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    companyId: string;
+  };
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { companyId } = await params;
+  const userId = new URL(request.url).searchParams.get("user_id")?.trim() || null;
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+
+  try {
+    const history = await getCompanyHistory(client, companyId, userId);
+    if (!history) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 });
+    }
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error("Failed to load company history", { companyId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { deleteImportTemplate } from "@/lib/importTemplates";
+
+type Context = {
+  params: {
+    templateId: string;
+  };
+};
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { templateId } = await params;
+  const url = new URL(request.url);
+  const userId = url.searchParams.get("user_id")?.trim() || null;
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteImportTemplate(templateId, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Import template not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete import template", { templateId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
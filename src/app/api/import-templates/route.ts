@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { ImportTemplateValidationError, listImportTemplates, saveImportTemplate } from "@/lib/importTemplates";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const userId = url.searchParams.get("user_id") ?? url.searchParams.get("userId");
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const templates = await listImportTemplates(userId);
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Failed to list import templates", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json();
+    const userId = typeof payload?.user_id === "string" && payload.user_id.trim() !== ""
+      ? payload.user_id.trim()
+      : null;
+
+    if (!userId) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+
+    const template = await saveImportTemplate(userId, {
+      name: payload?.name,
+      headers: payload?.headers,
+      mapping: payload?.mapping
+    });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ImportTemplateValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to save import template", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+
+import { getActiveBandSet } from "@/lib/bandSets";
+import { OverrideValidationError, clearLeadRunOverride, setLeadRunOverride } from "@/lib/overrides";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    runId: string;
+  };
+};
+
+const readUserId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { runId } = await params;
+
+  try {
+    const payload = await request.json();
+    const userId = readUserId(payload?.user_id);
+    if (!userId) {
+      return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+    }
+
+    const bandSet = await getActiveBandSet(userId);
+    const override = await setLeadRunOverride(
+      client,
+      runId,
+      userId,
+      { interpretation: payload?.interpretation, scores: payload?.scores, reason: payload?.reason },
+      bandSet.bands
+    );
+    if (!override) {
+      return NextResponse.json({ error: "Lead run not found" }, { status: 404 });
+    }
+    return NextResponse.json({ override });
+  } catch (error) {
+    if (error instanceof OverrideValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to override lead run", { runId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+// Clearing also needs a reason, so it takes a JSON body like POST.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { runId } = await params;
+
+  try {
+    const payload = await request.json();
+    const userId = readUserId(payload?.user_id);
+    if (!userId) {
+      return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+    }
+
+    const cleared = await clearLeadRunOverride(client, runId, userId, payload?.reason);
+    if (!cleared) {
+      return NextResponse.json({ error: "Lead run has no override" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof OverrideValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to clear lead run override", { runId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { getActiveBandSet } from "@/lib/bandSets";
+import { resolveBand } from "@/lib/bands";
+import { currentBand, getLeadRunAudit } from "@/lib/leadRuns";
+import { listOutcomes } from "@/lib/outcomes";
+import { listOverrideHistory } from "@/lib/overrides";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    runId: string;
+  };
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { runId } = await params;
+  const userId = new URL(request.url).searchParams.get("user_id")?.trim() || null;
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+
+  try {
+    const audit = await getLeadRunAudit(client, runId, userId);
+    if (!audit) {
+      return NextResponse.json({ error: "Lead run not found" }, { status: 404 });
+    }
+    const [bandSet, overrides, outcomes] = await Promise.all([
+      getActiveBandSet(userId),
+      listOverrideHistory(client, runId, userId),
+      listOutcomes(client, runId, userId)
+    ]);
+    return NextResponse.json({
+      ...audit,
+      overrides,
+      outcomes,
+      bands: bandSet.bands,
+      current_band: currentBand(audit.run, bandSet.bands),
+      model_band: resolveBand(Number(audit.run.final_score), bandSet.bands)
+    });
+  } catch (error) {
+    console.error("Failed to load lead run", { runId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
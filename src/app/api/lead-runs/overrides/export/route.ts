@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { listOverrideLabels, overrideLabelsToCsv } from "@/lib/overrides";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+// Overridden runs as labelled examples: ?format=jsonl (default) or ?format=csv.
+export async function GET(request: Request) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const userId = searchParams.get("user_id")?.trim() || null;
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+  const format = searchParams.get("format") ?? "jsonl";
+  if (format !== "jsonl" && format !== "csv") {
+    return NextResponse.json({ error: "format must be jsonl or csv" }, { status: 400 });
+  }
+
+  try {
+    const labels = await listOverrideLabels(client, userId);
+    const body =
+      format === "csv" ? overrideLabelsToCsv(labels) : labels.map((label) => JSON.stringify(label)).join("\n");
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": `attachment; filename="lead-score-overrides.${format}"`
+      }
+    });
+  } catch (error) {
+    console.error("Failed to export override labels", { userId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 
+import { getActiveBandSet } from "@/lib/bandSets";
+import { currentBand, type LeadRunRow } from "@/lib/leadRuns";
 import { getSupabaseAdminClient } from "@/lib/supabase";
 
 export async function GET(request: Request) {
@@ -20,6 +22,12 @@ export async function GET(request: Request) {
     const minScore = searchParams.get("minScore");
     const maxScore = searchParams.get("maxScore");
     const search = searchParams.get("search");
+    const needsReview = searchParams.get("needsReview");
+    const overridden = searchParams.get("overridden");
+    // Keeps only the newest matching run per company; runs with no company are all kept.
+    const latestOnly = searchParams.get("latest") === "true";
+
+    const bandSet = await getActiveBandSet(userId);
 
     let query = client
       .from("lead_runs")
@@ -27,39 +35,75 @@ export async function GET(request: Request) {
       .eq("user_id", userId)
       .order("created_at", { ascending: false });
 
-    if (interpretation && interpretation !== "all") {
-      query = query.eq("interpretation", interpretation);
-    }
     if (industry && industry !== "all") {
       query = query.ilike("industry", industry.replace(/%/g, "") + "%");
     }
+    if (needsReview === "true") {
+      query = query.eq("needs_review", true);
+    }
+    if (overridden === "true") {
+      query = query.not("override", "is", null);
+    } else if (overridden === "false") {
+      query = query.is("override", null);
+    }
     if (minScore) {
       const parsed = Number(minScore);
       if (!Number.isNaN(parsed)) {
-        query = query.gte("final_score", parsed);
+        query = query.gte("effective_final_score", parsed);
       }
     }
     if (maxScore) {
       const parsed = Number(maxScore);
       if (!Number.isNaN(parsed)) {
-        query = query.lte("final_score", parsed);
+        query = query.lte("effective_final_score", parsed);
       }
     }
 
-    const { data, error } = await query;
+    const { data, error } = await query.returns<LeadRunRow[]>();
     if (error) {
       throw error;
     }
 
-    const filtered = search
-      ? data?.filter((run) =>
-          [run.company, run.industry, run.interpretation]
+    // Scores and bands are the effective ones: a rep's override wins over the model. Older
+    // runs are re-tiered under the active band set, so the band filter runs here rather
+    // than against the stored interpretation.
+    const banded = (data ?? []).map((run) => ({
+      ...run,
+      current_band: currentBand(run, bandSet.bands)
+    }));
+    const tiered =
+      interpretation && interpretation !== "all"
+        ? banded.filter((run) =>
+            bandSet.bands.some((band) => band.label === interpretation)
+              ? run.current_band.label === interpretation
+              : run.interpretation === interpretation
+          )
+        : banded;
+
+    const searched = search
+      ? tiered.filter((run) =>
+          [run.company, run.industry, run.interpretation, run.current_band.label]
             .filter(Boolean)
             .some((value) => value!.toLowerCase().includes(search.toLowerCase()))
-        ) ?? []
-      : data ?? [];
+        )
+      : tiered;
+
+    // Rows are newest first, so the first run seen per company is its latest.
+    const seenCompanies = new Set<string>();
+    const filtered = latestOnly
+      ? searched.filter((run) => {
+          if (!run.company_id) {
+            return true;
+          }
+          if (seenCompanies.has(run.company_id)) {
+            return false;
+          }
+          seenCompanies.add(run.company_id);
+          return true;
+        })
+      : searched;
 
-    return NextResponse.json({ leads: filtered });
+    return NextResponse.json({ leads: filtered, bandSet });
   } catch (error) {
     console.error("Failed to load lead runs", error);
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { getActiveBandSet } from "@/lib/bandSets";
+import { getCalibrationReport } from "@/lib/calibration";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+export async function GET(request: Request) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const userId = new URL(request.url).searchParams.get("user_id")?.trim() || null;
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+
+  try {
+    const bandSet = await getActiveBandSet(userId);
+    const report = await getCalibrationReport(client, userId, bandSet.bands);
+    return NextResponse.json({ report, bandSet });
+  } catch (error) {
+    console.error("Failed to build calibration report", { userId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { OutcomeValidationError, recordOutcomes } from "@/lib/outcomes";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+import { readOutcomeImport } from "@/lib/upload/outcomes";
+import { UploadValidationError, detectUploadFormat } from "@/lib/upload/parse";
+
+// The request body is the raw CRM export, like /api/score-leads/upload. The query string
+// carries user_id, filename, format and delimiter.
+export async function POST(request: Request) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("user_id")?.trim() || null;
+    if (!userId) {
+      return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+    }
+    if (!request.body) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+
+    const delimiter = searchParams.get("delimiter");
+    if (delimiter !== null && delimiter.length !== 1) {
+      return NextResponse.json({ error: "delimiter must be a single character" }, { status: 400 });
+    }
+
+    const format = detectUploadFormat(
+      searchParams.get("filename"),
+      request.headers.get("content-type"),
+      searchParams.get("format")
+    );
+    const inputs = await readOutcomeImport(request.body, format, delimiter);
+    const result = await recordOutcomes(client, userId, inputs, "import");
+    return NextResponse.json({ ...result, rows: inputs.length });
+  } catch (error) {
+    if (error instanceof UploadValidationError || error instanceof OutcomeValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to import outcomes", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+
+import { OutcomeValidationError, recordOutcomes } from "@/lib/outcomes";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+const readString = (value: unknown) => (typeof value === "string" ? value : null);
+
+// Body: { user_id, outcomes: [{ run_id | lead_id, outcome, note?, occurred_at? }] }.
+export async function POST(request: Request) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  try {
+    const payload = await request.json();
+    const userId = readString(payload?.user_id)?.trim() || null;
+    if (!userId) {
+      return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+    }
+    if (!Array.isArray(payload?.outcomes) || payload.outcomes.length === 0) {
+      return NextResponse.json({ error: "outcomes must be a non-empty array" }, { status: 400 });
+    }
+
+    const result = await recordOutcomes(
+      client,
+      userId,
+      (payload.outcomes as Array<Record<string, unknown>>).map((entry) => ({
+        runId: readString(entry?.run_id),
+        leadId: readString(entry?.lead_id),
+        outcome: entry?.outcome,
+        note: entry?.note,
+        occurredAt: entry?.occurred_at
+      })),
+      "ui"
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof OutcomeValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to record outcomes", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
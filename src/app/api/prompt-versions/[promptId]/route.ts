@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+
+import { BUILTIN_PROMPTS, isBuiltinPromptId } from "@/lib/ai/prompts";
+import {
+  activateBuiltinPrompt,
+  getActivePrompt,
+  getPromptVersion,
+  setPromptVersionActive
+} from "@/lib/promptVersions";
+
+type Context = {
+  params: {
+    promptId: string;
+  };
+};
+
+const readUserId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { promptId } = await params;
+  const url = new URL(request.url);
+  const userId = readUserId(url.searchParams.get("user_id") ?? url.searchParams.get("userId"));
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const prompt = await getPromptVersion(promptId, userId);
+    if (!prompt) {
+      return NextResponse.json({ error: "Prompt version not found" }, { status: 404 });
+    }
+    return NextResponse.json({ prompt });
+  } catch (error) {
+    console.error("Failed to load prompt version", { promptId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { promptId } = await params;
+
+  try {
+    const payload = await request.json();
+    const userId = readUserId(payload?.user_id);
+
+    if (!userId) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+    if (typeof payload?.isActive !== "boolean") {
+      return NextResponse.json({ error: "isActive must be true or false" }, { status: 400 });
+    }
+
+    // Activating a built-in prompt clears the user's active version for that kind.
+    if (isBuiltinPromptId(promptId)) {
+      if (!payload.isActive) {
+        return NextResponse.json({ error: "Activate another version instead" }, { status: 400 });
+      }
+      const kind = promptId === BUILTIN_PROMPTS.score.id ? "score" : "clean";
+      await activateBuiltinPrompt(userId, kind);
+      return NextResponse.json({ prompt: await getActivePrompt(userId, kind) });
+    }
+
+    const prompt = await setPromptVersionActive(promptId, userId, payload.isActive);
+    if (!prompt) {
+      return NextResponse.json({ error: "Prompt version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ prompt });
+  } catch (error) {
+    console.error("Failed to update prompt version", { promptId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
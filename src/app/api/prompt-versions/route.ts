@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { BUILTIN_PROMPTS } from "@/lib/ai/prompts";
+import {
+  PromptVersionValidationError,
+  createPromptVersion,
+  getActivePrompt,
+  listPromptVersions
+} from "@/lib/promptVersions";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const userId = url.searchParams.get("user_id") ?? url.searchParams.get("userId");
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const [versions, score, clean] = await Promise.all([
+      listPromptVersions(userId),
+      getActivePrompt(userId, "score"),
+      getActivePrompt(userId, "clean")
+    ]);
+    return NextResponse.json({ versions, active: { score, clean }, builtin: BUILTIN_PROMPTS });
+  } catch (error) {
+    console.error("Failed to list prompt versions", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json();
+    const userId = typeof payload?.user_id === "string" && payload.user_id.trim() !== ""
+      ? payload.user_id.trim()
+      : null;
+
+    if (!userId) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+
+    const prompt = await createPromptVersion(userId, {
+      kind: payload?.kind,
+      name: payload?.name,
+      system: payload?.system,
+      guidance: payload?.guidance,
+      isActive: payload?.isActive === true
+    });
+
+    return NextResponse.json({ prompt }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromptVersionValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to create prompt version", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -1,7 +1,12 @@
-import { NextResponse, after } from "next/server";
+import { NextResponse } from "next/server";
 
 import type { LeadInput } from "@/lib/types";
-import { enqueueLeadJob, triggerLeadJob } from "@/lib/jobQueue";
+import { resolveHybridBlend } from "@/lib/ai/hybrid";
+import { parseDedupePolicy } from "@/lib/dedupe";
+import { PromptVersionValidationError, parsePromptVersionPins } from "@/lib/promptVersions";
+import { parseReuseMaxAgeDays } from "@/lib/reuse";
+import { parseScoringMode } from "@/lib/scoreLeads";
+import { enqueueLeadJob, parseJobPriority } from "@/lib/jobQueue";
 
 export async function POST(request: Request) {
   try {
@@ -19,13 +24,20 @@ export async function POST(request: Request) {
     const job = await enqueueLeadJob(leads, {
       useCleaner: payload?.options?.useCleaner !== false,
       saveToSupabase: payload?.options?.saveToSupabase === true,
+      scoringMode: parseScoringMode(payload?.options?.scoringMode),
+      hybrid: resolveHybridBlend(payload?.options?.modelRatio, payload?.options?.reviewThreshold),
+      promptVersionIds: parsePromptVersionPins(payload?.options?.promptVersions),
+      dedupePolicy: parseDedupePolicy(payload?.options?.dedupePolicy),
+      reuseMaxAgeDays: parseReuseMaxAgeDays(payload?.options?.reuseMaxAgeDays),
+      priority: parseJobPriority(payload?.options?.priority),
       userId: authUserId
     });
 
-    after(() => triggerLeadJob(job.id));
-
     return NextResponse.json({ job });
   } catch (error) {
+    if (error instanceof PromptVersionValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Failed to enqueue lead scoring job", error);
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
   }
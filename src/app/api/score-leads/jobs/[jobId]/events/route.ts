@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+
+import { getJobProgress, type JobProgress } from "@/lib/jobQueue";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+const POLL_INTERVAL_MS = Math.max(Number(process.env.JOB_EVENTS_POLL_MS ?? "1000"), 250);
+// Comment lines keep proxies from closing an idle stream.
+const KEEPALIVE_MS = 15000;
+
+type Context = {
+  params: {
+    jobId: string;
+  };
+};
+
+const isFinal = (progress: JobProgress) => progress.job.status === "completed" || progress.job.status === "failed";
+
+// Worker heartbeats bump updatedAt every few seconds; only real changes are pushed.
+const jobKey = (progress: JobProgress) => JSON.stringify({ ...progress.job, updatedAt: 0 });
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+// Server-Sent Events stream of job progress. Each `progress` event carries the job row and
+// the items that changed since the previous one; its id is the cursor, so a reconnecting
+// EventSource resumes where it left off. Ends with `done` once the job is finished.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { jobId } = await params;
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const since = request.headers.get("last-event-id") || new URL(request.url).searchParams.get("since");
+
+  let first: JobProgress | null;
+  try {
+    first = await getJobProgress(client, jobId, since);
+  } catch (error) {
+    console.error("Failed to open job event stream", { jobId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+
+  if (!first) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const signal = request.signal;
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const send = (progress: JobProgress) => {
+        const id = progress.cursor ? `id: ${progress.cursor}\n` : "";
+        write(`${id}event: progress\ndata: ${JSON.stringify(progress)}\n\n`);
+      };
+
+      let progress = first;
+      let lastWriteAt = Date.now();
+      send(progress);
+
+      try {
+        while (!closed && !signal.aborted) {
+          if (isFinal(progress) && !progress.more) {
+            write("event: done\ndata: {}\n\n");
+            break;
+          }
+
+          if (!progress.more) {
+            await sleep(POLL_INTERVAL_MS, signal);
+            if (closed || signal.aborted) {
+              break;
+            }
+          }
+
+          const next = await getJobProgress(client, jobId, progress.cursor);
+          if (!next) {
+            write(`event: stream-error\ndata: ${JSON.stringify({ error: "Job not found" })}\n\n`);
+            break;
+          }
+
+          if (next.items.length > 0 || jobKey(next) !== jobKey(progress)) {
+            send(next);
+            lastWriteAt = Date.now();
+          } else if (Date.now() - lastWriteAt >= KEEPALIVE_MS) {
+            write(": keepalive\n\n");
+            lastWriteAt = Date.now();
+          }
+          progress = next;
+        }
+      } catch (error) {
+        console.error("Job event stream failed", { jobId }, error);
+        write(`event: stream-error\ndata: ${JSON.stringify({ error: (error as Error).message })}\n\n`);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
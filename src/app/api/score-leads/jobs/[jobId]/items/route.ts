@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { getJobSummary, JobQueueValidationError, listJobItems } from "@/lib/jobQueue";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    jobId: string;
+  };
+};
+
+// A page of the job's items in upload order. `status` takes a comma-separated list;
+// `since` keeps only items updated after it, and the first page's `syncToken` is the
+// value to pass next time for an incremental sync.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { jobId } = await params;
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const job = await getJobSummary(client, jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const page = await listJobItems(client, jobId, {
+      status: searchParams.get("status"),
+      cursor: searchParams.get("cursor"),
+      limit: searchParams.get("limit"),
+      since: searchParams.get("since")
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof JobQueueValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to list lead job items", { jobId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
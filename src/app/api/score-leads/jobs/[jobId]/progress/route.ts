@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { getJobProgress } from "@/lib/jobQueue";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    jobId: string;
+  };
+};
+
+// Polling fallback for the event stream: the job row plus items changed after `since`.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { jobId } = await params;
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  try {
+    const since = new URL(request.url).searchParams.get("since");
+    const progress = await getJobProgress(client, jobId, since);
+    if (!progress) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ progress });
+  } catch (error) {
+    console.error("Failed to load job progress", { jobId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { JobQueueValidationError, retryFailedItems } from "@/lib/jobQueue";
+
+type Context = {
+  params: {
+    jobId: string;
+  };
+};
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { jobId } = await params;
+
+  if (!jobId) {
+    return NextResponse.json({ error: "Job ID is required" }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await retryFailedItems(jobId);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job: snapshot });
+  } catch (error) {
+    if (error instanceof JobQueueValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to retry lead job items", { jobId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
-import { NextResponse, after } from "next/server";
+import { NextResponse } from "next/server";
 
-import { getJob, triggerLeadJob } from "@/lib/jobQueue";
+import { getJob } from "@/lib/jobQueue";
 
 type Context = {
   params: {
@@ -19,9 +19,5 @@ export async function GET(
     return NextResponse.json({ error: "Job not found" }, { status: 404 });
   }
 
-  if (job.status !== "completed" && job.status !== "failed" && job.processed < job.total) {
-    after(() => triggerLeadJob(job.id));
-  }
-
   return NextResponse.json({ job });
 }
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { getJobSummary } from "@/lib/jobQueue";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    jobId: string;
+  };
+};
+
+// The job row and its item counts; fetch items separately from /items.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { jobId } = await params;
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  try {
+    const job = await getJobSummary(client, jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Failed to load lead job summary", { jobId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
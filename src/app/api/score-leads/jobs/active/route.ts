@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 
-import { findActiveJobForUser } from "@/lib/jobQueue";
+import { listActiveJobsForUser } from "@/lib/jobQueue";
 
+// `job` is the user's newest queued or running job; `jobs` lists all of them.
 export async function GET(request: Request) {
   const url = new URL(request.url);
   const userId = url.searchParams.get("user_id") ?? url.searchParams.get("userId");
@@ -10,7 +11,7 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: "user_id is required" }, { status: 400 });
   }
 
-  const job = await findActiveJobForUser(userId);
+  const jobs = await listActiveJobsForUser(userId);
 
-  return NextResponse.json({ job });
+  return NextResponse.json({ job: jobs[0] ?? null, jobs });
 }
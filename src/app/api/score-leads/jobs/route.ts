@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { JobQueueValidationError, listJobs } from "@/lib/jobQueue";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+// The user's jobs, newest first, with item counts but no results. Pass `nextCursor` back
+// as `cursor` for the next page.
+export async function GET(request: Request) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const userId = searchParams.get("user_id")?.trim() || null;
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+
+  try {
+    const page = await listJobs(client, userId, {
+      limit: searchParams.get("limit"),
+      cursor: searchParams.get("cursor")
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof JobQueueValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to list lead jobs", { userId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
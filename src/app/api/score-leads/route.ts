@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server";
 
 import type { LeadInput } from "@/lib/types";
-import { scoreLeads } from "@/lib/scoreLeads";
+import { resolveHybridBlend } from "@/lib/ai/hybrid";
+import { parseDedupePolicy } from "@/lib/dedupe";
+import { PromptVersionValidationError, parsePromptVersionPins } from "@/lib/promptVersions";
+import { parseReuseMaxAgeDays } from "@/lib/reuse";
+import { parseScoringMode, scoreLeads } from "@/lib/scoreLeads";
 
 export async function POST(request: Request) {
   try {
@@ -20,11 +24,19 @@ export async function POST(request: Request) {
     const result = await scoreLeads(leads, {
       useCleaner: options.useCleaner !== false,
       saveToSupabase: options?.saveToSupabase === true,
+      scoringMode: parseScoringMode(options?.scoringMode),
+      hybrid: resolveHybridBlend(options?.modelRatio, options?.reviewThreshold),
+      promptVersionIds: parsePromptVersionPins(options?.promptVersions),
+      dedupePolicy: parseDedupePolicy(options?.dedupePolicy),
+      reuseMaxAgeDays: parseReuseMaxAgeDays(options?.reuseMaxAgeDays),
       userId: authUserId
     });
 
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof PromptVersionValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error(error);
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
   }
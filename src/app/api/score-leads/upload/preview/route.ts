@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { findImportTemplate } from "@/lib/importTemplates";
+import { headerSignature, proposeMapping } from "@/lib/leadFields";
+import { UploadValidationError, detectUploadFormat, previewUpload } from "@/lib/upload/parse";
+
+// Takes the same query string as /api/score-leads/upload. Callers may send only the start
+// of a delimited or JSON Lines file; XLSX needs the whole workbook.
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (!request.body) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+
+    const format = detectUploadFormat(
+      searchParams.get("filename"),
+      request.headers.get("content-type"),
+      searchParams.get("format")
+    );
+
+    const delimiter = searchParams.get("delimiter");
+    if (delimiter !== null && delimiter.length !== 1) {
+      return NextResponse.json({ error: "delimiter must be a single character" }, { status: 400 });
+    }
+
+    const preview = await previewUpload(request.body, format, { delimiter });
+    const signature = headerSignature(preview.keys);
+
+    const userId = searchParams.get("user_id")?.trim() || null;
+    const template = userId ? await findImportTemplate(userId, signature) : null;
+
+    return NextResponse.json({
+      format,
+      ...preview,
+      signature,
+      mapping: template?.mapping ?? proposeMapping(preview.keys),
+      template: template ? { id: template.id, name: template.name } : null
+    });
+  } catch (error) {
+    if (error instanceof UploadValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to preview lead upload", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
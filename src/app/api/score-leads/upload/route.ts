@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+
+import { resolveHybridBlend } from "@/lib/ai/hybrid";
+import { parseDedupePolicy } from "@/lib/dedupe";
+import { PromptVersionValidationError, parsePromptVersionPins } from "@/lib/promptVersions";
+import { parseReuseMaxAgeDays } from "@/lib/reuse";
+import { parseScoringMode } from "@/lib/scoreLeads";
+import { ImportTemplateValidationError, validateColumnMapping } from "@/lib/importTemplates";
+import { enqueueLeadUpload, parseJobPriority } from "@/lib/jobQueue";
+import { UploadValidationError, detectUploadFormat } from "@/lib/upload/parse";
+
+// The request body is the raw file so it can be parsed as it streams in. Everything else
+// travels in the query string: user_id, filename, format, delimiter, options (JSON), and an
+// optional column mapping (JSON). Without a mapping, a saved template or the aliases apply.
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (!request.body) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+
+    let options: Record<string, unknown> = {};
+    let rawMapping: unknown = null;
+    try {
+      options = JSON.parse(searchParams.get("options") ?? "{}") ?? {};
+      rawMapping = JSON.parse(searchParams.get("mapping") ?? "null");
+    } catch {
+      return NextResponse.json({ error: "options and mapping must be valid JSON" }, { status: 400 });
+    }
+
+    const format = detectUploadFormat(
+      searchParams.get("filename"),
+      request.headers.get("content-type"),
+      searchParams.get("format")
+    );
+
+    const delimiter = searchParams.get("delimiter");
+    if (delimiter !== null && delimiter.length !== 1) {
+      return NextResponse.json({ error: "delimiter must be a single character" }, { status: 400 });
+    }
+
+    const userId = searchParams.get("user_id")?.trim() || null;
+
+    const { job, upload } = await enqueueLeadUpload(request.body, format, {
+      delimiter,
+      mapping: rawMapping === null ? null : validateColumnMapping(rawMapping),
+      useCleaner: options.useCleaner !== false,
+      saveToSupabase: options.saveToSupabase === true,
+      scoringMode: parseScoringMode(options.scoringMode),
+      hybrid: resolveHybridBlend(options.modelRatio, options.reviewThreshold),
+      promptVersionIds: parsePromptVersionPins(options.promptVersions),
+      dedupePolicy: parseDedupePolicy(options.dedupePolicy),
+      reuseMaxAgeDays: parseReuseMaxAgeDays(options.reuseMaxAgeDays),
+      priority: parseJobPriority(options.priority),
+      userId
+    });
+
+    return NextResponse.json({ job, upload });
+  } catch (error) {
+    if (
+      error instanceof UploadValidationError ||
+      error instanceof PromptVersionValidationError ||
+      error instanceof ImportTemplateValidationError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to process lead upload", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
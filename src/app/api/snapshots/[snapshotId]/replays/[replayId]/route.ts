@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { getReplay } from "@/lib/replays";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    snapshotId: string;
+    replayId: string;
+  };
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { snapshotId, replayId } = await params;
+  const userId = new URL(request.url).searchParams.get("user_id")?.trim() || null;
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+
+  try {
+    const result = await getReplay(client, snapshotId, replayId, userId);
+    if (!result) {
+      return NextResponse.json({ error: "Replay not found" }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to load scoring replay", { replayId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { ReplayValidationError, createReplay } from "@/lib/replays";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    snapshotId: string;
+  };
+};
+
+const readUserId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { snapshotId } = await params;
+
+  try {
+    const payload = await request.json();
+    const userId = readUserId(payload?.user_id);
+    if (!userId) {
+      return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+    }
+
+    const replay = await createReplay(client, snapshotId, userId, {
+      scoringMode: payload?.scoring_mode,
+      model: payload?.model,
+      promptVersionId: payload?.prompt_version_id,
+      weightProfileId: payload?.weight_profile_id
+    });
+    if (!replay) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    // The lead worker (`pnpm worker`) claims and runs it.
+    return NextResponse.json({ replay }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReplayValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to start scoring replay", { snapshotId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
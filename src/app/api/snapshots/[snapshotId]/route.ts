@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { deleteSnapshot, getSnapshot } from "@/lib/replays";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+type Context = {
+  params: {
+    snapshotId: string;
+  };
+};
+
+const readUserId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { snapshotId } = await params;
+  const userId = readUserId(new URL(request.url).searchParams.get("user_id"));
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+
+  try {
+    const snapshot = await getSnapshot(client, snapshotId, userId);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+    return NextResponse.json({ snapshot });
+  } catch (error) {
+    console.error("Failed to load scoring snapshot", { snapshotId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const { snapshotId } = await params;
+
+  try {
+    const payload = await request.json().catch(() => ({}));
+    const userId = readUserId(payload?.user_id);
+    if (!userId) {
+      return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+    }
+
+    const deleted = await deleteSnapshot(client, snapshotId, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Failed to delete scoring snapshot", { snapshotId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
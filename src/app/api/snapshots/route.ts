@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+
+import { ReplayValidationError, createSnapshot, listSnapshotCandidates, listSnapshots } from "@/lib/replays";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+const readUserId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export async function GET(request: Request) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  const userId = readUserId(new URL(request.url).searchParams.get("user_id"));
+  if (!userId) {
+    return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+  }
+
+  try {
+    const [snapshots, jobs] = await Promise.all([
+      listSnapshots(client, userId),
+      listSnapshotCandidates(client, userId)
+    ]);
+    return NextResponse.json({ snapshots, jobs });
+  } catch (error) {
+    console.error("Failed to list scoring snapshots", { userId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return NextResponse.json({ error: "Supabase environment variables missing" }, { status: 500 });
+  }
+
+  try {
+    const payload = await request.json();
+    const userId = readUserId(payload?.user_id);
+    if (!userId) {
+      return NextResponse.json({ error: "Missing user context" }, { status: 401 });
+    }
+    const jobId = typeof payload?.job_id === "string" ? payload.job_id.trim() : "";
+    if (!jobId) {
+      return NextResponse.json({ error: "job_id is required" }, { status: 400 });
+    }
+
+    const snapshot = await createSnapshot(client, jobId, userId, payload?.name);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    return NextResponse.json({ snapshot }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReplayValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to create scoring snapshot", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -3,7 +3,7 @@ import { NextResponse } from "next/server";
 import { getSupabaseAdminClient } from "@/lib/supabase";
 
 type UsageResponse = {
-  usageByDay: Array<{ date: string; cleaning: number; scoring: number }>;
+  usageByDay: Array<{ date: string; cleaning: number; scoring: number; costUsd: number }>;
   jobs: Array<{
     id: string;
     status: string;
@@ -12,14 +12,24 @@ type UsageResponse = {
     createdAt: number;
     updatedAt: number;
     tokens: { cleaning: number; scoring: number; total: number };
+    // Null for jobs recorded before cost tracking.
+    costUsd: number | null;
     userId: string | null;
   }>;
+  leads: Array<{ leadId: string; jobId: string | null; tokens: number; costUsd: number }>;
   totals: {
     cleaning: number;
     scoring: number;
+    costUsd: number;
+    // Tokens from models without a known price.
+    unpricedTokens: number;
   };
 };
 
+const MAX_LEAD_ROWS = 50;
+
+const roundUsd = (value: number) => Number(value.toFixed(6));
+
 const toISODate = (value: Date) => value.toISOString();
 
 export async function GET(request: Request) {
@@ -47,7 +57,7 @@ export async function GET(request: Request) {
 
   const usageQuery = client
     .from("lead_token_usage")
-    .select("created_at, category, total_tokens")
+    .select("created_at, category, total_tokens, cost_usd, lead_id, job_id")
     .gte("created_at", startIso)
     .lte("created_at", endIso)
     .eq("user_id", userId)
@@ -58,8 +68,9 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: usageError.message }, { status: 500 });
   }
 
-  const usageByDayMap = new Map<string, { cleaning: number; scoring: number }>();
-  const totals = { cleaning: 0, scoring: 0 };
+  const usageByDayMap = new Map<string, { cleaning: number; scoring: number; costUsd: number }>();
+  const leadMap = new Map<string, UsageResponse["leads"][number]>();
+  const totals = { cleaning: 0, scoring: 0, costUsd: 0, unpricedTokens: 0 };
 
   (usageRows ?? []).forEach((row) => {
     const created = row.created_at ? new Date(row.created_at) : null;
@@ -68,10 +79,29 @@ export async function GET(request: Request) {
     }
     const dateKey = created.toISOString().slice(0, 10);
     if (!usageByDayMap.has(dateKey)) {
-      usageByDayMap.set(dateKey, { cleaning: 0, scoring: 0 });
+      usageByDayMap.set(dateKey, { cleaning: 0, scoring: 0, costUsd: 0 });
     }
     const bucket = usageByDayMap.get(dateKey)!;
     const tokens = Number(row.total_tokens ?? 0);
+    const cost = row.cost_usd === null || row.cost_usd === undefined ? null : Number(row.cost_usd);
+    if (cost === null) {
+      totals.unpricedTokens += tokens;
+    } else {
+      bucket.costUsd += cost;
+      totals.costUsd += cost;
+    }
+
+    const leadKey = `${row.job_id ?? ""}:${row.lead_id}`;
+    const leadBucket = leadMap.get(leadKey) ?? {
+      leadId: row.lead_id,
+      jobId: row.job_id ?? null,
+      tokens: 0,
+      costUsd: 0
+    };
+    leadBucket.tokens += tokens;
+    leadBucket.costUsd += cost ?? 0;
+    leadMap.set(leadKey, leadBucket);
+
     if (row.category === "clean") {
       bucket.cleaning += tokens;
       totals.cleaning += tokens;
@@ -83,7 +113,17 @@ export async function GET(request: Request) {
 
   const usageByDay = Array.from(usageByDayMap.entries())
     .sort((a, b) => (a[0] < b[0] ? -1 : 1))
-    .map(([date, value]) => ({ date, cleaning: value.cleaning, scoring: value.scoring }));
+    .map(([date, value]) => ({
+      date,
+      cleaning: value.cleaning,
+      scoring: value.scoring,
+      costUsd: roundUsd(value.costUsd)
+    }));
+
+  const leads = Array.from(leadMap.values())
+    .sort((a, b) => b.costUsd - a.costUsd || b.tokens - a.tokens)
+    .slice(0, MAX_LEAD_ROWS)
+    .map((lead) => ({ ...lead, costUsd: roundUsd(lead.costUsd) }));
 
   let jobQuery = client
     .from("lead_jobs")
@@ -105,6 +145,12 @@ export async function GET(request: Request) {
     const metadataUsage = job.metadata?.usage ?? null;
     const cleaning = metadataUsage?.cleaning?.totalTokens ?? 0;
     const scoring = metadataUsage?.scoring?.totalTokens ?? 0;
+    const cleaningCost = metadataUsage?.cleaning?.costUsd;
+    const scoringCost = metadataUsage?.scoring?.costUsd;
+    const costUsd =
+      typeof cleaningCost === "number" || typeof scoringCost === "number"
+        ? roundUsd((cleaningCost ?? 0) + (scoringCost ?? 0))
+        : null;
     return {
       id: job.id,
       status: job.status,
@@ -117,6 +163,7 @@ export async function GET(request: Request) {
         scoring,
         total: cleaning + scoring
       },
+      costUsd,
       userId: job.user_id ?? null
     };
   });
@@ -124,7 +171,8 @@ export async function GET(request: Request) {
   const payload: UsageResponse = {
     usageByDay,
     jobs,
-    totals
+    leads,
+    totals: { ...totals, costUsd: roundUsd(totals.costUsd) }
   };
 
   return NextResponse.json(payload);
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+
+import {
+  WeightProfileValidationError,
+  deleteWeightProfile,
+  getWeightProfile,
+  updateWeightProfile
+} from "@/lib/weightProfiles";
+
+type Context = {
+  params: {
+    profileId: string;
+  };
+};
+
+const readUserId = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { profileId } = await params;
+  const url = new URL(request.url);
+  const userId = readUserId(url.searchParams.get("user_id") ?? url.searchParams.get("userId"));
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const profile = await getWeightProfile(profileId, userId);
+    if (!profile) {
+      return NextResponse.json({ error: "Weight profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Failed to load weight profile", { profileId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { profileId } = await params;
+
+  try {
+    const payload = await request.json();
+    const userId = readUserId(payload?.user_id);
+
+    if (!userId) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+
+    const profile = await updateWeightProfile(profileId, userId, {
+      name: payload?.name,
+      priority: payload?.priority,
+      isDefault: payload?.isDefault,
+      weights: payload?.weights,
+      matchRules: payload?.matchRules
+    });
+
+    if (!profile) {
+      return NextResponse.json({ error: "Weight profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    if (error instanceof WeightProfileValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to update weight profile", { profileId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<Context["params"]> }
+) {
+  const { profileId } = await params;
+  const url = new URL(request.url);
+  const userId = readUserId(url.searchParams.get("user_id") ?? url.searchParams.get("userId"));
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteWeightProfile(profileId, userId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Weight profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Failed to delete weight profile", { profileId }, error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
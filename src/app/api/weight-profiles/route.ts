@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { BUILTIN_WEIGHT_PROFILES } from "@/lib/ai/scoring";
+import {
+  WeightProfileValidationError,
+  createWeightProfile,
+  listWeightProfiles
+} from "@/lib/weightProfiles";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const userId = url.searchParams.get("user_id") ?? url.searchParams.get("userId");
+
+  if (!userId) {
+    return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+  }
+
+  try {
+    const profiles = await listWeightProfiles(userId);
+    return NextResponse.json({ profiles, builtin: BUILTIN_WEIGHT_PROFILES });
+  } catch (error) {
+    console.error("Failed to list weight profiles", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json();
+    const userId = typeof payload?.user_id === "string" && payload.user_id.trim() !== ""
+      ? payload.user_id.trim()
+      : null;
+
+    if (!userId) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+
+    const profile = await createWeightProfile(userId, {
+      name: payload?.name,
+      priority: payload?.priority,
+      isDefault: payload?.isDefault,
+      weights: payload?.weights,
+      matchRules: payload?.matchRules
+    });
+
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WeightProfileValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to create weight profile", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { DashboardNav } from "@/components/DashboardNav";
+import { DEFAULT_INTERPRETATION_BANDS, type BandSet } from "@/lib/bands";
+import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+import type { InterpretationBand } from "@/lib/types";
+
+type BandSetDraft = {
+  id: string | null;
+  name: string;
+  bands: InterpretationBand[];
+};
+
+const EMPTY_DRAFT: BandSetDraft = {
+  id: null,
+  name: "",
+  bands: DEFAULT_INTERPRETATION_BANDS.map((band) => ({ ...band }))
+};
+
+const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
+const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
+
+const inputClass =
+  "w-full rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)] focus:ring-1 focus:ring-[color:var(--accent)]/50";
+
+export default function BandSetsPage() {
+  const router = useRouter();
+  const supabase = useMemo(() => getSupabaseBrowserClient(), []);
+
+  const [authChecked, setAuthChecked] = useState(false);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [bandSets, setBandSets] = useState<BandSet[]>([]);
+  const [activeBandSet, setActiveBandSet] = useState<BandSet | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BandSetDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      const session = data.session;
+      if (!session) {
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setAuthChecked(false);
+        setCurrentEmail(null);
+        setCurrentUserId(null);
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [router, supabase]);
+
+  const fetchBandSets = useCallback(async () => {
+    if (!currentUserId) {
+      setBandSets([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/band-sets?user_id=${encodeURIComponent(currentUserId)}`);
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to load band sets");
+      }
+      const payload = (await response.json()) as { bandSets: BandSet[]; active: BandSet };
+      setBandSets(payload.bandSets ?? []);
+      setActiveBandSet(payload.active ?? null);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load band sets");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (!authChecked || !currentUserId) {
+      return;
+    }
+    void fetchBandSets();
+  }, [authChecked, currentUserId, fetchBandSets]);
+
+  const handleSignOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthChecked(false);
+    setCurrentEmail(null);
+    setCurrentUserId(null);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+    }
+    router.replace("/");
+  }, [router, supabase]);
+
+  const sendRequest = useCallback(
+    async (url: string, init: RequestInit, fallbackMessage: string) => {
+      setError(null);
+      try {
+        const response = await fetch(url, init);
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({}));
+          throw new Error(payload?.error ?? fallbackMessage);
+        }
+        await fetchBandSets();
+        return true;
+      } catch (requestError) {
+        setError(requestError instanceof Error ? requestError.message : fallbackMessage);
+        return false;
+      }
+    },
+    [fetchBandSets]
+  );
+
+  const handleSave = useCallback(async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentUserId) {
+      return;
+    }
+    setSaving(true);
+    const saved = await sendRequest(
+      draft.id ? `/api/band-sets/${draft.id}` : "/api/band-sets",
+      {
+        method: draft.id ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ user_id: currentUserId, name: draft.name, bands: draft.bands })
+      },
+      "Failed to save band set"
+    );
+    if (saved) {
+      setDraft(EMPTY_DRAFT);
+    }
+    setSaving(false);
+  }, [currentUserId, draft, sendRequest]);
+
+  const handleActivate = useCallback(async (bandSetId: string) => {
+    if (!currentUserId) {
+      return;
+    }
+    await sendRequest(
+      `/api/band-sets/${bandSetId}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ user_id: currentUserId, isActive: true })
+      },
+      "Failed to activate band set"
+    );
+  }, [currentUserId, sendRequest]);
+
+  const handleDelete = useCallback(async (bandSetId: string) => {
+    if (!currentUserId) {
+      return;
+    }
+    await sendRequest(
+      `/api/band-sets/${bandSetId}?user_id=${encodeURIComponent(currentUserId)}`,
+      { method: "DELETE" },
+      "Failed to delete band set"
+    );
+    if (draft.id === bandSetId) {
+      setDraft(EMPTY_DRAFT);
+    }
+  }, [currentUserId, draft.id, sendRequest]);
+
+  const updateBand = (index: number, patch: Partial<InterpretationBand>) => {
+    setDraft((prev) => ({
+      ...prev,
+      bands: prev.bands.map((band, bandIndex) => (bandIndex === index ? { ...band, ...patch } : band))
+    }));
+  };
+
+  if (!authChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)] transition-colors">
+        <p className="text-sm text-[var(--muted)]">Checking authentication…</p>
+      </div>
+    );
+  }
+
+  const secondaryButton = "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs font-medium text-[var(--foreground)] shadow-sm transition hover:border-[var(--accent)] hover:bg-[var(--surface-subtle)]";
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--foreground)] transition-colors">
+      <main className="mx-auto flex max-w-5xl flex-col gap-8 px-6 py-10">
+        <header className="space-y-4">
+          <div className="flex justify-end">
+            <DashboardNav onSignOut={handleSignOut}>
+              {currentEmail ? (
+                <span className="rounded-full border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]">
+                  Signed in as {currentEmail}
+                </span>
+              ) : null}
+            </DashboardNav>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold text-[var(--foreground)]">Score bands</h1>
+            <p className="text-sm text-[var(--muted)]">
+              Bands turn final scores into tiers and next actions. The active set applies to new scoring runs, the saved
+              leads filters, and exports.
+            </p>
+            <p className="text-xs text-[var(--muted)]">
+              Active: {activeBandSet ? activeBandSet.name : "Default"}
+            </p>
+          </div>
+        </header>
+
+        {error ? (
+          <section className="rounded-lg border border-[color:var(--error)] bg-[color:var(--error)]/10 p-4 text-sm text-[color:var(--error)]">
+            {error}
+          </section>
+        ) : null}
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">
+            {draft.id ? `Edit ${draft.name || "band set"}` : "New band set"}
+          </h2>
+          <form className="mt-4 space-y-4" onSubmit={handleSave}>
+            <label className="flex flex-col gap-2 text-xs uppercase text-[var(--muted)]">
+              Name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                className={inputClass}
+                placeholder="Q3 outbound tiers"
+                required
+              />
+            </label>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_6rem_5rem_2fr_auto] gap-2 text-xs uppercase text-[var(--muted)]">
+                <span>Label</span>
+                <span>Min score</span>
+                <span>Color</span>
+                <span>Recommended action</span>
+                <span />
+              </div>
+              {draft.bands.map((band, index) => (
+                <div key={index} className="grid grid-cols-[1fr_6rem_5rem_2fr_auto] gap-2">
+                  <input
+                    type="text"
+                    value={band.label}
+                    onChange={(event) => updateBand(index, { label: event.target.value })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    value={band.min}
+                    onChange={(event) => updateBand(index, { min: Number(event.target.value) })}
+                    className={inputClass}
+                  />
+                  <input
+                    type="color"
+                    value={band.color}
+                    onChange={(event) => updateBand(index, { color: event.target.value })}
+                    className="h-full w-full rounded-md border border-[var(--border)] bg-[var(--surface)]"
+                  />
+                  <input
+                    type="text"
+                    value={band.action}
+                    onChange={(event) => updateBand(index, { action: event.target.value })}
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    className={secondaryButton}
+                    onClick={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        bands: prev.bands.filter((_, bandIndex) => bandIndex !== index)
+                      }))
+                    }
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className={secondaryButton}
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    bands: [...prev.bands, { label: "", min: 0, color: "#64748b", action: "" }]
+                  }))
+                }
+              >
+                Add band
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium transition ${
+                  saving
+                    ? "cursor-progress border border-[var(--border)] bg-[var(--surface-subtle)] text-[var(--muted)]"
+                    : "border border-[var(--accent)] bg-[var(--accent)] text-[var(--accent-contrast)] hover:bg-[var(--accent-hover)]"
+                }`}
+              >
+                {saving ? "Saving…" : draft.id ? "Save changes" : "Create band set"}
+              </button>
+              {draft.id ? (
+                <button type="button" className={secondaryButton} onClick={() => setDraft(EMPTY_DRAFT)}>
+                  Cancel edit
+                </button>
+              ) : null}
+            </div>
+          </form>
+        </section>
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">Your band sets</h2>
+          {loading ? (
+            <p className="mt-4 text-sm text-[var(--muted)]">Loading band sets…</p>
+          ) : bandSets.length === 0 ? (
+            <p className="mt-4 text-sm text-[var(--muted)]">
+              No custom band sets yet. Scores use the default Hot / Qualified / Borderline / Cold Dead tiers.
+            </p>
+          ) : (
+            <ul className="mt-4 space-y-3">
+              {bandSets.map((bandSet) => (
+                <li key={bandSet.id} className="rounded-md border border-[var(--border-muted)] px-4 py-3">
+                  <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                    <p className="text-sm font-medium text-[var(--foreground)]">
+                      {bandSet.name}
+                      {bandSet.isActive ? (
+                        <span className="ml-2 text-xs text-[var(--accent)]">Active</span>
+                      ) : null}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {!bandSet.isActive ? (
+                        <button
+                          type="button"
+                          className={secondaryButton}
+                          onClick={() => bandSet.id && void handleActivate(bandSet.id)}
+                        >
+                          Activate
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        className={secondaryButton}
+                        onClick={() =>
+                          setDraft({
+                            id: bandSet.id,
+                            name: bandSet.name,
+                            bands: bandSet.bands.map((band) => ({ ...band }))
+                          })
+                        }
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className={secondaryButton}
+                        onClick={() => bandSet.id && void handleDelete(bandSet.id)}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {bandSet.bands.map((band) => (
+                      <span
+                        key={band.label}
+                        className="rounded-full border px-2 py-0.5 text-xs font-medium"
+                        style={{ borderColor: band.color, color: band.color }}
+                        title={band.action}
+                      >
+                        {band.label} ≥ {band.min}
+                      </span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState, type ChangeEvent } from "react";
+import { useRouter } from "next/navigation";
+
+import { DashboardNav } from "@/components/DashboardNav";
+import type { CalibrationBucket, CalibrationReport } from "@/lib/calibration";
+import type { OutcomeRecordResult } from "@/lib/outcomes";
+import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+
+const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
+const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
+
+const formatRate = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const cardClass = "rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors";
+
+function BucketTable({ title, buckets }: { title: string; buckets: CalibrationBucket[] }) {
+  return (
+    <table className="min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+      <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+        <tr>
+          <th scope="col" className="px-4 py-3 font-medium">{title}</th>
+          <th scope="col" className="px-4 py-3 font-medium">Leads</th>
+          <th scope="col" className="px-4 py-3 font-medium">Meeting or won</th>
+          <th scope="col" className="px-4 py-3 font-medium">Won</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-[var(--border-muted)]">
+        {buckets.map((bucket) => (
+          <tr key={bucket.key}>
+            <td className="px-4 py-3 font-medium text-[var(--foreground)]">{bucket.label}</td>
+            <td className="px-4 py-3 text-[var(--muted)]">{bucket.leads}</td>
+            <td className="px-4 py-3 text-[var(--muted)]">
+              {formatRate(bucket.conversionRate)}
+              {bucket.leads > 0 ? <span className="text-xs"> ({bucket.converted})</span> : null}
+            </td>
+            <td className="px-4 py-3 text-[var(--muted)]">
+              {formatRate(bucket.winRate)}
+              {bucket.leads > 0 ? <span className="text-xs"> ({bucket.won})</span> : null}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function CalibrationPage() {
+  const router = useRouter();
+  const supabase = useMemo(() => getSupabaseBrowserClient(), []);
+
+  const [authChecked, setAuthChecked] = useState(false);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<(OutcomeRecordResult & { rows: number }) | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      const session = data.session;
+      if (!session) {
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setAuthChecked(false);
+        setCurrentEmail(null);
+        setCurrentUserId(null);
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [router, supabase]);
+
+  const fetchReport = useCallback(async () => {
+    if (!currentUserId) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ user_id: currentUserId });
+      const response = await fetch(`/api/outcomes/calibration?${params.toString()}`);
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to load calibration report");
+      }
+      setReport((payload as { report: CalibrationReport }).report);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load calibration report");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (!authChecked || !currentUserId) {
+      return;
+    }
+    fetchReport();
+  }, [authChecked, currentUserId, fetchReport]);
+
+  const handleImport = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file || !currentUserId) {
+        return;
+      }
+      setImporting(true);
+      setError(null);
+      setImportResult(null);
+      try {
+        const params = new URLSearchParams({ user_id: currentUserId, filename: file.name });
+        const response = await fetch(`/api/outcomes/import?${params.toString()}`, {
+          method: "POST",
+          headers: { "Content-Type": file.type || "application/octet-stream" },
+          body: file
+        });
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(payload?.error ?? "Failed to import outcomes");
+        }
+        setImportResult(payload as OutcomeRecordResult & { rows: number });
+        await fetchReport();
+      } catch (importError) {
+        setError(importError instanceof Error ? importError.message : "Failed to import outcomes");
+      } finally {
+        setImporting(false);
+      }
+    },
+    [currentUserId, fetchReport]
+  );
+
+  const handleSignOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthChecked(false);
+    setCurrentEmail(null);
+    setCurrentUserId(null);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+    }
+    router.replace("/");
+  }, [router, supabase]);
+
+  if (!authChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)] transition-colors">
+        <p className="text-sm text-[var(--muted)]">Checking authentication…</p>
+      </div>
+    );
+  }
+
+  const totals = report?.totals ?? null;
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--foreground)] transition-colors">
+      <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-10">
+        <header className="space-y-4">
+          <div className="flex justify-end">
+            <DashboardNav onSignOut={handleSignOut}>
+              {currentEmail ? (
+                <span className="rounded-full border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]">
+                  Signed in as {currentEmail}
+                </span>
+              ) : null}
+            </DashboardNav>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold">Score calibration</h1>
+            <p className="text-sm text-[var(--muted)]">
+              How often scored leads turned into meetings and wins. Record outcomes on a lead&apos;s detail page, or import a
+              CRM export with a <code>run_id</code> or <code>lead_id</code> column and an <code>outcome</code> column
+              (contacted, meeting booked, won, lost, bad data), plus optional <code>note</code> and <code>date</code>.
+            </p>
+          </div>
+        </header>
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <div className="flex flex-wrap items-center gap-3">
+            <label
+              className={`cursor-pointer rounded-md border border-[var(--accent)] bg-[var(--accent)] px-3 py-1.5 text-sm font-medium text-[var(--accent-contrast)] hover:bg-[var(--accent-hover)] ${
+                importing ? "cursor-progress opacity-60" : ""
+              }`}
+            >
+              {importing ? "Importing…" : "Import outcomes"}
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,.jsonl,.ndjson"
+                className="hidden"
+                disabled={importing}
+                onChange={handleImport}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => void fetchReport()}
+              className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1.5 text-sm text-[var(--foreground)] shadow-sm hover:border-[var(--accent)]"
+            >
+              Refresh
+            </button>
+          </div>
+          {importResult ? (
+            <div className="mt-3 space-y-1 text-sm text-[var(--muted)]">
+              <p>
+                Recorded {importResult.recorded} of {importResult.rows} rows.
+                {importResult.unmatched.length > 0
+                  ? ` ${importResult.unmatched.length} ids had no saved run: ${importResult.unmatched.slice(0, 5).join(", ")}${
+                      importResult.unmatched.length > 5 ? "…" : ""
+                    }`
+                  : ""}
+              </p>
+              {importResult.invalid.slice(0, 5).map((entry) => (
+                <p key={entry.row} className="text-xs" style={{ color: "var(--warning)" }}>
+                  Row {entry.row}: {entry.error}
+                </p>
+              ))}
+            </div>
+          ) : null}
+          {error ? (
+            <p className="mt-3 text-sm" style={{ color: "var(--error)" }}>
+              {error}
+            </p>
+          ) : null}
+        </section>
+
+        {loading ? (
+          <p className="text-sm text-[var(--muted)]">Loading calibration report…</p>
+        ) : report && totals ? (
+          <>
+            <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <article className={cardClass}>
+                <p className="text-xs uppercase text-[var(--muted)]">Leads with outcomes</p>
+                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">{totals.withOutcome}</p>
+                <p className="text-xs text-[var(--muted)]">
+                  {totals.open} still open · {totals.badData} bad data
+                </p>
+              </article>
+              <article className={cardClass}>
+                <p className="text-xs uppercase text-[var(--muted)]">Resolved</p>
+                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">{totals.resolved}</p>
+                <p className="text-xs text-[var(--muted)]">Reached a meeting, a win or a loss</p>
+              </article>
+              <article className={cardClass}>
+                <p className="text-xs uppercase text-[var(--muted)]">Meeting or won</p>
+                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                  {formatRate(totals.resolved > 0 ? totals.converted / totals.resolved : null)}
+                </p>
+                <p className="text-xs text-[var(--muted)]">{totals.converted} leads</p>
+              </article>
+              <article className={cardClass}>
+                <p className="text-xs uppercase text-[var(--muted)]">Won</p>
+                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                  {formatRate(totals.resolved > 0 ? totals.won / totals.resolved : null)}
+                </p>
+                <p className="text-xs text-[var(--muted)]">{totals.won} leads</p>
+              </article>
+            </section>
+
+            <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors">
+              <h2 className="border-b border-[var(--border-muted)] px-4 py-3 text-lg font-semibold text-[var(--foreground)]">
+                By band
+              </h2>
+              <p className="px-4 pt-3 text-xs text-[var(--muted)]">
+                Bands come from the model&apos;s score under the active band set; manual overrides are ignored.
+              </p>
+              <div className="overflow-x-auto">
+                <BucketTable title="Band" buckets={report.bands} />
+              </div>
+            </section>
+
+            <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors">
+              <h2 className="border-b border-[var(--border-muted)] px-4 py-3 text-lg font-semibold text-[var(--foreground)]">
+                By weight profile
+              </h2>
+              <div className="overflow-x-auto">
+                <BucketTable title="Profile" buckets={report.profiles} />
+              </div>
+            </section>
+
+            <section className="grid gap-4 lg:grid-cols-2">
+              {report.factors.map((factor) => (
+                <article
+                  key={factor.id}
+                  className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors"
+                >
+                  <h2 className="border-b border-[var(--border-muted)] px-4 py-3 text-sm font-semibold text-[var(--foreground)]">
+                    {factor.label}
+                  </h2>
+                  <div className="overflow-x-auto">
+                    <BucketTable title="Factor score" buckets={factor.buckets} />
+                  </div>
+                </article>
+              ))}
+            </section>
+
+            <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">Suggested weight adjustments</h2>
+              <p className="mt-1 text-sm text-[var(--muted)]">
+                Each factor&apos;s weight is nudged by how much higher converted leads scored on it, then the final scores
+                are recomputed. AUC is the chance a converted lead outscores one that didn&apos;t. Apply a suggestion on the{" "}
+                <Link href="/dashboard/weights" className="text-[var(--accent)] underline">
+                  scoring weights
+                </Link>{" "}
+                page.
+              </p>
+              {report.suggestions.length === 0 ? (
+                <p className="mt-4 text-sm text-[var(--muted)]">
+                  Not enough resolved leads yet. A profile needs at least 30, with 5 or more on each side.
+                </p>
+              ) : (
+                <div className="mt-4 space-y-6">
+                  {report.suggestions.map((suggestion) => (
+                    <div key={suggestion.profile} className="space-y-2">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <h3 className="font-semibold text-[var(--foreground)]">
+                          {suggestion.profile} <span className="text-xs text-[var(--muted)]">({suggestion.leads} leads)</span>
+                        </h3>
+                        <p className="text-xs text-[var(--muted)]">
+                          AUC {suggestion.currentAuc.toFixed(3)} → {suggestion.suggestedAuc.toFixed(3)}
+                          {suggestion.suggestedWeights ? "" : " · current weights already do as well; no change suggested"}
+                        </p>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                          <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                            <tr>
+                              <th scope="col" className="px-4 py-2 font-medium">Factor</th>
+                              <th scope="col" className="px-4 py-2 font-medium">Converted avg</th>
+                              <th scope="col" className="px-4 py-2 font-medium">Others avg</th>
+                              <th scope="col" className="px-4 py-2 font-medium">Current weight</th>
+                              <th scope="col" className="px-4 py-2 font-medium">Suggested</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-[var(--border-muted)]">
+                            {suggestion.factors.map((factor) => (
+                              <tr key={factor.id}>
+                                <td className="px-4 py-2 text-[var(--foreground)]">{factor.label}</td>
+                                <td className="px-4 py-2 text-[var(--muted)]">{factor.convertedMean.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-[var(--muted)]">{factor.otherMean.toFixed(2)}</td>
+                                <td className="px-4 py-2 text-[var(--muted)]">{factor.current.toFixed(2)}</td>
+                                <td
+                                  className="px-4 py-2 font-medium"
+                                  style={{
+                                    color:
+                                      !suggestion.suggestedWeights || factor.suggested === factor.current
+                                        ? "var(--muted)"
+                                        : factor.suggested > factor.current
+                                          ? "var(--success)"
+                                          : "var(--error)"
+                                  }}
+                                >
+                                  {suggestion.suggestedWeights ? factor.suggested.toFixed(2) : "—"}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {report.insufficient.length > 0 ? (
+                <p className="mt-4 text-xs text-[var(--muted)]">
+                  Too few resolved leads for a suggestion:{" "}
+                  {report.insufficient.map((entry) => `${entry.profile} (${entry.leads})`).join(", ")}
+                </p>
+              ) : null}
+            </section>
+          </>
+        ) : null}
+      </main>
+    </div>
+  );
+}
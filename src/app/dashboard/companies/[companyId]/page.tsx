@@ -0,0 +1,316 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { DashboardNav } from "@/components/DashboardNav";
+import type { CompanyHistory, CompanyRunChange } from "@/lib/companies";
+import { factorLabel } from "@/lib/factors";
+import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+
+const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
+const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
+
+const formatDelta = (value: number | null, digits = 2) => {
+  if (value === null) {
+    return "—";
+  }
+  if (value === 0) {
+    return "±0";
+  }
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+};
+
+const deltaColor = (value: number | null) =>
+  value === null || value === 0 ? "var(--muted)" : value > 0 ? "var(--success)" : "var(--error)";
+
+const changedFactors = (change: CompanyRunChange) =>
+  Object.entries(change.factorDeltas).filter(([, value]) => value !== 0);
+
+export default function CompanyHistoryPage() {
+  const router = useRouter();
+  const { companyId } = useParams<{ companyId: string }>();
+  const supabase = useMemo(() => getSupabaseBrowserClient(), []);
+
+  const [authChecked, setAuthChecked] = useState(false);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [history, setHistory] = useState<CompanyHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      const session = data.session;
+      if (!session) {
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setAuthChecked(false);
+        setCurrentEmail(null);
+        setCurrentUserId(null);
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [router, supabase]);
+
+  const fetchHistory = useCallback(async () => {
+    if (!currentUserId || !companyId) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ user_id: currentUserId });
+      const response = await fetch(`/api/companies/${companyId}?${params.toString()}`);
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to load company history");
+      }
+      setHistory((await response.json()) as CompanyHistory);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load company history");
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, currentUserId]);
+
+  useEffect(() => {
+    if (!authChecked || !currentUserId) {
+      return;
+    }
+    fetchHistory();
+  }, [authChecked, currentUserId, fetchHistory]);
+
+  const handleSignOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthChecked(false);
+    setCurrentEmail(null);
+    setCurrentUserId(null);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+    }
+    router.replace("/");
+  }, [router, supabase]);
+
+  if (!authChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)] transition-colors">
+        <p className="text-sm text-[var(--muted)]">Checking authentication…</p>
+      </div>
+    );
+  }
+
+  const runs = history?.runs ?? [];
+  const latest = runs[runs.length - 1] ?? null;
+  const first = runs[0] ?? null;
+  // Newest change first, keyed by the run it leads to.
+  const changes = [...(history?.changes ?? [])].reverse();
+  const runsById = new Map(runs.map((run) => [run.id, run]));
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--foreground)] transition-colors">
+      <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-10">
+        <header className="space-y-4">
+          <div className="flex justify-end">
+            <DashboardNav onSignOut={handleSignOut}>
+              {currentEmail ? (
+                <span className="rounded-full border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]">
+                  Signed in as {currentEmail}
+                </span>
+              ) : null}
+            </DashboardNav>
+          </div>
+          <div className="space-y-1">
+            <Link href="/dashboard/saved" className="text-xs text-[var(--accent)] underline">
+              Back to saved leads
+            </Link>
+            <h1 className="text-3xl font-semibold">{history?.company.name ?? "Company history"}</h1>
+            {history ? (
+              <p className="text-sm text-[var(--muted)]">
+                {[history.company.domain, history.company.mapsPlaceId ? `Maps place ${history.company.mapsPlaceId}` : null]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            ) : null}
+          </div>
+        </header>
+
+        {error ? (
+          <p className="text-sm" style={{ color: "var(--error)" }}>
+            {error}
+          </p>
+        ) : null}
+
+        {loading ? (
+          <p className="text-sm text-[var(--muted)]">Loading history…</p>
+        ) : history ? (
+          <>
+            <section className="grid gap-4 sm:grid-cols-3">
+              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                <p className="text-xs uppercase text-[var(--muted)]">Latest score</p>
+                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                  {latest ? latest.finalScore.toFixed(2) : "—"}
+                </p>
+                <p className="text-xs" style={{ color: latest?.band?.color }}>
+                  {latest?.band?.label ?? latest?.interpretation ?? ""}
+                </p>
+              </article>
+              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                <p className="text-xs uppercase text-[var(--muted)]">Change since first run</p>
+                <p
+                  className="mt-2 text-2xl font-semibold"
+                  style={{ color: deltaColor(latest && first ? latest.finalScore - first.finalScore : null) }}
+                >
+                  {latest && first && runs.length > 1 ? formatDelta(latest.finalScore - first.finalScore) : "—"}
+                </p>
+                <p className="text-xs text-[var(--muted)]">
+                  {runs.length} run{runs.length === 1 ? "" : "s"}
+                  {first ? ` since ${new Date(first.createdAt).toLocaleDateString()}` : ""}
+                </p>
+              </article>
+              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                <p className="text-xs uppercase text-[var(--muted)]">Reviews</p>
+                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                  {latest?.reviewRating !== null && latest?.reviewRating !== undefined
+                    ? latest.reviewRating.toFixed(1)
+                    : "—"}
+                </p>
+                <p className="text-xs text-[var(--muted)]">
+                  {latest?.reviewCount !== null && latest?.reviewCount !== undefined
+                    ? `${latest.reviewCount.toLocaleString()} reviews`
+                    : "No review count"}
+                </p>
+              </article>
+            </section>
+
+            <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">Score over time</h2>
+              {runs.length === 0 ? (
+                <p className="mt-4 text-sm text-[var(--muted)]">No saved runs are linked to this company yet.</p>
+              ) : (
+                <div className="mt-4 space-y-3">
+                  {runs.map((run) => (
+                    <div key={run.id} className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-[var(--muted)]">
+                        <Link href={`/dashboard/leads/${run.id}`} className="hover:text-[var(--accent)] hover:underline">
+                          {new Date(run.createdAt).toLocaleString()}
+                        </Link>
+                        <span>
+                          {run.finalScore.toFixed(2)} · {run.band?.label ?? run.interpretation}
+                          {run.scoringMode ? ` · ${run.scoringMode}` : ""}
+                          {run.overridden ? ` · overridden (model ${run.modelFinalScore.toFixed(2)})` : ""}
+                        </span>
+                      </div>
+                      <div className="relative h-3 overflow-hidden rounded-full bg-[var(--surface-subtle)]">
+                        <div
+                          className="absolute inset-y-0 left-0"
+                          style={{
+                            width: `${Math.min(Math.max(run.finalScore * 10, 2), 100)}%`,
+                            backgroundColor: run.band?.color ?? "var(--accent)"
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors">
+              <h2 className="border-b border-[var(--border-muted)] px-4 py-3 text-lg font-semibold text-[var(--foreground)]">
+                Changes between runs
+              </h2>
+              {changes.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-[var(--muted)]">Score this company again to see what changed.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                    <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 font-medium">Run</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Final score</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Band</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Factors</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Rating</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Review count</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Website</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border-muted)]">
+                      {changes.map((change) => {
+                        const run = runsById.get(change.toRunId);
+                        const factors = changedFactors(change);
+                        return (
+                          <tr key={change.toRunId} className="align-top">
+                            <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                              {run ? new Date(run.createdAt).toLocaleString() : change.toRunId}
+                            </td>
+                            <td className="px-4 py-3 font-medium" style={{ color: deltaColor(change.finalScoreDelta) }}>
+                              {formatDelta(change.finalScoreDelta)}
+                            </td>
+                            <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                              {change.bandChange ? `${change.bandChange.from} → ${change.bandChange.to}` : "Unchanged"}
+                            </td>
+                            <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                              {factors.length === 0 ? (
+                                "Unchanged"
+                              ) : (
+                                <dl className="space-y-0.5">
+                                  {factors.map(([factor, value]) => (
+                                    <div key={factor} className="flex justify-between gap-3">
+                                      <dt>{factorLabel(factor)}</dt>
+                                      <dd className="font-medium" style={{ color: deltaColor(value) }}>
+                                        {value === null ? "added/removed" : formatDelta(value, 0)}
+                                      </dd>
+                                    </div>
+                                  ))}
+                                </dl>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-xs" style={{ color: deltaColor(change.reviewRatingDelta) }}>
+                              {formatDelta(change.reviewRatingDelta, 1)}
+                            </td>
+                            <td className="px-4 py-3 text-xs" style={{ color: deltaColor(change.reviewCountDelta) }}>
+                              {formatDelta(change.reviewCountDelta, 0)}
+                            </td>
+                            <td className="px-4 py-3 text-xs" style={{ color: deltaColor(change.websiteScoreDelta) }}>
+                              {formatDelta(change.websiteScoreDelta, 1)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          </>
+        ) : null}
+      </main>
+    </div>
+  );
+}
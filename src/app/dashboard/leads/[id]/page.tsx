@@ -0,0 +1,727 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { DashboardNav } from "@/components/DashboardNav";
+import type { LeadRunAudit } from "@/lib/leadRuns";
+import { LEAD_OUTCOMES, type OutcomeEvent } from "@/lib/outcomes";
+import type { OverrideAuditEntry } from "@/lib/overrides";
+import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+import type { InterpretationBand } from "@/lib/types";
+
+type LeadRunAuditResponse = LeadRunAudit & {
+  overrides: OverrideAuditEntry[];
+  outcomes: OutcomeEvent[];
+  bands: InterpretationBand[];
+  current_band: InterpretationBand;
+  model_band: InterpretationBand;
+};
+
+const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
+const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
+
+const CLEANED_FIELDS = [
+  { key: "company", label: "Company" },
+  { key: "industry", label: "Industry" },
+  { key: "website", label: "Website" },
+  { key: "location", label: "Location" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "maps_url", label: "Maps URL" },
+  { key: "years_in_business", label: "Years in business" },
+  { key: "notes", label: "Notes" }
+] as const;
+
+const WEBSITE_BONUSES = [
+  { key: "pricing", label: "Pricing or plans page" },
+  { key: "booking", label: "Online booking" },
+  { key: "cta", label: "Call to action" }
+] as const;
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "—" : String(value);
+
+const inputClass =
+  "w-full rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)] focus:ring-1 focus:ring-[color:var(--accent)]/50";
+
+const cardClass = "rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors";
+
+export default function LeadAuditPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const supabase = useMemo(() => getSupabaseBrowserClient(), []);
+
+  const [authChecked, setAuthChecked] = useState(false);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [audit, setAudit] = useState<LeadRunAuditResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Blank interpretation lets the band follow the (overridden) score; blank factors keep the model's.
+  const [overrideInterpretation, setOverrideInterpretation] = useState("");
+  const [overrideScores, setOverrideScores] = useState<Record<string, string>>({});
+  const [overrideReason, setOverrideReason] = useState("");
+  const [overrideSaving, setOverrideSaving] = useState(false);
+  const [overrideError, setOverrideError] = useState<string | null>(null);
+
+  const [outcome, setOutcome] = useState<string>(LEAD_OUTCOMES[0].id);
+  const [outcomeNote, setOutcomeNote] = useState("");
+  const [outcomeDate, setOutcomeDate] = useState("");
+  const [outcomeSaving, setOutcomeSaving] = useState(false);
+  const [outcomeError, setOutcomeError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      const session = data.session;
+      if (!session) {
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setAuthChecked(false);
+        setCurrentEmail(null);
+        setCurrentUserId(null);
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [router, supabase]);
+
+  const fetchAudit = useCallback(async () => {
+    if (!currentUserId || !id) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ user_id: currentUserId });
+      const response = await fetch(`/api/lead-runs/${id}?${params.toString()}`);
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to load lead");
+      }
+      const payload = (await response.json()) as LeadRunAuditResponse;
+      setAudit(payload);
+      const existing = payload.run.override;
+      setOverrideInterpretation(existing && !existing.scores ? existing.interpretation : "");
+      setOverrideScores(
+        Object.fromEntries(Object.entries(existing?.scores ?? {}).map(([factorId, value]) => [factorId, String(value)]))
+      );
+      setOverrideReason("");
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load lead");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUserId, id]);
+
+  useEffect(() => {
+    if (!authChecked || !currentUserId) {
+      return;
+    }
+    fetchAudit();
+  }, [authChecked, currentUserId, fetchAudit]);
+
+  const submitOverride = useCallback(
+    async (method: "POST" | "DELETE") => {
+      if (!currentUserId || !id) {
+        return;
+      }
+      setOverrideSaving(true);
+      setOverrideError(null);
+      try {
+        const scores = Object.fromEntries(
+          Object.entries(overrideScores)
+            .filter(([, value]) => value.trim() !== "")
+            .map(([factorId, value]) => [factorId, Number(value)])
+        );
+        const response = await fetch(`/api/lead-runs/${id}/override`, {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            method === "POST"
+              ? {
+                  user_id: currentUserId,
+                  interpretation: overrideInterpretation || null,
+                  scores: Object.keys(scores).length > 0 ? scores : null,
+                  reason: overrideReason
+                }
+              : { user_id: currentUserId, reason: overrideReason }
+          )
+        });
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({}));
+          throw new Error(payload?.error ?? "Failed to save override");
+        }
+        await fetchAudit();
+      } catch (submitError) {
+        setOverrideError(submitError instanceof Error ? submitError.message : "Failed to save override");
+      } finally {
+        setOverrideSaving(false);
+      }
+    },
+    [currentUserId, fetchAudit, id, overrideInterpretation, overrideReason, overrideScores]
+  );
+
+  const recordOutcome = useCallback(async () => {
+    if (!currentUserId || !id) {
+      return;
+    }
+    setOutcomeSaving(true);
+    setOutcomeError(null);
+    try {
+      const response = await fetch("/api/outcomes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          user_id: currentUserId,
+          outcomes: [{ run_id: id, outcome, note: outcomeNote, occurred_at: outcomeDate || null }]
+        })
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || payload?.recorded !== 1) {
+        throw new Error(payload?.error ?? payload?.invalid?.[0]?.error ?? "Failed to record outcome");
+      }
+      setOutcomeNote("");
+      setOutcomeDate("");
+      await fetchAudit();
+    } catch (recordError) {
+      setOutcomeError(recordError instanceof Error ? recordError.message : "Failed to record outcome");
+    } finally {
+      setOutcomeSaving(false);
+    }
+  }, [currentUserId, fetchAudit, id, outcome, outcomeDate, outcomeNote]);
+
+  const handleSignOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthChecked(false);
+    setCurrentEmail(null);
+    setCurrentUserId(null);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+    }
+    router.replace("/");
+  }, [router, supabase]);
+
+  if (!authChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)] transition-colors">
+        <p className="text-sm text-[var(--muted)]">Checking authentication…</p>
+      </div>
+    );
+  }
+
+  const run = audit?.run ?? null;
+  const cleaned = run?.enriched?.cleaned ?? null;
+  const reviews = run?.enriched?.reviews ?? null;
+  const website = run?.enriched?.website ?? null;
+  const band = audit?.current_band ?? null;
+  const override = run?.override ?? null;
+  const promptVersions = Object.values(run?.prompt_versions ?? {});
+  const outcomeLabel = (value: string) => LEAD_OUTCOMES.find((option) => option.id === value)?.label ?? value;
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--foreground)] transition-colors">
+      <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-10">
+        <header className="space-y-4">
+          <div className="flex justify-end">
+            <DashboardNav onSignOut={handleSignOut}>
+              {currentEmail ? (
+                <span className="rounded-full border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]">
+                  Signed in as {currentEmail}
+                </span>
+              ) : null}
+            </DashboardNav>
+          </div>
+          <div className="space-y-1">
+            <div className="flex gap-3 text-xs">
+              <Link href="/dashboard/saved" className="text-[var(--accent)] underline">
+                Back to saved leads
+              </Link>
+              {run?.company_id ? (
+                <Link href={`/dashboard/companies/${run.company_id}`} className="text-[var(--accent)] underline">
+                  Score history
+                </Link>
+              ) : null}
+            </div>
+            <h1 className="text-3xl font-semibold">{run?.company ?? "Lead detail"}</h1>
+            {run ? (
+              <p className="text-sm text-[var(--muted)]">
+                Lead ID {run.lead_id} · Scored {new Date(run.created_at).toLocaleString()}
+              </p>
+            ) : null}
+          </div>
+        </header>
+
+        {error ? (
+          <p className="text-sm" style={{ color: "var(--error)" }}>
+            {error}
+          </p>
+        ) : null}
+
+        {loading ? (
+          <p className="text-sm text-[var(--muted)]">Loading lead…</p>
+        ) : audit && run ? (
+          <>
+            <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                <p className="text-xs uppercase text-[var(--muted)]">Final score</p>
+                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                  {Number(run.effective_final_score ?? run.final_score).toFixed(2)}
+                </p>
+                <p className="text-xs font-medium" style={{ color: band?.color }}>
+                  {band?.label ?? run.interpretation}
+                </p>
+                {override ? (
+                  <p className="text-xs font-medium" style={{ color: "var(--warning)" }}>
+                    Overridden · model scored {Number(run.final_score).toFixed(2)} ({run.interpretation})
+                  </p>
+                ) : band && band.label !== run.interpretation ? (
+                  <p className="text-xs text-[var(--muted)]">Scored as {run.interpretation}</p>
+                ) : null}
+                {band?.action ? <p className="text-xs text-[var(--muted)]">{band.action}</p> : null}
+              </article>
+              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                <p className="text-xs uppercase text-[var(--muted)]">Scoring mode</p>
+                <p className="mt-2 text-lg font-semibold text-[var(--foreground)]">{run.scoring_mode ?? "model"}</p>
+                {run.needs_review ? (
+                  <p className="text-xs font-medium" style={{ color: "var(--warning)" }}>
+                    Needs review
+                  </p>
+                ) : null}
+              </article>
+              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                <p className="text-xs uppercase text-[var(--muted)]">Weight profile</p>
+                <p className="mt-2 text-lg font-semibold text-[var(--foreground)]">
+                  {run.weight_profile?.name ?? "Default"}
+                </p>
+                {run.weight_profile?.version ? (
+                  <p className="text-xs text-[var(--muted)]">Version {run.weight_profile.version}</p>
+                ) : null}
+                <p className="text-xs text-[var(--muted)]">Industry: {run.industry ?? "default"}</p>
+              </article>
+              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                <p className="text-xs uppercase text-[var(--muted)]">Prompts</p>
+                {promptVersions.length === 0 ? (
+                  <p className="mt-2 text-sm text-[var(--muted)]">Built-in</p>
+                ) : (
+                  <ul className="mt-2 space-y-0.5 text-xs text-[var(--foreground)]">
+                    {promptVersions.map((prompt) => (
+                      <li key={prompt.id}>
+                        {prompt.kind}: {prompt.name} v{prompt.version}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </article>
+            </section>
+
+            <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors">
+              <h2 className="border-b border-[var(--border-muted)] px-4 py-3 text-lg font-semibold text-[var(--foreground)]">
+                Factor scores
+              </h2>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                  <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 font-medium">Factor</th>
+                      <th scope="col" className="px-4 py-3 font-medium">Scored by</th>
+                      <th scope="col" className="px-4 py-3 font-medium">Score</th>
+                      {override?.scores ? (
+                        <th scope="col" className="px-4 py-3 font-medium">Override</th>
+                      ) : null}
+                      <th scope="col" className="px-4 py-3 font-medium">Weight</th>
+                      <th scope="col" className="px-4 py-3 font-medium">Contribution</th>
+                      <th scope="col" className="px-4 py-3 font-medium">Model vs rules</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--border-muted)]">
+                    {audit.factors.map((factor) => (
+                      <tr key={factor.id}>
+                        <td className="px-4 py-3 font-medium text-[var(--foreground)]">{factor.label}</td>
+                        <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                          {factor.scorer === "deterministic" ? "Signals" : factor.scorer === "model" ? "Model" : "—"}
+                        </td>
+                        <td className="px-4 py-3 text-[var(--muted)]">{formatValue(factor.score)}</td>
+                        {override?.scores ? (
+                          <td className="px-4 py-3 font-medium" style={{ color: "var(--warning)" }}>
+                            {formatValue(override.scores[factor.id])}
+                          </td>
+                        ) : null}
+                        <td className="px-4 py-3 text-[var(--muted)]">{factor.weight}</td>
+                        <td className="px-4 py-3 text-[var(--muted)]">{formatValue(factor.contribution)}</td>
+                        <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                          {factor.disagreement
+                            ? `${factor.disagreement.model} vs ${factor.disagreement.rules} (gap ${factor.disagreement.gap})`
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className={cardClass}>
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">Outcome</h2>
+              <p className="mt-1 text-sm text-[var(--muted)]">
+                {run.outcome
+                  ? `${outcomeLabel(run.outcome)}${run.outcome_at ? ` · ${new Date(run.outcome_at).toLocaleDateString()}` : ""}`
+                  : "No outcome recorded yet. Outcomes feed the calibration report."}
+              </p>
+              <div className="mt-4 grid gap-4 sm:grid-cols-[12rem_1fr_12rem_auto] sm:items-end">
+                <div className="space-y-2">
+                  <label className="text-xs uppercase text-[var(--muted)]">Outcome</label>
+                  <select value={outcome} onChange={(event) => setOutcome(event.target.value)} className={inputClass}>
+                    {LEAD_OUTCOMES.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs uppercase text-[var(--muted)]">Note</label>
+                  <input
+                    type="text"
+                    value={outcomeNote}
+                    onChange={(event) => setOutcomeNote(event.target.value)}
+                    className={inputClass}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs uppercase text-[var(--muted)]">Date</label>
+                  <input
+                    type="date"
+                    value={outcomeDate}
+                    onChange={(event) => setOutcomeDate(event.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  type="button"
+                  disabled={outcomeSaving}
+                  onClick={recordOutcome}
+                  className="rounded-md border border-[var(--accent)] bg-[var(--accent)] px-4 py-2 text-sm font-medium text-[var(--accent-contrast)] shadow-sm transition hover:bg-[var(--accent-hover)] disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {outcomeSaving ? "Saving…" : "Record"}
+                </button>
+              </div>
+              {outcomeError ? (
+                <p className="mt-2 text-sm" style={{ color: "var(--error)" }}>
+                  {outcomeError}
+                </p>
+              ) : null}
+              {audit.outcomes.length > 0 ? (
+                <ul className="mt-4 space-y-2 text-sm">
+                  {audit.outcomes.map((event) => (
+                    <li key={event.id} className="border-l-2 border-[var(--border)] pl-3">
+                      <p className="text-[var(--foreground)]">
+                        {outcomeLabel(event.outcome)}
+                        <span className="text-xs text-[var(--muted)]">
+                          {" "}
+                          · {new Date(event.occurredAt).toLocaleDateString()}
+                          {event.source === "import" ? " · imported" : ""}
+                        </span>
+                      </p>
+                      {event.note ? <p className="text-xs text-[var(--muted)]">{event.note}</p> : null}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </section>
+
+            <section className={cardClass}>
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">Manual override</h2>
+              <p className="mt-1 text-sm text-[var(--muted)]">
+                Correct the band or individual factor scores. The model&apos;s answer is kept; exports, filters and
+                history use the override.
+              </p>
+              {override ? (
+                <div className="mt-3 rounded-md border border-[var(--border)] bg-[var(--surface-subtle)] p-3 text-sm">
+                  <p className="text-[var(--foreground)]">
+                    {Number(run.final_score).toFixed(2)} ({audit.model_band.label}) →{" "}
+                    <span className="font-medium">
+                      {Number(override.final_score).toFixed(2)} ({override.interpretation})
+                    </span>
+                  </p>
+                  <p className="mt-1 text-xs text-[var(--muted)]">
+                    “{override.reason}” · {new Date(override.created_at).toLocaleString()}
+                  </p>
+                </div>
+              ) : null}
+              <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-xs uppercase text-[var(--muted)]">Interpretation</label>
+                  <select
+                    value={overrideInterpretation}
+                    onChange={(event) => setOverrideInterpretation(event.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Follow the score</option>
+                    {audit.bands.map((option) => (
+                      <option key={option.label} value={option.label}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs uppercase text-[var(--muted)]">Factor scores (0–10, blank keeps the model&apos;s)</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {audit.factors.map((factor) => (
+                      <label key={factor.id} className="flex items-center gap-2 text-xs text-[var(--muted)]">
+                        <span className="flex-1 truncate">{factor.label}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={10}
+                          step={1}
+                          placeholder={formatValue(factor.score)}
+                          value={overrideScores[factor.id] ?? ""}
+                          onChange={(event) =>
+                            setOverrideScores((current) => ({ ...current, [factor.id]: event.target.value }))
+                          }
+                          className={`${inputClass} w-20`}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="mt-4 space-y-2">
+                <label className="text-xs uppercase text-[var(--muted)]">Reason (required)</label>
+                <textarea
+                  value={overrideReason}
+                  onChange={(event) => setOverrideReason(event.target.value)}
+                  rows={2}
+                  className={inputClass}
+                  placeholder="Why the model got this lead wrong"
+                />
+              </div>
+              {overrideError ? (
+                <p className="mt-2 text-sm" style={{ color: "var(--error)" }}>
+                  {overrideError}
+                </p>
+              ) : null}
+              <div className="mt-4 flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  disabled={overrideSaving || overrideReason.trim() === ""}
+                  onClick={() => submitOverride("POST")}
+                  className="rounded-md border border-[var(--accent)] bg-[var(--accent)] px-4 py-2 text-sm font-medium text-[var(--accent-contrast)] shadow-sm transition hover:bg-[var(--accent-hover)] disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {overrideSaving ? "Saving…" : override ? "Update override" : "Save override"}
+                </button>
+                {override ? (
+                  <button
+                    type="button"
+                    disabled={overrideSaving || overrideReason.trim() === ""}
+                    onClick={() => submitOverride("DELETE")}
+                    className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-4 py-2 text-sm text-[var(--foreground)] shadow-sm transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Clear override
+                  </button>
+                ) : null}
+              </div>
+              {audit.overrides.length > 0 ? (
+                <div className="mt-6">
+                  <p className="text-xs font-medium uppercase text-[var(--muted)]">Override history</p>
+                  <ul className="mt-2 space-y-2 text-sm">
+                    {audit.overrides.map((entry) => (
+                      <li key={entry.id} className="border-l-2 border-[var(--border)] pl-3">
+                        <p className="text-[var(--foreground)]">
+                          {entry.action === "cleared"
+                            ? "Cleared"
+                            : `Set to ${formatValue(entry.finalScore)} (${entry.interpretation})`}
+                          <span className="text-xs text-[var(--muted)]"> · {new Date(entry.createdAt).toLocaleString()}</span>
+                        </p>
+                        {entry.scores ? (
+                          <p className="text-xs text-[var(--muted)]">
+                            {Object.entries(entry.scores)
+                              .map(([factorId, value]) => {
+                                const factor = audit.factors.find((candidate) => candidate.id === factorId);
+                                return `${factor?.label ?? factorId}: ${value}`;
+                              })
+                              .join(" · ")}
+                          </p>
+                        ) : null}
+                        <p className="text-xs text-[var(--muted)]">“{entry.reason}”</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+            </section>
+
+            <section className={cardClass}>
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">Reasoning</h2>
+              <p className="mt-3 whitespace-pre-wrap text-sm text-[var(--foreground)]">
+                {audit.reasoning.narrative || "No reasoning recorded."}
+              </p>
+              {audit.reasoning.adjustments.length > 0 ? (
+                <div className="mt-4 rounded-md border border-[var(--border)] bg-[var(--surface-subtle)] p-3">
+                  <p className="text-xs font-medium uppercase text-[var(--muted)]">System adjustments</p>
+                  <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-[var(--foreground)]">
+                    {audit.reasoning.adjustments.map((note, index) => (
+                      <li key={index}>{note}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+            </section>
+
+            <section className="grid gap-4 lg:grid-cols-2">
+              <article className={cardClass}>
+                <h2 className="text-lg font-semibold text-[var(--foreground)]">Reviews</h2>
+                {reviews ? (
+                  <dl className="mt-3 space-y-2 text-sm">
+                    <div className="flex justify-between gap-3">
+                      <dt className="text-[var(--muted)]">Rating</dt>
+                      <dd className="text-[var(--foreground)]">{formatValue(reviews.averageRating)}</dd>
+                    </div>
+                    <div className="flex justify-between gap-3">
+                      <dt className="text-[var(--muted)]">Review count</dt>
+                      <dd className="text-[var(--foreground)]">{formatValue(reviews.reviewCount)}</dd>
+                    </div>
+                    <div className="flex justify-between gap-3">
+                      <dt className="text-[var(--muted)]">Lookup</dt>
+                      <dd className="text-right text-[var(--foreground)]">
+                        {reviews.method
+                          ? reviews.method.split("->").map((step, index, steps) => (
+                              <span key={index} className="block text-xs">
+                                {step}
+                                {index === steps.length - 1 ? "" : " →"}
+                              </span>
+                            ))
+                          : "—"}
+                      </dd>
+                    </div>
+                    {reviews.sourceUrl ? (
+                      <div className="flex justify-between gap-3">
+                        <dt className="text-[var(--muted)]">Source</dt>
+                        <dd className="truncate">
+                          <a href={reviews.sourceUrl} target="_blank" rel="noreferrer" className="text-xs text-[var(--accent)] underline">
+                            Google Maps
+                          </a>
+                        </dd>
+                      </div>
+                    ) : null}
+                  </dl>
+                ) : (
+                  <p className="mt-3 text-sm text-[var(--muted)]">No review lookup recorded.</p>
+                )}
+              </article>
+
+              <article className={cardClass}>
+                <h2 className="text-lg font-semibold text-[var(--foreground)]">Website signals</h2>
+                {website ? (
+                  <dl className="mt-3 space-y-2 text-sm">
+                    <div className="flex justify-between gap-3">
+                      <dt className="text-[var(--muted)]">URL</dt>
+                      <dd className="truncate text-[var(--foreground)]">{website.url}</dd>
+                    </div>
+                    <div className="flex justify-between gap-3">
+                      <dt className="text-[var(--muted)]">Fetch</dt>
+                      <dd className="text-[var(--foreground)]">
+                        {website.method} · {website.ok ? "OK" : "failed"}
+                        {website.status ? ` (HTTP ${website.status})` : ""}
+                      </dd>
+                    </div>
+                    <div className="flex justify-between gap-3">
+                      <dt className="text-[var(--muted)]">Base score</dt>
+                      <dd className="text-[var(--foreground)]">{website.baseScore}</dd>
+                    </div>
+                    {WEBSITE_BONUSES.map((bonus) => (
+                      <div key={bonus.key} className="flex justify-between gap-3">
+                        <dt className="text-[var(--muted)]">{bonus.label}</dt>
+                        <dd
+                          className="font-medium"
+                          style={{ color: website.bonuses[bonus.key] ? "var(--success)" : "var(--muted)" }}
+                        >
+                          {website.bonuses[bonus.key] ? "Detected" : "Not found"}
+                        </dd>
+                      </div>
+                    ))}
+                    <div className="flex justify-between gap-3 border-t border-[var(--border-muted)] pt-2">
+                      <dt className="text-[var(--muted)]">Website score</dt>
+                      <dd className="font-medium text-[var(--foreground)]">{website.finalScore}</dd>
+                    </div>
+                  </dl>
+                ) : (
+                  <p className="mt-3 text-sm text-[var(--muted)]">No website was checked.</p>
+                )}
+              </article>
+            </section>
+
+            <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors">
+              <h2 className="border-b border-[var(--border-muted)] px-4 py-3 text-lg font-semibold text-[var(--foreground)]">
+                Cleaned fields
+              </h2>
+              {cleaned ? (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                    <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 font-medium">Field</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Value</th>
+                        <th scope="col" className="px-4 py-3 font-medium">Source</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border-muted)]">
+                      {CLEANED_FIELDS.map((field) => (
+                        <tr key={field.key} className="align-top">
+                          <td className="px-4 py-3 text-[var(--muted)]">{field.label}</td>
+                          <td className="max-w-md break-words px-4 py-3 text-[var(--foreground)]">
+                            {formatValue(cleaned[field.key])}
+                          </td>
+                          <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                            {cleaned.provenance?.[field.key] ?? "—"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="px-4 py-3 text-sm text-[var(--muted)]">No cleaned record was saved with this run.</p>
+              )}
+              {cleaned?.normalized ? (
+                <details className="border-t border-[var(--border-muted)] px-4 py-3">
+                  <summary className="cursor-pointer text-xs text-[var(--muted)]">Original row</summary>
+                  <pre className="mt-2 overflow-x-auto rounded-md bg-[var(--surface-subtle)] p-3 text-xs text-[var(--foreground)]">
+                    {JSON.stringify(cleaned.normalized, null, 2)}
+                  </pre>
+                </details>
+              ) : null}
+            </section>
+          </>
+        ) : null}
+      </main>
+    </div>
+  );
+}
@@ -4,18 +4,30 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 
 import type {
-  LeadInput,
+  ColumnMapping,
+  DedupePolicy,
+  DedupeReport,
+  HybridBlend,
   LeadScoreApiResponse,
-  LeadScoreResponse,
+  LeadStepUsage,
+  ScoringMode,
   TokenUsageSummary
 } from "@/lib/types";
+import type { FailedJobItem, JobItemDelta, JobProgress, JobSummary } from "@/lib/jobQueue";
+import { ColumnMappingStep, type UploadPreview } from "@/components/ColumnMappingStep";
 import { DashboardNav } from "@/components/DashboardNav";
+import { resolveBand } from "@/lib/bands";
+import { escapeCsv } from "@/lib/csv";
+import { collectFactors, factorLabel, normalizeFactorScores } from "@/lib/factors";
+import { getFieldValue, normalizeHeader, type ParsedLead } from "@/lib/leadFields";
 import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
 
 const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
 const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
-
-type ParsedLead = Record<string, string>;
+// Enough of a delimited or JSON Lines file for the header row and sample rows.
+const PREVIEW_BYTES = 256 * 1024;
+// Matches the server's cap on failed items in a job snapshot.
+const FAILED_ITEMS_SHOWN = 100;
 
 type JobStatus = "pending" | "processing" | "completed" | "failed";
 
@@ -29,171 +41,72 @@ type JobSnapshot = {
   error?: string;
   supabase: LeadScoreApiResponse["supabase"];
   usage?: TokenUsageSummary | null;
+  dedupe?: DedupeReport | null;
+  reused?: number;
+  failed?: number;
+  retrying?: number;
+  failedItems?: FailedJobItem[];
   results: LeadScoreApiResponse["leads"];
   options: {
     useCleaner: boolean;
     saveToSupabase: boolean;
+    scoringMode?: ScoringMode;
+    hybrid?: HybridBlend | null;
     maxConcurrency?: number | null;
   };
 };
 
-const FIELD_ALIASES = {
-  id: ["id", "lead_id", "record_id", "crm_id"],
-  company: ["company", "company_name", "account", "account_name", "organization", "business_name"],
-  industry: ["industry", "vertical", "segment"],
-  website: ["website", "website_url", "url"],
-  email: ["email", "email_address"],
-  contact: ["contact", "contact_name", "name", "full_name", "lead_name"],
-  city: ["city", "locality"],
-  state: ["state", "region", "province"],
-  country: ["country"],
-  notes: ["notes", "description", "summary"]
-} satisfies Record<string, string[]>;
-
-const FALLBACK_HEADERS = {
-  id: "lead_id",
-  company: "company"
-};
-
 const EMPTY_USAGE: TokenUsageSummary = {
   cleaning: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
   scoring: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
 };
 
-function normalizeKey(input: string, index: number): string {
-  const cleaned = input.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
-  return cleaned === "" ? `column_${index + 1}` : cleaned;
-}
-
-function detectDelimiter(sampleLine: string): string {
-  const commaCount = (sampleLine.match(/,/g) ?? []).length;
-  const semicolonCount = (sampleLine.match(/;/g) ?? []).length;
-  return semicolonCount > commaCount ? ";" : ",";
-}
-
-function parseCsv(content: string): {
-  originalHeaders: string[];
-  normalizedHeaders: string[];
-  normalizedRows: ParsedLead[];
-  originalRows: Record<string, string>[];
-} {
-  const normalizedText = content.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-  const lines = normalizedText.split("\n");
-  const headerLine = lines[0] ?? "";
-  const delimiter = detectDelimiter(headerLine);
-
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let cell = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < normalizedText.length; i += 1) {
-    const char = normalizedText[i];
-    const nextChar = normalizedText[i + 1];
-
-    if (char === "\n" && !inQuotes) {
-      row.push(cell);
-      rows.push(row);
-      row = [];
-      cell = "";
-      continue;
-    }
-
-    if (char === "\"") {
-      if (inQuotes && nextChar === "\"") {
-        cell += "\"";
-        i += 1;
-        continue;
-      }
-      inQuotes = !inQuotes;
-      continue;
-    }
-
-    if (char === delimiter && !inQuotes) {
-      row.push(cell);
-      cell = "";
-      continue;
-    }
-
-    cell += char;
+function formatStepUsage(usage: LeadStepUsage | null | undefined): string {
+  if (!usage) {
+    return "—";
   }
+  const cost = usage.costUsd === null ? "unpriced" : `$${usage.costUsd.toFixed(4)}`;
+  return `${usage.totalTokens.toLocaleString()} tokens · ${cost}`;
+}
 
-  if (cell.length > 0 || row.length > 0) {
-    row.push(cell);
-    rows.push(row);
-  }
-
-  if (rows.length === 0) {
-    return { originalHeaders: [], normalizedHeaders: [], normalizedRows: [], originalRows: [] };
-  }
-
-  const rawHeaders = rows[0].map((header, index) => {
-    const trimmed = header.trim();
-    return trimmed === "" ? `Column ${index + 1}` : trimmed;
-  });
-
-  const normalizedHeaders = rawHeaders.map(normalizeKey);
-  const bodyRows = rows.slice(1).filter((cells) => cells.some((value) => value.trim() !== ""));
-
-  const normalizedRows: ParsedLead[] = [];
-  const originalRows: Record<string, string>[] = [];
-
-  bodyRows.forEach((cells) => {
-    const normalizedRecord: ParsedLead = {};
-    const originalRecord: Record<string, string> = {};
-
-    rawHeaders.forEach((header, index) => {
-      const normalizedHeader = normalizedHeaders[index];
-      const value = (cells[index] ?? "").trim();
-      normalizedRecord[normalizedHeader] = value;
-      originalRecord[header] = value;
-    });
-
-    normalizedRows.push(normalizedRecord);
-    originalRows.push(originalRecord);
-  });
+// Rebuilds the job view from its latest row and every item delta received so far.
+function buildJobSnapshot(job: JobProgress["job"], items: Map<number, JobItemDelta>): JobSnapshot {
+  const ordered = Array.from(items.values()).sort((a, b) => a.index - b.index);
+  const results = ordered.flatMap((item) => (item.status === "completed" && item.result ? [item.result] : []));
+  const failed = ordered.filter((item) => item.status === "dead" || item.status === "failed");
 
   return {
-    originalHeaders: rawHeaders,
-    normalizedHeaders,
-    normalizedRows,
-    originalRows
+    ...job,
+    results,
+    reused: results.filter((result) => result.reused).length,
+    failed: failed.length,
+    retrying: ordered.filter((item) => item.status === "queued" && item.attempts > 0).length,
+    failedItems: failed.slice(0, FAILED_ITEMS_SHOWN).map((item) => ({
+      index: item.index,
+      leadId: item.leadId,
+      company: item.company,
+      status: item.status === "dead" ? "dead" : "failed",
+      attempts: item.attempts,
+      error: item.error
+    }))
   };
 }
 
-function getValue(record: ParsedLead, aliases: string[]): string | undefined {
-  for (const key of aliases) {
-    const value = record[key];
-    if (value) {
-      return value;
-    }
-  }
-  return undefined;
-}
-
-function buildLocation(record: ParsedLead): string | undefined {
-  const parts = [
-    getValue(record, FIELD_ALIASES.city),
-    getValue(record, FIELD_ALIASES.state),
-    getValue(record, FIELD_ALIASES.country),
-    record.location,
-    record.address
-  ]
-    .map((value) => value?.trim())
-    .filter(Boolean);
-
-  if (parts.length === 0) {
-    return undefined;
-  }
-
-  return Array.from(new Set(parts)).join(", ");
+// A snapshot with counts but no items yet, for a job known only by its summary.
+function buildSummarySnapshot(summary: JobSummary): JobSnapshot {
+  const { items: counts, ...job } = summary;
+  return {
+    ...buildJobSnapshot(job, new Map()),
+    failed: counts.dead + counts.failed,
+    retrying: counts.retrying
+  };
 }
 
-function escapeCsv(value: string): string {
-  if (value.includes(",") || value.includes("\n") || value.includes("\"")) {
-    return `"${value.replace(/"/g, '""')}"`;
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
   }
-  return value;
+  return `${Math.max(Math.round(bytes / 1024), 1)} KB`;
 }
 
 export default function DashboardPage() {
@@ -209,9 +122,16 @@ export default function DashboardPage() {
   const [scoredLeads, setScoredLeads] = useState<LeadScoreApiResponse["leads"]>([]);
   const [tokenUsage, setTokenUsage] = useState<TokenUsageSummary>(EMPTY_USAGE);
   const [originalHeaders, setOriginalHeaders] = useState<string[]>([]);
-  const [originalRows, setOriginalRows] = useState<Record<string, string>[]>([]);
-  const [pendingLeads, setPendingLeads] = useState<LeadInput[]>([]);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploadPreview, setUploadPreview] = useState<UploadPreview | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [previewing, setPreviewing] = useState(false);
   const [useCleaner, setUseCleaner] = useState(true);
+  const [scoringMode, setScoringMode] = useState<ScoringMode>("model");
+  const [modelRatio, setModelRatio] = useState(0.5);
+  const [reviewThreshold, setReviewThreshold] = useState(3);
+  const [dedupePolicy, setDedupePolicy] = useState<DedupePolicy>("merge");
+  const [reuseMaxAgeDays, setReuseMaxAgeDays] = useState(7);
   const [supabaseStatus, setSupabaseStatus] = useState<"unknown" | "connected" | "missing" | "error">("unknown");
   const [supabaseReason, setSupabaseReason] = useState<string | null>(null);
   const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
@@ -221,6 +141,7 @@ export default function DashboardPage() {
   const [activeJob, setActiveJob] = useState<JobSnapshot | null>(null);
   const [isCancelling, setIsCancelling] = useState(false);
   const [cancelRequested, setCancelRequested] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
 
   const statusBadgeClass = useMemo(() => {
     switch (supabaseStatus) {
@@ -384,15 +305,16 @@ export default function DashboardPage() {
           throw new Error(payload?.error ?? "Failed to restore job state.");
         }
 
-        const data = (await response.json()) as { job: JobSnapshot | null };
+        // A summary without items; the progress stream fills them in once jobId is set.
+        const data = (await response.json()) as { job: JobSummary | null };
         if (cancelled || !data.job) {
           return;
         }
 
         const isFinal = data.job.status === "completed" || data.job.status === "failed";
 
-        setActiveJob(data.job);
-        setScoredLeads(data.job.results ?? []);
+        setActiveJob(buildSummarySnapshot(data.job));
+        setScoredLeads([]);
         setTokenUsage(data.job.usage ?? EMPTY_USAGE);
         setAutoSaveToSupabase(data.job.options.saveToSupabase);
 
@@ -456,6 +378,11 @@ export default function DashboardPage() {
     router.replace("/");
   }, [router, supabase]);
 
+  const scoredFactors = useMemo(
+    () => collectFactors(scoredLeads.map(({ score }) => score)),
+    [scoredLeads]
+  );
+
   const handleDownload = useCallback(() => {
     if (scoredLeads.length === 0) {
       return;
@@ -464,28 +391,37 @@ export default function DashboardPage() {
     const appendedHeaders = [
       "lead_score",
       "lead_interpretation",
-      "website_activity_score",
-      "reviews_score",
-      "years_in_business_score",
-      "revenue_proxies_score",
-      "industry_fit_score"
+      "lead_next_action",
+      "lead_needs_review",
+      ...scoredFactors.map((factor) => `${factor.id}_score`),
+      "lead_clean_cost_usd",
+      "lead_score_cost_usd"
     ];
 
-    const headers = [...originalHeaders, ...appendedHeaders];
+    // Rows are parsed on the server, so original values come back on each result keyed by
+    // normalized header. A resumed job has no header list; fall back to those keys.
+    const sourceHeaders =
+      originalHeaders.length > 0 ? originalHeaders : Object.keys(scoredLeads[0]?.lead.normalized ?? {});
+    const sourceKeys = sourceHeaders.map((header, index) => normalizeHeader(header, index));
+
+    const headers = [...sourceHeaders, ...appendedHeaders];
     const rows = [headers.map(escapeCsv).join(",")];
 
-    scoredLeads.forEach(({ score }, index) => {
-      const original = originalRows[index] ?? {};
-      const originalValues = originalHeaders.map((header) => escapeCsv(original[header] ?? ""));
+    scoredLeads.forEach(({ lead, score, usage }) => {
+      const original = lead.normalized ?? {};
+      const originalValues = sourceKeys.map((key) => escapeCsv(original[key] ?? ""));
 
       const additions = [
         escapeCsv(String(score.final_score)),
         escapeCsv(score.interpretation),
-        escapeCsv(String(score.scores.website_activity)),
-        escapeCsv(String(score.scores.reviews.score)),
-        escapeCsv(String(score.scores.years_in_business)),
-        escapeCsv(String(score.scores.revenue_proxies)),
-        escapeCsv(String(score.scores.industry_fit))
+        escapeCsv(score.band?.action ?? ""),
+        escapeCsv(score.needs_review ? "yes" : "no"),
+        ...scoredFactors.map((factor) => {
+          const value = normalizeFactorScores(score.scores)[factor.id];
+          return escapeCsv(value === undefined ? "" : String(value));
+        }),
+        escapeCsv(usage?.clean?.costUsd == null ? "" : String(usage.clean.costUsd)),
+        escapeCsv(usage?.score?.costUsd == null ? "" : String(usage.score.costUsd))
       ];
 
       rows.push([...originalValues, ...additions].join(","));
@@ -493,14 +429,14 @@ export default function DashboardPage() {
 
     const blob = new Blob([rows.join("\n")], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
-    const downloadName = fileName ? fileName.replace(/\.csv$/i, "") : "scored-leads";
+    const downloadName = fileName ? fileName.replace(/\.[a-z0-9]+$/i, "") : "scored-leads";
 
     const link = document.createElement("a");
     link.href = url;
     link.download = `${downloadName}-scored.csv`;
     link.click();
     URL.revokeObjectURL(url);
-  }, [fileName, originalHeaders, originalRows, scoredLeads]);
+  }, [fileName, originalHeaders, scoredFactors, scoredLeads]);
 
   const handleSaveToSupabase = useCallback(async () => {
     if (scoredLeads.length === 0) {
@@ -539,67 +475,56 @@ export default function DashboardPage() {
       return;
     }
 
+    // Only the header and a few rows are parsed (on the server) for the mapping step; the full
+    // file is parsed once scoring starts, so large exports never load in the tab.
     setError(null);
     setScoredLeads([]);
-    setPendingLeads([]);
     setSaveState("idle");
     setSaveError(null);
     setProcessing(false);
+    setOriginalHeaders([]);
+    setSelectedFile(file);
+    setFileName(file.name);
+    setUploadPreview(null);
+    setColumnMapping(null);
+    setPreviewing(true);
+
+    const params = new URLSearchParams({ filename: file.name });
+    if (currentUserId) {
+      params.set("user_id", currentUserId);
+    }
+    const isWorkbook = /\.xlsx$/i.test(file.name);
 
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const text = String(reader.result ?? "");
-        const parsed = parseCsv(text);
-
-        if (parsed.normalizedRows.length === 0) {
-          setError("No data rows detected in the CSV file.");
-          setOriginalHeaders([]);
-          setOriginalRows([]);
-          return;
+    fetch(`/api/score-leads/upload/preview?${params.toString()}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": file.type || "application/octet-stream"
+      },
+      body: isWorkbook ? file : file.slice(0, PREVIEW_BYTES)
+    })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data?.error ?? "Unable to read the selected file.");
         }
-
-        const leadInputs: LeadInput[] = parsed.normalizedRows.map((record, index) => ({
-          lead_id:
-            getValue(record, FIELD_ALIASES.id) ??
-            record[FALLBACK_HEADERS.id] ??
-            `lead_${index + 1}`,
-          company:
-            getValue(record, FIELD_ALIASES.company) ??
-            record[FALLBACK_HEADERS.company] ??
-            "Unknown company",
-          industry: getValue(record, FIELD_ALIASES.industry) ?? "default",
-          website: getValue(record, FIELD_ALIASES.website),
-          location: buildLocation(record),
-          notes: getValue(record, FIELD_ALIASES.notes),
-          normalized: record
-        }));
-
-        setPendingLeads(leadInputs);
-        setOriginalHeaders(parsed.originalHeaders);
-        setOriginalRows(parsed.originalRows);
-        setFileName(file.name);
-      } catch (uploadError) {
-        setError(uploadError instanceof Error ? uploadError.message : "Unable to process file.");
-        setPendingLeads([]);
-        setOriginalHeaders([]);
-        setOriginalRows([]);
-      }
-    };
-
-    reader.onerror = () => {
-      setError("Failed to read the selected file.");
-      setPendingLeads([]);
-      setOriginalHeaders([]);
-      setOriginalRows([]);
-    };
-
-    reader.readAsText(file);
+        const preview = data as UploadPreview;
+        setUploadPreview(preview);
+        setColumnMapping(preview.mapping);
+      })
+      .catch((previewError) => {
+        setError(previewError instanceof Error ? previewError.message : "Unable to read the selected file.");
+        setSelectedFile(null);
+      })
+      .finally(() => setPreviewing(false));
+  }, [currentUserId]);
+
+  const handleTemplateChange = useCallback((template: UploadPreview["template"]) => {
+    setUploadPreview((current) => (current ? { ...current, template } : current));
   }, []);
 
   const handleScoreLeads = useCallback(async () => {
-    if (pendingLeads.length === 0) {
-      setError("Upload a CSV before scoring.");
+    if (!selectedFile) {
+      setError("Choose a file before scoring.");
       return;
     }
 
@@ -618,22 +543,31 @@ export default function DashboardPage() {
     setSaveState(willAutoSave ? "saving" : "idle");
     setSaveError(null);
 
-    const payload = {
-      leads: pendingLeads,
-      options: {
-        useCleaner,
-        saveToSupabase: willAutoSave
-      },
-      user_id: currentUserId ?? undefined
-    };
+    const params = new URLSearchParams({
+      filename: selectedFile.name,
+      options: JSON.stringify({
+        useCleaner: scoringMode === "rules" ? false : useCleaner,
+        saveToSupabase: willAutoSave,
+        scoringMode,
+        dedupePolicy,
+        reuseMaxAgeDays,
+        ...(scoringMode === "hybrid" ? { modelRatio, reviewThreshold } : {})
+      })
+    });
+    if (currentUserId) {
+      params.set("user_id", currentUserId);
+    }
+    if (columnMapping) {
+      params.set("mapping", JSON.stringify(columnMapping));
+    }
 
     try {
-      const response = await fetch("/api/score-leads/enqueue", {
+      const response = await fetch(`/api/score-leads/upload?${params.toString()}`, {
         method: "POST",
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": selectedFile.type || "application/octet-stream"
         },
-        body: JSON.stringify(payload)
+        body: selectedFile
       });
 
       if (!response.ok) {
@@ -641,10 +575,13 @@ export default function DashboardPage() {
         throw new Error(message?.error ?? "Failed to enqueue scoring job.");
       }
 
-      const data = (await response.json()) as { job: JobSnapshot };
+      const data = (await response.json()) as { job: JobSummary; upload: { headers: string[] } };
 
-      setActiveJob(data.job);
-      setScoredLeads(data.job.results ?? []);
+      setOriginalHeaders(data.upload.headers);
+
+      // The job was just queued, so it has no items yet; the progress stream adds them.
+      setActiveJob(buildSummarySnapshot(data.job));
+      setScoredLeads([]);
       setTokenUsage(data.job.usage ?? EMPTY_USAGE);
       setAutoSaveToSupabase(data.job.options.saveToSupabase);
 
@@ -698,7 +635,19 @@ export default function DashboardPage() {
         window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
       }
     }
-  }, [pendingLeads, useCleaner, autoSaveToSupabase, supabaseStatus, currentUserId]);
+  }, [
+    selectedFile,
+    columnMapping,
+    useCleaner,
+    scoringMode,
+    modelRatio,
+    reviewThreshold,
+    dedupePolicy,
+    reuseMaxAgeDays,
+    autoSaveToSupabase,
+    supabaseStatus,
+    currentUserId
+  ]);
 
   const cancelJobById = useCallback(
     async (targetJobId: string) => {
@@ -747,6 +696,42 @@ export default function DashboardPage() {
     [setActiveJob, setScoredLeads, setProcessing, setJobId, setError, setSaveState, setSaveError]
   );
 
+  const handleRetryFailed = useCallback(async () => {
+    if (!activeJob || processing || isRetrying) {
+      return;
+    }
+    setIsRetrying(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/score-leads/jobs/${activeJob.id}/retry`, { method: "POST" });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to retry failed leads.");
+      }
+
+      const data = (await response.json()) as { job: JobSnapshot };
+      setActiveJob(data.job);
+      setScoredLeads(data.job.results ?? []);
+      setProcessing(true);
+      setJobId(data.job.id);
+      if (typeof window !== "undefined") {
+        window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, data.job.id);
+        window.localStorage.setItem(
+          ACTIVE_JOB_OPTIONS_KEY,
+          JSON.stringify({ saveToSupabase: data.job.options.saveToSupabase })
+        );
+      }
+      if (data.job.options.saveToSupabase) {
+        setSaveState("saving");
+        setSaveError(null);
+      }
+    } catch (retryError) {
+      setError(retryError instanceof Error ? retryError.message : "Failed to retry failed leads.");
+    } finally {
+      setIsRetrying(false);
+    }
+  }, [activeJob, processing, isRetrying]);
+
   const handleCancelJob = useCallback(() => {
     if (!processing || isCancelling) {
       return;
@@ -781,37 +766,26 @@ export default function DashboardPage() {
       return {
         total: 0,
         averageScore: 0,
-        hot: 0,
-        qualified: 0,
-        borderline: 0,
-        cold: 0
+        bands: [] as Array<{ label: string; color: string; min: number; count: number }>
       };
     }
 
     const total = scoredLeads.length;
     const scoreTotal = scoredLeads.reduce((acc, item) => acc + (item.score?.final_score ?? 0), 0);
 
-    const interpretationBuckets = scoredLeads.reduce(
-      (acc, item) => {
-        const interpretation = item.score?.interpretation ?? "Cold Dead";
-        acc[interpretation] += 1;
-        return acc;
-      },
-      {
-        Hot: 0,
-        Qualified: 0,
-        Borderline: 0,
-        "Cold Dead": 0
-      } as Record<LeadScoreResponse["interpretation"], number>
-    );
+    const bandCounts = new Map<string, { label: string; color: string; min: number; count: number }>();
+    scoredLeads.forEach((item) => {
+      const band = item.score?.band ?? resolveBand(item.score?.final_score ?? 0);
+      const label = item.score?.interpretation ?? band.label;
+      const bucket = bandCounts.get(label) ?? { label, color: band.color, min: band.min, count: 0 };
+      bucket.count += 1;
+      bandCounts.set(label, bucket);
+    });
 
     return {
       total,
       averageScore: Number((scoreTotal / total).toFixed(2)),
-      hot: interpretationBuckets.Hot,
-      qualified: interpretationBuckets.Qualified,
-      borderline: interpretationBuckets.Borderline,
-      cold: interpretationBuckets["Cold Dead"]
+      bands: Array.from(bandCounts.values()).sort((a, b) => b.min - a.min)
     };
   }, [scoredLeads]);
 
@@ -821,95 +795,173 @@ export default function DashboardPage() {
     }
 
     let cancelled = false;
-    let interval: ReturnType<typeof setInterval> | null = null;
-
-    const poll = async () => {
-      try {
-        const response = await fetch(`/api/score-leads/jobs/${jobId}`);
-        if (!response.ok) {
-          const payload = await response.json().catch(() => ({}));
-          throw new Error(payload?.error ?? "Unable to fetch job status.");
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cursor: string | null = null;
+    let latest: JobProgress | null = null;
+    const items = new Map<number, JobItemDelta>();
+
+    const applyJob = (job: JobSnapshot) => {
+      setActiveJob(job);
+      setScoredLeads(job.results ?? []);
+      setAutoSaveToSupabase(job.options.saveToSupabase);
+
+      if (job.status === "completed" || job.status === "failed") {
+        if (typeof window !== "undefined") {
+          window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
         }
-
-        const data = (await response.json()) as { job: JobSnapshot };
-        if (cancelled) {
-          return;
+      } else {
+        setProcessing(true);
+        if (typeof window !== "undefined") {
+          window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, job.id);
+          window.localStorage.setItem(
+            ACTIVE_JOB_OPTIONS_KEY,
+            JSON.stringify({ saveToSupabase: job.options.saveToSupabase })
+          );
         }
+      }
 
-        setActiveJob(data.job);
-        setScoredLeads(data.job.results ?? []);
-        setAutoSaveToSupabase(data.job.options.saveToSupabase);
-
-        if (data.job.status === "completed" || data.job.status === "failed") {
-          if (typeof window !== "undefined") {
-            window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
-            window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
-          }
+      if (job.supabase?.requested) {
+        if (job.supabase.saved) {
+          setSaveState("saved");
+          setSaveError(null);
         } else {
-          setProcessing(true);
-          if (typeof window !== "undefined") {
-            window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, data.job.id);
-            window.localStorage.setItem(
-              ACTIVE_JOB_OPTIONS_KEY,
-              JSON.stringify({ saveToSupabase: data.job.options.saveToSupabase })
-            );
-          }
+          setSaveState("error");
+          setSaveError(job.supabase.error ?? "Failed to save to Supabase.");
         }
+      }
 
-        if (data.job.supabase?.requested) {
-          if (data.job.supabase.saved) {
-            setSaveState("saved");
-            setSaveError(null);
-          } else {
-            setSaveState("error");
-            setSaveError(data.job.supabase.error ?? "Failed to save to Supabase.");
-          }
+      if (job.status === "completed") {
+        setProcessing(false);
+        setJobId(null);
+      } else if (job.status === "failed") {
+        setProcessing(false);
+        setJobId(null);
+        setError(job.error ?? "Lead scoring job failed.");
+        if (job.supabase?.requested) {
+          setSaveState("error");
+          setSaveError(job.error ?? "Supabase save failed.");
         }
+      }
+    };
 
-        if (data.job.status === "completed") {
-          setProcessing(false);
-          setJobId(null);
-          if (typeof window !== "undefined") {
-            window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
-            window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
-          }
-        } else if (data.job.status === "failed") {
-          setProcessing(false);
-          setJobId(null);
-          setError(data.job.error ?? "Lead scoring job failed.");
-          if (data.job.supabase?.requested) {
-            setSaveState("error");
-            setSaveError(data.job.error ?? "Supabase save failed.");
-          }
-          if (typeof window !== "undefined") {
-            window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
-            window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
-          }
+    const handleFailure = (pollError: unknown) => {
+      setProcessing(false);
+      setJobId(null);
+      setActiveJob(null);
+      setError(pollError instanceof Error ? pollError.message : "Unable to poll job status.");
+      setSaveState((prev) => (prev === "saving" ? "error" : prev));
+      setTokenUsage(EMPTY_USAGE);
+      if (typeof window !== "undefined") {
+        window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+        window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+      }
+    };
+
+    const mergeProgress = (progress: JobProgress) => {
+      for (const item of progress.items) {
+        items.set(item.index, item);
+      }
+      cursor = progress.cursor;
+      latest = progress;
+    };
+
+    const fetchProgress = async (since: string | null) => {
+      let progress: JobProgress;
+      do {
+        const query = since ? `?since=${encodeURIComponent(since)}` : "";
+        const response = await fetch(`/api/score-leads/jobs/${jobId}/progress${query}`);
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({}));
+          throw new Error(payload?.error ?? "Unable to fetch job status.");
         }
-      } catch (pollError) {
+        ({ progress } = (await response.json()) as { progress: JobProgress });
+        mergeProgress(progress);
+        since = progress.cursor;
+      } while (progress.more && !cancelled);
+      return progress;
+    };
+
+    // Deltas are keyed on updated_at, so a write that commits late can be skipped. If the
+    // finished job counts more resolved items than we hold, load every item once.
+    const finish = async (progress: JobProgress) => {
+      const resolved = Array.from(items.values()).filter(
+        (item) => item.status === "completed" || item.status === "dead"
+      ).length;
+      if (resolved < progress.job.processed) {
+        items.clear();
+        progress = await fetchProgress(null);
+      }
+      if (!cancelled) {
+        applyJob(buildJobSnapshot(progress.job, items));
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const progress = await fetchProgress(cursor);
         if (cancelled) {
           return;
         }
-        setProcessing(false);
-        setJobId(null);
-        setActiveJob(null);
-        setError(pollError instanceof Error ? pollError.message : "Unable to poll job status.");
-        setSaveState((prev) => (prev === "saving" ? "error" : prev));
-        setTokenUsage(EMPTY_USAGE);
-        if (typeof window !== "undefined") {
-          window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
-          window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+        if (progress.job.status === "completed" || progress.job.status === "failed") {
+          await finish(progress);
+          return;
+        }
+        applyJob(buildJobSnapshot(progress.job, items));
+        timer = setTimeout(poll, 2000);
+      } catch (pollError) {
+        if (!cancelled) {
+          handleFailure(pollError);
         }
       }
     };
 
-    poll();
-    interval = setInterval(poll, 2000);
+    const fallBackToPolling = () => {
+      source?.close();
+      source = null;
+      if (!cancelled) {
+        void poll();
+      }
+    };
+
+    if (typeof EventSource === "undefined") {
+      void poll();
+    } else {
+      source = new EventSource(`/api/score-leads/jobs/${jobId}/events`);
+      source.addEventListener("progress", (event) => {
+        const progress = JSON.parse((event as MessageEvent<string>).data) as JobProgress;
+        mergeProgress(progress);
+        if (!cancelled && progress.job.status !== "completed" && progress.job.status !== "failed") {
+          applyJob(buildJobSnapshot(progress.job, items));
+        }
+      });
+      source.addEventListener("done", () => {
+        source?.close();
+        source = null;
+        if (latest) {
+          finish(latest).catch((finishError) => {
+            if (!cancelled) {
+              handleFailure(finishError);
+            }
+          });
+        }
+      });
+      source.addEventListener("stream-error", fallBackToPolling);
+      source.onerror = () => {
+        // Before the first event (404, no SSE support on the host) or once the browser
+        // gives up reconnecting, switch to polling from the last cursor.
+        if (!latest || source?.readyState === EventSource.CLOSED) {
+          fallBackToPolling();
+        }
+      };
+    }
 
     return () => {
       cancelled = true;
-      if (interval) {
-        clearInterval(interval);
+      source?.close();
+      if (timer) {
+        clearTimeout(timer);
       }
     };
   }, [jobId]);
@@ -961,6 +1013,7 @@ export default function DashboardPage() {
               {activeJob && activeJob.status !== "completed" && activeJob.status !== "failed" ? (
                 <p className="text-xs text-[var(--muted)]">
                   Processing job {activeJob.id.slice(0, 8)}… {activeJob.processed}/{activeJob.total} leads completed.
+                  {activeJob.retrying ? ` ${activeJob.retrying} waiting to retry.` : ""}
                 </p>
               ) : null}
             </div>
@@ -970,22 +1023,37 @@ export default function DashboardPage() {
         <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
             <div>
-              <p className="text-sm font-medium text-[var(--foreground)]">Upload CSV</p>
-              <p className="text-sm text-[var(--muted)]">Accepted format: comma or semicolon separated values with a header row.</p>
+              <p className="text-sm font-medium text-[var(--foreground)]">Upload leads</p>
+              <p className="text-sm text-[var(--muted)]">
+                Accepted formats: CSV (any common delimiter), TSV, XLSX (first sheet) or JSON Lines. Tabular files need a header row.
+              </p>
               {fileName ? <p className="text-xs text-[var(--muted)]">Loaded file: {fileName}</p> : null}
             </div>
             <label className="inline-flex cursor-pointer items-center rounded-md border border-[var(--border)] bg-[var(--surface)] px-4 py-2 text-sm font-medium text-[var(--foreground)] shadow-sm transition hover:border-[var(--accent)] hover:bg-[var(--surface-subtle)]">
-              <input type="file" accept=".csv" className="hidden" onChange={handleFileUpload} />
+              <input type="file" accept=".csv,.tsv,.txt,.xlsx,.jsonl,.ndjson" className="hidden" onChange={handleFileUpload} />
               Choose file
             </label>
           </div>
+          {previewing ? <p className="mt-4 text-xs text-[var(--muted)]">Reading columns…</p> : null}
+          {uploadPreview && columnMapping ? (
+            <ColumnMappingStep
+              key={uploadPreview.signature}
+              preview={uploadPreview}
+              mapping={columnMapping}
+              userId={currentUserId}
+              disabled={processing}
+              onChange={setColumnMapping}
+              onTemplateChange={handleTemplateChange}
+            />
+          ) : null}
           <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
             <input
               type="checkbox"
               className="h-4 w-4 rounded border border-[var(--border)] bg-[var(--surface)]"
               style={{ accentColor: "var(--accent)" }}
-              checked={useCleaner}
+              checked={useCleaner && scoringMode !== "rules"}
+              disabled={scoringMode === "rules"}
               onChange={(event) => setUseCleaner(event.target.checked)}
             />
             Pre-clean lead fields (LLM assisted)
@@ -994,22 +1062,110 @@ export default function DashboardPage() {
             The cleaner normalizes company names, domains, and maps URLs before scoring.
           </div>
         </div>
-          {pendingLeads.length > 0 || processing ? (
+          <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+              Scoring mode
+              <select
+                value={scoringMode}
+                onChange={(event) => setScoringMode(event.target.value as ScoringMode)}
+                className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-sm text-[var(--foreground)]"
+              >
+                <option value="model">AI model (GPT-5)</option>
+                <option value="rules">Rules only (no AI calls)</option>
+                <option value="hybrid">Hybrid (model + rules)</option>
+              </select>
+            </label>
+            <div className="text-xs text-[var(--muted)]">
+              {scoringMode === "rules"
+                ? "Deterministic scores from website, review, and founding-year signals. Free and reproducible."
+                : scoringMode === "hybrid"
+                  ? "Each factor blends the model and rules scores; large gaps flag the lead for review."
+                  : "The model scores each factor; the server recomputes the weighted total."}
+            </div>
+          </div>
+          {scoringMode === "hybrid" ? (
+            <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-center">
+              <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+                Model share
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={modelRatio}
+                  onChange={(event) => setModelRatio(Number(event.target.value))}
+                  style={{ accentColor: "var(--accent)" }}
+                />
+                <span className="w-16 text-xs">{Math.round(modelRatio * 100)}% model</span>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+                Flag when a factor differs by more than
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={reviewThreshold}
+                  onChange={(event) => setReviewThreshold(Number(event.target.value))}
+                  className="w-16 rounded-md border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-sm text-[var(--foreground)]"
+                />
+                points
+              </label>
+            </div>
+          ) : null}
+          <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+              Duplicates
+              <select
+                value={dedupePolicy}
+                onChange={(event) => setDedupePolicy(event.target.value as DedupePolicy)}
+                className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-sm text-[var(--foreground)]"
+              >
+                <option value="merge">Merge into one scored lead</option>
+                <option value="skip">Score the first, copy to the rest</option>
+                <option value="report">Score all, report only</option>
+                <option value="off">Don&apos;t check</option>
+              </select>
+            </label>
+            <div className="text-xs text-[var(--muted)]">
+              Matched on domain, phone, Maps URL, or a similar company name in the same city.
+            </div>
+          </div>
+          <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+              Reuse saved scores younger than
+              <input
+                type="number"
+                min={0}
+                max={365}
+                step={1}
+                value={reuseMaxAgeDays}
+                onChange={(event) => setReuseMaxAgeDays(Math.max(Number(event.target.value), 0))}
+                className="w-16 rounded-md border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-sm text-[var(--foreground)]"
+              />
+              days
+            </label>
+            <div className="text-xs text-[var(--muted)]">
+              Leads whose cleaned fields, website and review signals, and scoring setup are unchanged keep their saved
+              score. Set to 0 to always rescore.
+            </div>
+          </div>
+          {selectedFile || processing ? (
             <div className="mt-4 flex flex-col gap-3 rounded-lg border border-[var(--border)] bg-[var(--surface-subtle)] px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
               <p className="text-xs text-[var(--muted)]">
                 {processing
                   ? activeJob && activeJob.status !== "completed" && activeJob.status !== "failed"
                     ? `Processing ${activeJob.processed}/${activeJob.total} lead${activeJob.total === 1 ? "" : "s"}…`
                     : "Scoring in progress..."
-                  : `Ready to score ${pendingLeads.length} lead${pendingLeads.length === 1 ? "" : "s"}. Adjust settings, then run scoring.`}
+                  : `Ready to upload ${selectedFile?.name ?? "file"} (${formatFileSize(selectedFile?.size ?? 0)}). Adjust settings, then run scoring.`}
               </p>
               <div className="flex gap-2">
                 <button
                   type="button"
                   onClick={handleScoreLeads}
-                  disabled={processing || pendingLeads.length === 0}
+                  disabled={processing || previewing || !selectedFile}
                   className={`rounded-md px-3 py-1.5 text-sm font-medium transition ${
-                    processing || pendingLeads.length === 0
+                    processing || previewing || !selectedFile
                       ? "cursor-not-allowed border border-[var(--border)] bg-[var(--surface-subtle)] text-[var(--muted)]"
                       : "border border-[var(--accent)] bg-[var(--accent)] text-[var(--accent-contrast)] hover:bg-[var(--accent-hover)]"
                   }`}
@@ -1027,11 +1183,67 @@ export default function DashboardPage() {
               </div>
             </div>
           ) : (
-            <p className="mt-4 text-xs text-[var(--muted)]">Upload a CSV to enable scoring.</p>
+            <p className="mt-4 text-xs text-[var(--muted)]">Choose a file to enable scoring.</p>
           )}
           {error ? <p className="mt-4 text-sm" style={{ color: "var(--error)" }}>{error}</p> : null}
         </section>
 
+        {activeJob && activeJob.failed && activeJob.failedItems ? (
+          <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors">
+            <div className="flex flex-col gap-3 border-b border-[var(--border-muted)] px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-[var(--foreground)]">Failed leads ({activeJob.failed})</h2>
+                <p className="text-xs text-[var(--muted)]">
+                  These leads could not be scored and are left out of the results and CSV.
+                  {activeJob.failed > activeJob.failedItems.length ? ` Showing the first ${activeJob.failedItems.length}.` : ""}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleRetryFailed}
+                disabled={processing || isRetrying}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium transition ${
+                  processing || isRetrying
+                    ? "cursor-not-allowed border border-[var(--border)] bg-[var(--surface-subtle)] text-[var(--muted)]"
+                    : "border border-[var(--accent)] bg-[var(--accent)] text-[var(--accent-contrast)] hover:bg-[var(--accent-hover)]"
+                }`}
+              >
+                {isRetrying ? "Retrying…" : "Retry failed items"}
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                  <tr>
+                    <th scope="col" className="px-4 py-3 font-medium">Row</th>
+                    <th scope="col" className="px-4 py-3 font-medium">Company</th>
+                    <th scope="col" className="px-4 py-3 font-medium">Status</th>
+                    <th scope="col" className="px-4 py-3 font-medium">Attempts</th>
+                    <th scope="col" className="px-4 py-3 font-medium">Last error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--border-muted)]">
+                  {activeJob.failedItems.map((item) => (
+                    <tr key={item.index} className="align-top">
+                      <td className="px-4 py-3 text-[var(--muted)]">{item.index + 1}</td>
+                      <td className="px-4 py-3 text-[var(--foreground)]">
+                        {item.company || item.leadId}
+                      </td>
+                      <td className="px-4 py-3 text-[var(--muted)]">
+                        {item.status === "dead" ? "Gave up" : "Stopped with job"}
+                      </td>
+                      <td className="px-4 py-3 text-[var(--muted)]">{item.attempts}</td>
+                      <td className="px-4 py-3 text-xs" style={{ color: "var(--error)" }}>
+                        {item.error ?? "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ) : null}
+
         {scoredLeads.length > 0 ? (
           <>
             <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
@@ -1043,16 +1255,38 @@ export default function DashboardPage() {
                 <p className="text-xs uppercase text-[var(--muted)]">Average score</p>
                 <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">{summary.averageScore}</p>
               </article>
-              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
-                <p className="text-xs uppercase text-[var(--muted)]">Hot</p>
-                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">{summary.hot}</p>
-                <p className="text-xs text-[var(--muted)]">Qualified: {summary.qualified}</p>
-              </article>
-              <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
-                <p className="text-xs uppercase text-[var(--muted)]">Borderline / Cold</p>
-                <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">{summary.borderline}</p>
-                <p className="text-xs text-[var(--muted)]">Cold: {summary.cold}</p>
-              </article>
+              {summary.bands.map((band) => (
+                <article
+                  key={band.label}
+                  className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors"
+                >
+                  <p className="flex items-center gap-2 text-xs uppercase text-[var(--muted)]">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: band.color }} />
+                    {band.label}
+                  </p>
+                  <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">{band.count}</p>
+                  <p className="text-xs text-[var(--muted)]">Score ≥ {band.min}</p>
+                </article>
+              ))}
+              {activeJob?.dedupe && activeJob.dedupe.clusters.length > 0 ? (
+                <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                  <p className="text-xs uppercase text-[var(--muted)]">Duplicates</p>
+                  <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                    {activeJob.dedupe.clusters.length}
+                  </p>
+                  <p className="text-xs text-[var(--muted)]">
+                    {activeJob.dedupe.clusters.length === 1 ? "group" : "groups"} · {activeJob.dedupe.skipped} not
+                    re-scored
+                  </p>
+                </article>
+              ) : null}
+              {activeJob?.reused ? (
+                <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
+                  <p className="text-xs uppercase text-[var(--muted)]">Reused scores</p>
+                  <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">{activeJob.reused}</p>
+                  <p className="text-xs text-[var(--muted)]">Unchanged since a recent run</p>
+                </article>
+              ) : null}
               <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
                 <p className="text-xs uppercase text-[var(--muted)]">AI Tokens · Cleaning</p>
                 <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
@@ -1061,6 +1295,9 @@ export default function DashboardPage() {
                 <p className="text-xs text-[var(--muted)]">
                   Prompt {tokenUsage.cleaning.promptTokens.toLocaleString()} · Completion {tokenUsage.cleaning.completionTokens.toLocaleString()}
                 </p>
+                {tokenUsage.cleaning.costUsd !== undefined ? (
+                  <p className="text-xs text-[var(--muted)]">Cost ${tokenUsage.cleaning.costUsd.toFixed(4)}</p>
+                ) : null}
               </article>
               <article className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors">
                 <p className="text-xs uppercase text-[var(--muted)]">AI Tokens · Scoring</p>
@@ -1070,6 +1307,9 @@ export default function DashboardPage() {
                 <p className="text-xs text-[var(--muted)]">
                   Prompt {tokenUsage.scoring.promptTokens.toLocaleString()} · Completion {tokenUsage.scoring.completionTokens.toLocaleString()}
                 </p>
+                {tokenUsage.scoring.costUsd !== undefined ? (
+                  <p className="text-xs text-[var(--muted)]">Cost ${tokenUsage.scoring.costUsd.toFixed(4)}</p>
+                ) : null}
               </article>
             </section>
 
@@ -1121,25 +1361,37 @@ export default function DashboardPage() {
                       <th scope="col" className="px-4 py-3 font-medium">Contact</th>
                       <th scope="col" className="px-4 py-3 font-medium">Industry</th>
                       <th scope="col" className="px-4 py-3 font-medium">Final score</th>
+                      <th scope="col" className="px-4 py-3 font-medium">Factors</th>
                       <th scope="col" className="px-4 py-3 font-medium">Website signals</th>
                       <th scope="col" className="px-4 py-3 font-medium">Reviews</th>
+                      <th scope="col" className="px-4 py-3 font-medium">AI cost</th>
                       <th scope="col" className="px-4 py-3 font-medium">Reasoning</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-[var(--border-muted)]">
-                    {scoredLeads.map(({ lead, score, enriched }) => (
+                    {scoredLeads.map(({ lead, score, enriched, duplicate_of, reused, usage }) => (
                       <tr key={lead.lead_id} className="align-top">
                         <td className="px-4 py-3 text-[var(--muted)]">
                           <p className="font-medium text-[var(--foreground)]">{lead.company}</p>
                           {lead.location ? <p className="text-xs text-[var(--muted)]">{lead.location}</p> : null}
+                          {duplicate_of ? (
+                            <p className="mt-1 text-xs" style={{ color: "var(--warning)" }}>
+                              Duplicate of {duplicate_of.lead_id}
+                            </p>
+                          ) : null}
+                          {reused ? (
+                            <p className="mt-1 text-xs text-[var(--muted)]">
+                              Score reused from {new Date(reused.scored_at).toLocaleDateString()}
+                            </p>
+                          ) : null}
                         </td>
                         <td className="px-4 py-3 text-[var(--muted)]">
                           {(() => {
                             const normalized = lead.normalized as ParsedLead | undefined;
-                            const name = normalized ? getValue(normalized, FIELD_ALIASES.contact) : undefined;
+                            const name = normalized ? getFieldValue(normalized, "contact", lead.mapping) : undefined;
                             const email =
                               enriched.cleaned.email ??
-                              (normalized ? getValue(normalized, FIELD_ALIASES.email) : undefined);
+                              (normalized ? getFieldValue(normalized, "email", lead.mapping) : undefined);
 
                             return (
                               <div className="space-y-1">
@@ -1158,7 +1410,34 @@ export default function DashboardPage() {
                           })()}
                         </td>
                         <td className="px-4 py-3 text-[var(--muted)]">{score.industry ?? lead.industry ?? "default"}</td>
-                        <td className="px-4 py-3 text-[var(--muted)]">{score.final_score.toFixed(2)}</td>
+                        <td className="px-4 py-3 text-[var(--muted)]">
+                          <p>{score.final_score.toFixed(2)}</p>
+                          <p className="text-xs font-medium" style={{ color: score.band?.color }}>
+                            {score.interpretation}
+                          </p>
+                          {score.band?.action ? (
+                            <p className="text-xs text-[var(--muted)]">{score.band.action}</p>
+                          ) : null}
+                          {score.needs_review && score.disagreement ? (
+                            <p className="mt-1 text-xs font-medium" style={{ color: "var(--warning)" }}>
+                              Needs review:{" "}
+                              {Object.entries(score.disagreement)
+                                .filter(([, entry]) => entry.gap > (score.blend?.review_threshold ?? 0))
+                                .map(([factor, entry]) => `${factorLabel(factor, score.factors)} ${entry.model} vs ${entry.rules}`)
+                                .join(", ")}
+                            </p>
+                          ) : null}
+                        </td>
+                        <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                          <dl className="space-y-0.5">
+                            {Object.entries(normalizeFactorScores(score.scores)).map(([factor, value]) => (
+                              <div key={factor} className="flex justify-between gap-3">
+                                <dt>{factorLabel(factor, score.factors)}</dt>
+                                <dd className="font-medium text-[var(--foreground)]">{value}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </td>
                         <td className="px-4 py-3 text-[var(--muted)]">
                           {(() => {
                             const url = enriched.website?.url ?? (lead.website && (lead.website.startsWith("http") ? lead.website : `https://${lead.website}`));
@@ -1183,9 +1462,9 @@ export default function DashboardPage() {
                         </td>
                         <td className="px-4 py-3 text-[var(--muted)]">
                           <div className="space-y-1">
-                            {score.scores.reviews.average_rating !== null ? (
+                            {enriched.reviews.averageRating !== null ? (
                               <p>
-                                {score.scores.reviews.average_rating}★ ({score.scores.reviews.review_count ?? "?"})
+                                {enriched.reviews.averageRating}★ ({enriched.reviews.reviewCount ?? "?"})
                               </p>
                             ) : (
                               <span className="text-[var(--muted)]">Not found</span>
@@ -1208,6 +1487,18 @@ export default function DashboardPage() {
                             )}
                           </div>
                         </td>
+                        <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                          <dl className="space-y-0.5">
+                            <div className="flex justify-between gap-3">
+                              <dt>Clean</dt>
+                              <dd className="whitespace-nowrap text-[var(--foreground)]">{formatStepUsage(usage?.clean)}</dd>
+                            </div>
+                            <div className="flex justify-between gap-3">
+                              <dt>Score</dt>
+                              <dd className="whitespace-nowrap text-[var(--foreground)]">{formatStepUsage(usage?.score)}</dd>
+                            </div>
+                          </dl>
+                        </td>
                         <td className="px-4 py-3 text-[var(--muted)]">
                           <details className="text-xs text-[var(--muted)]">
                             <summary className="cursor-pointer text-[var(--accent)]">View reasoning</summary>
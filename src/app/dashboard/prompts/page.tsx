@@ -0,0 +1,399 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import type { PromptTemplate } from "@/lib/ai/prompts";
+import { DashboardNav } from "@/components/DashboardNav";
+import { listFactors } from "@/lib/factors";
+import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+import type { PromptKind } from "@/lib/types";
+
+type PromptVersion = PromptTemplate & {
+  isActive: boolean;
+  createdAt: number | null;
+};
+
+type PromptDraft = {
+  name: string;
+  system: string;
+  guidance: Record<string, string>;
+  activate: boolean;
+};
+
+const KIND_LABELS: Record<PromptKind, string> = {
+  score: "Scorer",
+  clean: "Cleaner"
+};
+
+const MODEL_FACTORS = listFactors().filter((factor) => factor.scorer === "model");
+
+const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
+const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
+
+const inputClass =
+  "w-full rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)] focus:ring-1 focus:ring-[color:var(--accent)]/50";
+
+const toDraft = (prompt: PromptTemplate): PromptDraft => ({
+  name: prompt.name,
+  system: prompt.system,
+  guidance: { ...prompt.guidance },
+  activate: true
+});
+
+export default function PromptVersionsPage() {
+  const router = useRouter();
+  const supabase = useMemo(() => getSupabaseBrowserClient(), []);
+
+  const [authChecked, setAuthChecked] = useState(false);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [kind, setKind] = useState<PromptKind>("score");
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [active, setActive] = useState<Record<PromptKind, PromptVersion> | null>(null);
+  const [builtin, setBuiltin] = useState<Record<PromptKind, PromptTemplate> | null>(null);
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      const session = data.session;
+      if (!session) {
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setAuthChecked(false);
+        setCurrentEmail(null);
+        setCurrentUserId(null);
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [router, supabase]);
+
+  const fetchPrompts = useCallback(async () => {
+    if (!currentUserId) {
+      setVersions([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/prompt-versions?user_id=${encodeURIComponent(currentUserId)}`);
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to load prompts");
+      }
+      const payload = (await response.json()) as {
+        versions: PromptVersion[];
+        active: Record<PromptKind, PromptVersion>;
+        builtin: Record<PromptKind, PromptTemplate>;
+      };
+      setVersions(payload.versions ?? []);
+      setActive(payload.active ?? null);
+      setBuiltin(payload.builtin ?? null);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load prompts");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (!authChecked || !currentUserId) {
+      return;
+    }
+    void fetchPrompts();
+  }, [authChecked, currentUserId, fetchPrompts]);
+
+  useEffect(() => {
+    setDraft(active ? toDraft(active[kind]) : null);
+  }, [active, kind]);
+
+  const handleSignOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthChecked(false);
+    setCurrentEmail(null);
+    setCurrentUserId(null);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+    }
+    router.replace("/");
+  }, [router, supabase]);
+
+  const sendRequest = useCallback(
+    async (url: string, init: RequestInit, fallbackMessage: string) => {
+      setError(null);
+      try {
+        const response = await fetch(url, init);
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({}));
+          throw new Error(payload?.error ?? fallbackMessage);
+        }
+        await fetchPrompts();
+        return true;
+      } catch (requestError) {
+        setError(requestError instanceof Error ? requestError.message : fallbackMessage);
+        return false;
+      }
+    },
+    [fetchPrompts]
+  );
+
+  const handleSave = useCallback(async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentUserId || !draft) {
+      return;
+    }
+    setSaving(true);
+    await sendRequest(
+      "/api/prompt-versions",
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          user_id: currentUserId,
+          kind,
+          name: draft.name,
+          system: draft.system,
+          guidance: kind === "score" ? draft.guidance : {},
+          isActive: draft.activate
+        })
+      },
+      "Failed to save prompt version"
+    );
+    setSaving(false);
+  }, [currentUserId, draft, kind, sendRequest]);
+
+  const handleActivate = useCallback(async (promptId: string) => {
+    if (!currentUserId) {
+      return;
+    }
+    await sendRequest(
+      `/api/prompt-versions/${encodeURIComponent(promptId)}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ user_id: currentUserId, isActive: true })
+      },
+      "Failed to activate prompt version"
+    );
+  }, [currentUserId, sendRequest]);
+
+  const kindVersions = useMemo(() => versions.filter((version) => version.kind === kind), [kind, versions]);
+
+  if (!authChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)] transition-colors">
+        <p className="text-sm text-[var(--muted)]">Checking authentication…</p>
+      </div>
+    );
+  }
+
+  const secondaryButton = "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs font-medium text-[var(--foreground)] shadow-sm transition hover:border-[var(--accent)] hover:bg-[var(--surface-subtle)]";
+  const activeTab = "border-[var(--accent)] bg-[var(--accent)] text-[var(--accent-contrast)]";
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--foreground)] transition-colors">
+      <main className="mx-auto flex max-w-5xl flex-col gap-8 px-6 py-10">
+        <header className="space-y-4">
+          <div className="flex justify-end">
+            <DashboardNav onSignOut={handleSignOut}>
+              {currentEmail ? (
+                <span className="rounded-full border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]">
+                  Signed in as {currentEmail}
+                </span>
+              ) : null}
+            </DashboardNav>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold text-[var(--foreground)]">Prompts</h1>
+            <p className="text-sm text-[var(--muted)]">
+              Every edit saves a new numbered version. New jobs are pinned to the active version when they are queued,
+              and each saved lead records the prompt versions that scored it.
+            </p>
+            <div className="flex gap-2">
+              {(Object.keys(KIND_LABELS) as PromptKind[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setKind(option)}
+                  className={`rounded-md border px-3 py-1 text-xs font-medium transition ${
+                    option === kind ? activeTab : secondaryButton
+                  }`}
+                >
+                  {KIND_LABELS[option]}
+                  {active ? ` · ${active[option].version === 0 ? "built-in" : `v${active[option].version}`}` : ""}
+                </button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        {error ? (
+          <section className="rounded-lg border border-[color:var(--error)] bg-[color:var(--error)]/10 p-4 text-sm text-[color:var(--error)]">
+            {error}
+          </section>
+        ) : null}
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">New {KIND_LABELS[kind].toLowerCase()} version</h2>
+          {!draft ? (
+            <p className="mt-4 text-sm text-[var(--muted)]">{loading ? "Loading prompts…" : "Prompts unavailable."}</p>
+          ) : (
+            <form className="mt-4 space-y-4" onSubmit={handleSave}>
+              <label className="flex flex-col gap-2 text-xs uppercase text-[var(--muted)]">
+                Name
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(event) => setDraft((prev) => (prev ? { ...prev, name: event.target.value } : prev))}
+                  className={inputClass}
+                  required
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-xs uppercase text-[var(--muted)]">
+                System prompt
+                <textarea
+                  value={draft.system}
+                  onChange={(event) => setDraft((prev) => (prev ? { ...prev, system: event.target.value } : prev))}
+                  rows={8}
+                  className={`${inputClass} font-mono text-xs normal-case`}
+                  required
+                />
+              </label>
+              {kind === "score" ? (
+                <div className="space-y-2">
+                  <p className="text-xs uppercase text-[var(--muted)]">Factor guidance (blank uses the default)</p>
+                  {MODEL_FACTORS.map((factor) => (
+                    <label key={factor.id} className="grid gap-2 text-xs text-[var(--muted)] sm:grid-cols-[10rem_1fr]">
+                      <span className="pt-2">{factor.label}</span>
+                      <input
+                        type="text"
+                        value={draft.guidance[factor.id] ?? ""}
+                        placeholder={factor.guidance}
+                        onChange={(event) =>
+                          setDraft((prev) =>
+                            prev ? { ...prev, guidance: { ...prev.guidance, [factor.id]: event.target.value } } : prev
+                          )
+                        }
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+              ) : null}
+              <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border border-[var(--border)] bg-[var(--surface)]"
+                  style={{ accentColor: "var(--accent)" }}
+                  checked={draft.activate}
+                  onChange={(event) => setDraft((prev) => (prev ? { ...prev, activate: event.target.checked } : prev))}
+                />
+                Make this the active version
+              </label>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className={`rounded-md px-3 py-1.5 text-sm font-medium transition ${
+                    saving
+                      ? "cursor-progress border border-[var(--border)] bg-[var(--surface-subtle)] text-[var(--muted)]"
+                      : "border border-[var(--accent)] bg-[var(--accent)] text-[var(--accent-contrast)] hover:bg-[var(--accent-hover)]"
+                  }`}
+                >
+                  {saving ? "Saving…" : "Save new version"}
+                </button>
+                {builtin ? (
+                  <button type="button" className={secondaryButton} onClick={() => setDraft(toDraft(builtin[kind]))}>
+                    Start from built-in
+                  </button>
+                ) : null}
+              </div>
+            </form>
+          )}
+        </section>
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">{KIND_LABELS[kind]} versions</h2>
+          <ul className="mt-4 space-y-3">
+            {kindVersions.map((version) => (
+              <li key={version.id} className="rounded-md border border-[var(--border-muted)] px-4 py-3">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <p className="text-sm font-medium text-[var(--foreground)]">
+                    v{version.version} · {version.name}
+                    {version.isActive ? <span className="ml-2 text-xs text-[var(--accent)]">Active</span> : null}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {!version.isActive ? (
+                      <button type="button" className={secondaryButton} onClick={() => void handleActivate(version.id)}>
+                        Activate
+                      </button>
+                    ) : null}
+                    <button type="button" className={secondaryButton} onClick={() => setDraft(toDraft(version))}>
+                      Copy to editor
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-[var(--muted)]">
+                  {version.createdAt ? new Date(version.createdAt).toLocaleString() : ""} · id {version.id}
+                </p>
+              </li>
+            ))}
+            {builtin ? (
+              <li className="rounded-md border border-[var(--border-muted)] px-4 py-3">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <p className="text-sm font-medium text-[var(--foreground)]">
+                    {builtin[kind].name}
+                    {active && active[kind].id === builtin[kind].id ? (
+                      <span className="ml-2 text-xs text-[var(--accent)]">Active</span>
+                    ) : null}
+                  </p>
+                  {active && active[kind].id !== builtin[kind].id ? (
+                    <button
+                      type="button"
+                      className={secondaryButton}
+                      onClick={() => void handleActivate(builtin[kind].id)}
+                    >
+                      Use built-in
+                    </button>
+                  ) : null}
+                </div>
+                <p className="mt-1 text-xs text-[var(--muted)]">id {builtin[kind].id}</p>
+              </li>
+            ) : null}
+          </ul>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,648 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { DashboardNav } from "@/components/DashboardNav";
+import type { WeightProfile } from "@/lib/ai/scoring";
+import type { PromptVersionDetail } from "@/lib/promptVersions";
+import type {
+  ReplayDiff,
+  ReplayUsage,
+  ScoringReplay,
+  ScoringSnapshot,
+  SnapshotCandidate
+} from "@/lib/replays";
+import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+import type { ScoringMode } from "@/lib/types";
+
+const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
+const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
+const REPLAY_POLL_INTERVAL_MS = 3000;
+
+const cardClass = "rounded-lg border border-[var(--border)] bg-[var(--surface)] p-4 shadow-sm transition-colors";
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-2 py-1.5 text-sm text-[var(--foreground)] focus:border-[var(--accent)] focus:outline-none";
+const primaryButton =
+  "rounded-md border border-[var(--accent)] bg-[var(--accent)] px-3 py-1.5 text-sm font-medium text-[var(--accent-contrast)] hover:bg-[var(--accent-hover)] disabled:cursor-not-allowed disabled:opacity-60";
+const secondaryButton =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1.5 text-sm text-[var(--foreground)] shadow-sm hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:opacity-60";
+
+type ReplayForm = {
+  scoringMode: "" | ScoringMode;
+  model: string;
+  promptVersionId: string;
+  weightProfileId: string;
+};
+
+const EMPTY_FORM: ReplayForm = { scoringMode: "", model: "", promptVersionId: "", weightProfileId: "" };
+
+const formatUsd = (value: number | undefined) => (value === undefined ? "—" : `$${value.toFixed(4)}`);
+
+const formatDelta = (value: number | null) =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
+
+function describeUsage(usage: ReplayUsage | null) {
+  if (!usage) {
+    return "—";
+  }
+  const unpriced = usage.unpricedTokens ? ` (+${usage.unpricedTokens.toLocaleString()} unpriced tokens)` : "";
+  return `${usage.totalTokens.toLocaleString()} tokens · ${formatUsd(usage.costUsd)}${unpriced}`;
+}
+
+function describeReplay(replay: ScoringReplay) {
+  const parts: string[] = [replay.config.scoringMode];
+  if (replay.config.scoringMode !== "rules") {
+    parts.push(replay.config.model ?? "deployment model");
+  }
+  if (replay.config.prompt) {
+    parts.push(`${replay.config.prompt.name} v${replay.config.prompt.version}`);
+  }
+  parts.push(replay.config.weightProfile ? `${replay.config.weightProfile.name} weights` : "matched weights");
+  return parts.join(" · ");
+}
+
+export default function ReplaysPage() {
+  const router = useRouter();
+  const supabase = useMemo(() => getSupabaseBrowserClient(), []);
+
+  const [authChecked, setAuthChecked] = useState(false);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<ScoringSnapshot[]>([]);
+  const [jobs, setJobs] = useState<SnapshotCandidate[]>([]);
+  const [prompts, setPrompts] = useState<PromptVersionDetail[]>([]);
+  const [profiles, setProfiles] = useState<WeightProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedJobId, setSelectedJobId] = useState("");
+  const [snapshotName, setSnapshotName] = useState("");
+  const [forms, setForms] = useState<Record<string, ReplayForm>>({});
+  const [selected, setSelected] = useState<{ snapshotId: string; replayId: string } | null>(null);
+  const [diff, setDiff] = useState<{ replay: ScoringReplay; diff: ReplayDiff } | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      const session = data.session;
+      if (!session) {
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setAuthChecked(false);
+        setCurrentEmail(null);
+        setCurrentUserId(null);
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [router, supabase]);
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!currentUserId) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ user_id: currentUserId });
+      const [snapshotResponse, promptResponse, profileResponse] = await Promise.all([
+        fetch(`/api/snapshots?${params.toString()}`),
+        fetch(`/api/prompt-versions?${params.toString()}`),
+        fetch(`/api/weight-profiles?${params.toString()}`)
+      ]);
+      const payload = await snapshotResponse.json().catch(() => ({}));
+      if (!snapshotResponse.ok) {
+        throw new Error(payload?.error ?? "Failed to load snapshots");
+      }
+      const data = payload as { snapshots: ScoringSnapshot[]; jobs: SnapshotCandidate[] };
+      setSnapshots(data.snapshots ?? []);
+      setJobs(data.jobs ?? []);
+      setSelectedJobId((current) => current || data.jobs?.[0]?.id || "");
+
+      if (promptResponse.ok) {
+        const promptPayload = (await promptResponse.json()) as { versions: PromptVersionDetail[] };
+        setPrompts((promptPayload.versions ?? []).filter((version) => version.kind === "score"));
+      }
+      if (profileResponse.ok) {
+        const profilePayload = (await profileResponse.json()) as { profiles: WeightProfile[] };
+        setProfiles(profilePayload.profiles ?? []);
+      }
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load snapshots");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (!authChecked || !currentUserId) {
+      return;
+    }
+    fetchSnapshots();
+  }, [authChecked, currentUserId, fetchSnapshots]);
+
+  // Polls the selected replay until it finishes; the server resumes it if it stalled.
+  useEffect(() => {
+    if (!selected || !currentUserId) {
+      return;
+    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const load = async () => {
+      try {
+        const params = new URLSearchParams({ user_id: currentUserId });
+        const response = await fetch(
+          `/api/snapshots/${selected.snapshotId}/replays/${selected.replayId}?${params.toString()}`
+        );
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(payload?.error ?? "Failed to load replay");
+        }
+        if (cancelled) return;
+        const data = payload as { replay: ScoringReplay; diff: ReplayDiff };
+        setDiff(data);
+        if (data.replay.status === "queued" || data.replay.status === "running") {
+          timer = setTimeout(load, REPLAY_POLL_INTERVAL_MS);
+        } else {
+          setSnapshots((current) =>
+            current.map((snapshot) => ({
+              ...snapshot,
+              replays: snapshot.replays.map((replay) => (replay.id === data.replay.id ? data.replay : replay))
+            }))
+          );
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : "Failed to load replay");
+        }
+      }
+    };
+
+    setDiff(null);
+    load();
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [selected, currentUserId]);
+
+  const handleCreateSnapshot = useCallback(async () => {
+    if (!currentUserId || !selectedJobId) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/snapshots", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ user_id: currentUserId, job_id: selectedJobId, name: snapshotName })
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Failed to snapshot job");
+      }
+      setSnapshotName("");
+      await fetchSnapshots();
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : "Failed to snapshot job");
+    } finally {
+      setBusy(false);
+    }
+  }, [currentUserId, selectedJobId, snapshotName, fetchSnapshots]);
+
+  const handleDeleteSnapshot = useCallback(
+    async (snapshot: ScoringSnapshot) => {
+      if (!currentUserId || !window.confirm(`Delete snapshot "${snapshot.name}" and its replays?`)) {
+        return;
+      }
+      setBusy(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/snapshots/${snapshot.id}`, {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ user_id: currentUserId })
+        });
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(payload?.error ?? "Failed to delete snapshot");
+        }
+        if (selected?.snapshotId === snapshot.id) {
+          setSelected(null);
+        }
+        setSnapshots((current) => current.filter((entry) => entry.id !== snapshot.id));
+      } catch (deleteError) {
+        setError(deleteError instanceof Error ? deleteError.message : "Failed to delete snapshot");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [currentUserId, selected]
+  );
+
+  const handleRunReplay = useCallback(
+    async (snapshotId: string) => {
+      if (!currentUserId) {
+        return;
+      }
+      const form = forms[snapshotId] ?? EMPTY_FORM;
+      setBusy(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/snapshots/${snapshotId}/replays`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            user_id: currentUserId,
+            scoring_mode: form.scoringMode || undefined,
+            model: form.model.trim() || undefined,
+            prompt_version_id: form.promptVersionId || undefined,
+            weight_profile_id: form.weightProfileId || undefined
+          })
+        });
+        const payload = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(payload?.error ?? "Failed to start replay");
+        }
+        const { replay } = payload as { replay: ScoringReplay };
+        setSnapshots((current) =>
+          current.map((snapshot) =>
+            snapshot.id === snapshotId ? { ...snapshot, replays: [replay, ...snapshot.replays] } : snapshot
+          )
+        );
+        setSelected({ snapshotId, replayId: replay.id });
+      } catch (runError) {
+        setError(runError instanceof Error ? runError.message : "Failed to start replay");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [currentUserId, forms]
+  );
+
+  const updateForm = (snapshotId: string, patch: Partial<ReplayForm>) =>
+    setForms((current) => ({ ...current, [snapshotId]: { ...(current[snapshotId] ?? EMPTY_FORM), ...patch } }));
+
+  const handleSignOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthChecked(false);
+    setCurrentEmail(null);
+    setCurrentUserId(null);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+    }
+    router.replace("/");
+  }, [router, supabase]);
+
+  if (!authChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)] transition-colors">
+        <p className="text-sm text-[var(--muted)]">Checking authentication…</p>
+      </div>
+    );
+  }
+
+  const selectedSnapshot = selected ? snapshots.find((snapshot) => snapshot.id === selected.snapshotId) ?? null : null;
+  const visibleRows = diff ? diff.diff.rows.filter((row) => !changedOnly || row.bandChanged) : [];
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--foreground)] transition-colors">
+      <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-10">
+        <header className="space-y-4">
+          <div className="flex justify-end">
+            <DashboardNav onSignOut={handleSignOut}>
+              {currentEmail ? (
+                <span className="rounded-full border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]">
+                  Signed in as {currentEmail}
+                </span>
+              ) : null}
+            </DashboardNav>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold">Scoring replays</h1>
+            <p className="text-sm text-[var(--muted)]">
+              Snapshot a finished job to freeze its cleaned leads, reviews and website signals, then re-score that input
+              under another model, prompt version or weight profile. Replays never clean or scrape again; only the
+              scoring calls are paid for. Anything left blank keeps the job&apos;s setting.
+            </p>
+          </div>
+        </header>
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">Snapshot a job</h2>
+          {jobs.length === 0 && !loading ? (
+            <p className="mt-2 text-sm text-[var(--muted)]">
+              No completed jobs yet. Score leads on the{" "}
+              <Link href="/dashboard" className="text-[var(--accent)] underline">
+                lead scoring
+              </Link>{" "}
+              page first.
+            </p>
+          ) : (
+            <div className="mt-3 flex flex-wrap items-center gap-3">
+              <select
+                value={selectedJobId}
+                onChange={(event) => setSelectedJobId(event.target.value)}
+                className={inputClass}
+              >
+                {jobs.map((job) => (
+                  <option key={job.id} value={job.id}>
+                    {new Date(job.createdAt).toLocaleString()} · {job.total} leads · {job.id.slice(0, 8)}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={snapshotName}
+                onChange={(event) => setSnapshotName(event.target.value)}
+                placeholder="Name (optional)"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => void handleCreateSnapshot()}
+                disabled={busy || !selectedJobId}
+                className={primaryButton}
+              >
+                Create snapshot
+              </button>
+            </div>
+          )}
+          {error ? (
+            <p className="mt-3 text-sm" style={{ color: "var(--error)" }}>
+              {error}
+            </p>
+          ) : null}
+        </section>
+
+        {loading ? (
+          <p className="text-sm text-[var(--muted)]">Loading snapshots…</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-sm text-[var(--muted)]">No snapshots yet.</p>
+        ) : (
+          <section className="grid gap-4 lg:grid-cols-2">
+            {snapshots.map((snapshot) => {
+              const form = forms[snapshot.id] ?? EMPTY_FORM;
+              return (
+                <article key={snapshot.id} className={`${cardClass} space-y-3`}>
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <h2 className="font-semibold text-[var(--foreground)]">{snapshot.name}</h2>
+                      <p className="text-xs text-[var(--muted)]">
+                        {snapshot.itemCount} leads · {snapshot.baseline.scoringMode} ·{" "}
+                        {snapshot.baseline.usage.models.join(", ") || "model not recorded"}
+                      </p>
+                      <p className="text-xs text-[var(--muted)]">Baseline cost: {describeUsage(snapshot.baseline.usage)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => void handleDeleteSnapshot(snapshot)}
+                      disabled={busy}
+                      className="text-xs text-[var(--muted)] underline hover:text-[var(--error)]"
+                    >
+                      Delete
+                    </button>
+                  </div>
+
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    <select
+                      value={form.scoringMode}
+                      onChange={(event) => updateForm(snapshot.id, { scoringMode: event.target.value as ReplayForm["scoringMode"] })}
+                      className={inputClass}
+                    >
+                      <option value="">Mode: same as job</option>
+                      <option value="model">Model</option>
+                      <option value="hybrid">Hybrid</option>
+                      <option value="rules">Rules only</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={form.model}
+                      onChange={(event) => updateForm(snapshot.id, { model: event.target.value })}
+                      placeholder="Model id (blank: deployment model)"
+                      className={inputClass}
+                    />
+                    <select
+                      value={form.promptVersionId}
+                      onChange={(event) => updateForm(snapshot.id, { promptVersionId: event.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Prompt: same as job</option>
+                      {prompts.map((prompt) => (
+                        <option key={prompt.id} value={prompt.id}>
+                          {prompt.name} v{prompt.version}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={form.weightProfileId}
+                      onChange={(event) => updateForm(snapshot.id, { weightProfileId: event.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Weights: match by industry</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id ?? profile.name} value={profile.id ?? ""}>
+                          {profile.name} for every lead
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void handleRunReplay(snapshot.id)}
+                    disabled={busy}
+                    className={primaryButton}
+                  >
+                    Run replay
+                  </button>
+
+                  {snapshot.replays.length > 0 ? (
+                    <ul className="divide-y divide-[var(--border-muted)] text-sm">
+                      {snapshot.replays.map((replay) => (
+                        <li key={replay.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                          <div>
+                            <p className="text-[var(--foreground)]">{describeReplay(replay)}</p>
+                            <p className="text-xs text-[var(--muted)]">
+                              {new Date(replay.createdAt).toLocaleString()} · {replay.status}
+                              {replay.status === "running" ? ` (${replay.processed}/${snapshot.itemCount})` : ""}
+                              {replay.error ? ` · ${replay.error}` : ""}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setSelected({ snapshotId: snapshot.id, replayId: replay.id })}
+                            className={secondaryButton}
+                          >
+                            {selected?.replayId === replay.id ? "Showing" : "Compare"}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </article>
+              );
+            })}
+          </section>
+        )}
+
+        {selected && selectedSnapshot ? (
+          <section className="space-y-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h2 className="text-xl font-semibold">
+                {selectedSnapshot.name} <span className="text-sm text-[var(--muted)]">baseline vs replay</span>
+              </h2>
+              {diff ? <p className="text-xs text-[var(--muted)]">{describeReplay(diff.replay)}</p> : null}
+            </div>
+
+            {!diff ? (
+              <p className="text-sm text-[var(--muted)]">Loading replay…</p>
+            ) : diff.replay.status === "queued" || diff.replay.status === "running" ? (
+              <p className="text-sm text-[var(--muted)]">
+                Re-scoring {diff.replay.processed} of {selectedSnapshot.itemCount} leads…
+              </p>
+            ) : diff.replay.status === "failed" ? (
+              <p className="text-sm" style={{ color: "var(--error)" }}>
+                Replay failed: {diff.replay.error ?? "unknown error"}
+              </p>
+            ) : (
+              <>
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                  <article className={cardClass}>
+                    <p className="text-xs uppercase text-[var(--muted)]">Band changes</p>
+                    <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                      {diff.diff.summary.bandChanges}
+                      <span className="text-sm font-normal text-[var(--muted)]"> of {diff.diff.summary.compared}</span>
+                    </p>
+                    <p className="text-xs text-[var(--muted)]">
+                      {diff.diff.summary.upgrades} up · {diff.diff.summary.downgrades} down
+                      {diff.diff.summary.failed > 0 ? ` · ${diff.diff.summary.failed} failed on either side` : ""}
+                    </p>
+                  </article>
+                  <article className={cardClass}>
+                    <p className="text-xs uppercase text-[var(--muted)]">Mean score change</p>
+                    <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                      {formatDelta(diff.diff.summary.meanDelta)}
+                    </p>
+                    <p className="text-xs text-[var(--muted)]">
+                      Mean absolute {formatDelta(diff.diff.summary.meanAbsDelta)} · max{" "}
+                      {formatDelta(diff.diff.summary.maxAbsDelta)}
+                    </p>
+                  </article>
+                  <article className={cardClass}>
+                    <p className="text-xs uppercase text-[var(--muted)]">Baseline cost</p>
+                    <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                      {formatUsd(diff.diff.cost.baseline.costUsd)}
+                    </p>
+                    <p className="text-xs text-[var(--muted)]">{describeUsage(diff.diff.cost.baseline)}</p>
+                  </article>
+                  <article className={cardClass}>
+                    <p className="text-xs uppercase text-[var(--muted)]">Replay cost</p>
+                    <p className="mt-2 text-2xl font-semibold text-[var(--foreground)]">
+                      {formatUsd(diff.diff.cost.replay?.costUsd)}
+                    </p>
+                    <p className="text-xs text-[var(--muted)]">
+                      {describeUsage(diff.diff.cost.replay)}
+                      {diff.diff.cost.replay?.models.length ? ` · ${diff.diff.cost.replay.models.join(", ")}` : ""}
+                    </p>
+                  </article>
+                </div>
+
+                {diff.diff.transitions.length > 0 ? (
+                  <p className="text-sm text-[var(--muted)]">
+                    {diff.diff.transitions.map((transition) => `${transition.from} → ${transition.to}: ${transition.count}`).join(" · ")}
+                  </p>
+                ) : null}
+
+                <div className="rounded-lg border border-[var(--border)] bg-[var(--surface)] shadow-sm transition-colors">
+                  <div className="flex items-center justify-between border-b border-[var(--border-muted)] px-4 py-3">
+                    <h3 className="font-semibold text-[var(--foreground)]">Leads</h3>
+                    <label className="flex items-center gap-2 text-xs text-[var(--muted)]">
+                      <input type="checkbox" checked={changedOnly} onChange={(event) => setChangedOnly(event.target.checked)} />
+                      Band changes only
+                    </label>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                      <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                        <tr>
+                          <th scope="col" className="px-4 py-3 font-medium">Lead</th>
+                          <th scope="col" className="px-4 py-3 font-medium">Baseline</th>
+                          <th scope="col" className="px-4 py-3 font-medium">Replay</th>
+                          <th scope="col" className="px-4 py-3 font-medium">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-[var(--border-muted)]">
+                        {visibleRows.map((row) => (
+                          <tr key={row.itemIndex}>
+                            <td className="px-4 py-3">
+                              <p className="font-medium text-[var(--foreground)]">{row.company ?? row.leadId}</p>
+                              <p className="text-xs text-[var(--muted)]">{row.leadId}</p>
+                            </td>
+                            <td className="px-4 py-3 text-[var(--muted)]">
+                              {row.baseline.error ? "failed" : `${row.baseline.finalScore.toFixed(2)} · ${row.baseline.band}`}
+                            </td>
+                            <td className="px-4 py-3 text-[var(--muted)]">
+                              {!row.replay
+                                ? "—"
+                                : row.replay.error
+                                  ? <span title={row.replay.error}>failed</span>
+                                  : `${row.replay.finalScore.toFixed(2)} · ${row.replay.band}`}
+                            </td>
+                            <td
+                              className="px-4 py-3 font-medium"
+                              style={{
+                                color:
+                                  row.delta === null || row.delta === 0
+                                    ? "var(--muted)"
+                                    : row.delta > 0
+                                      ? "var(--success)"
+                                      : "var(--error)"
+                              }}
+                            >
+                              {formatDelta(row.delta)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {visibleRows.length === 0 ? (
+                      <p className="px-4 py-3 text-sm text-[var(--muted)]">No leads changed band.</p>
+                    ) : null}
+                  </div>
+                </div>
+              </>
+            )}
+          </section>
+        ) : null}
+      </main>
+    </div>
+  );
+}
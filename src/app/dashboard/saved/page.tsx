@@ -1,10 +1,15 @@
 "use client";
 
+import Link from "next/link";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 
 import { DashboardNav } from "@/components/DashboardNav";
+import { DEFAULT_BAND_SET, type BandSet } from "@/lib/bands";
+import { escapeCsv } from "@/lib/csv";
 import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+import { LEAD_OUTCOMES } from "@/lib/outcomes";
+import type { InterpretationBand, LeadOutcome, LeadRunOverride } from "@/lib/types";
 
 type LeadRun = {
   id: string;
@@ -13,12 +18,18 @@ type LeadRun = {
   industry: string | null;
   final_score: number;
   interpretation: string;
+  // The override's score when there is one, otherwise final_score.
+  effective_final_score: number;
+  override: LeadRunOverride | null;
+  outcome: LeadOutcome | null;
   created_at: string;
   scores: Record<string, unknown> | null;
   enriched: Record<string, unknown> | null;
+  current_band: InterpretationBand;
+  needs_review?: boolean | null;
+  company_id?: string | null;
 };
 
-const INTERPRETATION_OPTIONS = ["All", "Hot", "Qualified", "Borderline", "Cold Dead"] as const;
 const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
 const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
 
@@ -34,10 +45,15 @@ export default function SavedLeadsPage() {
   const [error, setError] = useState<string | null>(null);
 
   const [searchTerm, setSearchTerm] = useState("");
-  const [interpretationFilter, setInterpretationFilter] = useState<(typeof INTERPRETATION_OPTIONS)[number]>("All");
+  const [bandSet, setBandSet] = useState<BandSet>(DEFAULT_BAND_SET);
+  const [interpretationFilter, setInterpretationFilter] = useState("All");
   const [industryFilter, setIndustryFilter] = useState("All");
   const [minScore, setMinScore] = useState(0);
   const [maxScore, setMaxScore] = useState(10);
+  const [needsReviewOnly, setNeedsReviewOnly] = useState(false);
+  const [latestOnly, setLatestOnly] = useState(true);
+  const [overriddenOnly, setOverriddenOnly] = useState(false);
+  const [outcomeFilter, setOutcomeFilter] = useState("All");
 
   useEffect(() => {
     let cancelled = false;
@@ -84,19 +100,24 @@ export default function SavedLeadsPage() {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`/api/lead-runs?user_id=${encodeURIComponent(currentUserId)}`);
+      const params = new URLSearchParams({ user_id: currentUserId });
+      if (latestOnly) {
+        params.set("latest", "true");
+      }
+      const response = await fetch(`/api/lead-runs?${params.toString()}`);
       if (!response.ok) {
         const payload = await response.json().catch(() => ({}));
         throw new Error(payload?.error ?? "Failed to load saved leads");
       }
-      const payload = (await response.json()) as { leads: LeadRun[] };
+      const payload = (await response.json()) as { leads: LeadRun[]; bandSet?: BandSet };
       setLeadRuns(payload.leads ?? []);
+      setBandSet(payload.bandSet ?? DEFAULT_BAND_SET);
     } catch (fetchError) {
       setError(fetchError instanceof Error ? fetchError.message : "Failed to load saved leads");
     } finally {
       setLoading(false);
     }
-  }, [currentUserId]);
+  }, [currentUserId, latestOnly]);
 
   useEffect(() => {
     if (!authChecked || !currentUserId) {
@@ -115,15 +136,35 @@ export default function SavedLeadsPage() {
     return ["All", ...Array.from(unique).sort((a, b) => a.localeCompare(b))];
   }, [leadRuns]);
 
+  const interpretationOptions = useMemo(
+    () => ["All", ...bandSet.bands.map((band) => band.label)],
+    [bandSet]
+  );
+
+  useEffect(() => {
+    if (!interpretationOptions.includes(interpretationFilter)) {
+      setInterpretationFilter("All");
+    }
+  }, [interpretationFilter, interpretationOptions]);
+
   const filteredLeads = useMemo(() => {
     return leadRuns.filter((run) => {
-      if (interpretationFilter !== "All" && run.interpretation !== interpretationFilter) {
+      if (interpretationFilter !== "All" && run.current_band.label !== interpretationFilter) {
         return false;
       }
       if (industryFilter !== "All" && run.industry !== industryFilter) {
         return false;
       }
-      if (run.final_score < minScore || run.final_score > maxScore) {
+      if (run.effective_final_score < minScore || run.effective_final_score > maxScore) {
+        return false;
+      }
+      if (needsReviewOnly && !run.needs_review) {
+        return false;
+      }
+      if (overriddenOnly && !run.override) {
+        return false;
+      }
+      if (outcomeFilter !== "All" && (run.outcome ?? "none") !== outcomeFilter) {
         return false;
       }
       if (searchTerm) {
@@ -133,6 +174,7 @@ export default function SavedLeadsPage() {
             run.company,
             run.industry ?? "",
             run.interpretation,
+            run.current_band.label,
             run.lead_id
           ]
             .join(" ")
@@ -144,7 +186,51 @@ export default function SavedLeadsPage() {
       }
       return true;
     });
-  }, [industryFilter, interpretationFilter, leadRuns, maxScore, minScore, searchTerm]);
+  }, [industryFilter, interpretationFilter, leadRuns, maxScore, minScore, needsReviewOnly, outcomeFilter, overriddenOnly, searchTerm]);
+
+  // Effective values first, so downstream tools pick up reps' corrections by default.
+  const handleExportCsv = useCallback(() => {
+    const headers = [
+      "lead_id",
+      "company",
+      "industry",
+      "final_score",
+      "interpretation",
+      "next_action",
+      "model_final_score",
+      "model_interpretation",
+      "overridden",
+      "override_reason",
+      "outcome",
+      "recorded_at"
+    ];
+    const rows = filteredLeads.map((run) =>
+      [
+        run.lead_id,
+        run.company,
+        run.industry ?? "",
+        String(run.effective_final_score),
+        run.current_band.label,
+        run.current_band.action ?? "",
+        String(run.final_score),
+        run.interpretation,
+        run.override ? "yes" : "no",
+        run.override?.reason ?? "",
+        run.outcome ?? "",
+        run.created_at
+      ]
+        .map(escapeCsv)
+        .join(",")
+    );
+
+    const blob = new Blob([[headers.join(","), ...rows].join("\n")], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "saved-leads.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [filteredLeads]);
 
   const handleSignOut = useCallback(async () => {
     await supabase.auth.signOut();
@@ -197,6 +283,22 @@ export default function SavedLeadsPage() {
               >
                 {loading ? "Refreshing…" : "Refresh"}
               </button>
+              <button
+                type="button"
+                onClick={handleExportCsv}
+                disabled={filteredLeads.length === 0}
+                className={`rounded-md border px-3 py-1 text-[var(--foreground)] ${secondaryButton}`}
+              >
+                Download CSV
+              </button>
+              {currentUserId ? (
+                <a
+                  href={`/api/lead-runs/overrides/export?${new URLSearchParams({ user_id: currentUserId }).toString()}`}
+                  className={`rounded-md border px-3 py-1 text-[var(--foreground)] ${secondaryButton}`}
+                >
+                  Export overrides (JSONL)
+                </a>
+              ) : null}
             </div>
           </div>
         </header>
@@ -217,10 +319,10 @@ export default function SavedLeadsPage() {
               <label className="text-xs uppercase text-[var(--muted)]">Interpretation</label>
               <select
                 value={interpretationFilter}
-                onChange={(event) => setInterpretationFilter(event.target.value as typeof INTERPRETATION_OPTIONS[number])}
+                onChange={(event) => setInterpretationFilter(event.target.value)}
                 className="w-full rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)] focus:ring-1 focus:ring-[color:var(--accent)]/50"
               >
-                {INTERPRETATION_OPTIONS.map((option) => (
+                {interpretationOptions.map((option) => (
                   <option
                     key={option}
                     value={option}
@@ -269,6 +371,52 @@ export default function SavedLeadsPage() {
               </div>
             </div>
           </div>
+          <label className="mt-4 flex items-center gap-2 text-sm text-[var(--muted)]">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-[var(--border)] bg-[var(--surface)]"
+              style={{ accentColor: "var(--accent)" }}
+              checked={needsReviewOnly}
+              onChange={(event) => setNeedsReviewOnly(event.target.checked)}
+            />
+            Only leads flagged for review (hybrid model/rules disagreement)
+          </label>
+          <label className="mt-2 flex items-center gap-2 text-sm text-[var(--muted)]">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-[var(--border)] bg-[var(--surface)]"
+              style={{ accentColor: "var(--accent)" }}
+              checked={latestOnly}
+              onChange={(event) => setLatestOnly(event.target.checked)}
+            />
+            Latest run per company (open a company to see its score history)
+          </label>
+          <label className="mt-2 flex items-center gap-2 text-sm text-[var(--muted)]">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-[var(--border)] bg-[var(--surface)]"
+              style={{ accentColor: "var(--accent)" }}
+              checked={overriddenOnly}
+              onChange={(event) => setOverriddenOnly(event.target.checked)}
+            />
+            Only leads with a manual override
+          </label>
+          <label className="mt-2 flex items-center gap-2 text-sm text-[var(--muted)]">
+            Outcome
+            <select
+              value={outcomeFilter}
+              onChange={(event) => setOutcomeFilter(event.target.value)}
+              className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+            >
+              <option value="All">Any</option>
+              <option value="none">None recorded</option>
+              {LEAD_OUTCOMES.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
         </section>
 
         <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
@@ -297,6 +445,7 @@ export default function SavedLeadsPage() {
                     <th scope="col" className="px-4 py-3 font-medium">Industry</th>
                     <th scope="col" className="px-4 py-3 font-medium">Final score</th>
                     <th scope="col" className="px-4 py-3 font-medium">Interpretation</th>
+                    <th scope="col" className="px-4 py-3 font-medium">Next action</th>
                     <th scope="col" className="px-4 py-3 font-medium">Recorded</th>
                   </tr>
                 </thead>
@@ -304,16 +453,59 @@ export default function SavedLeadsPage() {
                   {filteredLeads.map((run) => (
                     <tr key={run.id} className="align-top">
                       <td className="px-4 py-3 text-[var(--muted)]">
-                        <p className="font-medium text-[var(--foreground)]">{run.company}</p>
+                        <Link
+                          href={`/dashboard/leads/${run.id}`}
+                          className="font-medium text-[var(--foreground)] hover:text-[var(--accent)] hover:underline"
+                        >
+                          {run.company}
+                        </Link>
                         <p className="text-xs text-[var(--muted)]">Lead ID: {run.lead_id}</p>
+                        {run.company_id ? (
+                          <Link
+                            href={`/dashboard/companies/${run.company_id}`}
+                            className="text-xs text-[var(--accent)] underline"
+                          >
+                            Score history
+                          </Link>
+                        ) : null}
                       </td>
                       <td className="px-4 py-3 text-[var(--muted)]">{run.industry ?? "—"}</td>
-                      <td className="px-4 py-3 text-[var(--muted)]">{run.final_score.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-[var(--muted)]">
+                        {run.effective_final_score.toFixed(2)}
+                        {run.override ? (
+                          <p className="text-xs">Model: {run.final_score.toFixed(2)}</p>
+                        ) : null}
+                      </td>
                       <td className="px-4 py-3">
-                        <span className="rounded-full border border-[var(--border)] bg-[var(--surface-subtle)] px-2 py-0.5 text-xs font-medium text-[var(--muted-strong)]">
-                          {run.interpretation}
+                        <span
+                          className="rounded-full border px-2 py-0.5 text-xs font-medium"
+                          style={{
+                            borderColor: run.current_band.color,
+                            color: run.current_band.color,
+                            backgroundColor: `color-mix(in oklab, ${run.current_band.color} 12%, transparent)`
+                          }}
+                        >
+                          {run.current_band.label}
                         </span>
+                        {run.override ? (
+                          <p className="mt-1 text-xs font-medium" style={{ color: "var(--warning)" }} title={run.override.reason}>
+                            Overridden (scored as {run.interpretation})
+                          </p>
+                        ) : run.current_band.label !== run.interpretation ? (
+                          <p className="mt-1 text-xs text-[var(--muted)]">Scored as {run.interpretation}</p>
+                        ) : null}
+                        {run.needs_review ? (
+                          <p className="mt-1 text-xs font-medium" style={{ color: "var(--warning)" }}>
+                            Needs review
+                          </p>
+                        ) : null}
+                        {run.outcome ? (
+                          <p className="mt-1 text-xs text-[var(--muted)]">
+                            Outcome: {LEAD_OUTCOMES.find((option) => option.id === run.outcome)?.label ?? run.outcome}
+                          </p>
+                        ) : null}
                       </td>
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">{run.current_band.action || "—"}</td>
                       <td className="px-4 py-3 text-[var(--muted)]">
                         {new Date(run.created_at).toLocaleString()}
                       </td>
@@ -10,6 +10,7 @@ type UsageByDay = {
   date: string;
   cleaning: number;
   scoring: number;
+  costUsd: number;
 };
 
 type UsageJobRow = {
@@ -24,22 +25,39 @@ type UsageJobRow = {
     scoring: number;
     total: number;
   };
+  costUsd: number | null;
   userId: string | null;
 };
 
+type UsageLeadRow = {
+  leadId: string;
+  jobId: string | null;
+  tokens: number;
+  costUsd: number;
+};
+
+type UsageTotals = {
+  cleaning: number;
+  scoring: number;
+  costUsd: number;
+  unpricedTokens: number;
+};
+
 type UsageApiResponse = {
   usageByDay: UsageByDay[];
   jobs: UsageJobRow[];
-  totals: {
-    cleaning: number;
-    scoring: number;
-  };
+  leads: UsageLeadRow[];
+  totals: UsageTotals;
 };
 
 const toInputDate = (value: Date) => value.toISOString().slice(0, 10);
 
 const formatTokens = (value: number) => value.toLocaleString();
 
+// Per-lead costs are often fractions of a cent.
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: value < 1 ? 4 : 2 })}`;
+
 const STATUS_OPTIONS: Array<{ label: string; value: string }> = [
   { label: "All statuses", value: "" },
   { label: "Pending", value: "queued" },
@@ -69,7 +87,8 @@ export default function UsageDashboardPage() {
   const [error, setError] = useState<string | null>(null);
   const [usageByDay, setUsageByDay] = useState<UsageByDay[]>([]);
   const [jobs, setJobs] = useState<UsageJobRow[]>([]);
-  const [totals, setTotals] = useState<{ cleaning: number; scoring: number }>({ cleaning: 0, scoring: 0 });
+  const [leads, setLeads] = useState<UsageLeadRow[]>([]);
+  const [totals, setTotals] = useState<UsageTotals>({ cleaning: 0, scoring: 0, costUsd: 0, unpricedTokens: 0 });
 
   useEffect(() => {
     let cancelled = false;
@@ -140,6 +159,7 @@ export default function UsageDashboardPage() {
       const json = (await response.json()) as UsageApiResponse;
       setUsageByDay(json.usageByDay);
       setJobs(json.jobs);
+      setLeads(json.leads ?? []);
       setTotals(json.totals);
     } catch (usageError) {
       setError(usageError instanceof Error ? usageError.message : "Failed to load usage data.");
@@ -183,7 +203,7 @@ export default function UsageDashboardPage() {
           <div className="space-y-2">
             <h1 className="text-3xl font-semibold text-[var(--foreground)]">Token Usage</h1>
             <p className="text-sm text-[var(--muted)]">
-              Track OpenRouter tokens by day and job. Adjust filters to limit the time range or focus on specific jobs.
+              Track model tokens and spend by day, job, and lead. Adjust filters to limit the time range or focus on specific jobs.
             </p>
           </div>
         </header>
@@ -234,7 +254,9 @@ export default function UsageDashboardPage() {
               Refresh
             </button>
             <span className="text-xs text-[var(--muted)]">
-              Cleaning tokens: {formatTokens(totals.cleaning)} · Scoring tokens: {formatTokens(totals.scoring)}
+              Cleaning tokens: {formatTokens(totals.cleaning)} · Scoring tokens: {formatTokens(totals.scoring)} · Spend:{" "}
+              {formatUsd(totals.costUsd)}
+              {totals.unpricedTokens > 0 ? ` (${formatTokens(totals.unpricedTokens)} tokens from unpriced models)` : ""}
             </span>
           </div>
         </section>
@@ -261,7 +283,8 @@ export default function UsageDashboardPage() {
                     <div className="flex items-center justify-between text-xs text-[var(--muted)]">
                       <span>{day.date}</span>
                       <span>
-                        Cleaning {formatTokens(day.cleaning)} · Scoring {formatTokens(day.scoring)}
+                        Cleaning {formatTokens(day.cleaning)} · Scoring {formatTokens(day.scoring)} ·{" "}
+                        {formatUsd(day.costUsd)}
                       </span>
                     </div>
                     <div className="relative h-3 overflow-hidden rounded-full bg-[var(--surface-subtle)]">
@@ -299,6 +322,7 @@ export default function UsageDashboardPage() {
                     <th className="px-4 py-3 font-medium">Status</th>
                     <th className="px-4 py-3 font-medium">Progress</th>
                     <th className="px-4 py-3 font-medium">Tokens</th>
+                    <th className="px-4 py-3 font-medium">Cost</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-[var(--border-muted)]">
@@ -319,6 +343,42 @@ export default function UsageDashboardPage() {
                         <p>Cleaning {formatTokens(job.tokens.cleaning)}</p>
                         <p>Scoring {formatTokens(job.tokens.scoring)}</p>
                       </td>
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                        {job.costUsd === null ? "—" : formatUsd(job.costUsd)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">Spend by lead</h2>
+          <p className="mt-1 text-xs text-[var(--muted)]">The most expensive leads in the selected range.</p>
+          {loading ? (
+            <p className="mt-4 text-sm text-[var(--muted)]">Loading leads…</p>
+          ) : leads.length === 0 ? (
+            <p className="mt-4 text-sm text-[var(--muted)]">No lead usage recorded for the selected range.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="mt-4 min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Lead</th>
+                    <th className="px-4 py-3 font-medium">Job</th>
+                    <th className="px-4 py-3 font-medium">Tokens</th>
+                    <th className="px-4 py-3 font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--border-muted)]">
+                  {leads.map((lead) => (
+                    <tr key={`${lead.jobId ?? ""}:${lead.leadId}`}>
+                      <td className="px-4 py-3 text-xs font-medium text-[var(--foreground)]">{lead.leadId}</td>
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">{lead.jobId ? lead.jobId.slice(0, 8) : "—"}</td>
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">{formatTokens(lead.tokens)}</td>
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">{formatUsd(lead.costUsd)}</td>
                     </tr>
                   ))}
                 </tbody>
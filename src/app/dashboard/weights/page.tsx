@@ -0,0 +1,543 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import type { WeightMatchRule, WeightProfile, WeightSet } from "@/lib/ai/scoring";
+import { DashboardNav } from "@/components/DashboardNav";
+import { listFactors } from "@/lib/factors";
+import { getSupabaseBrowserClient } from "@/lib/supabaseBrowser";
+
+type WeightProfileVersion = {
+  version: number;
+  weights: WeightSet;
+  matchRules: WeightMatchRule[];
+  createdAt: number;
+};
+
+type WeightProfileDetail = WeightProfile & {
+  id: string;
+  version: number;
+  versions: WeightProfileVersion[];
+};
+
+type ProfileDraft = {
+  id: string | null;
+  name: string;
+  priority: number;
+  isDefault: boolean;
+  weights: WeightSet;
+  matchRules: WeightMatchRule[];
+};
+
+const FACTORS = listFactors();
+
+// Lists only the factors a weight set uses so opt-in factors don't clutter the summaries.
+const describeWeights = (weights: WeightSet) =>
+  FACTORS.filter((factor) => (weights[factor.id] ?? 0) > 0).map(
+    (factor) => `${factor.label} ${weights[factor.id]}`
+  );
+
+const RULE_TYPES: WeightMatchRule["type"][] = ["contains", "equals", "regex"];
+
+const EMPTY_DRAFT: ProfileDraft = {
+  id: null,
+  name: "",
+  priority: 100,
+  isDefault: false,
+  weights: Object.fromEntries(FACTORS.map((factor) => [factor.id, factor.weight])),
+  matchRules: [{ type: "contains", value: "" }]
+};
+
+const ACTIVE_JOB_STORAGE_KEY = "lead-score-genius-active-job-id";
+const ACTIVE_JOB_OPTIONS_KEY = "lead-score-genius-active-job-options";
+
+const inputClass =
+  "w-full rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)] focus:ring-1 focus:ring-[color:var(--accent)]/50";
+
+const describeRules = (rules: WeightMatchRule[]) =>
+  rules.length === 0 ? "No match rules" : rules.map((rule) => `${rule.type} “${rule.value}”`).join(", ");
+
+export default function WeightProfilesPage() {
+  const router = useRouter();
+  const supabase = useMemo(() => getSupabaseBrowserClient(), []);
+
+  const [authChecked, setAuthChecked] = useState(false);
+  const [currentEmail, setCurrentEmail] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<WeightProfile[]>([]);
+  const [builtinProfiles, setBuiltinProfiles] = useState<WeightProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [history, setHistory] = useState<WeightProfileDetail | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return;
+      const session = data.session;
+      if (!session) {
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    const {
+      data: { subscription }
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        setAuthChecked(false);
+        setCurrentEmail(null);
+        setCurrentUserId(null);
+        router.replace("/");
+        return;
+      }
+      setCurrentEmail(session.user.email ?? null);
+      setCurrentUserId(session.user.id ?? null);
+      setAuthChecked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [router, supabase]);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!currentUserId) {
+      setProfiles([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/weight-profiles?user_id=${encodeURIComponent(currentUserId)}`);
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to load weight profiles");
+      }
+      const payload = (await response.json()) as { profiles: WeightProfile[]; builtin: WeightProfile[] };
+      setProfiles(payload.profiles ?? []);
+      setBuiltinProfiles(payload.builtin ?? []);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : "Failed to load weight profiles");
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (!authChecked || !currentUserId) {
+      return;
+    }
+    void fetchProfiles();
+  }, [authChecked, currentUserId, fetchProfiles]);
+
+  const weightSum = useMemo(
+    () => Object.values(draft.weights).reduce((acc, value) => acc + (Number.isFinite(value) ? value : 0), 0),
+    [draft.weights]
+  );
+
+  const handleSignOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthChecked(false);
+    setCurrentEmail(null);
+    setCurrentUserId(null);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      window.localStorage.removeItem(ACTIVE_JOB_OPTIONS_KEY);
+    }
+    router.replace("/");
+  }, [router, supabase]);
+
+  const handleEdit = useCallback((profile: WeightProfile) => {
+    setDraft({
+      id: profile.id,
+      name: profile.name,
+      priority: profile.priority,
+      isDefault: profile.isDefault,
+      weights: { ...profile.weights },
+      matchRules: profile.matchRules.length > 0 ? profile.matchRules.map((rule) => ({ ...rule })) : []
+    });
+    setError(null);
+  }, []);
+
+  const handleSave = useCallback(async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentUserId) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const body = {
+        user_id: currentUserId,
+        name: draft.name,
+        priority: draft.priority,
+        isDefault: draft.isDefault,
+        weights: draft.weights,
+        matchRules: draft.matchRules.filter((rule) => rule.value.trim() !== "")
+      };
+      const response = await fetch(draft.id ? `/api/weight-profiles/${draft.id}` : "/api/weight-profiles", {
+        method: draft.id ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to save weight profile");
+      }
+      setDraft(EMPTY_DRAFT);
+      setHistory(null);
+      await fetchProfiles();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save weight profile");
+    } finally {
+      setSaving(false);
+    }
+  }, [currentUserId, draft, fetchProfiles]);
+
+  const handleDelete = useCallback(async (profileId: string) => {
+    if (!currentUserId) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/weight-profiles/${profileId}?user_id=${encodeURIComponent(currentUserId)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to delete weight profile");
+      }
+      if (draft.id === profileId) {
+        setDraft(EMPTY_DRAFT);
+      }
+      if (history?.id === profileId) {
+        setHistory(null);
+      }
+      await fetchProfiles();
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : "Failed to delete weight profile");
+    }
+  }, [currentUserId, draft.id, fetchProfiles, history]);
+
+  const handleShowHistory = useCallback(async (profileId: string) => {
+    if (!currentUserId) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/weight-profiles/${profileId}?user_id=${encodeURIComponent(currentUserId)}`
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload?.error ?? "Failed to load profile history");
+      }
+      const payload = (await response.json()) as { profile: WeightProfileDetail };
+      setHistory(payload.profile);
+    } catch (historyError) {
+      setError(historyError instanceof Error ? historyError.message : "Failed to load profile history");
+    }
+  }, [currentUserId]);
+
+  const updateRule = (index: number, patch: Partial<WeightMatchRule>) => {
+    setDraft((prev) => ({
+      ...prev,
+      matchRules: prev.matchRules.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...patch } : rule))
+    }));
+  };
+
+  if (!authChecked) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[var(--background)] text-[var(--foreground)] transition-colors">
+        <p className="text-sm text-[var(--muted)]">Checking authentication…</p>
+      </div>
+    );
+  }
+
+  const secondaryButton = "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs font-medium text-[var(--foreground)] shadow-sm transition hover:border-[var(--accent)] hover:bg-[var(--surface-subtle)]";
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] text-[var(--foreground)] transition-colors">
+      <main className="mx-auto flex max-w-5xl flex-col gap-8 px-6 py-10">
+        <header className="space-y-4">
+          <div className="flex justify-end">
+            <DashboardNav onSignOut={handleSignOut}>
+              {currentEmail ? (
+                <span className="rounded-full border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]">
+                  Signed in as {currentEmail}
+                </span>
+              ) : null}
+            </DashboardNav>
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-semibold text-[var(--foreground)]">Scoring weights</h1>
+            <p className="text-sm text-[var(--muted)]">
+              Define weight profiles for your verticals. Profiles are matched against each lead&apos;s industry in priority
+              order before the built-in profiles apply. Editing weights or rules creates a new version; saved runs keep the
+              version they were scored with.
+            </p>
+          </div>
+        </header>
+
+        {error ? (
+          <section className="rounded-lg border border-[color:var(--error)] bg-[color:var(--error)]/10 p-4 text-sm text-[color:var(--error)]">
+            {error}
+          </section>
+        ) : null}
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">
+            {draft.id ? `Edit ${draft.name || "profile"}` : "New profile"}
+          </h2>
+          <form className="mt-4 space-y-4" onSubmit={handleSave}>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="flex flex-col gap-2 text-xs uppercase text-[var(--muted)]">
+                Name
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                  className={inputClass}
+                  placeholder="HVAC contractors"
+                  required
+                />
+              </label>
+              <label className="flex flex-col gap-2 text-xs uppercase text-[var(--muted)]">
+                Priority
+                <input
+                  type="number"
+                  step={1}
+                  value={draft.priority}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, priority: Number(event.target.value) }))}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-2 self-end text-sm text-[var(--muted)]">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border border-[var(--border)] bg-[var(--surface)]"
+                  style={{ accentColor: "var(--accent)" }}
+                  checked={draft.isDefault}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, isDefault: event.target.checked }))}
+                />
+                Use when no rule matches
+              </label>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-4">
+              {FACTORS.map(({ id: factor, label, scorer }) => (
+                <label key={factor} className="flex flex-col gap-2 text-xs uppercase text-[var(--muted)]">
+                  <span title={scorer === "model" ? "Scored by the model" : "Scored by deterministic rules"}>
+                    {label}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={draft.weights[factor] ?? 0}
+                    onChange={(event) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        weights: { ...prev.weights, [factor]: Number(event.target.value) }
+                      }))
+                    }
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+            <p
+              className="text-xs"
+              style={{ color: Math.abs(weightSum - 1) > 0.01 ? "var(--warning)" : "var(--muted)" }}
+            >
+              Weights total {weightSum.toFixed(2)} (must equal 1.00)
+            </p>
+
+            <div className="space-y-2">
+              <p className="text-xs uppercase text-[var(--muted)]">Industry match rules</p>
+              {draft.matchRules.map((rule, index) => (
+                <div key={index} className="flex gap-2">
+                  <select
+                    value={rule.type}
+                    onChange={(event) => updateRule(index, { type: event.target.value as WeightMatchRule["type"] })}
+                    className={`${inputClass} max-w-32`}
+                  >
+                    {RULE_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={rule.value}
+                    onChange={(event) => updateRule(index, { value: event.target.value })}
+                    className={inputClass}
+                    placeholder={rule.type === "regex" ? "^(hvac|heating)" : "hvac"}
+                  />
+                  <button
+                    type="button"
+                    className={secondaryButton}
+                    onClick={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        matchRules: prev.matchRules.filter((_, ruleIndex) => ruleIndex !== index)
+                      }))
+                    }
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className={secondaryButton}
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    matchRules: [...prev.matchRules, { type: "contains", value: "" }]
+                  }))
+                }
+              >
+                Add rule
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium transition ${
+                  saving
+                    ? "cursor-progress border border-[var(--border)] bg-[var(--surface-subtle)] text-[var(--muted)]"
+                    : "border border-[var(--accent)] bg-[var(--accent)] text-[var(--accent-contrast)] hover:bg-[var(--accent-hover)]"
+                }`}
+              >
+                {saving ? "Saving…" : draft.id ? "Save new version" : "Create profile"}
+              </button>
+              {draft.id ? (
+                <button type="button" className={secondaryButton} onClick={() => setDraft(EMPTY_DRAFT)}>
+                  Cancel edit
+                </button>
+              ) : null}
+            </div>
+          </form>
+        </section>
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">Your profiles</h2>
+          {loading ? (
+            <p className="mt-4 text-sm text-[var(--muted)]">Loading profiles…</p>
+          ) : profiles.length === 0 ? (
+            <p className="mt-4 text-sm text-[var(--muted)]">
+              No custom profiles yet. Leads are scored with the built-in profiles below.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="mt-4 min-w-full divide-y divide-[var(--border-muted)] text-left text-sm">
+                <thead className="bg-[var(--surface-subtle)] text-xs uppercase text-[var(--muted)]">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Profile</th>
+                    <th className="px-4 py-3 font-medium">Weights</th>
+                    <th className="px-4 py-3 font-medium">Match rules</th>
+                    <th className="px-4 py-3 font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--border-muted)]">
+                  {profiles.map((profile) => (
+                    <tr key={profile.id} className="align-top">
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                        <p className="font-medium text-[var(--foreground)]">{profile.name}</p>
+                        <p>
+                          v{profile.version} · priority {profile.priority}
+                          {profile.isDefault ? " · default" : ""}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">
+                        {describeWeights(profile.weights).map((entry) => (
+                          <p key={entry}>{entry}</p>
+                        ))}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-[var(--muted)]">{describeRules(profile.matchRules)}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-2">
+                          <button type="button" className={secondaryButton} onClick={() => handleEdit(profile)}>
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            className={secondaryButton}
+                            onClick={() => profile.id && void handleShowHistory(profile.id)}
+                          >
+                            History
+                          </button>
+                          <button
+                            type="button"
+                            className={secondaryButton}
+                            onClick={() => profile.id && void handleDelete(profile.id)}
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {history ? (
+          <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">{history.name} history</h2>
+              <button type="button" className={secondaryButton} onClick={() => setHistory(null)}>
+                Close
+              </button>
+            </div>
+            <ul className="mt-4 space-y-3 text-xs text-[var(--muted)]">
+              {history.versions.map((version) => (
+                <li key={version.version} className="rounded-md border border-[var(--border-muted)] px-3 py-2">
+                  <p className="font-medium text-[var(--foreground)]">
+                    v{version.version}
+                    {version.version === history.version ? " (current)" : ""} · {new Date(version.createdAt).toLocaleString()}
+                  </p>
+                  <p>
+                    {describeWeights(version.weights).join(" · ")}
+                  </p>
+                  <p>{describeRules(version.matchRules)}</p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        <section className="rounded-lg border border-[var(--border)] bg-[var(--surface)] p-6 shadow-sm transition-colors">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">Built-in profiles</h2>
+          <ul className="mt-4 space-y-2 text-xs text-[var(--muted)]">
+            {builtinProfiles.map((profile) => (
+              <li key={profile.name}>
+                <span className="font-medium text-[var(--foreground)]">{profile.name}</span> — {describeRules(profile.matchRules)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </main>
+    </div>
+  );
+}
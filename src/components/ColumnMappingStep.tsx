@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import { LEAD_FIELDS, LEAD_FIELD_LABELS, type ParsedLead } from "@/lib/leadFields";
+import type { ColumnMapping, LeadField } from "@/lib/types";
+
+export type UploadPreview = {
+  format: string;
+  headers: string[];
+  keys: string[];
+  sample: ParsedLead[];
+  signature: string;
+  mapping: ColumnMapping;
+  template: { id: string; name: string } | null;
+};
+
+type ColumnMappingStepProps = {
+  preview: UploadPreview;
+  mapping: ColumnMapping;
+  userId: string | null;
+  disabled?: boolean;
+  onChange: (mapping: ColumnMapping) => void;
+  onTemplateChange: (template: UploadPreview["template"]) => void;
+};
+
+const REQUIRED_FIELDS: LeadField[] = ["company"];
+
+const selectClass =
+  "w-full rounded-md border border-[var(--border)] bg-[var(--surface)] px-2 py-1 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]";
+
+export function ColumnMappingStep({
+  preview,
+  mapping,
+  userId,
+  disabled,
+  onChange,
+  onTemplateChange
+}: ColumnMappingStepProps) {
+  const [templateName, setTemplateName] = useState(preview.template?.name ?? "");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFieldChange = useCallback(
+    (field: LeadField, key: string) => {
+      onChange({ ...mapping, [field]: key === "" ? null : key });
+    },
+    [mapping, onChange]
+  );
+
+  const handleSaveTemplate = useCallback(async () => {
+    if (!userId) {
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetch("/api/import-templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ user_id: userId, name: templateName, headers: preview.headers, mapping })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data?.error ?? "Failed to save template");
+      }
+      onTemplateChange({ id: data.template.id, name: data.template.name });
+      setMessage(`Saved "${data.template.name}". It will be applied to files with these columns.`);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  }, [mapping, onTemplateChange, preview.headers, templateName, userId]);
+
+  const handleDeleteTemplate = useCallback(async () => {
+    if (!userId || !preview.template) {
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ user_id: userId });
+      const response = await fetch(`/api/import-templates/${preview.template.id}?${params.toString()}`, {
+        method: "DELETE"
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data?.error ?? "Failed to delete template");
+      }
+      setMessage(`Deleted "${preview.template.name}".`);
+      onTemplateChange(null);
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : "Failed to delete template");
+    } finally {
+      setSaving(false);
+    }
+  }, [onTemplateChange, preview.template, userId]);
+
+  const firstRow = preview.sample[0] ?? {};
+  const missingRequired = REQUIRED_FIELDS.filter((field) => !mapping[field]);
+
+  return (
+    <div className="mt-4 rounded-lg border border-[var(--border)] bg-[var(--surface-subtle)] p-4">
+      <div className="flex flex-col gap-1 sm:flex-row sm:items-baseline sm:justify-between">
+        <p className="text-sm font-medium text-[var(--foreground)]">Map columns</p>
+        <p className="text-xs text-[var(--muted)]">
+          {preview.template
+            ? `Template applied: ${preview.template.name}`
+            : `Detected ${preview.headers.length} column${preview.headers.length === 1 ? "" : "s"}; mapping proposed from common names.`}
+        </p>
+      </div>
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead className="text-xs uppercase tracking-wide text-[var(--muted)]">
+            <tr>
+              <th className="py-1 pr-4 font-medium">Lead field</th>
+              <th className="py-1 pr-4 font-medium">Column</th>
+              <th className="py-1 font-medium">First row</th>
+            </tr>
+          </thead>
+          <tbody>
+            {LEAD_FIELDS.map((field) => {
+              const key = mapping[field] ?? "";
+              return (
+                <tr key={field} className="border-t border-[var(--border)]">
+                  <td className="py-1.5 pr-4 text-[var(--foreground)]">
+                    {LEAD_FIELD_LABELS[field]}
+                    {REQUIRED_FIELDS.includes(field) ? <span className="text-[color:var(--error)]"> *</span> : null}
+                  </td>
+                  <td className="py-1.5 pr-4">
+                    <select
+                      className={selectClass}
+                      value={key}
+                      disabled={disabled}
+                      onChange={(event) => handleFieldChange(field, event.target.value)}
+                    >
+                      <option value="">— not mapped —</option>
+                      {preview.keys.map((columnKey, index) => (
+                        <option key={columnKey} value={columnKey}>
+                          {preview.headers[index] || columnKey}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="max-w-xs truncate py-1.5 text-xs text-[var(--muted)]">
+                    {key ? firstRow[key] || "—" : ""}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {missingRequired.length > 0 ? (
+        <p className="mt-2 text-xs text-[color:var(--warning)]">
+          No column mapped to {missingRequired.map((field) => LEAD_FIELD_LABELS[field]).join(", ")}; rows will use a
+          placeholder.
+        </p>
+      ) : null}
+
+      {userId ? (
+        <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            type="text"
+            value={templateName}
+            placeholder="Template name, e.g. HubSpot companies export"
+            onChange={(event) => setTemplateName(event.target.value)}
+            disabled={disabled || saving}
+            className="flex-1 rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1.5 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+          />
+          <button
+            type="button"
+            onClick={handleSaveTemplate}
+            disabled={disabled || saving || templateName.trim() === ""}
+            className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1.5 text-sm font-medium text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted)]"
+          >
+            Save as template
+          </button>
+          {preview.template ? (
+            <button
+              type="button"
+              onClick={handleDeleteTemplate}
+              disabled={disabled || saving}
+              className="rounded-md border border-[var(--border)] px-3 py-1.5 text-sm text-[var(--muted)] transition hover:border-[color:var(--error)] hover:text-[color:var(--error)]"
+            >
+              Delete template
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+      {message ? <p className="mt-2 text-xs text-[color:var(--success)]">{message}</p> : null}
+      {error ? <p className="mt-2 text-xs text-[color:var(--error)]">{error}</p> : null}
+    </div>
+  );
+}
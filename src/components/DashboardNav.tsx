@@ -13,6 +13,11 @@ type DashboardNavProps = PropsWithChildren<{
 const NAV_LINKS = [
   { href: "/dashboard", label: "Lead scoring" },
   { href: "/dashboard/saved", label: "Saved leads" },
+  { href: "/dashboard/calibration", label: "Calibration" },
+  { href: "/dashboard/replays", label: "Replays" },
+  { href: "/dashboard/weights", label: "Scoring weights" },
+  { href: "/dashboard/bands", label: "Score bands" },
+  { href: "/dashboard/prompts", label: "Prompts" },
   { href: "/dashboard/usage", label: "Token usage" },
   { href: "/dashboard/account", label: "Account settings" }
 ];
@@ -1,5 +1,8 @@
-import { callOpenRouter, type OpenRouterUsage } from "../openrouter";
-import { getEnv } from "../env";
+import { getLlmProvider } from "../llm/config";
+import type { LlmProvider, LlmUsage } from "../llm/provider";
+import { buildLocation, getFieldValue } from "../leadFields";
+import type { ColumnMapping, PromptRef } from "../types";
+import { BUILTIN_PROMPTS, toPromptRef, type PromptTemplate } from "./prompts";
 
 export type RawLeadRecord = Record<string, string>;
 
@@ -18,32 +21,8 @@ export type CleanLead = {
   provenance: Record<string, string>;
 };
 
-const WEBSITE_FIELDS = ["website", "website_url", "url", "domain", "homepage"];
-const INDUSTRY_FIELDS = ["industry", "vertical", "segment", "category"];
-const LOCATION_FIELDS = ["location", "city", "state", "province", "country", "region", "address"];
-const EMAIL_FIELDS = ["email", "email_address", "contact_email"];
-const PHONE_FIELDS = [
-  "phone",
-  "phone_number",
-  "contact_phone",
-  "mobile",
-  "cell",
-  "telephone",
-  "tel"
-];
-const FOUNDED_FIELDS = ["founded", "year_founded", "founded_year", "established", "since"];
-
 const URL_IN_TEXT_REGEX = /https?:\/\/[^\s"'<>()]+/gi;
 
-function firstValue(record: RawLeadRecord, keys: string[]): string | undefined {
-  for (const key of keys) {
-    if (record[key]) {
-      return record[key];
-    }
-  }
-  return undefined;
-}
-
 function normalizeWebsite(raw?: string): string | undefined {
   if (!raw) {
     return undefined;
@@ -106,17 +85,7 @@ function deriveWebsiteFromEmail(raw?: string): string | undefined {
   return normalizeWebsite(domain);
 }
 
-function combineLocation(record: RawLeadRecord): string | undefined {
-  const parts = LOCATION_FIELDS.map((field) => record[field]).filter(Boolean).map((value) => value.trim());
-  if (parts.length === 0) {
-    return undefined;
-  }
-  const unique = Array.from(new Set(parts));
-  return unique.join(", ");
-}
-
-function parseYearsInBusiness(record: RawLeadRecord): number | null {
-  const foundedRaw = firstValue(record, FOUNDED_FIELDS);
+function parseYearsInBusiness(foundedRaw: string | undefined): number | null {
   if (!foundedRaw) {
     return null;
   }
@@ -177,12 +146,19 @@ function truncate(value: string | undefined | null, limit: number): string | und
 
 type CleanerResult = {
   cleaned: CleanLead;
-  usage: OpenRouterUsage | null;
+  usage: LlmUsage | null;
+  prompt: PromptRef | null;
+  model: string | null;
 };
 
-async function runAiCleaner(base: CleanLead, enabled: boolean): Promise<CleanerResult> {
+async function runAiCleaner(
+  base: CleanLead,
+  enabled: boolean,
+  prompt: PromptTemplate,
+  provider: LlmProvider
+): Promise<CleanerResult> {
   if (!enabled) {
-    return { cleaned: base, usage: null };
+    return { cleaned: base, usage: null, prompt: null, model: null };
   }
 
   try {
@@ -197,13 +173,10 @@ async function runAiCleaner(base: CleanLead, enabled: boolean): Promise<CleanerR
       notes: truncate(base.notes, 300)
     };
 
-    const { response, usage } = await callOpenRouter([
+    const { response, usage, model } = await provider.complete([
       {
         role: "system",
-        content:
-          "Normalize lead contact fields. Input provides lead_id, company, website, email, phone." +
-          " Return JSON with fields: company, website, email, phone, maps_url. Leave missing data as empty strings." +
-          " Do not infer new facts."
+        content: prompt.system
       },
       {
         role: "user",
@@ -225,38 +198,43 @@ async function runAiCleaner(base: CleanLead, enabled: boolean): Promise<CleanerR
         industry: base.industry,
         notes: base.notes
       },
-      usage
+      usage,
+      prompt: toPromptRef(prompt),
+      model
     };
   } catch (error) {
     console.error("AI cleaner failed", error);
-    return { cleaned: base, usage: null };
+    return { cleaned: base, usage: null, prompt: null, model: null };
   }
 }
 
 export type CleanLeadResult = {
   cleaned: CleanLead;
-  usage: OpenRouterUsage | null;
+  usage: LlmUsage | null;
+  // Set only when the AI cleaner actually ran.
+  prompt: PromptRef | null;
+  model: string | null;
 };
 
 export async function cleanLeadRecord(
   record: RawLeadRecord,
   fallbackLeadId: string,
-  options?: { useAi?: boolean }
+  options?: { useAi?: boolean; prompt?: PromptTemplate; provider?: LlmProvider; mapping?: ColumnMapping | null }
 ): Promise<CleanLeadResult> {
-  const leadId = record.lead_id || record.id || fallbackLeadId;
-  const company = record.company_name || record.company || record.account || "Unknown Company";
+  const mapping = options?.mapping;
+  const leadId = getFieldValue(record, "lead_id", mapping) || fallbackLeadId;
+  const company = getFieldValue(record, "company", mapping) || "Unknown Company";
 
-  const primaryWebsite = normalizeWebsite(firstValue(record, WEBSITE_FIELDS));
-  const derivedWebsite = deriveWebsiteFromEmail(firstValue(record, EMAIL_FIELDS));
+  const email = getFieldValue(record, "email", mapping);
+  const primaryWebsite = normalizeWebsite(getFieldValue(record, "website", mapping));
+  const derivedWebsite = deriveWebsiteFromEmail(email);
   const website = primaryWebsite ?? derivedWebsite;
 
-  const email = firstValue(record, EMAIL_FIELDS);
-  const industry = firstValue(record, INDUSTRY_FIELDS);
-  const location = combineLocation(record);
-  const yearsInBusiness = parseYearsInBusiness(record);
+  const industry = getFieldValue(record, "industry", mapping);
+  const location = buildLocation(record, mapping);
+  const yearsInBusiness = parseYearsInBusiness(getFieldValue(record, "founded", mapping));
   const mapsUrl = detectMapsUrl(record);
-  const phoneRaw = firstValue(record, PHONE_FIELDS) ?? record.phone ?? record.phoneNumber;
-  const phone = normalizePhone(phoneRaw);
+  const phone = normalizePhone(getFieldValue(record, "phone", mapping));
 
   const base: CleanLead = {
     lead_id: leadId,
@@ -268,7 +246,7 @@ export async function cleanLeadRecord(
     phone,
     years_in_business: yearsInBusiness,
     maps_url: mapsUrl,
-    notes: record.notes,
+    notes: getFieldValue(record, "notes", mapping),
     normalized: record,
     provenance: {
       website: primaryWebsite ? "csv" : derivedWebsite ? "email" : "unknown",
@@ -277,11 +255,11 @@ export async function cleanLeadRecord(
     }
   };
 
-  const { OPENROUTER_API_KEY } = getEnv();
-  if (!OPENROUTER_API_KEY) {
-    return { cleaned: base, usage: null };
+  const provider = options?.provider ?? getLlmProvider();
+  if (!provider.configured) {
+    return { cleaned: base, usage: null, prompt: null, model: null };
   }
 
   const useAi = options?.useAi ?? process.env.AI_CLEANER_ENABLED === "true";
-  return runAiCleaner(base, useAi);
+  return runAiCleaner(base, useAi, options?.prompt ?? BUILTIN_PROMPTS.clean, provider);
 }
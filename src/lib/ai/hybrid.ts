@@ -0,0 +1,74 @@
+import { computeFinalScore } from "./scoring";
+import { DEFAULT_INTERPRETATION_BANDS, resolveBand } from "../bands";
+import type {
+  FactorDisagreement,
+  FactorScores,
+  HybridBlend,
+  InterpretationBand,
+  LeadScoreResponse
+} from "../types";
+
+function parseBounded(value: unknown, fallback: number, max: number): number {
+  const parsed =
+    typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : Number.NaN;
+  const resolved = Number.isFinite(parsed) ? parsed : fallback;
+  return Math.min(Math.max(resolved, 0), max);
+}
+
+const DEFAULT_MODEL_RATIO = parseBounded(process.env.HYBRID_MODEL_RATIO, 0.5, 1);
+const DEFAULT_REVIEW_THRESHOLD = parseBounded(process.env.HYBRID_REVIEW_THRESHOLD, 3, 10);
+
+// modelRatio is the model's share of each factor score; the rules estimate gets the rest.
+export function resolveHybridBlend(modelRatio?: unknown, reviewThreshold?: unknown): HybridBlend {
+  return {
+    model_ratio: parseBounded(modelRatio, DEFAULT_MODEL_RATIO, 1),
+    review_threshold: parseBounded(reviewThreshold, DEFAULT_REVIEW_THRESHOLD, 10)
+  };
+}
+
+export function blendLeadScores(
+  model: LeadScoreResponse,
+  rules: LeadScoreResponse,
+  blend: HybridBlend,
+  bands: InterpretationBand[] = DEFAULT_INTERPRETATION_BANDS
+): LeadScoreResponse {
+  const disagreement: Record<string, FactorDisagreement> = {};
+  const scores: FactorScores = {};
+  const flagged: string[] = [];
+  const factorIds = new Set([...Object.keys(model.scores), ...Object.keys(rules.scores)]);
+
+  for (const factor of factorIds) {
+    const modelValue = model.scores[factor] ?? 0;
+    const rulesValue = rules.scores[factor] ?? 0;
+    const blended = Number((modelValue * blend.model_ratio + rulesValue * (1 - blend.model_ratio)).toFixed(1));
+    const gap = Math.abs(modelValue - rulesValue);
+
+    disagreement[factor] = { model: modelValue, rules: rulesValue, blended, gap };
+    scores[factor] = blended;
+    if (gap > blend.review_threshold) {
+      flagged.push(`${factor}: model ${modelValue} vs rules ${rulesValue} (gap ${gap})`);
+    }
+  }
+
+  const finalScore = computeFinalScore(scores, model.weights_applied);
+  const band = resolveBand(finalScore, bands);
+  const modelPercent = Math.round(blend.model_ratio * 100);
+
+  let reasoning = `${model.reasoning}\n[System] Hybrid score: ${modelPercent}% model / ${100 - modelPercent}% rules per factor.`;
+  for (const note of flagged) {
+    reasoning += `\n[System] Disagreement on ${note}; flagged for review.`;
+  }
+
+  return {
+    ...model,
+    scores,
+    reasoning,
+    final_score: finalScore,
+    interpretation: band.label,
+    band,
+    scoring_mode: "hybrid",
+    blend,
+    disagreement,
+    needs_review: flagged.length > 0
+  };
+}
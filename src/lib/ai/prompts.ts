@@ -0,0 +1,38 @@
+import type { PromptKind, PromptRef } from "../types";
+
+export type PromptTemplate = PromptRef & {
+  system: string;
+  // Factor id -> instruction; overrides the factor registry's guidance (score prompts only).
+  guidance: Record<string, string>;
+};
+
+export const BUILTIN_PROMPTS: Record<PromptKind, PromptTemplate> = {
+  score: {
+    id: "builtin:score",
+    kind: "score",
+    version: 0,
+    name: "Built-in scorer",
+    system:
+      `You are an AI lead scoring engine. Produce JSON only. For each element in the 'leads' array, return one object in an array named "results", echoing that lead's lead_id exactly. Each object must include lead_id, industry, scores, reasoning. If 'corrections' is present, your previous answer for those leads was rejected; fix the listed errors. "scores" is an object keyed by the factor ids in that lead's "signals", each an integer 0-10. Do NOT compute weighted sums; the caller will recompute. If data is missing, set score to 0 and explain.`,
+    guidance: {}
+  },
+  clean: {
+    id: "builtin:clean",
+    kind: "clean",
+    version: 0,
+    name: "Built-in cleaner",
+    system:
+      "Normalize lead contact fields. Input provides lead_id, company, website, email, phone." +
+      " Return JSON with fields: company, website, email, phone, maps_url. Leave missing data as empty strings." +
+      " Do not infer new facts.",
+    guidance: {}
+  }
+};
+
+export function isBuiltinPromptId(id: string): id is `builtin:${PromptKind}` {
+  return id === BUILTIN_PROMPTS.score.id || id === BUILTIN_PROMPTS.clean.id;
+}
+
+export function toPromptRef(template: PromptTemplate): PromptRef {
+  return { id: template.id, kind: template.kind, version: template.version, name: template.name };
+}
@@ -0,0 +1,47 @@
+import {
+  buildFactorInput,
+  computeFinalScore,
+  estimateFactor,
+  selectWeights,
+  usedFactors,
+  type BatchItem,
+  type ScoreBatchOptions
+} from "./scoring";
+import { DEFAULT_INTERPRETATION_BANDS, resolveBand } from "../bands";
+import { toFactorMeta } from "../factors";
+import type { FactorScores, LeadScoreResponse } from "../types";
+
+export function scoreLeadWithRules(
+  item: BatchItem,
+  options: ScoreBatchOptions = {}
+): LeadScoreResponse {
+  const { lead } = item;
+  const applied = selectWeights(lead.industry, options.weightProfiles);
+  const input = buildFactorInput(item, options.weightProfiles);
+  const factors = usedFactors(applied.weights);
+
+  const scores: FactorScores = {};
+  const reasoning = ["Rules-based score (no model call)."];
+  for (const factor of factors) {
+    const estimate = estimateFactor(factor, input);
+    scores[factor.id] = estimate.score;
+    reasoning.push(`${factor.label} ${estimate.score}: ${estimate.note}.`);
+  }
+
+  const finalScore = computeFinalScore(scores, applied.weights);
+  const band = resolveBand(finalScore, options.bands ?? DEFAULT_INTERPRETATION_BANDS);
+
+  return {
+    lead_id: lead.lead_id,
+    industry: lead.industry ?? "default",
+    weights_applied: applied.weights,
+    weight_profile: applied.profile,
+    scores,
+    factors: factors.map(toFactorMeta),
+    reasoning: reasoning.join("\n"),
+    final_score: finalScore,
+    interpretation: band.label,
+    band,
+    scoring_mode: "rules"
+  };
+}
@@ -0,0 +1,112 @@
+// Hand-rolled checks for the scorer's JSON output. A result is either accepted as-is or
+// reported with the reasons it was rejected so the lead can be re-asked.
+
+export type ModelScoreResult = {
+  lead_id: string;
+  industry?: string;
+  scores: Record<string, number>;
+  reasoning: unknown;
+  final_score?: number;
+};
+
+export type SchemaCheck<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Accepts { results: [...] }, a bare array, or a single result object.
+export function extractModelResults(response: unknown): unknown[] {
+  if (Array.isArray(response)) {
+    return response;
+  }
+  if (isRecord(response)) {
+    if (Array.isArray(response.results)) {
+      return response.results;
+    }
+    if ("lead_id" in response) {
+      return [response];
+    }
+  }
+  return [];
+}
+
+// Models sometimes echo numeric lead ids back as numbers.
+export function readResultLeadId(raw: unknown): string | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+  const { lead_id: leadId } = raw;
+  if (typeof leadId === "string" && leadId.trim() !== "") {
+    return leadId.trim();
+  }
+  if (typeof leadId === "number" && Number.isFinite(leadId)) {
+    return String(leadId);
+  }
+  return null;
+}
+
+// `factorIds` are the model-scored factors sent in that lead's `signals`; each must be an integer 0-10.
+export function validateModelScore(raw: unknown, factorIds: string[]): SchemaCheck<ModelScoreResult> {
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ["result must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const leadId = readResultLeadId(raw);
+  if (!leadId) {
+    errors.push("lead_id must be a non-empty string");
+  }
+
+  if (raw.industry !== undefined && raw.industry !== null && typeof raw.industry !== "string") {
+    errors.push("industry must be a string");
+  }
+
+  const reasoning = raw.reasoning;
+  const reasoningOk =
+    (typeof reasoning === "string" && reasoning.trim() !== "") ||
+    (Array.isArray(reasoning) && reasoning.length > 0 && reasoning.every((line) => typeof line === "string"));
+  if (!reasoningOk) {
+    errors.push("reasoning must be a non-empty string or array of strings");
+  }
+
+  const scores: Record<string, number> = {};
+  if (!isRecord(raw.scores)) {
+    errors.push("scores must be an object keyed by factor id");
+  } else {
+    for (const id of factorIds) {
+      const value = raw.scores[id];
+      if (value === undefined || value === null) {
+        errors.push(`scores.${id} is missing`);
+      } else if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 10) {
+        errors.push(`scores.${id} must be an integer from 0 to 10`);
+      } else {
+        scores[id] = value;
+      }
+    }
+    // Deterministic factors are recomputed locally; extra numeric keys are kept only for the adjustment notes.
+    for (const [id, value] of Object.entries(raw.scores)) {
+      if (!factorIds.includes(id) && typeof value === "number" && Number.isFinite(value)) {
+        scores[id] = value;
+      }
+    }
+  }
+
+  if (raw.final_score !== undefined && raw.final_score !== null && typeof raw.final_score !== "number") {
+    errors.push("final_score must be a number");
+  }
+
+  if (errors.length > 0 || !leadId) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      lead_id: leadId,
+      industry: typeof raw.industry === "string" ? raw.industry : undefined,
+      scores,
+      reasoning,
+      final_score: typeof raw.final_score === "number" ? raw.final_score : undefined
+    }
+  };
+}
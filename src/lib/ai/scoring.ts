@@ -1,84 +1,241 @@
-import { callOpenRouter, type OpenRouterUsage } from "../openrouter";
+import { getLlmProvider } from "../llm/config";
+import { LlmResponseError, type LlmProvider, type LlmUsage } from "../llm/provider";
+import { attributeUsage } from "../llm/usage";
 import type { CleanLead } from "./clean";
-import type { ReviewSnapshot } from "../types";
 import type { WebsiteSignals } from "../enrich/website";
-import type { LeadScoreResponse } from "../types";
-
-export type WeightSet = {
-  website_activity: number;
-  reviews: number;
-  years_in_business: number;
-  revenue_proxies: number;
-  industry_fit: number;
+import type {
+  FactorScores,
+  InterpretationBand,
+  LeadScoreResponse,
+  ReviewSnapshot,
+  WeightProfileRef
+} from "../types";
+import { DEFAULT_INTERPRETATION_BANDS, resolveBand } from "../bands";
+import { BUILTIN_PROMPTS, type PromptTemplate } from "./prompts";
+import { extractModelResults, readResultLeadId, validateModelScore, type ModelScoreResult } from "./schema";
+import {
+  clampFactorScore,
+  listFactors,
+  toFactorMeta,
+  type FactorEstimate,
+  type FactorInput,
+  type ScoringFactor
+} from "../factors";
+
+// Factor id -> weight. Ids come from the factor registry in src/lib/factors.ts.
+export type WeightSet = Record<string, number>;
+
+export type WeightMatchRule = {
+  type: "contains" | "equals" | "regex";
+  value: string;
 };
 
-const INDUSTRY_WEIGHTS: Record<string, WeightSet> = {
-  real_estate: {
-    website_activity: 0.3,
-    reviews: 0.3,
-    years_in_business: 0.15,
-    revenue_proxies: 0.15,
-    industry_fit: 0.1
-  },
-  marketing_agency: {
-    website_activity: 0.35,
-    reviews: 0.2,
-    years_in_business: 0.15,
-    revenue_proxies: 0.25,
-    industry_fit: 0.05
-  },
-  local_services: {
-    website_activity: 0.2,
-    reviews: 0.35,
-    years_in_business: 0.25,
-    revenue_proxies: 0.15,
-    industry_fit: 0.05
-  },
-  financial_services: {
-    website_activity: 0.25,
-    reviews: 0.3,
-    years_in_business: 0.3,
-    revenue_proxies: 0.1,
-    industry_fit: 0.05
-  },
-  default: {
-    website_activity: 0.25,
-    reviews: 0.25,
-    years_in_business: 0.2,
-    revenue_proxies: 0.2,
-    industry_fit: 0.1
-  }
+export type WeightProfile = {
+  id: string | null;
+  name: string;
+  version: number | null;
+  priority: number;
+  isDefault: boolean;
+  weights: WeightSet;
+  matchRules: WeightMatchRule[];
+};
+
+export type AppliedWeights = {
+  weights: WeightSet;
+  profile: WeightProfileRef;
 };
 
-export function selectWeights(industry?: string): WeightSet {
-  if (!industry) {
-    return INDUSTRY_WEIGHTS.default;
+const builtinProfile = (
+  name: string,
+  weights: WeightSet,
+  matchRules: WeightMatchRule[],
+  isDefault = false
+): WeightProfile => ({
+  id: null,
+  name,
+  version: null,
+  priority: 0,
+  isDefault,
+  weights,
+  matchRules
+});
+
+const contains = (...values: string[]): WeightMatchRule[] =>
+  values.map((value) => ({ type: "contains", value }));
+
+export const BUILTIN_WEIGHT_PROFILES: WeightProfile[] = [
+  builtinProfile(
+    "real_estate",
+    {
+      website_activity: 0.3,
+      reviews: 0.3,
+      years_in_business: 0.15,
+      revenue_proxies: 0.15,
+      industry_fit: 0.1
+    },
+    contains("real estate")
+  ),
+  builtinProfile(
+    "marketing_agency",
+    {
+      website_activity: 0.35,
+      reviews: 0.2,
+      years_in_business: 0.15,
+      revenue_proxies: 0.25,
+      industry_fit: 0.05
+    },
+    contains("agency", "marketing")
+  ),
+  builtinProfile(
+    "local_services",
+    {
+      website_activity: 0.2,
+      reviews: 0.35,
+      years_in_business: 0.25,
+      revenue_proxies: 0.15,
+      industry_fit: 0.05
+    },
+    contains("plumb", "repair", "service")
+  ),
+  builtinProfile(
+    "financial_services",
+    {
+      website_activity: 0.25,
+      reviews: 0.3,
+      years_in_business: 0.3,
+      revenue_proxies: 0.1,
+      industry_fit: 0.05
+    },
+    contains("financial", "insurance", "advis")
+  ),
+  builtinProfile(
+    "default",
+    Object.fromEntries(
+      listFactors()
+        .filter((factor) => factor.weight > 0)
+        .map((factor) => [factor.id, factor.weight])
+    ),
+    [],
+    true
+  )
+];
+
+export const MAX_MATCH_PATTERN_LENGTH = 100;
+// Regex rules only ever see the industry; anything past this is ignored.
+const MAX_REGEX_SUBJECT_LENGTH = 200;
+
+// Rejects patterns that can backtrack exponentially: backreferences, and a repeated group
+// (`*`, `+`, or `{…}`) that itself contains a quantifier or an alternation, such as
+// `(a+)+` or `(a|aa)*`. Conservative on purpose; industry rules don't need either.
+export function isSafeMatchPattern(pattern: string): boolean {
+  if (pattern.length > MAX_MATCH_PATTERN_LENGTH || /\\[1-9k]/.test(pattern)) {
+    return false;
   }
 
-  const normalized = industry.trim().toLowerCase();
-  if (normalized.includes("real estate")) {
-    return INDUSTRY_WEIGHTS.real_estate;
+  // One entry per open group: whether anything inside it repeats or alternates.
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "\\") {
+      index += 1;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== "]";
+      continue;
+    }
+
+    if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      const risky = groups.pop() ?? false;
+      const next = pattern[index + 1];
+      const repeats = next === "*" || next === "+" || next === "{";
+      if (risky && repeats) {
+        return false;
+      }
+      if (groups.length > 0 && (risky || repeats)) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((char === "*" || char === "+" || char === "{" || char === "|") && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
   }
-  if (normalized.includes("agency") || normalized.includes("marketing")) {
-    return INDUSTRY_WEIGHTS.marketing_agency;
+  return true;
+}
+
+function ruleMatches(rule: WeightMatchRule, industry: string): boolean {
+  const value = rule.value.trim().toLowerCase();
+  if (!value) {
+    return false;
   }
-  if (normalized.includes("plumb") || normalized.includes("repair") || normalized.includes("service")) {
-    return INDUSTRY_WEIGHTS.local_services;
+  switch (rule.type) {
+    case "equals":
+      return industry === value;
+    case "regex":
+      // Rules saved before patterns were checked can still be unsafe; they never match.
+      if (!isSafeMatchPattern(rule.value)) {
+        return false;
+      }
+      try {
+        return new RegExp(rule.value, "i").test(industry.slice(0, MAX_REGEX_SUBJECT_LENGTH));
+      } catch {
+        return false;
+      }
+    default:
+      return industry.includes(value);
   }
-  if (normalized.includes("financial") || normalized.includes("insurance") || normalized.includes("advis")) {
-    return INDUSTRY_WEIGHTS.financial_services;
+}
+
+function applyProfile(profile: WeightProfile): AppliedWeights {
+  return {
+    weights: { ...profile.weights },
+    profile: { id: profile.id, name: profile.name, version: profile.version }
+  };
+}
+
+// Registered factors with a positive weight, in registry order. These are the factors a run scores.
+export function usedFactors(weights: WeightSet): ScoringFactor[] {
+  return listFactors().filter((factor) => (weights[factor.id] ?? 0) > 0);
+}
+
+// Returns the first profile whose match rules fit the industry: user profiles in
+// ascending priority, then the built-in rules. Null means the default applies.
+export function matchWeightProfile(industry?: string, profiles: WeightProfile[] = []): WeightProfile | null {
+  const normalized = industry?.trim().toLowerCase() ?? "";
+  if (!normalized) {
+    return null;
   }
-  return INDUSTRY_WEIGHTS.default;
+
+  const userProfiles = [...profiles].sort((a, b) => a.priority - b.priority);
+  const candidates = [...userProfiles, ...BUILTIN_WEIGHT_PROFILES];
+  return (
+    candidates.find((profile) => profile.matchRules.some((rule) => ruleMatches(rule, normalized))) ?? null
+  );
 }
 
-function clampScore(value: number): number {
-  if (!Number.isFinite(value)) {
-    return 0;
+// Falls back to the user's default profile, then the built-in default.
+export function selectWeights(industry?: string, profiles: WeightProfile[] = []): AppliedWeights {
+  const matched = matchWeightProfile(industry, profiles);
+  if (matched) {
+    return applyProfile(matched);
   }
-  return Math.min(Math.max(Math.round(value), 0), 10);
+
+  const fallback =
+    [...profiles].sort((a, b) => a.priority - b.priority).find((profile) => profile.isDefault) ??
+    BUILTIN_WEIGHT_PROFILES.find((profile) => profile.isDefault) ??
+    BUILTIN_WEIGHT_PROFILES[BUILTIN_WEIGHT_PROFILES.length - 1];
+  return applyProfile(fallback);
+}
+
+export function clampScore(value: number): number {
+  return clampFactorScore(value);
 }
 
-function formatReasoning(value: unknown): string {
+export function formatReasoning(value: unknown): string {
   if (typeof value === "string") {
     return value;
   }
@@ -104,47 +261,39 @@ function formatReasoning(value: unknown): string {
   return String(value);
 }
 
-function computeDeterministicReviewScore(reviews: ReviewSnapshot): number {
-  const rating = reviews.averageRating ?? 0;
-  const count = reviews.reviewCount ?? 0;
-
-  const ratingScore = rating >= 4 ? 10 : rating >= 3 ? 5 : rating > 0 ? 0 : 0;
-  const countScore = count >= 50 ? 10 : count >= 10 ? 5 : count > 0 ? 2 : 0;
-
-  const average = (ratingScore + countScore) / 2;
-  return clampScore(average);
-}
-
-export function computeFinalScore(scores: LeadScoreResponse["scores"], weights: WeightSet): number {
-  const weighted =
-    scores.website_activity * weights.website_activity +
-    scores.reviews.score * weights.reviews +
-    scores.years_in_business * weights.years_in_business +
-    scores.revenue_proxies * weights.revenue_proxies +
-    scores.industry_fit * weights.industry_fit;
+export function computeFinalScore(scores: FactorScores, weights: WeightSet): number {
+  const weighted = usedFactors(weights).reduce(
+    (sum, factor) => sum + (scores[factor.id] ?? 0) * weights[factor.id],
+    0
+  );
 
   return Number(weighted.toFixed(2));
 }
 
-export function interpretScore(score: number): LeadScoreResponse["interpretation"] {
-  if (score >= 8) {
-    return "Hot";
-  }
-  if (score >= 6) {
-    return "Qualified";
-  }
-  if (score >= 4) {
-    return "Borderline";
-  }
-  return "Cold Dead";
+export function interpretScore(
+  score: number,
+  bands: InterpretationBand[] = DEFAULT_INTERPRETATION_BANDS
+): LeadScoreResponse["interpretation"] {
+  return resolveBand(score, bands).label;
 }
 
-type BatchItem = {
+export type BatchItem = {
   lead: CleanLead;
   reviews: ReviewSnapshot;
   website: WebsiteSignals | null;
 };
 
+export function buildFactorInput(item: BatchItem, profiles: WeightProfile[] = []): FactorInput {
+  return {
+    ...item,
+    matchedProfile: matchWeightProfile(item.lead.industry, profiles)?.name ?? null
+  };
+}
+
+export function estimateFactor(factor: ScoringFactor, input: FactorInput): FactorEstimate {
+  return factor.score(factor.extract(input), input);
+}
+
 function buildLeadPayload(lead: CleanLead) {
   return {
     lead_id: lead.lead_id,
@@ -177,119 +326,262 @@ function buildWebsitePayload(website: WebsiteSignals | null) {
 }
 
 function sanitizeModelScore(
-  raw: LeadScoreResponse,
-  lead: CleanLead,
-  reviews: ReviewSnapshot,
-  website: WebsiteSignals | null,
-  weights: WeightSet
+  raw: ModelScoreResult,
+  input: FactorInput,
+  applied: AppliedWeights,
+  bands: InterpretationBand[]
 ): LeadScoreResponse {
-  const deterministicReviewScore = computeDeterministicReviewScore(reviews);
-  const modelReviewScore = clampScore(raw.scores?.reviews?.score ?? deterministicReviewScore);
-
-  const sanitized: LeadScoreResponse = {
-    ...raw,
-    lead_id: raw.lead_id ?? lead.lead_id,
-    industry: raw.industry ?? (lead.industry ?? "default"),
-    weights_applied: weights,
-    scores: {
-      website_activity: clampScore(raw.scores?.website_activity ?? (website?.finalScore ?? 0)),
-      reviews: {
-        average_rating: reviews.averageRating,
-        review_count: reviews.reviewCount,
-        score: deterministicReviewScore
-      },
-      years_in_business: clampScore(raw.scores?.years_in_business ?? 0),
-      revenue_proxies: clampScore(raw.scores?.revenue_proxies ?? 0),
-      industry_fit: clampScore(raw.scores?.industry_fit ?? 0)
-    },
-    reasoning: formatReasoning(raw.reasoning),
-    final_score: 0,
-    interpretation: "Cold Dead"
-  };
-
-  const finalScore = computeFinalScore(sanitized.scores, weights);
-  const interpretation = interpretScore(finalScore);
+  const { lead } = input;
+  const proposed = raw.scores;
+  const factors = usedFactors(applied.weights);
+  const scores: FactorScores = {};
+  const notes: string[] = [];
+
+  for (const factor of factors) {
+    const modelScore = proposed[factor.id];
+    if (factor.scorer === "deterministic") {
+      const { score } = estimateFactor(factor, input);
+      scores[factor.id] = score;
+      if (modelScore !== undefined && clampScore(modelScore) !== score) {
+        notes.push(`[System] ${factor.label} score adjusted to ${score} (model proposed ${clampScore(modelScore)}).`);
+      }
+    } else {
+      scores[factor.id] = clampScore(modelScore);
+    }
+  }
 
-  sanitized.final_score = finalScore;
-  sanitized.interpretation = interpretation;
+  const finalScore = computeFinalScore(scores, applied.weights);
+  const band = resolveBand(finalScore, bands);
 
-  if (modelReviewScore !== deterministicReviewScore) {
-    sanitized.reasoning += `\n[System] Reviews score adjusted to ${deterministicReviewScore} (model proposed ${modelReviewScore}).`;
-  }
   if (Math.abs((raw.final_score ?? 0) - finalScore) > 0.05) {
-    sanitized.reasoning += `\n[System] Final score recomputed to ${finalScore} based on weighted sum.`;
+    notes.push(`[System] Final score recomputed to ${finalScore} based on weighted sum.`);
   }
 
-  return sanitized;
+  return {
+    lead_id: lead.lead_id,
+    industry: raw.industry ?? (lead.industry ?? "default"),
+    weights_applied: applied.weights,
+    weight_profile: applied.profile,
+    scores,
+    factors: factors.map(toFactorMeta),
+    reasoning: [formatReasoning(raw.reasoning), ...notes].join("\n"),
+    final_score: finalScore,
+    interpretation: band.label,
+    band,
+    scoring_mode: "model"
+  };
 }
 
+// Extra model calls per batch for leads whose results were missing or failed validation.
+const SCORE_REPAIR_ATTEMPTS = Math.max(Number(process.env.SCORE_REPAIR_ATTEMPTS ?? "1"), 0);
+
+export type BatchLeadOutcome =
+  | { ok: true; score: LeadScoreResponse }
+  | { ok: false; errors: string[] };
+
 type BatchResult = {
-  scores: LeadScoreResponse[];
-  usage: OpenRouterUsage | null;
+  // Aligned with the input items, not with the model's response order.
+  outcomes: BatchLeadOutcome[];
+  usage: LlmUsage | null;
+  // Each lead's part of usage, aligned with the items and adding up to the batch total.
+  leadUsage: Array<LlmUsage | null>;
+  // The model that answered the last call; fallbacks can differ from the configured model.
+  model: string | null;
 };
 
-export async function scoreLeadBatchWithModel(items: BatchItem[]): Promise<BatchResult> {
-  if (items.length === 0) {
-    return { scores: [], usage: null };
+export type ScoreBatchOptions = {
+  weightProfiles?: WeightProfile[];
+  bands?: InterpretationBand[];
+  prompt?: PromptTemplate;
+  provider?: LlmProvider;
+};
+
+const addUsage = (total: LlmUsage | null, usage: LlmUsage | null): LlmUsage | null => {
+  if (!usage) {
+    return total;
   }
+  if (!total) {
+    return { ...usage };
+  }
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  };
+};
 
-  const payload = items.map(({ lead, reviews, website }) => ({
-    lead: buildLeadPayload(lead),
-    reviews: buildReviewsPayload(reviews),
-    website: buildWebsitePayload(website),
-    weights: selectWeights(lead.industry)
-  }));
+export async function scoreLeadBatchWithModel(
+  items: BatchItem[],
+  options: ScoreBatchOptions = {}
+): Promise<BatchResult> {
+  if (items.length === 0) {
+    return { outcomes: [], usage: null, leadUsage: [], model: null };
+  }
 
-  const messages = [
+  const appliedWeights = items.map(({ lead }) => selectWeights(lead.industry, options.weightProfiles));
+  const inputs = items.map((item) => buildFactorInput(item, options.weightProfiles));
+  const modelFactors = new Map<string, ScoringFactor>();
+  const modelFactorIds: string[][] = [];
+
+  const payload = items.map(({ lead, reviews, website }, index) => {
+    const factors = usedFactors(appliedWeights[index].weights);
+    const signals: Record<string, unknown> = {};
+    for (const factor of factors) {
+      if (factor.scorer === "model") {
+        modelFactors.set(factor.id, factor);
+        signals[factor.id] = factor.extract(inputs[index]);
+      }
+    }
+    modelFactorIds.push(Object.keys(signals));
+    return {
+      lead: buildLeadPayload(lead),
+      reviews: buildReviewsPayload(reviews),
+      website: buildWebsitePayload(website),
+      weights: Object.fromEntries(factors.map((factor) => [factor.id, appliedWeights[index].weights[factor.id]])),
+      signals
+    };
+  });
+
+  // Shared parts of the request (system prompt, guidance) are spread by these sizes too.
+  const payloadSizes = payload.map((entry) => JSON.stringify(entry).length);
+
+  const provider = options.provider ?? getLlmProvider();
+  const prompt = options.prompt ?? BUILTIN_PROMPTS.score;
+  const guidance = Object.fromEntries(
+    Array.from(modelFactors.values()).map((factor) => [
+      factor.id,
+      prompt.guidance[factor.id] ?? factor.guidance ?? factor.label
+    ])
+  );
+  const buildMessages = (indexes: number[], errors: Map<number, string[]> | null) => [
     {
       role: "system" as const,
-      content: `You are an AI lead scoring engine. Produce JSON only. For each element in the 'leads' array, return an array named "results" with the same order. Each object must include lead_id, industry, weights_applied, scores, reasoning, final_score, interpretation. All factor scores must be integers 0-10. Do NOT compute weighted sums; the caller will recompute. If data is missing, set score to 0 and explain.`
+      content: prompt.system
     },
     {
       role: "user" as const,
       content: JSON.stringify({
-        leads: payload,
-        guidance: {
-          website_activity: "Use website.finalScore when provided. Mention method and bonuses in reasoning.",
-          reviews: "Use provided rating/review count. If null, score 0 and explain scraping attempts.",
-          years_in_business: "Map years_in_business to 10/>5, 5/2-4, 2/<1",
-          revenue_proxies: "Estimate from pricing signals, review volume, industry context.",
-          industry_fit: "Apply core alignment and bonus rules; note any patriotic/outdoor cues if present."
-        }
+        leads: indexes.map((index) => payload[index]),
+        guidance,
+        ...(errors
+          ? {
+              corrections: indexes.map((index) => ({
+                lead_id: items[index].lead.lead_id,
+                errors: errors.get(index) ?? []
+              }))
+            }
+          : {})
       })
     }
   ];
 
-  const { response, usage } = await callOpenRouter(messages);
+  const outcomes: Array<BatchLeadOutcome | null> = items.map(() => null);
+  const lastErrors = new Map<number, string[]>();
+  let pending = items.map((_, index) => index);
+  let usage: LlmUsage | null = null;
+  const leadUsage: Array<LlmUsage | null> = items.map(() => null);
+  let model: string | null = null;
+
+  // A lead without a result in the reply gets none of its completion tokens, unless no lead
+  // has one; then completion tokens follow request size too.
+  const attribute = (callUsage: LlmUsage | null, indexes: number[], replies: Map<string, unknown>) => {
+    if (!callUsage) {
+      return;
+    }
+    const promptWeights = indexes.map((index) => payloadSizes[index]);
+    const replySizes = indexes.map((index) => {
+      const raw = replies.get(items[index].lead.lead_id);
+      return raw === undefined ? 0 : JSON.stringify(raw).length;
+    });
+    const completionWeights = replySizes.some((size) => size > 0) ? replySizes : promptWeights;
+    attributeUsage(callUsage, promptWeights, completionWeights).forEach((share, position) => {
+      leadUsage[indexes[position]] = addUsage(leadUsage[indexes[position]], share);
+    });
+  };
 
-  const parsed = Array.isArray((response as { results?: unknown[] })?.results)
-    ? (response as { results: unknown[] }).results
-    : Array.isArray(response)
-      ? (response as unknown[])
-      : null;
+  for (let attempt = 0; attempt <= SCORE_REPAIR_ATTEMPTS && pending.length > 0; attempt += 1) {
+    if (attempt > 0) {
+      console.warn("Re-asking model for invalid lead scores", {
+        attempt,
+        leadIds: pending.map((index) => items[index].lead.lead_id)
+      });
+    }
 
-  if (!parsed || parsed.length !== items.length) {
-    throw new Error("Model returned unexpected batch response format");
-  }
+    let results: unknown[] = [];
+    let callUsage: LlmUsage | null = null;
+    try {
+      const call = await provider.complete(buildMessages(pending, attempt > 0 ? lastErrors : null));
+      callUsage = call.usage;
+      model = call.model;
+      results = extractModelResults(call.response);
+    } catch (error) {
+      if (error instanceof LlmResponseError) {
+        callUsage = error.usage;
+      } else if (attempt === 0) {
+        throw error;
+      } else {
+        // Keep the results already validated; the remaining leads fail individually.
+        console.error("Model repair request failed", error);
+        break;
+      }
+    }
 
-  const scores = parsed.map((raw, index) =>
-    sanitizeModelScore(
-      raw as LeadScoreResponse,
-      items[index].lead,
-      items[index].reviews,
-      items[index].website,
-      payload[index].weights
-    )
-  );
+    const byLeadId = new Map<string, unknown>();
+    for (const raw of results) {
+      const leadId = readResultLeadId(raw);
+      if (leadId && !byLeadId.has(leadId)) {
+        byLeadId.set(leadId, raw);
+      }
+    }
+    usage = addUsage(usage, callUsage);
+    attribute(callUsage, pending, byLeadId);
+
+    pending = pending.filter((index) => {
+      const raw = byLeadId.get(items[index].lead.lead_id);
+      if (raw === undefined) {
+        lastErrors.set(index, [
+          results.length === 0 ? "response was not a valid results array" : "no result returned for this lead_id"
+        ]);
+        return true;
+      }
+      const check = validateModelScore(raw, modelFactorIds[index]);
+      if (!check.ok) {
+        lastErrors.set(index, check.errors);
+        return true;
+      }
+      outcomes[index] = {
+        ok: true,
+        score: sanitizeModelScore(
+          check.value,
+          inputs[index],
+          appliedWeights[index],
+          options.bands ?? DEFAULT_INTERPRETATION_BANDS
+        )
+      };
+      return false;
+    });
+  }
 
-  return { scores, usage };
+  return {
+    outcomes: outcomes.map(
+      (outcome, index) => outcome ?? { ok: false, errors: lastErrors.get(index) ?? ["no result returned"] }
+    ),
+    usage,
+    leadUsage,
+    model
+  };
 }
 
 export async function scoreLeadWithModel(
   lead: CleanLead,
   reviews: ReviewSnapshot,
-  website: WebsiteSignals | null
+  website: WebsiteSignals | null,
+  options: ScoreBatchOptions = {}
 ): Promise<LeadScoreResponse> {
-  const { scores } = await scoreLeadBatchWithModel([{ lead, reviews, website }]);
-  return scores[0];
+  const { outcomes } = await scoreLeadBatchWithModel([{ lead, reviews, website }], options);
+  const [outcome] = outcomes;
+  if (!outcome.ok) {
+    throw new Error(`Model returned an invalid score for lead ${lead.lead_id}: ${outcome.errors.join("; ")}`);
+  }
+  return outcome.score;
 }
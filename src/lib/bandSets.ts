@@ -0,0 +1,267 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { DEFAULT_BAND_SET, sortBands, type BandSet } from "@/lib/bands";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+import type { InterpretationBand } from "@/lib/types";
+
+const MAX_BANDS = 10;
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export class BandSetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BandSetValidationError";
+  }
+}
+
+type BandSetRow = {
+  id: string;
+  user_id: string | null;
+  name: string;
+  bands: InterpretationBand[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BandSetInput = {
+  name?: string;
+  bands?: InterpretationBand[];
+  isActive?: boolean;
+};
+
+export type BandSetDetail = BandSet & {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+function requireClient(): SupabaseClient {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error("Supabase client not configured");
+  }
+  return client;
+}
+
+function validateName(raw: unknown): string {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    throw new BandSetValidationError("Band set name is required");
+  }
+  return raw.trim();
+}
+
+function validateBands(raw: unknown): InterpretationBand[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new BandSetValidationError("At least one band is required");
+  }
+  if (raw.length > MAX_BANDS) {
+    throw new BandSetValidationError(`A band set can have at most ${MAX_BANDS} bands`);
+  }
+
+  const labels = new Set<string>();
+  const cutoffs = new Set<number>();
+  const bands = raw.map((entry, index) => {
+    const source = (entry ?? {}) as Record<string, unknown>;
+    const label = typeof source.label === "string" ? source.label.trim() : "";
+    const min = Number(source.min);
+    const color = typeof source.color === "string" ? source.color.trim() : "";
+    const action = typeof source.action === "string" ? source.action.trim() : "";
+
+    if (!label) {
+      throw new BandSetValidationError(`Band ${index + 1} needs a label`);
+    }
+    if (labels.has(label.toLowerCase())) {
+      throw new BandSetValidationError(`Band label "${label}" is used more than once`);
+    }
+    if (!Number.isFinite(min) || min < 0 || min > 10) {
+      throw new BandSetValidationError(`Band "${label}" needs a cutoff between 0 and 10`);
+    }
+    if (cutoffs.has(min)) {
+      throw new BandSetValidationError(`Two bands share the cutoff ${min}`);
+    }
+    if (!COLOR_PATTERN.test(color)) {
+      throw new BandSetValidationError(`Band "${label}" needs a hex color such as #dc2626`);
+    }
+
+    labels.add(label.toLowerCase());
+    cutoffs.add(min);
+    return { label, min, color, action };
+  });
+
+  const ordered = sortBands(bands);
+  if (ordered[ordered.length - 1].min !== 0) {
+    throw new BandSetValidationError("The lowest band must start at 0 so every score has a band");
+  }
+
+  return ordered;
+}
+
+function toBandSet(row: BandSetRow): BandSetDetail {
+  return {
+    id: row.id,
+    name: row.name,
+    isActive: row.is_active,
+    bands: sortBands(row.bands ?? []),
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime()
+  };
+}
+
+async function deactivateOthers(client: SupabaseClient, userId: string, keepId: string) {
+  const { error } = await client
+    .from("interpretation_band_sets")
+    .update({ is_active: false })
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .neq("id", keepId);
+
+  if (error) {
+    console.error("Failed to deactivate band sets", { userId }, error);
+    throw new Error(error.message ?? "Failed to deactivate band sets");
+  }
+}
+
+export async function listBandSets(userId: string): Promise<BandSetDetail[]> {
+  if (!userId) {
+    return [];
+  }
+
+  const client = requireClient();
+  const { data, error } = await client
+    .from("interpretation_band_sets")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true })
+    .returns<BandSetRow[]>();
+
+  if (error) {
+    console.error("Failed to list band sets", { userId }, error);
+    throw new Error(error.message ?? "Failed to list band sets");
+  }
+
+  return (data ?? []).map(toBandSet);
+}
+
+export async function getActiveBandSet(userId: string | null): Promise<BandSet> {
+  if (!userId) {
+    return DEFAULT_BAND_SET;
+  }
+
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return DEFAULT_BAND_SET;
+  }
+
+  const { data, error } = await client
+    .from("interpretation_band_sets")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .maybeSingle<BandSetRow>();
+
+  if (error) {
+    console.error("Failed to load active band set; using defaults", { userId }, error);
+    return DEFAULT_BAND_SET;
+  }
+
+  return data ? toBandSet(data) : DEFAULT_BAND_SET;
+}
+
+export async function createBandSet(userId: string, input: BandSetInput): Promise<BandSetDetail> {
+  const name = validateName(input.name);
+  const bands = validateBands(input.bands);
+  const client = requireClient();
+
+  const { data, error } = await client
+    .from("interpretation_band_sets")
+    .insert({ user_id: userId, name, bands, is_active: false })
+    .select("*")
+    .single<BandSetRow>();
+
+  if (error || !data) {
+    console.error("Failed to create band set", { userId }, error);
+    throw new Error(error?.message ?? "Failed to create band set");
+  }
+
+  if (input.isActive === true) {
+    const activated = await updateBandSet(data.id, userId, { isActive: true });
+    if (activated) {
+      return activated;
+    }
+  }
+
+  return toBandSet(data);
+}
+
+export async function updateBandSet(
+  bandSetId: string,
+  userId: string,
+  input: BandSetInput
+): Promise<BandSetDetail | null> {
+  const updates: Partial<Pick<BandSetRow, "name" | "bands" | "is_active">> = {};
+  if (input.name !== undefined) {
+    updates.name = validateName(input.name);
+  }
+  if (input.bands !== undefined) {
+    updates.bands = validateBands(input.bands);
+  }
+  if (input.isActive !== undefined) {
+    updates.is_active = input.isActive === true;
+  }
+
+  const client = requireClient();
+
+  if (updates.is_active) {
+    // Check the set is the caller's before touching their other sets.
+    const { data: target, error: targetError } = await client
+      .from("interpretation_band_sets")
+      .select("id")
+      .eq("id", bandSetId)
+      .eq("user_id", userId)
+      .maybeSingle<{ id: string }>();
+
+    if (targetError) {
+      console.error("Failed to load band set", { bandSetId }, targetError);
+      throw new Error(targetError.message ?? "Failed to update band set");
+    }
+    if (!target) {
+      return null;
+    }
+
+    await deactivateOthers(client, userId, bandSetId);
+  }
+
+  const { data, error } = await client
+    .from("interpretation_band_sets")
+    .update(updates)
+    .eq("id", bandSetId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle<BandSetRow>();
+
+  if (error) {
+    console.error("Failed to update band set", { bandSetId }, error);
+    throw new Error(error.message ?? "Failed to update band set");
+  }
+
+  return data ? toBandSet(data) : null;
+}
+
+export async function deleteBandSet(bandSetId: string, userId: string): Promise<boolean> {
+  const client = requireClient();
+  const { data, error } = await client
+    .from("interpretation_band_sets")
+    .delete()
+    .eq("id", bandSetId)
+    .eq("user_id", userId)
+    .select("id")
+    .maybeSingle<{ id: string }>();
+
+  if (error) {
+    console.error("Failed to delete band set", { bandSetId }, error);
+    throw new Error(error.message ?? "Failed to delete band set");
+  }
+
+  return Boolean(data);
+}
@@ -0,0 +1,52 @@
+import type { InterpretationBand } from "./types";
+
+export type BandSet = {
+  id: string | null;
+  name: string;
+  isActive: boolean;
+  bands: InterpretationBand[];
+};
+
+export const DEFAULT_INTERPRETATION_BANDS: InterpretationBand[] = [
+  { label: "Hot", min: 8, color: "#dc2626", action: "Call today and book a meeting." },
+  { label: "Qualified", min: 6, color: "#ea580c", action: "Add to this week's outreach sequence." },
+  { label: "Borderline", min: 4, color: "#ca8a04", action: "Nurture with marketing touches; re-check next quarter." },
+  { label: "Cold Dead", min: 0, color: "#64748b", action: "Deprioritize; no outreach needed." }
+];
+
+export const DEFAULT_BAND_SET: BandSet = {
+  id: null,
+  name: "Default",
+  isActive: true,
+  bands: DEFAULT_INTERPRETATION_BANDS
+};
+
+export function sortBands(bands: InterpretationBand[]): InterpretationBand[] {
+  return [...bands].sort((a, b) => b.min - a.min);
+}
+
+export function resolveBand(
+  score: number,
+  bands: InterpretationBand[] = DEFAULT_INTERPRETATION_BANDS
+): InterpretationBand {
+  const ordered = sortBands(bands.length > 0 ? bands : DEFAULT_INTERPRETATION_BANDS);
+  const value = Number.isFinite(score) ? score : 0;
+  return ordered.find((band) => value >= band.min) ?? ordered[ordered.length - 1];
+}
+
+// Score range covered by a band: [min, max). The top band has no upper bound and the
+// bottom band has no lower bound, matching how resolveBand falls through.
+export function bandScoreRange(
+  label: string,
+  bands: InterpretationBand[] = DEFAULT_INTERPRETATION_BANDS
+): { min: number | null; max: number | null } | null {
+  const ordered = sortBands(bands);
+  const index = ordered.findIndex((band) => band.label === label);
+  if (index < 0) {
+    return null;
+  }
+  return {
+    min: index === ordered.length - 1 ? null : ordered[index].min,
+    max: index === 0 ? null : ordered[index - 1].min
+  };
+}
@@ -0,0 +1,351 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { computeFinalScore, usedFactors, type WeightSet } from "@/lib/ai/scoring";
+import { resolveBand, sortBands } from "@/lib/bands";
+import { factorLabel, normalizeFactorScores } from "@/lib/factors";
+import type { LeadRunRow } from "@/lib/leadRuns";
+import { listUserOutcomes, type OutcomeEvent } from "@/lib/outcomes";
+import type { FactorScores, InterpretationBand } from "@/lib/types";
+
+const RUN_CHUNK_SIZE = 200;
+// Below this many resolved leads in a profile, or this many on either side, a suggestion
+// would mostly be noise.
+const MIN_SUGGESTION_SAMPLE = 30;
+const MIN_CLASS_SAMPLE = 5;
+// Each point converted leads average above the rest on a factor moves its weight by
+// 1/LIFT_SCALE (before renormalizing); multipliers are capped to [0.5, 1.5].
+const LIFT_SCALE = 5;
+// Suggested weights must beat the current ones by at least this much AUC to be offered.
+const MIN_AUC_GAIN = 0.01;
+
+const FACTOR_BUCKETS = [
+  { key: "low", label: "0–3", min: 0, max: 3 },
+  { key: "mid", label: "4–6", min: 4, max: 6 },
+  { key: "high", label: "7–10", min: 7, max: 10 }
+] as const;
+
+type CalibrationRun = Pick<LeadRunRow, "id" | "final_score" | "scores" | "weights" | "weight_profile" | "factors">;
+
+// One lead's fate. Open leads (only "contacted" so far) and bad data are left out of rates.
+type ResolvedLead = {
+  run: CalibrationRun;
+  scores: FactorScores;
+  converted: boolean;
+  won: boolean;
+};
+
+export type CalibrationBucket = {
+  key: string;
+  label: string;
+  leads: number;
+  // Reached a meeting or a win.
+  converted: number;
+  won: number;
+  conversionRate: number | null;
+  winRate: number | null;
+};
+
+export type WeightSuggestion = {
+  profile: string;
+  leads: number;
+  currentWeights: WeightSet;
+  // Null when the adjusted weights didn't separate converted leads better than the current ones.
+  suggestedWeights: WeightSet | null;
+  factors: Array<{
+    id: string;
+    label: string;
+    convertedMean: number;
+    otherMean: number;
+    lift: number;
+    current: number;
+    suggested: number;
+  }>;
+  // Chance a converted lead outscores one that didn't convert, under each weight set.
+  currentAuc: number;
+  suggestedAuc: number;
+};
+
+export type CalibrationReport = {
+  totals: {
+    withOutcome: number;
+    resolved: number;
+    open: number;
+    badData: number;
+    converted: number;
+    won: number;
+  };
+  bands: CalibrationBucket[];
+  factors: Array<{ id: string; label: string; buckets: CalibrationBucket[] }>;
+  profiles: CalibrationBucket[];
+  suggestions: WeightSuggestion[];
+  // Profiles with too few resolved leads for a suggestion.
+  insufficient: Array<{ profile: string; leads: number }>;
+};
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length);
+
+function bucket(key: string, label: string, leads: ResolvedLead[]): CalibrationBucket {
+  const converted = leads.filter((lead) => lead.converted).length;
+  const won = leads.filter((lead) => lead.won).length;
+  return {
+    key,
+    label,
+    leads: leads.length,
+    converted,
+    won,
+    conversionRate: leads.length === 0 ? null : round(converted / leads.length, 3),
+    winRate: leads.length === 0 ? null : round(won / leads.length, 3)
+  };
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+// Mann–Whitney AUC: ties count half.
+export function rankAuc(positives: number[], negatives: number[]): number {
+  if (positives.length === 0 || negatives.length === 0) {
+    return 0.5;
+  }
+  const ranked = [
+    ...positives.map((value) => ({ value, positive: true })),
+    ...negatives.map((value) => ({ value, positive: false }))
+  ].sort((a, b) => a.value - b.value);
+
+  let positiveRankSum = 0;
+  for (let start = 0; start < ranked.length; ) {
+    let end = start;
+    while (end + 1 < ranked.length && ranked[end + 1].value === ranked[start].value) {
+      end += 1;
+    }
+    const averageRank = (start + end) / 2 + 1;
+    for (let index = start; index <= end; index += 1) {
+      if (ranked[index].positive) {
+        positiveRankSum += averageRank;
+      }
+    }
+    start = end + 1;
+  }
+
+  const u = positiveRankSum - (positives.length * (positives.length + 1)) / 2;
+  return round(u / (positives.length * negatives.length), 3);
+}
+
+// Weights summing to 1 at two decimals; rounding drift goes to the largest weight.
+function normalizeWeights(raw: Record<string, number>): WeightSet {
+  const total = Object.values(raw).reduce((sum, value) => sum + value, 0);
+  if (total <= 0) {
+    return raw;
+  }
+  const weights: WeightSet = {};
+  for (const [id, value] of Object.entries(raw)) {
+    weights[id] = round(value / total);
+  }
+  const drift = round(1 - Object.values(weights).reduce((sum, value) => sum + value, 0));
+  const largest = Object.keys(weights).sort((a, b) => weights[b] - weights[a])[0];
+  if (largest && drift !== 0) {
+    weights[largest] = round(weights[largest] + drift);
+  }
+  return weights;
+}
+
+function mostCommonWeights(leads: ResolvedLead[]): WeightSet {
+  const counts = new Map<string, { weights: WeightSet; count: number }>();
+  for (const { run } of leads) {
+    const key = JSON.stringify(Object.entries(run.weights ?? {}).sort(([a], [b]) => a.localeCompare(b)));
+    const entry = counts.get(key) ?? { weights: run.weights ?? {}, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count)[0]?.weights ?? {};
+}
+
+// Nudges each factor's weight by how much higher converted leads scored on it than the
+// rest, then checks the result with computeFinalScore on the same leads. Factors are
+// judged one at a time, so two factors that carry the same signal both get raised.
+export function suggestWeights(profile: string, leads: ResolvedLead[]): WeightSuggestion {
+  const currentWeights = mostCommonWeights(leads);
+  const converted = leads.filter((lead) => lead.converted);
+  const others = leads.filter((lead) => !lead.converted);
+
+  const factors = usedFactors(currentWeights).map((factor) => {
+    const convertedMean = mean(converted.map((lead) => lead.scores[factor.id] ?? 0));
+    const otherMean = mean(others.map((lead) => lead.scores[factor.id] ?? 0));
+    const lift = convertedMean - otherMean;
+    const multiplier = Math.min(Math.max(1 + lift / LIFT_SCALE, 0.5), 1.5);
+    return {
+      id: factor.id,
+      label: factor.label,
+      convertedMean: round(convertedMean),
+      otherMean: round(otherMean),
+      lift: round(lift),
+      current: currentWeights[factor.id] ?? 0,
+      raw: (currentWeights[factor.id] ?? 0) * multiplier
+    };
+  });
+
+  const adjusted = normalizeWeights(Object.fromEntries(factors.map((factor) => [factor.id, factor.raw])));
+  const aucFor = (weights: WeightSet) =>
+    rankAuc(
+      converted.map((lead) => computeFinalScore(lead.scores, weights)),
+      others.map((lead) => computeFinalScore(lead.scores, weights))
+    );
+  const currentAuc = aucFor(currentWeights);
+  const suggestedAuc = aucFor(adjusted);
+
+  return {
+    profile,
+    leads: leads.length,
+    currentWeights,
+    suggestedWeights: suggestedAuc >= currentAuc + MIN_AUC_GAIN ? adjusted : null,
+    factors: factors.map((factor) => ({
+      id: factor.id,
+      label: factor.label,
+      convertedMean: factor.convertedMean,
+      otherMean: factor.otherMean,
+      lift: factor.lift,
+      current: factor.current,
+      suggested: adjusted[factor.id] ?? 0
+    })),
+    currentAuc,
+    suggestedAuc
+  };
+}
+
+// Splits events into resolved leads and counts of open and bad-data leads.
+export function resolveOutcomes(
+  events: OutcomeEvent[],
+  runs: Map<string, CalibrationRun>
+): { resolved: ResolvedLead[]; open: number; badData: number } {
+  const resolved: ResolvedLead[] = [];
+  let open = 0;
+  let badData = 0;
+
+  for (const [runId, runEvents] of groupBy(events, (event) => event.runId)) {
+    const run = runs.get(runId);
+    if (!run) {
+      continue;
+    }
+    const latest = runEvents.reduce((a, b) => (b.occurredAt >= a.occurredAt ? b : a));
+    if (latest.outcome === "bad_data") {
+      badData += 1;
+      continue;
+    }
+    const outcomes = new Set(runEvents.map((event) => event.outcome));
+    const won = outcomes.has("won");
+    const converted = won || outcomes.has("meeting_booked");
+    if (!converted && !outcomes.has("lost")) {
+      open += 1;
+      continue;
+    }
+    resolved.push({ run, scores: normalizeFactorScores(run.scores), converted, won });
+  }
+
+  return { resolved, open, badData };
+}
+
+// Bands come from the model's score under the active band set; overrides are ignored, since
+// the point is to check the scorer.
+export function buildCalibrationReport(
+  events: OutcomeEvent[],
+  runs: Map<string, CalibrationRun>,
+  bands: InterpretationBand[]
+): CalibrationReport {
+  const { resolved, open, badData } = resolveOutcomes(events, runs);
+
+  const byBand = groupBy(resolved, (lead) => resolveBand(Number(lead.run.final_score), bands).label);
+  const bandReport = sortBands(bands).map((band) => bucket(band.label, band.label, byBand.get(band.label) ?? []));
+
+  const factorIds = Array.from(new Set(resolved.flatMap((lead) => Object.keys(lead.scores))));
+  const factorReport = factorIds
+    .map((id) => {
+      const scored = resolved.filter((lead) => lead.scores[id] !== undefined);
+      return {
+        id,
+        label: factorLabel(id, scored.find((lead) => lead.run.factors)?.run.factors ?? []),
+        buckets: FACTOR_BUCKETS.map((range) =>
+          bucket(
+            range.key,
+            range.label,
+            scored.filter((lead) => lead.scores[id] >= range.min && lead.scores[id] <= range.max)
+          )
+        )
+      };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const byProfile = groupBy(resolved, (lead) => lead.run.weight_profile?.name ?? "Default");
+  const profileReport = Array.from(byProfile.entries())
+    .map(([profile, leads]) => bucket(profile, profile, leads))
+    .sort((a, b) => b.leads - a.leads);
+
+  const suggestions: WeightSuggestion[] = [];
+  const insufficient: CalibrationReport["insufficient"] = [];
+  for (const [profile, leads] of byProfile) {
+    const converted = leads.filter((lead) => lead.converted).length;
+    if (
+      leads.length < MIN_SUGGESTION_SAMPLE ||
+      converted < MIN_CLASS_SAMPLE ||
+      leads.length - converted < MIN_CLASS_SAMPLE
+    ) {
+      insufficient.push({ profile, leads: leads.length });
+      continue;
+    }
+    suggestions.push(suggestWeights(profile, leads));
+  }
+
+  return {
+    totals: {
+      withOutcome: resolved.length + open + badData,
+      resolved: resolved.length,
+      open,
+      badData,
+      converted: resolved.filter((lead) => lead.converted).length,
+      won: resolved.filter((lead) => lead.won).length
+    },
+    bands: bandReport,
+    factors: factorReport,
+    profiles: profileReport,
+    suggestions: suggestions.sort((a, b) => b.leads - a.leads),
+    insufficient
+  };
+}
+
+export async function getCalibrationReport(
+  client: SupabaseClient,
+  userId: string,
+  bands: InterpretationBand[]
+): Promise<CalibrationReport> {
+  const events = await listUserOutcomes(client, userId);
+  const runIds = Array.from(new Set(events.map((event) => event.runId)));
+  const runs = new Map<string, CalibrationRun>();
+
+  for (let offset = 0; offset < runIds.length; offset += RUN_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from("lead_runs")
+      .select("id, final_score, scores, weights, weight_profile, factors")
+      .eq("user_id", userId)
+      .in("id", runIds.slice(offset, offset + RUN_CHUNK_SIZE))
+      .returns<CalibrationRun[]>();
+
+    if (error) {
+      console.error("Failed to load lead runs for calibration", { userId }, error);
+      throw new Error(error.message ?? "Failed to load lead runs for calibration");
+    }
+    (data ?? []).forEach((run) => runs.set(run.id, run));
+  }
+
+  return buildCalibrationReport(events, runs, bands);
+}
@@ -0,0 +1,321 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { CleanLead } from "@/lib/ai/clean";
+import { domainKey } from "@/lib/dedupe";
+import { normalizeFactorScores } from "@/lib/factors";
+import type { FactorScores, InterpretationBand, LeadRunOverride, LeadScoreApiResponse } from "@/lib/types";
+
+// Keys per `.in()` filter, so a large save stays under the request URL limit.
+const COMPANY_KEY_CHUNK = 200;
+
+type CompanyRow = {
+  id: string;
+  user_id: string | null;
+  identity_key: string;
+  name: string;
+  domain: string | null;
+  maps_place_id: string | null;
+  last_scored_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Company = {
+  id: string;
+  name: string;
+  domain: string | null;
+  mapsPlaceId: string | null;
+  lastScoredAt: number | null;
+  createdAt: number;
+};
+
+export type CompanyIdentity = {
+  key: string;
+  name: string;
+  domain: string | null;
+  placeId: string | null;
+};
+
+type CompanyRunRow = {
+  id: string;
+  lead_id: string;
+  company: string;
+  industry: string | null;
+  final_score: number;
+  interpretation: string;
+  band: InterpretationBand | null;
+  scoring_mode: string | null;
+  scores: FactorScores;
+  weights: Record<string, number>;
+  enriched: LeadScoreApiResponse["leads"][number]["enriched"] | null;
+  override: LeadRunOverride | null;
+  created_at: string;
+};
+
+// Scores, band and factors are effective values: a rep's override replaces the model's.
+export type CompanyRunPoint = {
+  id: string;
+  leadId: string;
+  createdAt: number;
+  finalScore: number;
+  interpretation: string;
+  band: InterpretationBand | null;
+  scoringMode: string | null;
+  scores: FactorScores;
+  weights: Record<string, number>;
+  reviewRating: number | null;
+  reviewCount: number | null;
+  websiteScore: number | null;
+  overridden: boolean;
+  modelFinalScore: number;
+};
+
+// Difference from the previous run; null deltas mean one side had no value.
+export type CompanyRunChange = {
+  fromRunId: string;
+  toRunId: string;
+  finalScoreDelta: number;
+  bandChange: { from: string; to: string } | null;
+  factorDeltas: Record<string, number | null>;
+  reviewRatingDelta: number | null;
+  reviewCountDelta: number | null;
+  websiteScoreDelta: number | null;
+};
+
+export type CompanyHistory = {
+  company: Company;
+  runs: CompanyRunPoint[];
+  changes: CompanyRunChange[];
+};
+
+const MAX_HISTORY_RUNS = 200;
+
+function toCompany(row: CompanyRow): Company {
+  return {
+    id: row.id,
+    name: row.name,
+    domain: row.domain,
+    mapsPlaceId: row.maps_place_id,
+    lastScoredAt: row.last_scored_at ? new Date(row.last_scored_at).getTime() : null,
+    createdAt: new Date(row.created_at).getTime()
+  };
+}
+
+// Google exposes a place under several ids; any one of them identifies it, but the same
+// place seen as "ChIJ…" in one export and "cid:…" in another will not be matched.
+export function mapsPlaceId(value?: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const url = new URL(value.trim());
+    const placeId = url.searchParams.get("query_place_id") ?? url.searchParams.get("place_id");
+    if (placeId) {
+      return placeId;
+    }
+    const cid = url.searchParams.get("cid");
+    if (cid && /^\d+$/.test(cid)) {
+      return `cid:${cid}`;
+    }
+    const featureId = url.searchParams.get("ftid") ?? decodeURIComponent(url.pathname).match(/!1s(0x[0-9a-f]+:0x[0-9a-f]+)/i)?.[1];
+    return featureId ? `ftid:${featureId.toLowerCase()}` : null;
+  } catch {
+    return null;
+  }
+}
+
+// Domain first; leads with neither a usable domain nor a Maps place id get no company.
+export function companyIdentity(cleaned: Pick<CleanLead, "company" | "website" | "maps_url">): CompanyIdentity | null {
+  const domain = domainKey(cleaned.website);
+  const placeId = mapsPlaceId(cleaned.maps_url);
+  if (!domain && !placeId) {
+    return null;
+  }
+  return {
+    key: domain ? `domain:${domain}` : `place:${placeId}`,
+    name: cleaned.company,
+    domain,
+    placeId
+  };
+}
+
+// Returns a company id per identity (null where there was none), creating companies as
+// needed and stamping last_scored_at on every company touched.
+export async function resolveCompanyIds(
+  client: SupabaseClient,
+  userId: string,
+  identities: Array<CompanyIdentity | null>
+): Promise<Array<string | null>> {
+  const domains = Array.from(new Set(identities.flatMap((identity) => (identity?.domain ? [identity.domain] : []))));
+  const placeIds = Array.from(new Set(identities.flatMap((identity) => (identity?.placeId ? [identity.placeId] : []))));
+  if (domains.length === 0 && placeIds.length === 0) {
+    return identities.map(() => null);
+  }
+
+  const byDomain = new Map<string, string>();
+  const byPlace = new Map<string, string>();
+  const remember = (row: Pick<CompanyRow, "id" | "domain" | "maps_place_id">) => {
+    if (row.domain && !byDomain.has(row.domain)) {
+      byDomain.set(row.domain, row.id);
+    }
+    if (row.maps_place_id && !byPlace.has(row.maps_place_id)) {
+      byPlace.set(row.maps_place_id, row.id);
+    }
+  };
+
+  const lookups: Array<["domain" | "maps_place_id", string[]]> = [
+    ["domain", domains],
+    ["maps_place_id", placeIds]
+  ];
+  for (const [column, values] of lookups) {
+    for (let offset = 0; offset < values.length; offset += COMPANY_KEY_CHUNK) {
+      const { data, error } = await client
+        .from("companies")
+        .select("id, domain, maps_place_id")
+        .eq("user_id", userId)
+        .in(column, values.slice(offset, offset + COMPANY_KEY_CHUNK))
+        .order("created_at", { ascending: true })
+        .returns<CompanyRow[]>();
+      if (error) {
+        console.error("Failed to look up companies", { userId }, error);
+        throw new Error(error.message ?? "Failed to look up companies");
+      }
+      (data ?? []).forEach(remember);
+    }
+  }
+
+  const match = (identity: CompanyIdentity) =>
+    (identity.domain ? byDomain.get(identity.domain) : undefined) ??
+    (identity.placeId ? byPlace.get(identity.placeId) : undefined);
+
+  const missing = new Map<string, CompanyIdentity>();
+  for (const identity of identities) {
+    if (identity && !match(identity) && !missing.has(identity.key)) {
+      missing.set(identity.key, identity);
+    }
+  }
+
+  const now = new Date().toISOString();
+  if (missing.size > 0) {
+    const { data, error } = await client
+      .from("companies")
+      .upsert(
+        Array.from(missing.values()).map((identity) => ({
+          user_id: userId,
+          identity_key: identity.key,
+          name: identity.name,
+          domain: identity.domain,
+          maps_place_id: identity.placeId,
+          last_scored_at: now
+        })),
+        { onConflict: "user_id,identity_key" }
+      )
+      .select("id, domain, maps_place_id")
+      .returns<CompanyRow[]>();
+    if (error) {
+      console.error("Failed to create companies", { userId }, error);
+      throw new Error(error.message ?? "Failed to create companies");
+    }
+    (data ?? []).forEach(remember);
+  }
+
+  const ids = identities.map((identity) => (identity ? match(identity) ?? null : null));
+  const touched = Array.from(new Set(ids.filter((id): id is string => id !== null)));
+  for (let offset = 0; offset < touched.length; offset += COMPANY_KEY_CHUNK) {
+    const { error } = await client
+      .from("companies")
+      .update({ last_scored_at: now })
+      .in("id", touched.slice(offset, offset + COMPANY_KEY_CHUNK));
+    if (error) {
+      console.error("Failed to update company last_scored_at", { userId }, error);
+    }
+  }
+
+  return ids;
+}
+
+function delta(current: number | null, previous: number | null): number | null {
+  return current === null || previous === null ? null : Number((current - previous).toFixed(2));
+}
+
+function toRunPoint(row: CompanyRunRow): CompanyRunPoint {
+  const { override } = row;
+  return {
+    id: row.id,
+    leadId: row.lead_id,
+    createdAt: new Date(row.created_at).getTime(),
+    finalScore: Number(override?.final_score ?? row.final_score),
+    interpretation: override?.interpretation ?? row.interpretation,
+    band: override ? override.band : row.band,
+    scoringMode: row.scoring_mode,
+    scores: { ...normalizeFactorScores(row.scores), ...(override?.scores ?? {}) },
+    weights: row.weights ?? {},
+    reviewRating: row.enriched?.reviews?.averageRating ?? null,
+    reviewCount: row.enriched?.reviews?.reviewCount ?? null,
+    websiteScore: row.enriched?.website?.finalScore ?? null,
+    overridden: override !== null,
+    modelFinalScore: Number(row.final_score)
+  };
+}
+
+export function diffRuns(previous: CompanyRunPoint, current: CompanyRunPoint): CompanyRunChange {
+  const factorIds = new Set([...Object.keys(previous.scores), ...Object.keys(current.scores)]);
+  const factorDeltas: Record<string, number | null> = {};
+  for (const id of factorIds) {
+    factorDeltas[id] = delta(current.scores[id] ?? null, previous.scores[id] ?? null);
+  }
+  const fromBand = previous.band?.label ?? previous.interpretation;
+  const toBand = current.band?.label ?? current.interpretation;
+
+  return {
+    fromRunId: previous.id,
+    toRunId: current.id,
+    finalScoreDelta: Number((current.finalScore - previous.finalScore).toFixed(2)),
+    bandChange: fromBand === toBand ? null : { from: fromBand, to: toBand },
+    factorDeltas,
+    reviewRatingDelta: delta(current.reviewRating, previous.reviewRating),
+    reviewCountDelta: delta(current.reviewCount, previous.reviewCount),
+    websiteScoreDelta: delta(current.websiteScore, previous.websiteScore)
+  };
+}
+
+// Runs oldest first, each compared with the one before it. Capped at the latest MAX_HISTORY_RUNS.
+export async function getCompanyHistory(
+  client: SupabaseClient,
+  companyId: string,
+  userId: string
+): Promise<CompanyHistory | null> {
+  const { data: company, error: companyError } = await client
+    .from("companies")
+    .select("*")
+    .eq("id", companyId)
+    .eq("user_id", userId)
+    .maybeSingle<CompanyRow>();
+
+  if (companyError) {
+    console.error("Failed to load company", { companyId }, companyError);
+    throw new Error(companyError.message ?? "Failed to load company");
+  }
+  if (!company) {
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("lead_runs")
+    .select("id, lead_id, company, industry, final_score, interpretation, band, scoring_mode, scores, weights, enriched, override, created_at")
+    .eq("company_id", companyId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_HISTORY_RUNS)
+    .returns<CompanyRunRow[]>();
+
+  if (error) {
+    console.error("Failed to load company runs", { companyId }, error);
+    throw new Error(error.message ?? "Failed to load company runs");
+  }
+
+  const runs = (data ?? []).reverse().map(toRunPoint);
+  const changes = runs.slice(1).map((run, index) => diffRuns(runs[index], run));
+
+  return { company: toCompany(company), runs, changes };
+}
@@ -0,0 +1,6 @@
+export function escapeCsv(value: string): string {
+  if (value.includes(",") || value.includes("\n") || value.includes("\"")) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
@@ -0,0 +1,388 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { CleanLead } from "@/lib/ai/clean";
+import type {
+  DedupeMatchKind,
+  DedupePolicy,
+  LeadScoreApiResponse,
+  LeadScoreResponse
+} from "@/lib/types";
+
+const DEDUPE_POLICIES: ReadonlyArray<DedupePolicy> = ["off", "report", "skip", "merge"];
+
+// Bigram similarity at or above this counts as the same company name.
+const COMPANY_SIMILARITY_THRESHOLD = 0.85;
+// Pairwise comparison is skipped for larger blocks; those rely on exact keys only.
+const MAX_FUZZY_BLOCK = 200;
+const EXISTING_RUN_KEY_CHUNK = 200;
+// PostgREST caps a response at 1000 rows by default.
+const EXISTING_RUN_PAGE_SIZE = 1000;
+
+// Addresses on these hosts say nothing about which business a lead is.
+const FREE_EMAIL_HOSTS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "hotmail.com",
+  "outlook.com",
+  "live.com",
+  "msn.com",
+  "aol.com",
+  "icloud.com",
+  "me.com",
+  "protonmail.com",
+  "proton.me",
+  "gmx.com",
+  "mail.com"
+]);
+
+// Many businesses share these hosts, so the path is part of the key.
+const SHARED_HOSTS = new Set([
+  "facebook.com",
+  "instagram.com",
+  "linkedin.com",
+  "twitter.com",
+  "x.com",
+  "yelp.com",
+  "linktr.ee",
+  "sites.google.com",
+  "business.site"
+]);
+
+const LEGAL_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "llc",
+  "ltd",
+  "limited",
+  "co",
+  "corp",
+  "corporation",
+  "company",
+  "gmbh",
+  "plc",
+  "pllc",
+  "lp",
+  "llp",
+  "the"
+]);
+
+export function parseDedupePolicy(value: unknown): DedupePolicy | undefined {
+  return DEDUPE_POLICIES.includes(value as DedupePolicy) ? (value as DedupePolicy) : undefined;
+}
+
+export const DEFAULT_DEDUPE_POLICY: DedupePolicy =
+  parseDedupePolicy(process.env.DEDUPE_POLICY) ?? "merge";
+
+export const normalizeUrlKey = (value?: string | null) => {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    const url = new URL(trimmed);
+    url.hash = "";
+    const paramsToStrip = ["authuser", "hl", "entry", "sa", "ved", "ei", "source"];
+    for (const param of paramsToStrip) {
+      url.searchParams.delete(param);
+    }
+    url.searchParams.sort();
+    return url.toString();
+  } catch {
+    return trimmed;
+  }
+};
+
+export function domainKey(website?: string): string | null {
+  if (!website) {
+    return null;
+  }
+  try {
+    const url = new URL(website);
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    if (!host || FREE_EMAIL_HOSTS.has(host)) {
+      return null;
+    }
+    if (SHARED_HOSTS.has(host)) {
+      const path = url.pathname.toLowerCase().replace(/\/+$/, "");
+      return path ? `${host}${path}` : null;
+    }
+    return host;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeCompanyName(value?: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const tokens = value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !LEGAL_SUFFIXES.has(token));
+  const name = tokens.join(" ");
+  return name === "" || name === "unknown" ? null : name;
+}
+
+// Digits only, without an extension, an international "00" prefix or the North American
+// "1", so the cleaner's free-form rewrites of one number share a key.
+function phoneKey(value?: string | null): string | null {
+  let digits = value?.replace(/\s*(?:ext\.?|x|#).*$/i, "").replace(/\D/g, "") ?? "";
+  if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  }
+  if (digits.length === 11 && digits.startsWith("1")) {
+    digits = digits.slice(1);
+  }
+  return digits.length >= 7 ? digits : null;
+}
+
+// First location part (usually the city).
+function locationKey(value?: string | null): string | null {
+  const first = value?.split(",")[0]?.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  return first ? first : null;
+}
+
+export type DedupeKey = { kind: DedupeMatchKind; value: string };
+
+export function dedupeKeys(cleaned: Pick<CleanLead, "website" | "phone" | "maps_url" | "company" | "location">): DedupeKey[] {
+  const keys: DedupeKey[] = [];
+  const domain = domainKey(cleaned.website);
+  if (domain) {
+    keys.push({ kind: "domain", value: domain });
+  }
+  const phone = phoneKey(cleaned.phone);
+  if (phone) {
+    keys.push({ kind: "phone", value: phone });
+  }
+  const maps = normalizeUrlKey(cleaned.maps_url);
+  if (maps) {
+    keys.push({ kind: "maps_url", value: maps });
+  }
+  const company = normalizeCompanyName(cleaned.company);
+  const location = locationKey(cleaned.location);
+  if (company && location) {
+    keys.push({ kind: "company_location", value: `${company}|${location}` });
+  }
+  return keys;
+}
+
+// Stored on lead_runs.dedupe_keys so later uploads can be matched against saved runs.
+export const serializeDedupeKeys = (keys: DedupeKey[]) => keys.map((key) => `${key.kind}:${key.value}`);
+
+function bigrams(value: string): Map<string, number> {
+  const compact = value.replace(/\s+/g, "");
+  const grams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i += 1) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+// Sørensen–Dice coefficient over character bigrams.
+function nameSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of left) {
+    overlap += Math.min(count, right.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of right.values()) {
+    total += count;
+  }
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+export type DuplicateCluster = {
+  // Indexes into the input, in input order; the first is the primary.
+  members: number[];
+  matchedOn: DedupeMatchKind[];
+};
+
+// Groups leads that share a domain, phone or Maps URL, or whose company names are near-identical
+// in the same city. Matches are transitive.
+export function findDuplicateClusters(leads: CleanLead[]): DuplicateCluster[] {
+  const parent = leads.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const matchKinds = new Map<number, Set<DedupeMatchKind>>();
+  const union = (a: number, b: number, kind: DedupeMatchKind) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const root = Math.min(rootA, rootB);
+    const kinds = new Set([...(matchKinds.get(rootA) ?? []), ...(matchKinds.get(rootB) ?? []), kind]);
+    parent[rootA] = root;
+    parent[rootB] = root;
+    matchKinds.set(root, kinds);
+  };
+
+  const firstByKey = new Map<string, number>();
+  const fuzzyBlocks = new Map<string, Array<{ index: number; name: string }>>();
+
+  leads.forEach((lead, index) => {
+    for (const key of dedupeKeys(lead)) {
+      const serialized = `${key.kind}:${key.value}`;
+      const first = firstByKey.get(serialized);
+      if (first === undefined) {
+        firstByKey.set(serialized, index);
+      } else {
+        union(first, index, key.kind);
+      }
+    }
+
+    const name = normalizeCompanyName(lead.company);
+    const location = locationKey(lead.location);
+    if (name && location) {
+      const block = `${location}|${name.slice(0, 2)}`;
+      const entries = fuzzyBlocks.get(block) ?? [];
+      entries.push({ index, name });
+      fuzzyBlocks.set(block, entries);
+    }
+  });
+
+  for (const entries of fuzzyBlocks.values()) {
+    if (entries.length < 2 || entries.length > MAX_FUZZY_BLOCK) {
+      continue;
+    }
+    for (let i = 0; i < entries.length; i += 1) {
+      for (let j = i + 1; j < entries.length; j += 1) {
+        if (
+          find(entries[i].index) !== find(entries[j].index) &&
+          nameSimilarity(entries[i].name, entries[j].name) >= COMPANY_SIMILARITY_THRESHOLD
+        ) {
+          union(entries[i].index, entries[j].index, "company_location");
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  leads.forEach((_, index) => {
+    const root = find(index);
+    const members = clusters.get(root) ?? [];
+    members.push(index);
+    clusters.set(root, members);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ members, matchedOn: Array.from(matchKinds.get(root) ?? []) }));
+}
+
+// Fills the primary's missing fields from its duplicates, in order.
+export function mergeCleanLeads(primary: CleanLead, duplicates: CleanLead[]): CleanLead {
+  const merged: CleanLead = { ...primary, provenance: { ...primary.provenance } };
+  const fields = ["industry", "website", "location", "email", "phone", "maps_url", "notes"] as const;
+
+  for (const duplicate of duplicates) {
+    for (const field of fields) {
+      if (!merged[field] && duplicate[field]) {
+        merged[field] = duplicate[field];
+        merged.provenance[field] = `merged:${duplicate.lead_id}`;
+      }
+    }
+    if ((merged.years_in_business ?? null) === null && (duplicate.years_in_business ?? null) !== null) {
+      merged.years_in_business = duplicate.years_in_business;
+      merged.provenance.years_in_business = `merged:${duplicate.lead_id}`;
+    }
+  }
+  return merged;
+}
+
+export type StoredLeadRun = {
+  id: string;
+  lead_id: string;
+  industry: string | null;
+  final_score: number;
+  interpretation: string;
+  band: LeadScoreResponse["band"] | null;
+  scoring_mode: LeadScoreResponse["scoring_mode"] | null;
+  disagreement: LeadScoreResponse["disagreement"] | null;
+  needs_review: boolean | null;
+  weights: Record<string, number>;
+  weight_profile: LeadScoreResponse["weight_profile"] | null;
+  scores: LeadScoreResponse["scores"];
+  factors: LeadScoreResponse["factors"] | null;
+  prompt_versions: LeadScoreResponse["prompt_versions"] | null;
+  reasoning: string;
+  enriched: LeadScoreApiResponse["leads"][number]["enriched"] | null;
+  dedupe_keys: string[] | null;
+  input_hash: string | null;
+  created_at: string;
+};
+
+// Only what a dedupe report needs from a matching run; the full row (with `enriched`) is large.
+export type ExistingRunMatch = Pick<StoredLeadRun, "id" | "lead_id" | "dedupe_keys" | "created_at">;
+
+// Most recent saved run per input index that shares any dedupe key with it.
+export async function findExistingRuns(
+  client: SupabaseClient,
+  userId: string,
+  keysByIndex: string[][]
+): Promise<Map<number, ExistingRunMatch>> {
+  const indexesByKey = new Map<string, number[]>();
+  keysByIndex.forEach((keys, index) => {
+    for (const key of keys) {
+      const indexes = indexesByKey.get(key) ?? [];
+      indexes.push(index);
+      indexesByKey.set(key, indexes);
+    }
+  });
+
+  const allKeys = Array.from(indexesByKey.keys());
+  const matches = new Map<number, ExistingRunMatch>();
+
+  for (let offset = 0; offset < allKeys.length; offset += EXISTING_RUN_KEY_CHUNK) {
+    const keys = allKeys.slice(offset, offset + EXISTING_RUN_KEY_CHUNK);
+    for (let from = 0; ; from += EXISTING_RUN_PAGE_SIZE) {
+      const { data, error } = await client
+        .from("lead_runs")
+        .select("id, lead_id, dedupe_keys, created_at")
+        .eq("user_id", userId)
+        .overlaps("dedupe_keys", keys)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: true })
+        .range(from, from + EXISTING_RUN_PAGE_SIZE - 1)
+        .returns<ExistingRunMatch[]>();
+
+      if (error) {
+        console.error("Failed to match leads against saved runs", { userId }, error);
+        throw new Error(error.message ?? "Failed to match leads against saved runs");
+      }
+
+      for (const run of data ?? []) {
+        for (const key of run.dedupe_keys ?? []) {
+          for (const index of indexesByKey.get(key) ?? []) {
+            const current = matches.get(index);
+            if (!current || current.created_at < run.created_at) {
+              matches.set(index, run);
+            }
+          }
+        }
+      }
+
+      if (!data || data.length < EXISTING_RUN_PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
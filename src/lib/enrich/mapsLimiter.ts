@@ -84,6 +84,10 @@ class MapsLookupLimiter {
     this.scheduleTimer(this.throttleUntil - now);
   }
 
+  throttledSince(time: number): boolean {
+    return this.lastThrottleAt >= time;
+  }
+
   registerSuccess(): void {
     if (this.throttleLevel > 0) {
       this.throttleLevel = Math.max(this.throttleLevel - 1, 0);
@@ -190,3 +194,8 @@ export function registerThrottleSignal(signal: ThrottleSignal): void {
 export function registerLookupSuccess(): void {
   limiter.registerSuccess();
 }
+
+// True if any Maps request was throttled (429/403/5xx, timeout) at or after `time`.
+export function mapsThrottledSince(time: number): boolean {
+  return limiter.throttledSince(time);
+}
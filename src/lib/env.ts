@@ -5,10 +5,28 @@ const boolean = (value: string | undefined, fallback = false) => {
   return value === "true" || value === "1";
 };
 
+const modelList = (value: string | undefined, primary?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter((model) => model !== "" && model !== primary);
+
 export type EnvConfig = {
-  OPENROUTER_API_KEY: string;
+  OPENROUTER_API_KEY?: string;
   OPENROUTER_BASE_URL: string;
   OPENROUTER_MODEL: string;
+  OPENROUTER_FALLBACK_MODELS: string[];
+  OPENROUTER_TIMEOUT_MS: number;
+  OPENROUTER_MAX_RETRIES: number;
+  OPENROUTER_RETRY_BASE_MS: number;
+  OPENROUTER_RETRY_MAX_MS: number;
+  LLM_PROVIDER: "openrouter" | "openai-compatible" | "scripted";
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+  LLM_MODEL?: string;
+  LLM_FALLBACK_MODELS: string[];
+  LLM_JSON_MODE: boolean;
+  LLM_TIMEOUT_MS: number;
   NEXT_PUBLIC_SUPABASE_URL?: string;
   NEXT_PUBLIC_SUPABASE_ANON_KEY?: string;
   SUPABASE_SERVICE_ROLE_KEY?: string;
@@ -29,13 +47,27 @@ export function getEnv(): EnvConfig {
     return cachedEnv;
   }
 
-  const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-  if (!OPENROUTER_API_KEY) {
-    throw new Error("OPENROUTER_API_KEY is not set. Add it to .env.local before scoring leads.");
-  }
+  // Optional so rules-only scoring can run without a key; the OpenRouter provider enforces it.
+  const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || undefined;
 
   const OPENROUTER_BASE_URL = process.env.OPENROUTER_BASE_URL ?? "https://openrouter.ai/api/v1";
   const OPENROUTER_MODEL = process.env.OPENROUTER_MODEL ?? "openai/gpt-5";
+  // Comma-separated, tried in order once the primary model exhausts its retries.
+  const OPENROUTER_FALLBACK_MODELS = modelList(process.env.OPENROUTER_FALLBACK_MODELS, OPENROUTER_MODEL);
+  const OPENROUTER_TIMEOUT_MS = Number(process.env.OPENROUTER_TIMEOUT_MS ?? "60000");
+  const OPENROUTER_MAX_RETRIES = Number(process.env.OPENROUTER_MAX_RETRIES ?? "2");
+  const OPENROUTER_RETRY_BASE_MS = Number(process.env.OPENROUTER_RETRY_BASE_MS ?? "1000");
+  const OPENROUTER_RETRY_MAX_MS = Number(process.env.OPENROUTER_RETRY_MAX_MS ?? "20000");
+
+  // "openai-compatible" targets self-hosted servers (vLLM, llama.cpp) so lead data stays on-prem.
+  const LLM_PROVIDER =
+    process.env.LLM_PROVIDER === "openai-compatible" || process.env.LLM_PROVIDER === "scripted"
+      ? process.env.LLM_PROVIDER
+      : "openrouter";
+  const LLM_MODEL = process.env.LLM_MODEL || undefined;
+  const LLM_FALLBACK_MODELS = modelList(process.env.LLM_FALLBACK_MODELS, LLM_MODEL);
+  // Local models are slower than hosted ones.
+  const LLM_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS ?? "120000");
 
   const MAPS_TIMEOUT_MS = Number(process.env.MAPS_TIMEOUT_MS ?? "15000");
   const MAPS_CACHE_TTL_MS = Number(process.env.MAPS_CACHE_TTL_MS ?? "900000"); // 15 minutes
@@ -49,6 +81,18 @@ export function getEnv(): EnvConfig {
     OPENROUTER_API_KEY,
     OPENROUTER_BASE_URL,
     OPENROUTER_MODEL,
+    OPENROUTER_FALLBACK_MODELS,
+    OPENROUTER_TIMEOUT_MS,
+    OPENROUTER_MAX_RETRIES,
+    OPENROUTER_RETRY_BASE_MS,
+    OPENROUTER_RETRY_MAX_MS,
+    LLM_PROVIDER,
+    LLM_BASE_URL: process.env.LLM_BASE_URL || undefined,
+    LLM_API_KEY: process.env.LLM_API_KEY || undefined,
+    LLM_MODEL,
+    LLM_FALLBACK_MODELS,
+    LLM_JSON_MODE: boolean(process.env.LLM_JSON_MODE, true),
+    LLM_TIMEOUT_MS,
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
@@ -0,0 +1,311 @@
+import type { CleanLead } from "./ai/clean";
+import type { WebsiteSignals } from "./enrich/website";
+import type { FactorMeta, FactorScores, ReviewSnapshot } from "./types";
+
+export type FactorInput = {
+  lead: CleanLead;
+  reviews: ReviewSnapshot;
+  website: WebsiteSignals | null;
+  // Name of the weight profile whose match rules fit the lead's industry, if any.
+  matchedProfile: string | null;
+};
+
+export type FactorEstimate = {
+  score: number;
+  note: string;
+};
+
+// Deterministic factors are always scored locally. Model factors are scored by the
+// model in model/hybrid mode; their `score` function is the rules-mode estimate.
+export type ScoringFactor<TSignal = unknown> = {
+  id: string;
+  label: string;
+  scorer: FactorMeta["scorer"];
+  // Weight in the built-in default profile. Zero means opt-in via a weight profile.
+  weight: number;
+  extract: (input: FactorInput) => TSignal;
+  score: (signal: TSignal, input: FactorInput) => FactorEstimate;
+  guidance?: string;
+};
+
+const registry = new Map<string, ScoringFactor>();
+
+export function registerFactor<TSignal>(factor: ScoringFactor<TSignal>): void {
+  if (!/^[a-z][a-z0-9_]*$/.test(factor.id)) {
+    throw new Error(`Factor id "${factor.id}" must be snake_case`);
+  }
+  registry.set(factor.id, factor as ScoringFactor);
+}
+
+export function listFactors(): ScoringFactor[] {
+  return Array.from(registry.values());
+}
+
+export function getFactor(id: string): ScoringFactor | null {
+  return registry.get(id) ?? null;
+}
+
+export function toFactorMeta(factor: ScoringFactor): FactorMeta {
+  return { id: factor.id, label: factor.label, scorer: factor.scorer };
+}
+
+export function clampFactorScore(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.min(Math.max(Math.round(value), 0), 10);
+}
+
+// Labels for ids from older runs or factors removed from the registry.
+export function factorLabel(id: string, factors: FactorMeta[] = []): string {
+  const known = factors.find((factor) => factor.id === id) ?? getFactor(id);
+  if (known) {
+    return known.label;
+  }
+  const spaced = id.replace(/_/g, " ");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+// Runs saved before the registry stored reviews as { score, average_rating, review_count }.
+export function normalizeFactorScores(raw: unknown): FactorScores {
+  if (!raw || typeof raw !== "object") {
+    return {};
+  }
+
+  const scores: FactorScores = {};
+  for (const [id, value] of Object.entries(raw as Record<string, unknown>)) {
+    const candidate =
+      value && typeof value === "object" ? (value as { score?: unknown }).score : value;
+    const numeric = typeof candidate === "string" ? Number(candidate) : candidate;
+    if (typeof numeric === "number" && Number.isFinite(numeric)) {
+      scores[id] = numeric;
+    }
+  }
+  return scores;
+}
+
+// Union of the factors used across results, in first-seen order, for table columns and exports.
+export function collectFactors(
+  results: Array<{ scores: unknown; factors?: FactorMeta[] }>
+): FactorMeta[] {
+  const seen = new Map<string, FactorMeta>();
+  for (const result of results) {
+    for (const factor of result.factors ?? []) {
+      if (!seen.has(factor.id)) {
+        seen.set(factor.id, factor);
+      }
+    }
+    for (const id of Object.keys(normalizeFactorScores(result.scores))) {
+      if (!seen.has(id)) {
+        const registered = getFactor(id);
+        seen.set(id, registered ? toFactorMeta(registered) : { id, label: factorLabel(id), scorer: "model" });
+      }
+    }
+  }
+  return Array.from(seen.values());
+}
+
+const firstNumber = (record: Record<string, string>, keys: string[]): number | null => {
+  for (const key of keys) {
+    const value = record[key];
+    if (value) {
+      const match = value.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+      if (match) {
+        return Number(match[0]);
+      }
+    }
+  }
+  return null;
+};
+
+registerFactor({
+  id: "website_activity",
+  label: "Website activity",
+  scorer: "model",
+  weight: 0.25,
+  guidance: "Use website.finalScore when provided. Mention method and bonuses in reasoning.",
+  extract: ({ website }) => website,
+  score: (website) => {
+    if (!website) {
+      return { score: 0, note: "no website to analyze" };
+    }
+    const bonuses = Object.entries(website.bonuses)
+      .filter(([, present]) => present)
+      .map(([name]) => name);
+    const bonusNote = bonuses.length > 0 ? `bonuses: ${bonuses.join(", ")}` : "no bonuses";
+    return {
+      score: clampFactorScore(website.finalScore),
+      note: `site score ${website.finalScore} via ${website.method} (${bonusNote})`
+    };
+  }
+});
+
+registerFactor({
+  id: "reviews",
+  label: "Reviews",
+  scorer: "deterministic",
+  weight: 0.25,
+  extract: ({ reviews }) => reviews,
+  score: (reviews) => {
+    const rating = reviews.averageRating ?? 0;
+    const count = reviews.reviewCount ?? 0;
+
+    const ratingScore = rating >= 4 ? 10 : rating >= 3 ? 5 : 0;
+    const countScore = count >= 50 ? 10 : count >= 10 ? 5 : count > 0 ? 2 : 0;
+
+    const note =
+      reviews.averageRating === null && reviews.reviewCount === null
+        ? `no reviews found (${reviews.method ?? "unknown"})`
+        : `${reviews.averageRating ?? "?"}★ from ${reviews.reviewCount ?? "?"} reviews`;
+    return { score: clampFactorScore((ratingScore + countScore) / 2), note };
+  }
+});
+
+registerFactor({
+  id: "years_in_business",
+  label: "Years in business",
+  scorer: "model",
+  weight: 0.2,
+  guidance: "Map years_in_business to 10/>5, 5/2-4, 2/<1",
+  extract: ({ lead }) => lead.years_in_business ?? null,
+  score: (years) => {
+    if (years === null) {
+      return { score: 0, note: "founding year unknown" };
+    }
+    if (years >= 5) {
+      return { score: 10, note: `${years} years (5+)` };
+    }
+    if (years >= 2) {
+      return { score: 5, note: `${years} years (2-4)` };
+    }
+    return { score: 2, note: `${years} years (under 2)` };
+  }
+});
+
+registerFactor({
+  id: "revenue_proxies",
+  label: "Revenue proxies",
+  scorer: "model",
+  weight: 0.2,
+  guidance: "Estimate from pricing signals, review volume, industry context.",
+  extract: ({ website, reviews }) => ({
+    pricing: website?.bonuses.pricing ?? false,
+    booking: website?.bonuses.booking ?? false,
+    siteReachable: website?.ok ?? false,
+    reviewCount: reviews.reviewCount ?? 0
+  }),
+  score: (signal) => {
+    const signals: string[] = [];
+    let score = 0;
+
+    if (signal.pricing) {
+      score += 3;
+      signals.push("published pricing");
+    }
+    if (signal.booking) {
+      score += 2;
+      signals.push("online booking");
+    }
+    if (signal.siteReachable) {
+      score += 1;
+      signals.push("reachable site");
+    }
+
+    const count = signal.reviewCount;
+    if (count >= 100) {
+      score += 4;
+    } else if (count >= 25) {
+      score += 3;
+    } else if (count >= 5) {
+      score += 1;
+    }
+    if (count >= 5) {
+      signals.push(`${count} reviews`);
+    }
+
+    return {
+      score: clampFactorScore(score),
+      note: signals.length > 0 ? signals.join(", ") : "no pricing or volume signals"
+    };
+  }
+});
+
+const AFFINITY_CUES = /\b(veteran|patriot|american[- ]made|made in (?:the )?usa|outdoor|hunting|fishing|camping)\b/i;
+
+registerFactor({
+  id: "industry_fit",
+  label: "Industry fit",
+  scorer: "model",
+  weight: 0.1,
+  guidance: "Apply core alignment and bonus rules; note any patriotic/outdoor cues if present.",
+  extract: ({ lead, matchedProfile }) => ({
+    industry: lead.industry ?? null,
+    matchedProfile,
+    affinityCue: AFFINITY_CUES.test([lead.company, lead.notes].filter(Boolean).join(" "))
+  }),
+  score: (signal) => {
+    if (!signal.industry || signal.industry.trim().toLowerCase() === "default") {
+      return { score: 0, note: "industry missing" };
+    }
+
+    let score = signal.matchedProfile ? 7 : 4;
+    const notes = [
+      signal.matchedProfile ? `matches profile ${signal.matchedProfile}` : "no profile matches this industry"
+    ];
+    if (signal.affinityCue) {
+      score += 2;
+      notes.push("patriotic/outdoor cue");
+    }
+
+    return { score: clampFactorScore(score), note: notes.join(", ") };
+  }
+});
+
+registerFactor({
+  id: "online_booking",
+  label: "Online booking",
+  scorer: "deterministic",
+  weight: 0,
+  extract: ({ website }) => website?.bonuses.booking ?? null,
+  score: (booking) =>
+    booking === null
+      ? { score: 0, note: "no website to check" }
+      : booking
+        ? { score: 10, note: "booking or scheduling found on site" }
+        : { score: 0, note: "no booking flow detected" }
+});
+
+const SOCIAL_KEYS = ["facebook", "instagram", "linkedin", "twitter", "tiktok", "youtube"];
+
+registerFactor({
+  id: "social_presence",
+  label: "Social presence",
+  scorer: "deterministic",
+  weight: 0,
+  extract: ({ lead }) =>
+    SOCIAL_KEYS.filter((network) =>
+      Object.entries(lead.normalized).some(
+        ([key, value]) => key.includes(network) && typeof value === "string" && value.trim() !== ""
+      )
+    ),
+  score: (networks) => ({
+    score: clampFactorScore(networks.length * 3),
+    note: networks.length > 0 ? `profiles on ${networks.join(", ")}` : "no social profiles in the record"
+  })
+});
+
+registerFactor({
+  id: "employee_count",
+  label: "Employee count",
+  scorer: "deterministic",
+  weight: 0,
+  extract: ({ lead }) =>
+    firstNumber(lead.normalized, ["employee_count", "employees", "num_employees", "headcount", "company_size", "staff"]),
+  score: (employees) => {
+    if (employees === null) {
+      return { score: 0, note: "employee count unknown" };
+    }
+    const score = employees >= 50 ? 10 : employees >= 10 ? 7 : employees >= 3 ? 4 : 2;
+    return { score, note: `${employees} employees` };
+  }
+});
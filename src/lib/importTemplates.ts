@@ -0,0 +1,199 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { LEAD_FIELDS, headerSignature, normalizeHeader } from "@/lib/leadFields";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+import type { ColumnMapping, LeadField } from "@/lib/types";
+
+export class ImportTemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportTemplateValidationError";
+  }
+}
+
+type ImportTemplateRow = {
+  id: string;
+  user_id: string | null;
+  name: string;
+  header_signature: string;
+  headers: string[] | null;
+  mapping: ColumnMapping;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ImportTemplate = {
+  id: string;
+  name: string;
+  signature: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ImportTemplateInput = {
+  name?: unknown;
+  // Original header names; the signature and allowed mapping keys are derived from them.
+  headers?: unknown;
+  mapping?: unknown;
+};
+
+function requireClient(): SupabaseClient {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error("Supabase client not configured");
+  }
+  return client;
+}
+
+function toTemplate(row: ImportTemplateRow): ImportTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    signature: row.header_signature,
+    headers: row.headers ?? [],
+    mapping: row.mapping ?? {},
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime()
+  };
+}
+
+function validateName(raw: unknown): string {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    throw new ImportTemplateValidationError("Template name is required");
+  }
+  return raw.trim();
+}
+
+function validateHeaders(raw: unknown): string[] {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.some((header) => typeof header !== "string")) {
+    throw new ImportTemplateValidationError("Headers must be a non-empty list of column names");
+  }
+  return raw as string[];
+}
+
+// Accepts { field: key | null }. Unknown fields are rejected; when keys are given, every
+// mapped column must be one of them. Fields left out are stored as unmapped.
+export function validateColumnMapping(raw: unknown, keys?: string[]): ColumnMapping {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ImportTemplateValidationError("Column mapping must be an object");
+  }
+
+  const available = keys ? new Set(keys) : null;
+  const mapping: ColumnMapping = {};
+  for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!LEAD_FIELDS.includes(field as LeadField)) {
+      throw new ImportTemplateValidationError(`Unknown lead field "${field}"`);
+    }
+    if (value === null || value === undefined || value === "") {
+      mapping[field as LeadField] = null;
+      continue;
+    }
+    if (typeof value !== "string") {
+      throw new ImportTemplateValidationError(`Column for ${field} must be a string`);
+    }
+    if (available && !available.has(value)) {
+      throw new ImportTemplateValidationError(`Column "${value}" for ${field} is not in the file`);
+    }
+    mapping[field as LeadField] = value;
+  }
+
+  for (const field of LEAD_FIELDS) {
+    mapping[field] ??= null;
+  }
+  return mapping;
+}
+
+export async function listImportTemplates(userId: string): Promise<ImportTemplate[]> {
+  if (!userId) {
+    return [];
+  }
+
+  const client = requireClient();
+  const { data, error } = await client
+    .from("import_templates")
+    .select("*")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false })
+    .returns<ImportTemplateRow[]>();
+
+  if (error) {
+    console.error("Failed to list import templates", { userId }, error);
+    throw new Error(error.message ?? "Failed to list import templates");
+  }
+
+  return (data ?? []).map(toTemplate);
+}
+
+// The most recently saved template for this header layout, if any.
+export async function findImportTemplate(userId: string, signature: string): Promise<ImportTemplate | null> {
+  if (!userId || !signature) {
+    return null;
+  }
+
+  const client = requireClient();
+  const { data, error } = await client
+    .from("import_templates")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("header_signature", signature)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .returns<ImportTemplateRow[]>();
+
+  if (error) {
+    console.error("Failed to look up import template", { userId }, error);
+    throw new Error(error.message ?? "Failed to look up import template");
+  }
+
+  return data?.[0] ? toTemplate(data[0]) : null;
+}
+
+// Saving under an existing name replaces that template's layout and mapping.
+export async function saveImportTemplate(userId: string, input: ImportTemplateInput): Promise<ImportTemplate> {
+  const name = validateName(input.name);
+  const headers = validateHeaders(input.headers);
+  const keys = headers.map((header, index) => normalizeHeader(header, index));
+  const mapping = validateColumnMapping(input.mapping, keys);
+
+  const client = requireClient();
+  const { data, error } = await client
+    .from("import_templates")
+    .upsert(
+      {
+        user_id: userId,
+        name,
+        header_signature: headerSignature(keys),
+        headers,
+        mapping
+      },
+      { onConflict: "user_id,name" }
+    )
+    .select("*")
+    .single<ImportTemplateRow>();
+
+  if (error || !data) {
+    console.error("Failed to save import template", { userId, name }, error);
+    throw new Error(error?.message ?? "Failed to save import template");
+  }
+
+  return toTemplate(data);
+}
+
+export async function deleteImportTemplate(templateId: string, userId: string): Promise<boolean> {
+  const client = requireClient();
+  const { data, error } = await client
+    .from("import_templates")
+    .delete()
+    .eq("id", templateId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    console.error("Failed to delete import template", { templateId }, error);
+    throw new Error(error.message ?? "Failed to delete import template");
+  }
+
+  return (data ?? []).length > 0;
+}
@@ -1,26 +1,80 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 
-import type { LeadInput, LeadScoreApiResponse, TokenUsageSummary } from "@/lib/types";
-import { getSupabaseAdminClient } from "@/lib/supabase";
+import type {
+  ColumnMapping,
+  DedupePolicy,
+  DedupeReport,
+  HybridBlend,
+  LeadInput,
+  LeadScoreApiResponse,
+  PromptKind,
+  ScoringMode,
+  TokenUsageSummary,
+  TokenUsageTotals
+} from "@/lib/types";
+import type { CleanLeadResult } from "@/lib/ai/clean";
+import { findImportTemplate } from "@/lib/importTemplates";
+import { headerSignature, normalizeHeader, toLeadInput } from "@/lib/leadFields";
+import { pinPromptVersions } from "@/lib/promptVersions";
+import { getSupabaseAdminClient, saveLeadRunsToSupabase } from "@/lib/supabase";
 import { LeadScoringAbortError, scoreLeads, type ScoreLeadOptions } from "@/lib/scoreLeads";
+import { readUploadRecords, UploadValidationError, type UploadFormat } from "@/lib/upload/parse";
 
 const STALE_JOB_THRESHOLD_MS = Number(process.env.LEAD_JOB_STALE_MS ?? "60000");
+const UPLOAD_CHUNK_SIZE = Math.max(Number(process.env.UPLOAD_CHUNK_SIZE ?? "500"), 1);
+// PostgREST caps a select at 1000 rows by default.
+const ITEM_PAGE_SIZE = 1000;
+// Leads written to lead_runs per insert when a job saves its results.
+const SAVE_CHUNK = 500;
+// Changed items per progress delta; results are a few KB each.
+const PROGRESS_PAGE_SIZE = 200;
+const DEFAULT_JOB_PAGE_SIZE = 20;
+const MAX_JOB_PAGE_SIZE = 100;
+const DEFAULT_ITEM_PAGE_SIZE = 100;
+const MAX_ITEM_PAGE_SIZE = 500;
+// Scoring attempts per lead before a transient failure makes it dead.
+const MAX_ITEM_ATTEMPTS = Math.max(Number(process.env.LEAD_ITEM_MAX_ATTEMPTS ?? "3"), 1);
+const ITEM_RETRY_BASE_MS = Math.max(Number(process.env.LEAD_ITEM_RETRY_BASE_MS ?? "5000"), 0);
+const ITEM_RETRY_MAX_MS = 5 * 60 * 1000;
+// Workers touch their running jobs well inside the stale window so they are never reclaimed.
+export const LEAD_JOB_HEARTBEAT_MS = Math.max(Math.floor(STALE_JOB_THRESHOLD_MS / 3), 1000);
+// Running jobs per user across all workers; the rest of a user's jobs wait their turn.
+const USER_JOB_CONCURRENCY = Math.max(Number(process.env.LEAD_JOB_USER_CONCURRENCY ?? "1"), 1);
+// Queued jobs the scheduler looks at per poll, at most USER_JOB_CONCURRENCY per user.
+const CLAIM_SCAN_LIMIT = 200;
+const MIN_JOB_PRIORITY = -10;
+const MAX_JOB_PRIORITY = 10;
+// Abort reason used when a worker hands its jobs back instead of failing them.
+const JOB_RELEASE_REASON = "released";
 const jobAbortControllers = new Map<string, AbortController>();
 
 type JobStatus = "pending" | "processing" | "completed" | "failed";
 
+export class JobQueueValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobQueueValidationError";
+  }
+}
+
 type JobMetadata = {
   options?: {
     useCleaner: boolean;
     saveToSupabase: boolean;
+    scoringMode?: ScoringMode;
+    hybrid?: HybridBlend;
+    promptVersionIds?: Record<PromptKind, string>;
     maxConcurrency?: number;
+    dedupePolicy?: DedupePolicy;
+    reuseMaxAgeDays?: number;
   };
   supabase?: LeadScoreApiResponse["supabase"];
   usage?: TokenUsageSummary | null;
+  dedupe?: DedupeReport | null;
 };
 
-type LeadJobRow = {
+export type LeadJobRow = {
   id: string;
   user_id: string | null;
   status: string;
@@ -28,6 +82,7 @@ type LeadJobRow = {
   processed: number;
   error: string | null;
   metadata: JobMetadata | null;
+  priority: number;
   created_at: string;
   updated_at: string;
 };
@@ -36,98 +91,128 @@ type LeadJobItemRow = {
   job_id: string;
   item_index: number;
   payload: LeadInput;
+  // queued | completed | failed (job failed or cancelled) | dead (gave up on this lead)
   status: string;
   error: string | null;
   result: LeadScoreApiResponse["leads"][number] | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
   processed_at: string | null;
+  // Set once the item's result is in lead_runs.
+  saved_at: string | null;
+  // The lead's cleaned record, kept so a retry or a resumed job doesn't clean it again.
+  cleaned: CleanLeadResult | null;
   created_at: string;
   updated_at: string;
 };
 
+export type ClaimedLeadJob = { job: LeadJobRow; items: LeadJobItemRow[] };
+
 function isJobStale(job: LeadJobRow): boolean {
   const updatedAt = new Date(job.updated_at).getTime();
   return Number.isFinite(updatedAt) && Date.now() - updatedAt > STALE_JOB_THRESHOLD_MS;
 }
 
-async function claimLeadJob(
-  client: SupabaseClient,
-  job: LeadJobRow
-): Promise<{ job: LeadJobRow; items: LeadJobItemRow[] } | null> {
-  if (job.status === "completed" || job.status === "failed") {
+// Moves a queued (or stale processing) job to processing through claim_lead_job, which
+// also holds the user to USER_JOB_CONCURRENCY running jobs. Only one caller wins; everyone
+// else, and any claim that would go over the cap, gets null.
+export async function claimLeadJob(client: SupabaseClient, job: LeadJobRow): Promise<ClaimedLeadJob | null> {
+  if (job.status !== "queued" && !(job.status === "processing" && isJobStale(job))) {
     return null;
   }
 
-  if (job.status === "queued") {
-    const { data: claimed, error: claimError } = await client
-      .from("lead_jobs")
-      .update({ status: "processing" })
-      .eq("id", job.id)
-      .eq("status", "queued")
-      .select("*")
-      .maybeSingle<LeadJobRow>();
-
-    if (claimError) {
-      console.error("Failed to claim queued job", { jobId: job.id }, claimError);
-      return null;
-    }
-
-    if (!claimed) {
-      return null;
-    }
+  const { data: claimed, error: claimError } = await client
+    .rpc("claim_lead_job", {
+      p_job_id: job.id,
+      p_user_cap: USER_JOB_CONCURRENCY,
+      p_stale_before: new Date(Date.now() - STALE_JOB_THRESHOLD_MS).toISOString()
+    });
 
-    const refreshed = await loadJob(client, job.id);
-    return refreshed;
+  if (claimError) {
+    console.error("Failed to claim job", { jobId: job.id }, claimError);
+    return null;
   }
 
-  if (job.status === "processing") {
-    if (!isJobStale(job)) {
-      return null;
-    }
-
-    const staleCutoff = new Date(Date.now() - STALE_JOB_THRESHOLD_MS).toISOString();
-    const { data: reclaimed, error: reclaimError } = await client
-      .from("lead_jobs")
-      .update({ status: "processing", updated_at: new Date().toISOString() })
-      .eq("id", job.id)
-      .eq("status", "processing")
-      .lte("updated_at", staleCutoff)
-      .select("*")
-      .maybeSingle<LeadJobRow>();
-
-    if (reclaimError) {
-      console.error("Failed to reclaim stale job", { jobId: job.id }, reclaimError);
-      return null;
-    }
-
-    if (!reclaimed) {
-      return null;
-    }
-
-    const refreshed = await loadJob(client, job.id);
-    return refreshed;
+  // A set-returning function: one row when the claim won, none otherwise.
+  if (((claimed ?? []) as LeadJobRow[]).length === 0) {
+    return null;
   }
 
-  return null;
+  return loadJob(client, job.id);
 }
 
-export type JobSnapshot = {
+const FAILED_ITEMS_LIMIT = 100;
+
+export type FailedJobItem = {
+  index: number;
+  leadId: string;
+  company: string | null;
+  status: "dead" | "failed";
+  attempts: number;
+  error: string | null;
+};
+
+// Job-level fields, without anything derived from its items.
+export type JobState = {
   id: string;
   status: JobStatus;
   total: number;
   processed: number;
+  priority: number;
   createdAt: number;
   updatedAt: number;
   error?: string;
   supabase: LeadScoreApiResponse["supabase"];
   usage: TokenUsageSummary | null;
-  results: LeadScoreApiResponse["leads"];
+  dedupe: DedupeReport | null;
   options: {
     useCleaner: boolean;
     saveToSupabase: boolean;
+    scoringMode: ScoringMode;
+    hybrid: HybridBlend | null;
+    promptVersionIds: Partial<Record<PromptKind, string>>;
     maxConcurrency?: number | null;
+    dedupePolicy: DedupePolicy | null;
+    reuseMaxAgeDays: number | null;
   };
 };
 
+export type JobSnapshot = JobState & {
+  // Results whose score came from a recent saved run.
+  reused: number;
+  // Items that are dead (gave up) or failed with the job; they have no result.
+  failed: number;
+  // Queued items waiting for another attempt after a transient error.
+  retrying: number;
+  // The first FAILED_ITEMS_LIMIT failed items, by position in the upload.
+  failedItems: FailedJobItem[];
+  results: LeadScoreApiResponse["leads"];
+};
+
+// Item counts by status, as aggregated by the lead_job_summaries view.
+export type JobItemCounts = {
+  queued: number;
+  // Queued items waiting for another attempt; included in queued.
+  retrying: number;
+  completed: number;
+  dead: number;
+  failed: number;
+};
+
+// A job without its items, for lists and status checks.
+export type JobSummary = JobState & {
+  items: JobItemCounts;
+};
+
+type LeadJobSummaryRow = LeadJobRow & {
+  queued_items: number;
+  retrying_items: number;
+  completed_items: number;
+  dead_items: number;
+  failed_items: number;
+};
+
 function mapStatus(status: string): JobStatus {
   switch (status) {
     case "queued":
@@ -143,18 +228,18 @@ function mapStatus(status: string): JobStatus {
   }
 }
 
-function toSnapshot(job: LeadJobRow, items: LeadJobItemRow[]): JobSnapshot {
-  const results = items
-    .filter((item) => item.result)
-    .sort((a, b) => a.item_index - b.item_index)
-    .map((item) => item.result as LeadScoreApiResponse["leads"][number]);
-
+function toJobState(job: LeadJobRow): JobState {
   const supabaseResult = (job.metadata?.supabase ?? null) as JobSnapshot["supabase"];
   const usage = job.metadata?.usage ?? null;
   const options = {
     useCleaner: job.metadata?.options?.useCleaner ?? true,
     saveToSupabase: job.metadata?.options?.saveToSupabase ?? false,
-    maxConcurrency: job.metadata?.options?.maxConcurrency ?? null
+    scoringMode: job.metadata?.options?.scoringMode ?? "model",
+    hybrid: job.metadata?.options?.hybrid ?? null,
+    promptVersionIds: job.metadata?.options?.promptVersionIds ?? {},
+    maxConcurrency: job.metadata?.options?.maxConcurrency ?? null,
+    dedupePolicy: job.metadata?.options?.dedupePolicy ?? null,
+    reuseMaxAgeDays: job.metadata?.options?.reuseMaxAgeDays ?? null
   };
 
   return {
@@ -162,16 +247,44 @@ function toSnapshot(job: LeadJobRow, items: LeadJobItemRow[]): JobSnapshot {
     status: mapStatus(job.status),
     total: job.total,
     processed: job.processed,
+    priority: job.priority ?? 0,
     createdAt: new Date(job.created_at).getTime(),
     updatedAt: new Date(job.updated_at).getTime(),
     error: job.error ?? undefined,
     supabase: supabaseResult,
     usage,
-    results,
+    dedupe: job.metadata?.dedupe ?? null,
     options
   };
 }
 
+function toSnapshot(job: LeadJobRow, items: LeadJobItemRow[]): JobSnapshot {
+  const results = items
+    .filter((item) => item.result)
+    .sort((a, b) => a.item_index - b.item_index)
+    .map((item) => item.result as LeadScoreApiResponse["leads"][number]);
+
+  const failedItems = items
+    .filter((item) => item.status === "dead" || item.status === "failed")
+    .sort((a, b) => a.item_index - b.item_index);
+
+  return {
+    ...toJobState(job),
+    reused: results.filter((result) => result.reused).length,
+    failed: failedItems.length,
+    retrying: items.filter((item) => item.status === "queued" && (item.attempts ?? 0) > 0).length,
+    failedItems: failedItems.slice(0, FAILED_ITEMS_LIMIT).map((item) => ({
+      index: item.item_index,
+      leadId: item.payload.lead_id,
+      company: item.payload.company ?? null,
+      status: item.status as FailedJobItem["status"],
+      attempts: item.attempts ?? 0,
+      error: item.last_error ?? item.error
+    })),
+    results
+  };
+}
+
 async function loadJob(
   client: SupabaseClient,
   jobId: string
@@ -191,172 +304,491 @@ async function loadJob(
     return null;
   }
 
-  const { data: items, error: itemsError } = await client
-    .from("lead_job_items")
-    .select("*")
-    .eq("job_id", jobId)
-    .order("item_index", { ascending: true })
-    .returns<LeadJobItemRow[]>();
+  const items: LeadJobItemRow[] = [];
+  for (let from = 0; ; from += ITEM_PAGE_SIZE) {
+    const { data: page, error: itemsError } = await client
+      .from("lead_job_items")
+      .select("*")
+      .eq("job_id", jobId)
+      .order("item_index", { ascending: true })
+      .range(from, from + ITEM_PAGE_SIZE - 1)
+      .returns<LeadJobItemRow[]>();
 
-  if (itemsError) {
-    console.error("Failed to load job items", { jobId }, itemsError);
-    return null;
+    if (itemsError) {
+      console.error("Failed to load job items", { jobId }, itemsError);
+      return null;
+    }
+
+    items.push(...(page ?? []));
+    if (!page || page.length < ITEM_PAGE_SIZE) {
+      break;
+    }
   }
 
-  return { job, items: items ?? [] };
+  return { job, items };
 }
 
-async function processLeadJob(jobId: string) {
-  const client = getSupabaseAdminClient();
-  if (!client) {
-    console.error("Supabase client not configured; cannot process job", { jobId });
-    return;
+async function insertJobItems(client: SupabaseClient, jobId: string, leads: LeadInput[], startIndex: number) {
+  for (let offset = 0; offset < leads.length; offset += UPLOAD_CHUNK_SIZE) {
+    const items = leads.slice(offset, offset + UPLOAD_CHUNK_SIZE).map((lead, index) => ({
+      job_id: jobId,
+      item_index: startIndex + offset + index,
+      payload: lead,
+      status: "queued"
+    }));
+
+    const { error: itemsError } = await client.from("lead_job_items").insert(items);
+    if (itemsError) {
+      console.error("Failed to insert lead job items", { jobId, offset: startIndex + offset }, itemsError);
+      throw new Error(itemsError.message ?? "Failed to store job items");
+    }
   }
+}
 
-  const payload = await loadJob(client, jobId);
-  if (!payload) {
-    return;
+// Queued jobs, and processing jobs whose worker stopped sending heartbeats, in the order
+// workers should claim them. Only decides the order; claimLeadJob still does the claiming.
+export async function listClaimableLeadJobs(client: SupabaseClient, limit: number): Promise<LeadJobRow[]> {
+  if (limit <= 0) {
+    return [];
   }
 
-  let { job, items } = payload;
+  const staleCutoff = new Date(Date.now() - STALE_JOB_THRESHOLD_MS).toISOString();
 
-  const claimed = await claimLeadJob(client, job);
-  if (!claimed) {
-    return;
+  const { data: running, error: runningError } = await client
+    .from("lead_jobs")
+    .select("user_id")
+    .eq("status", "processing")
+    .gt("updated_at", staleCutoff)
+    .returns<Array<Pick<LeadJobRow, "user_id">>>();
+
+  if (runningError) {
+    console.error("Failed to list running jobs", runningError);
+    throw new Error(runningError.message ?? "Failed to list running jobs");
   }
 
-  ({ job, items } = claimed);
+  // Each user's next few due jobs, so a long backlog from one user can't crowd out the rest.
+  const { data: queued, error: queuedError } = await client.rpc("list_claimable_lead_jobs", {
+    p_per_user: USER_JOB_CONCURRENCY,
+    p_limit: CLAIM_SCAN_LIMIT
+  });
 
-  const pendingItems = items.filter((item) => !item.result);
+  if (queuedError) {
+    console.error("Failed to list queued jobs", queuedError);
+    throw new Error(queuedError.message ?? "Failed to list queued jobs");
+  }
 
-  if (pendingItems.length === 0) {
-    const metadata = { ...(job.metadata ?? {}) } as JobMetadata;
-    const processedComplete = items.length;
-    const { error: completeError } = await client
-      .from("lead_jobs")
-      .update({ status: "completed", processed: processedComplete, metadata })
-      .eq("id", jobId);
+  const { data: stale, error: staleError } = await client
+    .from("lead_jobs")
+    .select("*")
+    .eq("status", "processing")
+    .lte("updated_at", staleCutoff)
+    .order("updated_at", { ascending: true })
+    .limit(CLAIM_SCAN_LIMIT)
+    .returns<LeadJobRow[]>();
+
+  if (staleError) {
+    console.error("Failed to list stale jobs", staleError);
+    throw new Error(staleError.message ?? "Failed to list stale jobs");
+  }
 
-    if (completeError) {
-      console.error("Failed to finalize job", { jobId }, completeError);
-    }
+  return scheduleJobs([...(stale ?? []), ...((queued ?? []) as LeadJobRow[])], running ?? [], limit);
+}
 
-    return;
+// Picks up to `limit` jobs, round-robin across users: the user with the fewest running jobs
+// goes next, whatever their priorities, so no one can starve the others by raising theirs.
+// Priority orders a user's own jobs and breaks ties between users, then the oldest job
+// wins. Users already running USER_JOB_CONCURRENCY jobs are skipped; claim_lead_job
+// enforces the cap again atomically. Jobs without a user share one slot.
+function scheduleJobs(
+  candidates: LeadJobRow[],
+  running: Array<Pick<LeadJobRow, "user_id">>,
+  limit: number
+): LeadJobRow[] {
+  const active = new Map<string, number>();
+  for (const job of running) {
+    const key = job.user_id ?? "";
+    active.set(key, (active.get(key) ?? 0) + 1);
   }
 
-  const processedSet = items.filter((item) => item.result).length;
-  let processedCount = Math.max(job.processed ?? 0, processedSet);
+  const byUser = new Map<string, LeadJobRow[]>();
+  const byTurn = (a: LeadJobRow, b: LeadJobRow) =>
+    (b.priority ?? 0) - (a.priority ?? 0) || Date.parse(a.created_at) - Date.parse(b.created_at);
+  for (const job of [...candidates].sort(byTurn)) {
+    const key = job.user_id ?? "";
+    byUser.set(key, [...(byUser.get(key) ?? []), job]);
+  }
 
-  const indexQueues = new Map<string, number[]>();
-  const itemsByIndex = new Map<number, LeadJobItemRow>();
+  const picked: LeadJobRow[] = [];
+  while (picked.length < limit) {
+    let next: { key: string; job: LeadJobRow; active: number } | null = null;
+    for (const [key, jobs] of byUser) {
+      const count = active.get(key) ?? 0;
+      const job = jobs[0];
+      if (!job || count >= USER_JOB_CONCURRENCY) {
+        continue;
+      }
+      const order = next ? count - next.active || byTurn(job, next.job) : -1;
+      if (order < 0) {
+        next = { key, job, active: count };
+      }
+    }
 
-  for (const item of items) {
-    itemsByIndex.set(item.item_index, item);
-    if (!item.result) {
-      const key = item.payload.lead_id;
-      const queue = indexQueues.get(key) ?? [];
-      queue.push(item.item_index);
-      indexQueues.set(key, queue);
+    if (!next) {
+      break;
     }
+    picked.push(next.job);
+    byUser.get(next.key)?.shift();
+    active.set(next.key, next.active + 1);
   }
 
+  return picked;
+}
+
+type ItemAttemptUpdate = Pick<
+  LeadJobItemRow,
+  "status" | "attempts" | "result" | "error" | "last_error" | "next_attempt_at" | "processed_at"
+>;
+
+// Item state after one scoring attempt. Failed leads keep no result; transient failures are
+// requeued with exponential backoff until MAX_ITEM_ATTEMPTS.
+function resolveItemAttempt(item: LeadJobItemRow, leadResult: LeadScoreApiResponse["leads"][number]): ItemAttemptUpdate {
+  const attempts = (item.attempts ?? 0) + 1;
+  const now = Date.now();
+
+  if (!leadResult.error) {
+    return {
+      status: "completed",
+      attempts,
+      result: { ...leadResult, lead: { ...leadResult.lead } },
+      error: null,
+      last_error: item.last_error,
+      next_attempt_at: null,
+      processed_at: new Date(now).toISOString()
+    };
+  }
+
+  const message = leadResult.error.message;
+  if (leadResult.error.transient && attempts < MAX_ITEM_ATTEMPTS) {
+    const delay = Math.min(ITEM_RETRY_BASE_MS * 2 ** (attempts - 1), ITEM_RETRY_MAX_MS);
+    return {
+      status: "queued",
+      attempts,
+      result: null,
+      error: null,
+      last_error: message,
+      next_attempt_at: new Date(now + delay).toISOString(),
+      processed_at: null
+    };
+  }
+
+  return {
+    status: "dead",
+    attempts,
+    result: null,
+    error: message,
+    last_error: message,
+    next_attempt_at: null,
+    processed_at: new Date(now).toISOString()
+  };
+}
+
+const addUsageTotals = (a: TokenUsageTotals, b: TokenUsageTotals): TokenUsageTotals => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  ...(a.costUsd !== undefined || b.costUsd !== undefined
+    ? { costUsd: Number(((a.costUsd ?? 0) + (b.costUsd ?? 0)).toFixed(6)) }
+    : {}),
+  ...(a.unpricedTokens || b.unpricedTokens ? { unpricedTokens: (a.unpricedTokens ?? 0) + (b.unpricedTokens ?? 0) } : {})
+});
+
+const addUsageSummaries = (a: TokenUsageSummary, b: TokenUsageSummary): TokenUsageSummary => ({
+  cleaning: addUsageTotals(a.cleaning, b.cleaning),
+  scoring: addUsageTotals(a.scoring, b.scoring)
+});
+
+// Scores the queued items of a job claimed by this process. A lead that fails with a
+// transient error goes back to queued with a backoff, and the job runs rounds while any
+// item is due. When the rest are all backing off, the job is handed back to the queue
+// until the first of them is due. Returns once the job is completed, deferred, failed,
+// cancelled or released.
+export async function runLeadJob(client: SupabaseClient, claimed: ClaimedLeadJob) {
+  const { job, items } = claimed;
+  const jobId = job.id;
+
+  const isResolved = (item: LeadJobItemRow) => item.status === "completed" || item.status === "dead";
+  const isQueued = (item: LeadJobItemRow) => item.status === "queued";
+
+  let processedCount = items.filter(isResolved).length;
+  const itemsByIndex = new Map(items.map((item) => [item.item_index, item]));
+
   const metadata = { ...(job.metadata ?? {}) } as JobMetadata;
   const options = metadata.options ?? {
     useCleaner: true,
     saveToSupabase: false
   };
 
-  const leadsToProcess = pendingItems.map((item) => item.payload);
-
   const controller = new AbortController();
   jobAbortControllers.set(jobId, controller);
 
-  try {
-    const result = await scoreLeads(leadsToProcess, {
-      useCleaner: options.useCleaner,
-      saveToSupabase: options.saveToSupabase,
-      userId: job.user_id,
-      jobId: job.id,
-      maxConcurrency: options.maxConcurrency,
-      signal: controller.signal,
-      onProgress: async ({ lead, result: leadResult }) => {
-        const queue = indexQueues.get(lead.lead_id);
-        const itemIndex = queue?.shift();
-        if (queue && queue.length === 0) {
-          indexQueues.delete(lead.lead_id);
-        }
+  // A retried job adds to what its earlier run recorded.
+  let usage: TokenUsageSummary | null = metadata.usage ?? null;
+  let supabaseResult: LeadScoreApiResponse["supabase"] = metadata.supabase ?? null;
+  let dedupe: DedupeReport | null = metadata.dedupe ?? null;
 
-        if (itemIndex === undefined) {
-          console.warn("No job item index found for lead", { jobId, leadId: lead.lead_id });
-          return;
-        }
+  const addUsage = (spent: TokenUsageSummary | null) => {
+    if (spent) {
+      usage = usage ? addUsageSummaries(usage, spent) : spent;
+    }
+  };
+  // Keep every option set at enqueue time; retries and later views read them back.
+  const withResults = (): JobMetadata => ({
+    ...metadata,
+    options: { ...options, hybrid: options.hybrid ?? undefined },
+    supabase: supabaseResult,
+    usage,
+    dedupe
+  });
 
-        const now = new Date().toISOString();
-        const sanitizedResult = {
-          ...leadResult,
-          lead: { ...leadResult.lead }
-        } as LeadScoreApiResponse["leads"][number];
+  // Writes finished, unsaved leads to lead_runs. Runs after every round, so a release or
+  // cancel loses nothing already scored, and a resumed job saves what an earlier run didn't.
+  const saveCompletedItems = async () => {
+    if (!options.saveToSupabase) {
+      return;
+    }
 
-        const { error: itemError } = await client
-          .from("lead_job_items")
-          .update({
-            status: "completed",
-            result: sanitizedResult,
-            error: null,
-            processed_at: now
-          })
-          .eq("job_id", jobId)
-          .eq("item_index", itemIndex);
+    const unsaved = items.filter(
+      (item) => item.status === "completed" && item.result && !item.result.reused && !item.result.error && !item.saved_at
+    );
+
+    let count = supabaseResult?.count ?? 0;
+    let failure: string | undefined;
+    for (let start = 0; start < unsaved.length; start += SAVE_CHUNK) {
+      const chunk = unsaved.slice(start, start + SAVE_CHUNK);
+      const saved = await saveLeadRunsToSupabase(
+        chunk.map((item) => item.result!),
+        client,
+        job.user_id
+      );
+      if (!saved.saved) {
+        failure = saved.error ?? "Failed to save lead runs";
+        continue;
+      }
 
-        if (itemError) {
-          console.error("Failed to update job item", { jobId, itemIndex }, itemError);
-        }
+      count += saved.count;
+      const savedAt = new Date().toISOString();
+      const { error: markError } = await client
+        .from("lead_job_items")
+        .update({ saved_at: savedAt })
+        .eq("job_id", jobId)
+        .in(
+          "item_index",
+          chunk.map((item) => item.item_index)
+        );
+
+      if (markError) {
+        console.error("Failed to mark job items saved", { jobId }, markError);
+      }
+      for (const item of chunk) {
+        item.saved_at = savedAt;
+      }
+    }
 
-        processedCount += 1;
+    // Chunks that failed stay unsaved and are tried again next round.
+    supabaseResult = failure
+      ? { saved: false, count, error: failure, requested: true }
+      : { saved: true, count, requested: true };
+  };
+
+  try {
+    await saveCompletedItems();
+
+    for (;;) {
+      const pending = items.filter(isQueued);
+      if (pending.length === 0) {
+        break;
+      }
 
-        const { error: progressError } = await client
+      const now = Date.now();
+      const due = pending.filter((item) => !item.next_attempt_at || new Date(item.next_attempt_at).getTime() <= now);
+      if (due.length === 0) {
+        // Hand the job back until its first retry is due rather than holding a worker slot.
+        const nextAttemptAt = new Date(Math.min(...pending.map((item) => new Date(item.next_attempt_at!).getTime())));
+        const { error: deferError } = await client
           .from("lead_jobs")
-          .update({ processed: processedCount })
-          .eq("id", jobId);
+          .update({
+            status: "queued",
+            processed: processedCount,
+            next_attempt_at: nextAttemptAt.toISOString(),
+            metadata: withResults()
+          })
+          .eq("id", jobId)
+          .eq("status", "processing");
 
-        if (progressError) {
-          console.error("Failed to update job progress", { jobId }, progressError);
+        if (deferError) {
+          console.error("Failed to defer job until its retries are due", { jobId }, deferError);
         }
+        return;
+      }
 
-        const currentItem = itemsByIndex.get(itemIndex);
-        if (currentItem) {
-          currentItem.status = "completed";
-          currentItem.result = sanitizedResult;
-          currentItem.error = null;
-          currentItem.processed_at = now;
-        }
+      const itemsByPayload = new Map(due.map((item) => [item.payload, item]));
+      const cleanedLeads = new Map(
+        due.flatMap((item) => (item.cleaned ? [[item.payload, item.cleaned] as const] : []))
+      );
+
+      const indexQueues = new Map<string, number[]>();
+      for (const item of due) {
+        const queue = indexQueues.get(item.payload.lead_id) ?? [];
+        queue.push(item.item_index);
+        indexQueues.set(item.payload.lead_id, queue);
       }
-    });
 
-    metadata.options = {
-      useCleaner: options.useCleaner,
-      saveToSupabase: options.saveToSupabase,
-      maxConcurrency: options.maxConcurrency
-    };
-    metadata.supabase = result.supabase ?? null;
-    metadata.usage = result.usage ?? null;
+      const result = await scoreLeads(
+        due.map((item) => item.payload),
+        {
+          useCleaner: options.useCleaner,
+          // Saved per round below, so finished leads survive a release.
+          saveToSupabase: false,
+          scoringMode: options.scoringMode,
+          hybrid: options.hybrid ?? undefined,
+          promptVersionIds: options.promptVersionIds,
+          userId: job.user_id,
+          jobId: job.id,
+          maxConcurrency: options.maxConcurrency,
+          dedupePolicy: options.dedupePolicy,
+          reuseMaxAgeDays: options.reuseMaxAgeDays,
+          failOnThrottledLookups: true,
+          signal: controller.signal,
+          cleanedLeads,
+          onCleaned: async ({ lead, result: cleanResult }) => {
+            const currentItem = itemsByPayload.get(lead);
+            if (!currentItem) {
+              return;
+            }
+
+            const { error: cleanedError } = await client
+              .from("lead_job_items")
+              .update({ cleaned: cleanResult })
+              .eq("job_id", jobId)
+              .eq("item_index", currentItem.item_index);
+
+            if (cleanedError) {
+              console.error("Failed to store cleaned lead", { jobId, itemIndex: currentItem.item_index }, cleanedError);
+            }
+            currentItem.cleaned = cleanResult;
+          },
+          onProgress: async ({ lead, result: leadResult }) => {
+            const queue = indexQueues.get(lead.lead_id);
+            const itemIndex = queue?.shift();
+            if (queue && queue.length === 0) {
+              indexQueues.delete(lead.lead_id);
+            }
+
+            const currentItem = itemIndex === undefined ? undefined : itemsByIndex.get(itemIndex);
+            if (itemIndex === undefined || !currentItem) {
+              console.warn("No job item index found for lead", { jobId, leadId: lead.lead_id });
+              return;
+            }
+
+            const update = resolveItemAttempt(currentItem, leadResult);
+
+            const { error: itemError } = await client
+              .from("lead_job_items")
+              .update(update)
+              .eq("job_id", jobId)
+              .eq("item_index", itemIndex);
+
+            if (itemError) {
+              console.error("Failed to update job item", { jobId, itemIndex }, itemError);
+            }
+
+            Object.assign(currentItem, update);
+
+            if (update.status === "queued") {
+              console.warn("Lead scoring failed; retrying", {
+                jobId,
+                leadId: lead.lead_id,
+                attempt: update.attempts,
+                next_attempt_at: update.next_attempt_at,
+                error: update.last_error
+              });
+              return;
+            }
+
+            if (update.status === "dead") {
+              console.error("Lead scoring gave up", { jobId, leadId: lead.lead_id, attempts: update.attempts, error: update.last_error });
+            }
+
+            processedCount += 1;
+
+            const { error: progressError } = await client
+              .from("lead_jobs")
+              .update({ processed: processedCount })
+              .eq("id", jobId);
+
+            if (progressError) {
+              console.error("Failed to update job progress", { jobId }, progressError);
+            }
+          }
+        }
+      );
+
+      addUsage(result.usage);
+      dedupe = dedupe ?? result.dedupe;
+      await saveCompletedItems();
+    }
 
-    const { error: completeError } = await client
+    // Only a job this worker still holds is completed; a cancel or a reclaim wins.
+    const { data: completed, error: completeError } = await client
       .from("lead_jobs")
       .update({
         status: "completed",
         processed: itemsByIndex.size,
         error: null,
-        metadata
+        metadata: withResults()
       })
-      .eq("id", jobId);
+      .eq("id", jobId)
+      .eq("status", "processing")
+      .select("id");
 
     if (completeError) {
       console.error("Failed to mark job completed", { jobId }, completeError);
+    } else if (!completed || completed.length === 0) {
+      console.warn("Lead job was no longer processing; left its status unchanged", { jobId });
+    } else {
+      console.info("Lead job completed", { jobId, processed: itemsByIndex.size });
     }
   } catch (error) {
-    if (error instanceof LeadScoringAbortError) {
+    if (error instanceof LeadScoringAbortError && controller.signal.reason === JOB_RELEASE_REASON) {
+      console.info("Lead job released", { jobId, processed: processedCount });
+
+      // Finished items keep their results, and the tokens spent so far stay on the job; the
+      // next worker picks up the rest.
+      addUsage(error.usage);
+      await saveCompletedItems();
+      const { error: releaseError } = await client
+        .from("lead_jobs")
+        .update({ status: "queued", processed: processedCount, next_attempt_at: null, metadata: withResults() })
+        .eq("id", jobId)
+        .eq("status", "processing");
+
+      if (releaseError) {
+        console.error("Failed to release job", { jobId }, releaseError);
+      }
+    } else if (error instanceof LeadScoringAbortError) {
       console.info("Lead job cancelled", { jobId });
+
+      // Leads scored before the cancel are still saved and billed.
+      addUsage(error.usage);
+      await saveCompletedItems();
+      const { error: cancelError } = await client
+        .from("lead_jobs")
+        .update({ processed: processedCount, metadata: withResults() })
+        .eq("id", jobId);
+
+      if (cancelError) {
+        console.error("Failed to record cancelled job results", { jobId }, cancelError);
+      }
     } else {
       console.error("Lead job processing failed", { jobId }, error);
 
@@ -385,20 +817,41 @@ async function processLeadJob(jobId: string) {
   }
 }
 
-export async function enqueueLeadJob(
-  leads: LeadInput[],
-  options: Omit<ScoreLeadOptions, "onProgress"> = {}
-): Promise<JobSnapshot> {
-  const client = getSupabaseAdminClient();
-  if (!client) {
-    throw new Error("Supabase client not configured");
+type EnqueueOptions = Omit<ScoreLeadOptions, "onProgress" | "onCleaned" | "cleanedLeads"> & {
+  // Higher is claimed first; defaults to 0.
+  priority?: number;
+};
+
+// Whole numbers from MIN_JOB_PRIORITY to MAX_JOB_PRIORITY; out-of-range values are clamped.
+export function parseJobPriority(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const priority = Number(value);
+  if (!Number.isFinite(priority)) {
+    return undefined;
   }
+  return Math.min(Math.max(Math.round(priority), MIN_JOB_PRIORITY), MAX_JOB_PRIORITY);
+}
+
+async function createJob(
+  client: SupabaseClient,
+  options: EnqueueOptions,
+  status: "queued" | "uploading",
+  total: number
+): Promise<LeadJobRow> {
+  const promptVersionIds = await pinPromptVersions(options.userId ?? null, options.promptVersionIds);
 
   const metadata: JobMetadata = {
     options: {
       useCleaner: options.useCleaner !== false,
       saveToSupabase: options.saveToSupabase === true,
-      maxConcurrency: options.maxConcurrency
+      scoringMode: options.scoringMode ?? "model",
+      hybrid: options.hybrid,
+      promptVersionIds,
+      maxConcurrency: options.maxConcurrency,
+      dedupePolicy: options.dedupePolicy,
+      reuseMaxAgeDays: options.reuseMaxAgeDays
     }
   };
 
@@ -406,8 +859,9 @@ export async function enqueueLeadJob(
     .from("lead_jobs")
     .insert({
       user_id: options.userId ?? null,
-      status: "queued",
-      total: leads.length,
+      status,
+      priority: options.priority ?? 0,
+      total,
       processed: 0,
       metadata
     })
@@ -419,24 +873,119 @@ export async function enqueueLeadJob(
     throw new Error(jobError?.message ?? "Failed to enqueue job");
   }
 
-  const items = leads.map((lead, index) => ({
-    job_id: job.id,
-    item_index: index,
-    payload: lead,
-    status: "queued"
-  }));
+  return job;
+}
+
+// A job that was just queued: every item is still waiting, so nothing needs reading back.
+const queuedJobSummary = (job: LeadJobRow): JobSummary =>
+  toJobSummary({
+    ...job,
+    queued_items: job.total,
+    retrying_items: 0,
+    completed_items: 0,
+    dead_items: 0,
+    failed_items: 0
+  });
 
-  const { error: itemsError } = await client.from("lead_job_items").insert(items);
-  if (itemsError) {
-    console.error("Failed to insert lead job items", { jobId: job.id }, itemsError);
-    throw new Error(itemsError.message ?? "Failed to store job items");
+export async function enqueueLeadJob(leads: LeadInput[], options: EnqueueOptions = {}): Promise<JobSummary> {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error("Supabase client not configured");
+  }
+
+  const job = await createJob(client, options, "queued", leads.length);
+  await insertJobItems(client, job.id, leads, 0);
+
+  return queuedJobSummary(job);
+}
+
+export type UploadSummary = {
+  format: UploadFormat;
+  rows: number;
+  headers: string[];
+  // Saved import template applied because no explicit mapping was sent.
+  template: { id: string; name: string } | null;
+};
+
+// Streams an uploaded file into job items. The job sits in "uploading" (never claimed)
+// until every chunk is stored, then flips to "queued" with its final total.
+// Without an explicit mapping, a saved template for the same header layout is applied.
+export async function enqueueLeadUpload(
+  stream: ReadableStream<Uint8Array>,
+  format: UploadFormat,
+  options: EnqueueOptions & { delimiter?: string | null; mapping?: ColumnMapping | null } = {}
+): Promise<{ job: JobSummary; upload: UploadSummary }> {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error("Supabase client not configured");
   }
 
-  const snapshot = await getJob(job.id);
-  if (!snapshot) {
-    throw new Error("Failed to retrieve job after enqueueing");
+  const job = await createJob(client, options, "uploading", 0);
+  let queued: LeadJobRow | null = null;
+  let headers: string[] = [];
+  let rows = 0;
+  let mapping = options.mapping ?? null;
+  let template: UploadSummary["template"] = null;
+  let mappingResolved = Boolean(mapping) || !options.userId;
+
+  try {
+    let chunk: LeadInput[] = [];
+    for await (const record of readUploadRecords(stream, format, {
+      delimiter: options.delimiter,
+      onHeaders: (names) => {
+        headers = names;
+      }
+    })) {
+      if (!mappingResolved) {
+        const keys = headers.map((header, index) => normalizeHeader(header, index));
+        const saved = await findImportTemplate(options.userId!, headerSignature(keys));
+        if (saved) {
+          mapping = saved.mapping;
+          template = { id: saved.id, name: saved.name };
+        }
+        mappingResolved = true;
+      }
+      chunk.push(toLeadInput(record, rows + chunk.length, mapping));
+      if (chunk.length >= UPLOAD_CHUNK_SIZE) {
+        await insertJobItems(client, job.id, chunk, rows);
+        rows += chunk.length;
+        chunk = [];
+      }
+    }
+    if (chunk.length > 0) {
+      await insertJobItems(client, job.id, chunk, rows);
+      rows += chunk.length;
+    }
+
+    if (rows === 0) {
+      throw new UploadValidationError("Upload contains no lead rows");
+    }
+
+    const { data: queuedRow, error: queueError } = await client
+      .from("lead_jobs")
+      .update({ status: "queued", total: rows })
+      .eq("id", job.id)
+      .select("*")
+      .single<LeadJobRow>();
+
+    if (queueError || !queuedRow) {
+      console.error("Failed to queue uploaded job", { jobId: job.id }, queueError);
+      throw new Error(queueError?.message ?? "Failed to queue job");
+    }
+    queued = queuedRow;
+  } catch (error) {
+    const { error: failError } = await client
+      .from("lead_jobs")
+      .update({ status: "failed", error: (error as Error).message, total: rows })
+      .eq("id", job.id);
+
+    if (failError) {
+      console.error("Failed to mark upload job failed", { jobId: job.id }, failError);
+    }
+    throw error;
   }
-  return snapshot;
+
+  return { job: queuedJobSummary(queued), upload: { format, rows, headers, template } };
 }
 
 export async function getJob(jobId: string): Promise<JobSnapshot | null> {
@@ -454,41 +1003,321 @@ export async function getJob(jobId: string): Promise<JobSnapshot | null> {
   return toSnapshot(payload.job, payload.items);
 }
 
-export async function listJobs(): Promise<JobSnapshot[]> {
-  const client = getSupabaseAdminClient();
-  if (!client) {
-    console.error("Supabase client not configured");
-    return [];
-  }
+// One item as sent in progress deltas and item pages. Clients upsert by index.
+export type JobItemDelta = {
+  index: number;
+  leadId: string;
+  company: string | null;
+  status: "queued" | "completed" | "failed" | "dead";
+  attempts: number;
+  error: string | null;
+  result: LeadScoreApiResponse["leads"][number] | null;
+};
+
+export type JobProgress = {
+  job: JobState;
+  items: JobItemDelta[];
+  // Pass back as `since` to get only what changed after this delta.
+  cursor: string | null;
+  // More changed items are waiting; ask again right away.
+  more: boolean;
+};
 
-  const { data: jobs, error } = await client
+type ItemDeltaRow = {
+  item_index: number;
+  status: string;
+  attempts: number | null;
+  error: string | null;
+  last_error: string | null;
+  result: LeadScoreApiResponse["leads"][number] | null;
+  progress_seq: number | string;
+  lead_id: string | null;
+  company: string | null;
+};
+
+const ITEM_DELTA_COLUMNS =
+  "item_index, status, attempts, error, last_error, result, progress_seq, lead_id:payload->>lead_id, company:payload->>company";
+
+const toItemDelta = (item: ItemDeltaRow): JobItemDelta => ({
+  index: item.item_index,
+  leadId: item.lead_id ?? "",
+  company: item.company,
+  status: item.status as JobItemDelta["status"],
+  attempts: item.attempts ?? 0,
+  error: item.last_error ?? item.error,
+  result: item.status === "completed" ? item.result : null
+});
+
+// Cursors are the progress_seq of the last item sent, kept as a string since the column is a
+// bigint. Anything else (including the older "<updated_at>|<item_index>" form) starts over.
+function parseProgressCursor(value: string | null | undefined): string | null {
+  return value && /^\d+$/.test(value) ? value : null;
+}
+
+// The job row plus the items that changed after `since`. Without a cursor every item that
+// has been touched is returned, so the first delta rebuilds the full picture; untouched
+// queued items are implied by the total.
+export async function getJobProgress(
+  client: SupabaseClient,
+  jobId: string,
+  since?: string | null
+): Promise<JobProgress | null> {
+  const { data: job, error: jobError } = await client
     .from("lead_jobs")
     .select("*")
-    .order("created_at", { ascending: false })
-    .limit(50);
+    .eq("id", jobId)
+    .maybeSingle<LeadJobRow>();
 
-  if (error || !jobs) {
-    if (error) {
-      console.error("Failed to list jobs", error);
+  if (jobError) {
+    console.error("Failed to load job progress", { jobId }, jobError);
+    throw new Error(jobError.message ?? "Failed to load job");
+  }
+
+  if (!job) {
+    return null;
+  }
+
+  const cursor = parseProgressCursor(since);
+  let query = client
+    .from("lead_job_items")
+    .select(ITEM_DELTA_COLUMNS)
+    .eq("job_id", jobId);
+
+  query = cursor ? query.gt("progress_seq", cursor) : query.or("status.neq.queued,attempts.gt.0");
+
+  const { data: rows, error: itemsError } = await query
+    .order("progress_seq", { ascending: true })
+    .limit(PROGRESS_PAGE_SIZE)
+    .returns<ItemDeltaRow[]>();
+
+  if (itemsError) {
+    console.error("Failed to load changed job items", { jobId }, itemsError);
+    throw new Error(itemsError.message ?? "Failed to load job items");
+  }
+
+  const items = rows ?? [];
+  const last = items[items.length - 1];
+
+  return {
+    job: toJobState(job),
+    items: items.map(toItemDelta),
+    cursor: last ? String(last.progress_seq) : cursor,
+    more: items.length === PROGRESS_PAGE_SIZE
+  };
+}
+
+function toJobSummary(row: LeadJobSummaryRow): JobSummary {
+  return {
+    ...toJobState(row),
+    items: {
+      queued: Number(row.queued_items),
+      retrying: Number(row.retrying_items),
+      completed: Number(row.completed_items),
+      dead: Number(row.dead_items),
+      failed: Number(row.failed_items)
     }
-    return [];
+  };
+}
+
+// Job list cursors are "<created_at>|<id>" of the last job on the previous page.
+function parseJobListCursor(value: string | null | undefined): { at: string; key: string } | null {
+  if (!value) {
+    return null;
+  }
+  const separator = value.lastIndexOf("|");
+  const at = value.slice(0, separator);
+  const key = value.slice(separator + 1);
+  if (separator <= 0 || Number.isNaN(Date.parse(at)) || !/^[0-9a-f-]{36}$/i.test(key)) {
+    return null;
+  }
+  return { at, key };
+}
+
+function parseLimit(value: unknown, fallback: number, max: number): number {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new JobQueueValidationError("limit must be a positive integer");
+  }
+  return Math.min(limit, max);
+}
+
+// Newest first, one query against lead_job_summaries. The cursor is the nextCursor of the
+// previous page.
+export async function listJobs(
+  client: SupabaseClient,
+  userId: string,
+  options: { limit?: unknown; cursor?: string | null } = {}
+): Promise<{ jobs: JobSummary[]; nextCursor: string | null }> {
+  const limit = parseLimit(options.limit, DEFAULT_JOB_PAGE_SIZE, MAX_JOB_PAGE_SIZE);
+  const cursor = parseJobListCursor(options.cursor);
+  if (options.cursor && !cursor) {
+    throw new JobQueueValidationError("cursor is invalid");
   }
 
-  const snapshots: JobSnapshot[] = [];
-  for (const job of jobs) {
-    const payload = await loadJob(client, job.id);
-    if (payload) {
-      snapshots.push(toSnapshot(payload.job, payload.items));
+  let query = client.from("lead_job_summaries").select("*").eq("user_id", userId);
+  if (cursor) {
+    query = query.or(`created_at.lt."${cursor.at}",and(created_at.eq."${cursor.at}",id.lt.${cursor.key})`);
+  }
+
+  const { data: rows, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit)
+    .returns<LeadJobSummaryRow[]>();
+
+  if (error) {
+    console.error("Failed to list jobs", { userId }, error);
+    throw new Error(error.message ?? "Failed to list jobs");
+  }
+
+  const jobs = rows ?? [];
+  const last = jobs[jobs.length - 1];
+  return {
+    jobs: jobs.map(toJobSummary),
+    nextCursor: last && jobs.length === limit ? `${last.created_at}|${last.id}` : null
+  };
+}
+
+export async function getJobSummary(client: SupabaseClient, jobId: string): Promise<JobSummary | null> {
+  const { data: row, error } = await client
+    .from("lead_job_summaries")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle<LeadJobSummaryRow>();
+
+  if (error) {
+    console.error("Failed to load job summary", { jobId }, error);
+    throw new Error(error.message ?? "Failed to load job");
+  }
+
+  return row ? toJobSummary(row) : null;
+}
+
+const ITEM_STATUSES: ReadonlyArray<JobItemDelta["status"]> = ["queued", "completed", "failed", "dead"];
+
+export type JobItemPage = {
+  items: JobItemDelta[];
+  // Pass back as `cursor` for the next page; null on the last page.
+  nextCursor: string | null;
+  // On the first page only: pass as `since` on the next sync to get just the items that
+  // changed after this one started.
+  syncToken: string | null;
+};
+
+// A job's items in upload order, optionally filtered by status and to those updated after
+// `since` (a previous syncToken, or a timestamp).
+export async function listJobItems(
+  client: SupabaseClient,
+  jobId: string,
+  options: { status?: string | null; cursor?: string | null; limit?: unknown; since?: string | null } = {}
+): Promise<JobItemPage> {
+  const limit = parseLimit(options.limit, DEFAULT_ITEM_PAGE_SIZE, MAX_ITEM_PAGE_SIZE);
+
+  const statuses = (options.status ?? "")
+    .split(",")
+    .map((status) => status.trim())
+    .filter(Boolean);
+  const unknown = statuses.filter((status) => !ITEM_STATUSES.includes(status as JobItemDelta["status"]));
+  if (unknown.length > 0) {
+    throw new JobQueueValidationError(`status must be one of ${ITEM_STATUSES.join(", ")}`);
+  }
+
+  const after = options.cursor ? Number(options.cursor) : -1;
+  if (!Number.isInteger(after) || after < -1) {
+    throw new JobQueueValidationError("cursor is invalid");
+  }
+
+  const since = options.since?.trim() || null;
+  const sinceSeq = parseProgressCursor(since);
+  if (since && !sinceSeq && Number.isNaN(Date.parse(since))) {
+    throw new JobQueueValidationError("since must be a sync token or a timestamp");
+  }
+
+  let query = client.from("lead_job_items").select(ITEM_DELTA_COLUMNS).eq("job_id", jobId).gt("item_index", after);
+  if (statuses.length > 0) {
+    query = query.in("status", statuses);
+  }
+  if (sinceSeq) {
+    query = query.gt("progress_seq", sinceSeq);
+  } else if (since) {
+    query = query.gt("updated_at", since);
+  }
+
+  const { data: rows, error } = await query
+    .order("item_index", { ascending: true })
+    .limit(limit)
+    .returns<ItemDeltaRow[]>();
+
+  if (error) {
+    console.error("Failed to list job items", { jobId }, error);
+    throw new Error(error.message ?? "Failed to list job items");
+  }
+
+  let syncToken: string | null = null;
+  if (!options.cursor) {
+    const { data: latest, error: latestError } = await client
+      .from("lead_job_items")
+      .select("progress_seq")
+      .eq("job_id", jobId)
+      .order("progress_seq", { ascending: false })
+      .limit(1)
+      .returns<Array<Pick<ItemDeltaRow, "progress_seq">>>();
+
+    if (latestError) {
+      console.error("Failed to read job sync token", { jobId }, latestError);
+      throw new Error(latestError.message ?? "Failed to list job items");
     }
+    syncToken = latest?.[0] ? String(latest[0].progress_seq) : sinceSeq;
   }
 
-  return snapshots;
+  const items = rows ?? [];
+  const last = items[items.length - 1];
+  return {
+    items: items.map(toItemDelta),
+    nextCursor: last && items.length === limit ? String(last.item_index) : null,
+    syncToken
+  };
 }
 
-export function triggerLeadJob(jobId: string) {
-  processLeadJob(jobId).catch((error) => {
-    console.error("Background lead job failed", { jobId }, error);
-  });
+// Touches every job this process is running so other workers don't treat it as stale,
+// and aborts any that are no longer processing (cancelled from another process).
+export async function heartbeatLeadJobs(client: SupabaseClient) {
+  const jobIds = Array.from(jobAbortControllers.keys());
+  if (jobIds.length === 0) {
+    return;
+  }
+
+  const { data: touched, error } = await client
+    .from("lead_jobs")
+    .update({ updated_at: new Date().toISOString() })
+    .in("id", jobIds)
+    .eq("status", "processing")
+    .select("id")
+    .returns<Array<{ id: string }>>();
+
+  if (error) {
+    console.error("Failed to send job heartbeat", { jobIds }, error);
+    return;
+  }
+
+  const alive = new Set((touched ?? []).map((row) => row.id));
+  for (const jobId of jobIds) {
+    if (!alive.has(jobId)) {
+      jobAbortControllers.get(jobId)?.abort();
+    }
+  }
+}
+
+// Stops every job this process is running and hands it back to the queue.
+export function releaseLeadJobs(): number {
+  const controllers = Array.from(jobAbortControllers.values());
+  for (const controller of controllers) {
+    controller.abort(JOB_RELEASE_REASON);
+  }
+  return controllers.length;
 }
 
 export async function cancelJob(jobId: string, reason?: string): Promise<JobSnapshot | null> {
@@ -544,34 +1373,97 @@ export async function cancelJob(jobId: string, reason?: string): Promise<JobSnap
   return payload ? toSnapshot(payload.job, payload.items) : null;
 }
 
-export async function findActiveJobForUser(userId: string): Promise<JobSnapshot | null> {
-  if (!userId) {
+// Puts a finished job's dead and failed items back in the queue with fresh attempts, so a
+// worker scores just those leads again. Completed items keep their results.
+export async function retryFailedItems(jobId: string): Promise<JobSnapshot | null> {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error("Supabase client not configured");
+  }
+
+  const { data: job, error: jobError } = await client
+    .from("lead_jobs")
+    .select("id, status")
+    .eq("id", jobId)
+    .maybeSingle<Pick<LeadJobRow, "id" | "status">>();
+
+  if (jobError) {
+    console.error("Failed to load job for retry", { jobId }, jobError);
+    throw new Error(jobError.message ?? "Failed to load job");
+  }
+
+  if (!job) {
     return null;
   }
 
+  if (job.status !== "completed" && job.status !== "failed") {
+    throw new JobQueueValidationError("Job is still running; wait for it to finish before retrying");
+  }
+
+  const { data: requeued, error: itemsError } = await client
+    .from("lead_job_items")
+    .update({ status: "queued", attempts: 0, error: null, next_attempt_at: null, processed_at: null })
+    .eq("job_id", jobId)
+    .in("status", ["dead", "failed"])
+    .select("item_index");
+
+  if (itemsError) {
+    console.error("Failed to requeue failed job items", { jobId }, itemsError);
+    throw new Error(itemsError.message ?? "Failed to requeue job items");
+  }
+
+  if (!requeued || requeued.length === 0) {
+    throw new JobQueueValidationError("Job has no failed items to retry");
+  }
+
+  const { count: completed, error: countError } = await client
+    .from("lead_job_items")
+    .select("item_index", { count: "exact", head: true })
+    .eq("job_id", jobId)
+    .eq("status", "completed");
+
+  if (countError) {
+    console.error("Failed to count completed job items", { jobId }, countError);
+    throw new Error(countError.message ?? "Failed to count job items");
+  }
+
+  const { error: queueError } = await client
+    .from("lead_jobs")
+    .update({ status: "queued", error: null, processed: completed ?? 0, next_attempt_at: null })
+    .eq("id", jobId);
+
+  if (queueError) {
+    console.error("Failed to requeue job", { jobId }, queueError);
+    throw new Error(queueError.message ?? "Failed to requeue job");
+  }
+
+  return getJob(jobId);
+}
+
+// Every queued or running job of the user, newest first.
+export async function listActiveJobsForUser(userId: string): Promise<JobSummary[]> {
+  if (!userId) {
+    return [];
+  }
+
   const client = getSupabaseAdminClient();
   if (!client) {
-    console.error("Supabase client not configured; cannot look up active job", { userId });
-    return null;
+    console.error("Supabase client not configured; cannot look up active jobs", { userId });
+    return [];
   }
 
   const { data: rows, error } = await client
-    .from("lead_jobs")
-    .select("id")
+    .from("lead_job_summaries")
+    .select("*")
     .eq("user_id", userId)
     .in("status", ["queued", "processing"])
     .order("created_at", { ascending: false })
-    .limit(1);
+    .returns<LeadJobSummaryRow[]>();
 
   if (error) {
-    console.error("Failed to look up active job for user", { userId }, error);
-    return null;
-  }
-
-  const activeId = rows?.[0]?.id;
-  if (!activeId) {
-    return null;
+    console.error("Failed to look up active jobs for user", { userId }, error);
+    return [];
   }
 
-  return getJob(activeId);
+  return (rows ?? []).map(toJobSummary);
 }
@@ -0,0 +1,170 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  LEAD_JOB_HEARTBEAT_MS,
+  claimLeadJob,
+  heartbeatLeadJobs,
+  listClaimableLeadJobs,
+  releaseLeadJobs,
+  runLeadJob
+} from "@/lib/jobQueue";
+import { claimReplay, heartbeatReplays, listClaimableReplays, releaseReplays, runReplay } from "@/lib/replays";
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30000;
+
+export type LeadJobWorkerOptions = {
+  // Jobs scored at the same time; each job still caps its own lead concurrency.
+  concurrency?: number;
+  pollIntervalMs?: number;
+  // How long to wait for released jobs to settle before giving up on shutdown.
+  shutdownTimeoutMs?: number;
+};
+
+const positive = (value: number | undefined, fallback: number) =>
+  value !== undefined && Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+
+export function readWorkerOptions(env: NodeJS.ProcessEnv = process.env): LeadJobWorkerOptions {
+  return {
+    concurrency: positive(Number(env.LEAD_WORKER_CONCURRENCY), DEFAULT_CONCURRENCY),
+    pollIntervalMs: positive(Number(env.LEAD_WORKER_POLL_MS), DEFAULT_POLL_INTERVAL_MS),
+    shutdownTimeoutMs: positive(Number(env.LEAD_WORKER_SHUTDOWN_TIMEOUT_MS), DEFAULT_SHUTDOWN_TIMEOUT_MS)
+  };
+}
+
+// Polls lead_jobs for queued (or abandoned) jobs and runs up to `concurrency` of them,
+// filling any slots left over with queued scoring replays. When `signal` aborts it stops
+// claiming, releases running jobs and replays back to the queue and resolves once they
+// have settled or the shutdown timeout passes.
+export async function runLeadJobWorker(client: SupabaseClient, signal: AbortSignal, options: LeadJobWorkerOptions = {}) {
+  const concurrency = positive(options.concurrency, DEFAULT_CONCURRENCY);
+  const pollIntervalMs = positive(options.pollIntervalMs, DEFAULT_POLL_INTERVAL_MS);
+  const shutdownTimeoutMs = positive(options.shutdownTimeoutMs, DEFAULT_SHUTDOWN_TIMEOUT_MS);
+
+  const running = new Map<string, Promise<void>>();
+  let wake: (() => void) | null = null;
+  const wakeUp = () => {
+    wake?.();
+  };
+  signal.addEventListener("abort", wakeUp);
+
+  const heartbeat = setInterval(() => {
+    heartbeatLeadJobs(client).catch((error) => {
+      console.error("Lead job heartbeat failed", error);
+    });
+    heartbeatReplays(client).catch((error) => {
+      console.error("Scoring replay heartbeat failed", error);
+    });
+  }, Math.min(LEAD_JOB_HEARTBEAT_MS, pollIntervalMs));
+
+  console.info("Lead job worker started", { concurrency, pollIntervalMs });
+
+  try {
+    while (!signal.aborted) {
+      const free = concurrency - running.size;
+      if (free > 0) {
+        try {
+          const candidates = await listClaimableLeadJobs(client, free);
+          for (const candidate of candidates) {
+            if (signal.aborted || running.size >= concurrency) {
+              break;
+            }
+            if (running.has(candidate.id)) {
+              continue;
+            }
+
+            const claimed = await claimLeadJob(client, candidate);
+            if (!claimed) {
+              continue;
+            }
+
+            const jobId = claimed.job.id;
+            console.info("Lead job claimed", { jobId, total: claimed.job.total, processed: claimed.job.processed });
+            const run = runLeadJob(client, claimed)
+              .catch((error) => {
+                console.error("Lead job run failed", { jobId }, error);
+              })
+              .finally(() => {
+                running.delete(jobId);
+                wakeUp();
+              });
+            running.set(jobId, run);
+          }
+        } catch (error) {
+          console.error("Lead job poll failed", error);
+        }
+      }
+
+      const freeForReplays = concurrency - running.size;
+      if (freeForReplays > 0 && !signal.aborted) {
+        try {
+          const replays = await listClaimableReplays(client, freeForReplays);
+          for (const replay of replays) {
+            if (signal.aborted || running.size >= concurrency) {
+              break;
+            }
+            if (running.has(replay.id) || !(await claimReplay(client, replay))) {
+              continue;
+            }
+
+            const replayId = replay.id;
+            console.info("Scoring replay claimed", { replayId, processed: replay.processed });
+            const run = runReplay(client, replayId)
+              .catch((error) => {
+                console.error("Scoring replay run failed", { replayId }, error);
+              })
+              .finally(() => {
+                running.delete(replayId);
+                wakeUp();
+              });
+            running.set(replayId, run);
+          }
+        } catch (error) {
+          console.error("Scoring replay poll failed", error);
+        }
+      }
+
+      if (signal.aborted) {
+        break;
+      }
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, pollIntervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wake = null;
+    }
+  } finally {
+    signal.removeEventListener("abort", wakeUp);
+
+    const released = releaseLeadJobs();
+    if (released > 0) {
+      console.info("Releasing lead jobs", { released });
+    }
+    const releasedReplays = releaseReplays();
+    if (releasedReplays > 0) {
+      console.info("Releasing scoring replays", { released: releasedReplays });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const settled = await Promise.race([
+      Promise.allSettled(running.values()).then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), shutdownTimeoutMs);
+      })
+    ]);
+    clearTimeout(timer);
+    clearInterval(heartbeat);
+
+    if (!settled) {
+      console.warn("Lead jobs or replays still running at shutdown; they will be reclaimed once stale", {
+        jobIds: Array.from(running.keys())
+      });
+    }
+    console.info("Lead job worker stopped");
+  }
+}
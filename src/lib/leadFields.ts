@@ -0,0 +1,103 @@
+import type { ColumnMapping, LeadField, LeadInput } from "./types";
+
+// Upload rows keyed by normalized header (see normalizeHeader).
+export type ParsedLead = Record<string, string>;
+
+// Single alias table for column detection, shared by uploads and the cleaner.
+// Aliases are normalized header keys, tried in order.
+export const FIELD_ALIASES = {
+  lead_id: ["lead_id", "id", "record_id", "crm_id"],
+  company: ["company", "company_name", "account", "account_name", "organization", "business_name"],
+  industry: ["industry", "vertical", "segment", "category"],
+  website: ["website", "website_url", "url", "domain", "homepage"],
+  email: ["email", "email_address", "contact_email"],
+  phone: ["phone", "phone_number", "contact_phone", "mobile", "cell", "telephone", "tel"],
+  contact: ["contact", "contact_name", "name", "full_name", "lead_name"],
+  city: ["city", "locality"],
+  state: ["state", "region", "province"],
+  country: ["country"],
+  address: ["address", "location", "street_address"],
+  notes: ["notes", "description", "summary"],
+  founded: ["founded", "year_founded", "founded_year", "established", "since"]
+} satisfies Record<LeadField, string[]>;
+
+export const LEAD_FIELD_LABELS: Record<LeadField, string> = {
+  lead_id: "Lead ID",
+  company: "Company",
+  industry: "Industry",
+  website: "Website",
+  email: "Email",
+  phone: "Phone",
+  contact: "Contact name",
+  city: "City",
+  state: "State / region",
+  country: "Country",
+  address: "Address / location",
+  notes: "Notes",
+  founded: "Year founded"
+};
+
+export const LEAD_FIELDS = Object.keys(FIELD_ALIASES) as LeadField[];
+
+export function normalizeHeader(input: string, index: number): string {
+  const cleaned = input.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return cleaned === "" ? `column_${index + 1}` : cleaned;
+}
+
+// Identifies an export layout regardless of column order.
+export function headerSignature(keys: string[]): string {
+  return Array.from(new Set(keys)).sort().join("|");
+}
+
+export function getValue(record: ParsedLead, aliases: string[]): string | undefined {
+  for (const key of aliases) {
+    const value = record[key];
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+export function getFieldValue(record: ParsedLead, field: LeadField, mapping?: ColumnMapping | null): string | undefined {
+  if (mapping) {
+    const key = mapping[field];
+    return key ? record[key] || undefined : undefined;
+  }
+  return getValue(record, FIELD_ALIASES[field]);
+}
+
+// First alias present for each field; fields with no matching column are left unmapped.
+export function proposeMapping(keys: string[]): ColumnMapping {
+  const available = new Set(keys);
+  const mapping: ColumnMapping = {};
+  for (const field of LEAD_FIELDS) {
+    mapping[field] = FIELD_ALIASES[field].find((alias) => available.has(alias)) ?? null;
+  }
+  return mapping;
+}
+
+export function buildLocation(record: ParsedLead, mapping?: ColumnMapping | null): string | undefined {
+  const parts = (["city", "state", "country", "address"] as const)
+    .map((field) => getFieldValue(record, field, mapping)?.trim())
+    .filter(Boolean);
+
+  if (parts.length === 0) {
+    return undefined;
+  }
+
+  return Array.from(new Set(parts)).join(", ");
+}
+
+export function toLeadInput(record: ParsedLead, index: number, mapping?: ColumnMapping | null): LeadInput {
+  return {
+    lead_id: getFieldValue(record, "lead_id", mapping) ?? `lead_${index + 1}`,
+    company: getFieldValue(record, "company", mapping) ?? "Unknown company",
+    industry: getFieldValue(record, "industry", mapping) ?? "default",
+    website: getFieldValue(record, "website", mapping),
+    location: buildLocation(record, mapping),
+    notes: getFieldValue(record, "notes", mapping),
+    normalized: record,
+    ...(mapping ? { mapping } : {})
+  };
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { resolveBand } from "@/lib/bands";
+import type { StoredLeadRun } from "@/lib/dedupe";
+import { factorLabel, getFactor, normalizeFactorScores } from "@/lib/factors";
+import type { FactorDisagreement, FactorMeta, InterpretationBand, LeadOutcome, LeadRunOverride } from "@/lib/types";
+
+export type LeadRunRow = StoredLeadRun & {
+  user_id: string | null;
+  company: string;
+  company_id: string | null;
+  override: LeadRunOverride | null;
+  // The override's values when there is one, otherwise the model's.
+  effective_final_score: number;
+  effective_interpretation: string;
+  // Most recent reported outcome; see src/lib/outcomes.ts.
+  outcome: LeadOutcome | null;
+  outcome_at: string | null;
+};
+
+export type FactorBreakdown = {
+  id: string;
+  label: string;
+  scorer: FactorMeta["scorer"] | null;
+  score: number | null;
+  weight: number;
+  // score × weight; the final score is the sum of these.
+  contribution: number | null;
+  disagreement: FactorDisagreement | null;
+};
+
+export type LeadRunAudit = {
+  run: LeadRunRow;
+  factors: FactorBreakdown[];
+  reasoning: {
+    narrative: string;
+    // "[System]" notes added by the server after the model answered, prefix removed.
+    adjustments: string[];
+  };
+};
+
+const SYSTEM_PREFIX = "[System]";
+
+// An override's band wins over the score, since reps may deliberately put a lead in a
+// band its score doesn't reach. Otherwise the effective score is re-tiered.
+export function currentBand(
+  run: Pick<LeadRunRow, "override" | "effective_final_score" | "final_score">,
+  bands: InterpretationBand[]
+): InterpretationBand {
+  if (run.override) {
+    const match = bands.find((band) => band.label === run.override?.interpretation) ?? run.override.band;
+    if (match) {
+      return match;
+    }
+  }
+  return resolveBand(Number(run.effective_final_score ?? run.final_score), bands);
+}
+
+export function splitReasoning(reasoning: string | null | undefined): LeadRunAudit["reasoning"] {
+  const narrative: string[] = [];
+  const adjustments: string[] = [];
+  for (const line of (reasoning ?? "").split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(SYSTEM_PREFIX)) {
+      adjustments.push(trimmed.slice(SYSTEM_PREFIX.length).trim());
+    } else {
+      narrative.push(line);
+    }
+  }
+  return { narrative: narrative.join("\n").trim(), adjustments };
+}
+
+// Every factor the run weighted or scored, in weight order. Runs saved before factor
+// metadata was stored fall back to the registry labels.
+export function breakDownFactors(run: Pick<StoredLeadRun, "scores" | "weights" | "factors" | "disagreement">): FactorBreakdown[] {
+  const scores = normalizeFactorScores(run.scores);
+  const weights = run.weights ?? {};
+  const meta = run.factors ?? [];
+  const ids = Array.from(
+    new Set([...Object.keys(weights).filter((id) => (weights[id] ?? 0) > 0), ...Object.keys(scores)])
+  );
+
+  return ids
+    .map((id) => {
+      const score = scores[id] ?? null;
+      const weight = weights[id] ?? 0;
+      return {
+        id,
+        label: factorLabel(id, meta),
+        scorer: meta.find((factor) => factor.id === id)?.scorer ?? getFactor(id)?.scorer ?? null,
+        score,
+        weight,
+        contribution: score === null ? null : Number((score * weight).toFixed(2)),
+        disagreement: run.disagreement?.[id] ?? null
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+}
+
+export async function getLeadRunAudit(
+  client: SupabaseClient,
+  runId: string,
+  userId: string
+): Promise<LeadRunAudit | null> {
+  const { data, error } = await client
+    .from("lead_runs")
+    .select("*")
+    .eq("id", runId)
+    .eq("user_id", userId)
+    .maybeSingle<LeadRunRow>();
+
+  if (error) {
+    console.error("Failed to load lead run", { runId }, error);
+    throw new Error(error.message ?? "Failed to load lead run");
+  }
+  if (!data) {
+    return null;
+  }
+
+  return {
+    run: data,
+    factors: breakDownFactors(data),
+    reasoning: splitReasoning(data.reasoning)
+  };
+}
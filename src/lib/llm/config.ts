@@ -0,0 +1,45 @@
+import { getEnv } from "../env";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible";
+import { createOpenRouterProvider } from "./openrouter";
+import type { LlmProvider } from "./provider";
+import { createScriptedProvider } from "./scripted";
+
+let cachedProvider: LlmProvider | null = null;
+
+function createProvider(models?: string[]): LlmProvider {
+  const env = getEnv();
+  switch (env.LLM_PROVIDER) {
+    case "openai-compatible":
+      return createOpenAiCompatibleProvider({
+        name: "OpenAI-compatible",
+        baseUrl: env.LLM_BASE_URL ?? "",
+        apiKey: env.LLM_API_KEY,
+        models: models ?? (env.LLM_MODEL ? [env.LLM_MODEL, ...env.LLM_FALLBACK_MODELS] : []),
+        jsonMode: env.LLM_JSON_MODE,
+        timeoutMs: env.LLM_TIMEOUT_MS,
+        maxRetries: env.OPENROUTER_MAX_RETRIES,
+        retryBaseMs: env.OPENROUTER_RETRY_BASE_MS,
+        retryMaxMs: env.OPENROUTER_RETRY_MAX_MS,
+        unavailableReason:
+          env.LLM_BASE_URL && (models ?? env.LLM_MODEL)
+            ? null
+            : "LLM_BASE_URL and LLM_MODEL are required when LLM_PROVIDER=openai-compatible."
+      });
+    case "scripted":
+      return createScriptedProvider();
+    default:
+      return createOpenRouterProvider(models);
+  }
+}
+
+// The deployment's provider, chosen by LLM_PROVIDER. Callers may pass their own instead.
+export function getLlmProvider(): LlmProvider {
+  cachedProvider ??= createProvider();
+  return cachedProvider;
+}
+
+// The deployment's provider pinned to one model with no fallbacks, so a comparison run
+// can't silently be answered by a different model.
+export function getLlmProviderForModel(model: string): LlmProvider {
+  return createProvider([model]);
+}
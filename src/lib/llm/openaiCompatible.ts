@@ -0,0 +1,166 @@
+import { LlmHttpError, LlmResponseError, type LlmMessage, type LlmProvider, type LlmResult, type LlmUsage } from "./provider";
+
+export type OpenAiCompatibleConfig = {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Tried in order; later entries are fallbacks once a model exhausts its retries.
+  models: string[];
+  headers?: Record<string, string>;
+  // Sends response_format: json_object. Some local servers reject it.
+  jsonMode: boolean;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  // Set when required settings are missing; complete() throws it.
+  unavailableReason?: string | null;
+};
+
+// Credentials and billing problems fail the same way on every model.
+const FATAL_STATUSES = new Set([401, 402, 403]);
+
+const isRetryable = (error: unknown) =>
+  !(error instanceof LlmHttpError) ||
+  error.status === 408 ||
+  error.status === 429 ||
+  error.status >= 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry-After is either delay-seconds or an HTTP date.
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+// Null when the server asks for a longer wait than we allow, so the caller moves to the next model.
+function backoffDelay(config: OpenAiCompatibleConfig, attempt: number, retryAfterMs: number | null): number | null {
+  if (retryAfterMs !== null && retryAfterMs > config.retryMaxMs) {
+    return null;
+  }
+  const ceiling = Math.min(config.retryMaxMs, config.retryBaseMs * Math.pow(2, attempt));
+  const jittered = ceiling / 2 + Math.random() * (ceiling / 2);
+  return Math.max(retryAfterMs ?? 0, jittered);
+}
+
+// Without json_object mode, local models often wrap JSON in a ```json fence.
+function stripCodeFence(content: string): string {
+  const match = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : content;
+}
+
+async function requestCompletion(
+  config: OpenAiCompatibleConfig,
+  model: string,
+  messages: LlmMessage[]
+): Promise<LlmResult> {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      ...config.headers
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      ...(config.jsonMode ? { response_format: { type: "json_object" } } : {}),
+      temperature: 0
+    }),
+    signal: AbortSignal.timeout(config.timeoutMs)
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new LlmHttpError(response.status, parseRetryAfter(response.headers.get("retry-after")), config.name, text);
+  }
+
+  const payload = await response.json();
+  const content = payload?.choices?.[0]?.message?.content;
+  const usage: LlmUsage | null = payload?.usage
+    ? {
+        promptTokens: payload.usage.prompt_tokens ?? 0,
+        completionTokens: payload.usage.completion_tokens ?? 0,
+        totalTokens: payload.usage.total_tokens ?? 0
+      }
+    : null;
+
+  if (!content) {
+    throw new LlmResponseError(`${config.name} returned an empty response.`, usage);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(content));
+  } catch {
+    throw new LlmResponseError(`Unable to parse ${config.name} JSON response: ${content}`, usage);
+  }
+
+  return { response: parsed, usage, model: typeof payload?.model === "string" ? payload.model : model };
+}
+
+export function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig): LlmProvider {
+  const configured = !config.unavailableReason;
+
+  return {
+    name: config.name,
+    model: config.models[0] ?? null,
+    configured,
+    async complete(messages) {
+      if (!configured) {
+        throw new Error(config.unavailableReason ?? `${config.name} provider is not configured.`);
+      }
+
+      const maxRetries = Math.max(config.maxRetries, 0);
+      let lastError: unknown = null;
+
+      for (const model of config.models) {
+        for (let attempt = 0; attempt <= maxRetries; attempt += 1) {
+          try {
+            return await requestCompletion(config, model, messages);
+          } catch (error) {
+            if (error instanceof LlmResponseError) {
+              throw error;
+            }
+            if (error instanceof LlmHttpError && FATAL_STATUSES.has(error.status)) {
+              throw error;
+            }
+            lastError = error;
+            if (!isRetryable(error) || attempt === maxRetries) {
+              break;
+            }
+            const delay = backoffDelay(config, attempt, error instanceof LlmHttpError ? error.retryAfterMs : null);
+            if (delay === null) {
+              break;
+            }
+            console.warn("LLM call failed; retrying", {
+              provider: config.name,
+              model,
+              attempt: attempt + 1,
+              delay_ms: Math.round(delay),
+              error: (error as Error).message
+            });
+            await sleep(delay);
+          }
+        }
+        if (model !== config.models[config.models.length - 1]) {
+          console.warn("LLM model unavailable; trying fallback", {
+            provider: config.name,
+            model,
+            error: (lastError as Error)?.message
+          });
+        }
+      }
+
+      throw lastError instanceof Error ? lastError : new Error(`${config.name} request failed`);
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import { getEnv } from "../env";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible";
+import type { LlmProvider } from "./provider";
+
+// Without models, the configured OPENROUTER_MODEL and its fallbacks are used.
+export function createOpenRouterProvider(models?: string[]): LlmProvider {
+  const env = getEnv();
+  return createOpenAiCompatibleProvider({
+    name: "OpenRouter",
+    baseUrl: env.OPENROUTER_BASE_URL,
+    apiKey: env.OPENROUTER_API_KEY,
+    models: models ?? [env.OPENROUTER_MODEL, ...env.OPENROUTER_FALLBACK_MODELS],
+    headers: {
+      "HTTP-Referer": "https://lead-score-genius.local",
+      "X-Title": "Lead Score Genius"
+    },
+    jsonMode: true,
+    timeoutMs: env.OPENROUTER_TIMEOUT_MS,
+    maxRetries: env.OPENROUTER_MAX_RETRIES,
+    retryBaseMs: env.OPENROUTER_RETRY_BASE_MS,
+    retryMaxMs: env.OPENROUTER_RETRY_MAX_MS,
+    unavailableReason: env.OPENROUTER_API_KEY
+      ? null
+      : "OPENROUTER_API_KEY is not set. Add it to .env.local or use rules-only scoring."
+  });
+}
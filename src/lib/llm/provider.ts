@@ -0,0 +1,51 @@
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type LlmResult = {
+  // Parsed JSON content of the reply.
+  response: unknown;
+  usage: LlmUsage | null;
+  // The model that actually answered, which may be a fallback.
+  model: string;
+};
+
+export type LlmProvider = {
+  name: string;
+  // The model asked first; an answer may still come from a fallback.
+  model: string | null;
+  // False when required settings (e.g. an API key) are missing. Optional LLM steps are skipped.
+  configured: boolean;
+  complete(messages: LlmMessage[]): Promise<LlmResult>;
+};
+
+// The call succeeded (and spent tokens) but the content was empty or not JSON.
+export class LlmResponseError extends Error {
+  usage: LlmUsage | null;
+
+  constructor(message: string, usage: LlmUsage | null) {
+    super(message);
+    this.name = "LlmResponseError";
+    this.usage = usage;
+  }
+}
+
+// The provider answered with a non-2xx status.
+export class LlmHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly retryAfterMs: number | null,
+    provider: string,
+    body: string
+  ) {
+    super(`${provider} request failed (${status}): ${body}`);
+    this.name = "LlmHttpError";
+  }
+}
@@ -0,0 +1,63 @@
+import type { LlmMessage, LlmProvider } from "./provider";
+
+export type ScriptedReply = unknown | ((messages: LlmMessage[]) => unknown);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Answers shaped like the scorer and cleaner contracts: every model factor in `signals`
+// scores 5, and cleaner payloads are echoed back unchanged.
+export function defaultScriptedReply(messages: LlmMessage[]): unknown {
+  const last = messages[messages.length - 1];
+  let input: unknown = null;
+  try {
+    input = last ? JSON.parse(last.content) : null;
+  } catch {
+    return {};
+  }
+  if (!isRecord(input)) {
+    return {};
+  }
+
+  if (Array.isArray(input.leads)) {
+    return {
+      results: input.leads.filter(isRecord).map((entry) => {
+        const lead = isRecord(entry.lead) ? entry.lead : {};
+        const signals = isRecord(entry.signals) ? entry.signals : {};
+        return {
+          lead_id: lead.lead_id,
+          industry: lead.industry ?? "default",
+          scores: Object.fromEntries(Object.keys(signals).map((id) => [id, 5])),
+          reasoning: "Scripted provider response."
+        };
+      })
+    };
+  }
+
+  return {
+    company: input.company ?? "",
+    website: input.website ?? "",
+    email: input.email ?? "",
+    phone: input.phone ?? "",
+    maps_url: ""
+  };
+}
+
+// Replays `script` in order, then falls back to `defaultScriptedReply`. Makes no network calls
+// and reports no token usage, for demos and offline runs.
+export function createScriptedProvider(script: ScriptedReply[] = []): LlmProvider {
+  const queue = [...script];
+  return {
+    name: "scripted",
+    model: "scripted",
+    configured: true,
+    async complete(messages) {
+      const next = queue.length > 0 ? queue.shift() : defaultScriptedReply;
+      const response = typeof next === "function" ? (next as (input: LlmMessage[]) => unknown)(messages) : next;
+      if (response instanceof Error) {
+        throw response;
+      }
+      return { response, usage: null, model: "scripted" };
+    }
+  };
+}
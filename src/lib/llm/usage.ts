@@ -0,0 +1,39 @@
+import type { LlmUsage } from "./provider";
+
+// Splits a token count in proportion to the weights using largest remainders, so the parts
+// always add up to the total. All-zero weights split evenly.
+export function allocateTokens(total: number, weights: number[]): number[] {
+  if (weights.length === 0) {
+    return [];
+  }
+  const safe = weights.map((weight) => (Number.isFinite(weight) && weight > 0 ? weight : 0));
+  const sum = safe.reduce((acc, weight) => acc + weight, 0);
+  const shares = sum > 0 ? safe.map((weight) => (total * weight) / sum) : safe.map(() => total / safe.length);
+
+  const parts = shares.map((share) => Math.floor(share));
+  let remainder = total - parts.reduce((acc, part) => acc + part, 0);
+  const byFraction = shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (let i = 0; remainder > 0; i = (i + 1) % byFraction.length) {
+    parts[byFraction[i].index] += 1;
+    remainder -= 1;
+  }
+  return parts;
+}
+
+// Attributes one call's usage to the leads it covered. Prompt tokens follow each lead's
+// share of the request and completion tokens its share of the reply. Total tokens are
+// prompt plus completion per lead, with any extra the provider reports (reasoning
+// tokens) spread the same way.
+export function attributeUsage(usage: LlmUsage, promptWeights: number[], completionWeights: number[]): LlmUsage[] {
+  const prompt = allocateTokens(usage.promptTokens, promptWeights);
+  const completion = allocateTokens(usage.completionTokens, completionWeights);
+  const combined = prompt.map((value, index) => value + completion[index]);
+  const extra = allocateTokens(Math.max(usage.totalTokens - usage.promptTokens - usage.completionTokens, 0), combined);
+  return prompt.map((value, index) => ({
+    promptTokens: value,
+    completionTokens: completion[index],
+    totalTokens: combined[index] + extra[index]
+  }));
+}
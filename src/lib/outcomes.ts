@@ -0,0 +1,244 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { LeadOutcome } from "@/lib/types";
+
+export class OutcomeValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutcomeValidationError";
+  }
+}
+
+export const LEAD_OUTCOMES: ReadonlyArray<{ id: LeadOutcome; label: string }> = [
+  { id: "contacted", label: "Contacted" },
+  { id: "meeting_booked", label: "Meeting booked" },
+  { id: "won", label: "Won" },
+  { id: "lost", label: "Lost" },
+  { id: "bad_data", label: "Bad data" }
+];
+
+const MAX_NOTE_LENGTH = 2000;
+const LOOKUP_CHUNK_SIZE = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type OutcomeRow = {
+  id: string;
+  run_id: string;
+  user_id: string | null;
+  outcome: LeadOutcome;
+  note: string | null;
+  source: "ui" | "import";
+  occurred_at: string;
+  created_at: string;
+};
+
+export type OutcomeEvent = {
+  id: string;
+  runId: string;
+  outcome: LeadOutcome;
+  note: string | null;
+  source: "ui" | "import";
+  occurredAt: number;
+};
+
+// Either runId or leadId; a lead id resolves to the user's latest run for that lead.
+export type OutcomeInput = {
+  runId?: string | null;
+  leadId?: string | null;
+  outcome: unknown;
+  note?: unknown;
+  occurredAt?: unknown;
+};
+
+export type OutcomeRecordResult = {
+  recorded: number;
+  // Lead or run ids with no saved run for this user.
+  unmatched: string[];
+  invalid: Array<{ row: number; error: string }>;
+};
+
+function toEvent(row: OutcomeRow): OutcomeEvent {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    outcome: row.outcome,
+    note: row.note,
+    source: row.source,
+    occurredAt: new Date(row.occurred_at).getTime()
+  };
+}
+
+// Accepts ids and labels in any case or spacing: "Meeting booked", "meeting-booked", "WON".
+export function parseOutcome(value: unknown): LeadOutcome | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase().replace(/[^a-z]+/g, "_").replace(/^_+|_+$/g, "");
+  return LEAD_OUTCOMES.find((outcome) => outcome.id === normalized)?.id ?? null;
+}
+
+function validateInput(input: OutcomeInput): { outcome: LeadOutcome; note: string | null; occurredAt: string } {
+  const outcome = parseOutcome(input.outcome);
+  if (!outcome) {
+    throw new OutcomeValidationError(
+      `Outcome must be one of: ${LEAD_OUTCOMES.map((option) => option.id).join(", ")}`
+    );
+  }
+
+  let note: string | null = null;
+  if (input.note !== undefined && input.note !== null && input.note !== "") {
+    if (typeof input.note !== "string") {
+      throw new OutcomeValidationError("note must be a string");
+    }
+    note = input.note.trim().slice(0, MAX_NOTE_LENGTH) || null;
+  }
+
+  let occurredAt = new Date();
+  if (input.occurredAt !== undefined && input.occurredAt !== null && input.occurredAt !== "") {
+    occurredAt = new Date(String(input.occurredAt));
+    if (Number.isNaN(occurredAt.getTime())) {
+      throw new OutcomeValidationError(`Invalid outcome date: ${String(input.occurredAt)}`);
+    }
+  }
+
+  return { outcome, note, occurredAt: occurredAt.toISOString() };
+}
+
+async function resolveRunIds(
+  client: SupabaseClient,
+  userId: string,
+  column: "id" | "lead_id",
+  values: string[]
+): Promise<Map<string, string>> {
+  const runIds = new Map<string, string>();
+  for (let offset = 0; offset < values.length; offset += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from("lead_runs")
+      .select("id, lead_id")
+      .eq("user_id", userId)
+      .in(column, values.slice(offset, offset + LOOKUP_CHUNK_SIZE))
+      .order("created_at", { ascending: false })
+      .returns<Array<{ id: string; lead_id: string }>>();
+
+    if (error) {
+      console.error("Failed to match outcomes to lead runs", { userId }, error);
+      throw new Error(error.message ?? "Failed to match outcomes to lead runs");
+    }
+    // Newest first, so the first run seen per lead id is its latest.
+    for (const run of data ?? []) {
+      const key = column === "id" ? run.id : run.lead_id;
+      if (!runIds.has(key)) {
+        runIds.set(key, run.id);
+      }
+    }
+  }
+  return runIds;
+}
+
+// Invalid entries are reported by index and skipped; the rest are recorded together.
+export async function recordOutcomes(
+  client: SupabaseClient,
+  userId: string,
+  inputs: OutcomeInput[],
+  source: "ui" | "import"
+): Promise<OutcomeRecordResult> {
+  const invalid: OutcomeRecordResult["invalid"] = [];
+  const valid: Array<{ ref: { column: "id" | "lead_id"; value: string } } & ReturnType<typeof validateInput>> = [];
+
+  inputs.forEach((input, index) => {
+    try {
+      const runId = typeof input.runId === "string" ? input.runId.trim() : "";
+      const leadId = typeof input.leadId === "string" ? input.leadId.trim() : "";
+      if (!runId && !leadId) {
+        throw new OutcomeValidationError("A run id or lead id is required");
+      }
+      if (runId && !UUID_PATTERN.test(runId)) {
+        throw new OutcomeValidationError(`Invalid run id: ${runId}`);
+      }
+      valid.push({
+        ref: runId ? { column: "id", value: runId } : { column: "lead_id", value: leadId },
+        ...validateInput(input)
+      });
+    } catch (error) {
+      if (!(error instanceof OutcomeValidationError)) {
+        throw error;
+      }
+      invalid.push({ row: index + 1, error: error.message });
+    }
+  });
+
+  const idsFor = (column: "id" | "lead_id") =>
+    Array.from(new Set(valid.filter((entry) => entry.ref.column === column).map((entry) => entry.ref.value)));
+  const [byRunId, byLeadId] = await Promise.all([
+    resolveRunIds(client, userId, "id", idsFor("id")),
+    resolveRunIds(client, userId, "lead_id", idsFor("lead_id"))
+  ]);
+
+  const unmatched = new Set<string>();
+  const rows = valid.flatMap((entry) => {
+    const runId = (entry.ref.column === "id" ? byRunId : byLeadId).get(entry.ref.value);
+    if (!runId) {
+      unmatched.add(entry.ref.value);
+      return [];
+    }
+    return [
+      {
+        run_id: runId,
+        user_id: userId,
+        outcome: entry.outcome,
+        note: entry.note,
+        source,
+        occurred_at: entry.occurredAt
+      }
+    ];
+  });
+
+  if (rows.length > 0) {
+    const { error } = await client.from("lead_run_outcomes").insert(rows);
+    if (error) {
+      console.error("Failed to record outcomes", { userId }, error);
+      throw new Error(error.message ?? "Failed to record outcomes");
+    }
+  }
+
+  return { recorded: rows.length, unmatched: Array.from(unmatched), invalid };
+}
+
+export async function listOutcomes(client: SupabaseClient, runId: string, userId: string): Promise<OutcomeEvent[]> {
+  const { data, error } = await client
+    .from("lead_run_outcomes")
+    .select("*")
+    .eq("run_id", runId)
+    .eq("user_id", userId)
+    .order("occurred_at", { ascending: false })
+    .returns<OutcomeRow[]>();
+
+  if (error) {
+    console.error("Failed to list outcomes", { runId }, error);
+    throw new Error(error.message ?? "Failed to list outcomes");
+  }
+  return (data ?? []).map(toEvent);
+}
+
+export async function listUserOutcomes(client: SupabaseClient, userId: string): Promise<OutcomeEvent[]> {
+  const events: OutcomeEvent[] = [];
+  const pageSize = 1000;
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await client
+      .from("lead_run_outcomes")
+      .select("*")
+      .eq("user_id", userId)
+      .order("occurred_at", { ascending: true })
+      .range(offset, offset + pageSize - 1)
+      .returns<OutcomeRow[]>();
+
+    if (error) {
+      console.error("Failed to list outcomes", { userId }, error);
+      throw new Error(error.message ?? "Failed to list outcomes");
+    }
+    events.push(...(data ?? []).map(toEvent));
+    if (!data || data.length < pageSize) {
+      return events;
+    }
+  }
+}
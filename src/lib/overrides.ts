@@ -0,0 +1,393 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { computeFinalScore } from "@/lib/ai/scoring";
+import { resolveBand } from "@/lib/bands";
+import { escapeCsv } from "@/lib/csv";
+import { normalizeFactorScores } from "@/lib/factors";
+import type { LeadRunRow } from "@/lib/leadRuns";
+import type { FactorScores, InterpretationBand, LeadRunOverride } from "@/lib/types";
+
+export class OverrideValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OverrideValidationError";
+  }
+}
+
+const MAX_REASON_LENGTH = 2000;
+const EXPORT_PAGE_SIZE = 1000;
+
+type OverrideAuditRow = {
+  id: string;
+  run_id: string;
+  user_id: string | null;
+  action: "set" | "cleared";
+  interpretation: string | null;
+  scores: FactorScores | null;
+  final_score: number | null;
+  reason: string;
+  previous: LeadRunOverride | null;
+  created_at: string;
+};
+
+export type OverrideAuditEntry = {
+  id: string;
+  action: "set" | "cleared";
+  interpretation: string | null;
+  scores: FactorScores | null;
+  finalScore: number | null;
+  reason: string;
+  previous: LeadRunOverride | null;
+  createdBy: string | null;
+  createdAt: number;
+};
+
+export type OverrideInput = {
+  interpretation?: unknown;
+  scores?: unknown;
+  reason?: unknown;
+};
+
+function toAuditEntry(row: OverrideAuditRow): OverrideAuditEntry {
+  return {
+    id: row.id,
+    action: row.action,
+    interpretation: row.interpretation,
+    scores: row.scores,
+    finalScore: row.final_score === null ? null : Number(row.final_score),
+    reason: row.reason,
+    previous: row.previous,
+    createdBy: row.user_id,
+    createdAt: new Date(row.created_at).getTime()
+  };
+}
+
+function validateReason(raw: unknown): string {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    throw new OverrideValidationError("A reason is required");
+  }
+  const reason = raw.trim();
+  if (reason.length > MAX_REASON_LENGTH) {
+    throw new OverrideValidationError(`Reason must be at most ${MAX_REASON_LENGTH} characters`);
+  }
+  return reason;
+}
+
+// Factor scores must be whole numbers 0-10 for factors the run actually scored or weighted.
+function validateScores(raw: unknown, run: Pick<LeadRunRow, "scores" | "weights">): FactorScores | null {
+  if (raw === undefined || raw === null) {
+    return null;
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new OverrideValidationError("scores must be an object of factor id to score");
+  }
+  const known = new Set([...Object.keys(normalizeFactorScores(run.scores)), ...Object.keys(run.weights ?? {})]);
+  const scores: FactorScores = {};
+  for (const [factorId, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!known.has(factorId)) {
+      throw new OverrideValidationError(`Factor "${factorId}" was not scored in this run`);
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 10) {
+      throw new OverrideValidationError(`Score for ${factorId} must be a whole number from 0 to 10`);
+    }
+    scores[factorId] = value;
+  }
+  return Object.keys(scores).length > 0 ? scores : null;
+}
+
+// Factor overrides recompute the final score with the run's stored weights. Without an
+// explicit interpretation, the band follows the recomputed score.
+export function buildOverride(
+  run: Pick<LeadRunRow, "scores" | "weights" | "final_score" | "interpretation">,
+  input: OverrideInput,
+  bands: InterpretationBand[],
+  userId: string
+): Omit<LeadRunOverride, "id" | "created_at"> {
+  const reason = validateReason(input.reason);
+  const scores = validateScores(input.scores, run);
+
+  let interpretation: string | null = null;
+  if (input.interpretation !== undefined && input.interpretation !== null && input.interpretation !== "") {
+    if (typeof input.interpretation !== "string" || !bands.some((band) => band.label === input.interpretation)) {
+      throw new OverrideValidationError(
+        `Interpretation must be one of: ${bands.map((band) => band.label).join(", ")}`
+      );
+    }
+    interpretation = input.interpretation;
+  }
+
+  if (!scores && !interpretation) {
+    throw new OverrideValidationError("Override at least one factor score or the interpretation");
+  }
+
+  const finalScore = scores
+    ? computeFinalScore({ ...normalizeFactorScores(run.scores), ...scores }, run.weights)
+    : Number(run.final_score);
+  const band = interpretation
+    ? bands.find((candidate) => candidate.label === interpretation) ?? null
+    : resolveBand(finalScore, bands);
+
+  return {
+    scores,
+    final_score: finalScore,
+    interpretation: interpretation ?? band?.label ?? run.interpretation,
+    band,
+    reason,
+    created_by: userId
+  };
+}
+
+async function loadRun(client: SupabaseClient, runId: string, userId: string): Promise<LeadRunRow | null> {
+  const { data, error } = await client
+    .from("lead_runs")
+    .select("*")
+    .eq("id", runId)
+    .eq("user_id", userId)
+    .maybeSingle<LeadRunRow>();
+
+  if (error) {
+    console.error("Failed to load lead run for override", { runId }, error);
+    throw new Error(error.message ?? "Failed to load lead run");
+  }
+  return data;
+}
+
+async function appendAudit(
+  client: SupabaseClient,
+  entry: Omit<OverrideAuditRow, "id" | "created_at">
+): Promise<OverrideAuditRow> {
+  const { data, error } = await client
+    .from("lead_run_overrides")
+    .insert(entry)
+    .select("*")
+    .single<OverrideAuditRow>();
+
+  if (error || !data) {
+    console.error("Failed to record override audit entry", { runId: entry.run_id }, error);
+    throw new Error(error?.message ?? "Failed to record override");
+  }
+  return data;
+}
+
+// The audit entry is written first so no override is ever applied without one.
+export async function setLeadRunOverride(
+  client: SupabaseClient,
+  runId: string,
+  userId: string,
+  input: OverrideInput,
+  bands: InterpretationBand[]
+): Promise<LeadRunOverride | null> {
+  const run = await loadRun(client, runId, userId);
+  if (!run) {
+    return null;
+  }
+
+  const draft = buildOverride(run, input, bands, userId);
+  const audit = await appendAudit(client, {
+    run_id: runId,
+    user_id: userId,
+    action: "set",
+    interpretation: draft.interpretation,
+    scores: draft.scores,
+    final_score: draft.final_score,
+    reason: draft.reason,
+    previous: run.override
+  });
+
+  const override: LeadRunOverride = { ...draft, id: audit.id, created_at: audit.created_at };
+  const { error } = await client.from("lead_runs").update({ override }).eq("id", runId).eq("user_id", userId);
+  if (error) {
+    console.error("Failed to apply override", { runId }, error);
+    throw new Error(error.message ?? "Failed to apply override");
+  }
+  return override;
+}
+
+// Returns false when the run doesn't exist or has no override.
+export async function clearLeadRunOverride(
+  client: SupabaseClient,
+  runId: string,
+  userId: string,
+  rawReason: unknown
+): Promise<boolean> {
+  const reason = validateReason(rawReason);
+  const run = await loadRun(client, runId, userId);
+  if (!run?.override) {
+    return false;
+  }
+
+  await appendAudit(client, {
+    run_id: runId,
+    user_id: userId,
+    action: "cleared",
+    interpretation: null,
+    scores: null,
+    final_score: null,
+    reason,
+    previous: run.override
+  });
+
+  const { error } = await client.from("lead_runs").update({ override: null }).eq("id", runId).eq("user_id", userId);
+  if (error) {
+    console.error("Failed to clear override", { runId }, error);
+    throw new Error(error.message ?? "Failed to clear override");
+  }
+  return true;
+}
+
+export async function listOverrideHistory(
+  client: SupabaseClient,
+  runId: string,
+  userId: string
+): Promise<OverrideAuditEntry[]> {
+  const { data, error } = await client
+    .from("lead_run_overrides")
+    .select("*")
+    .eq("run_id", runId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .returns<OverrideAuditRow[]>();
+
+  if (error) {
+    console.error("Failed to list override history", { runId }, error);
+    throw new Error(error.message ?? "Failed to list override history");
+  }
+  return (data ?? []).map(toAuditEntry);
+}
+
+type EnrichedLead = NonNullable<LeadRunRow["enriched"]>;
+
+// One example per overridden run: what the scorer saw, what it answered, and the correction.
+export type OverrideLabel = {
+  run_id: string;
+  lead_id: string;
+  company: string;
+  industry: string | null;
+  scored_at: string;
+  input: {
+    cleaned: EnrichedLead["cleaned"] | null;
+    reviews: Pick<EnrichedLead["reviews"], "averageRating" | "reviewCount"> | null;
+    website: EnrichedLead["website"];
+  };
+  model: {
+    scores: FactorScores;
+    final_score: number;
+    interpretation: string;
+    reasoning: string;
+    scoring_mode: LeadRunRow["scoring_mode"];
+    weights: Record<string, number>;
+    weight_profile: LeadRunRow["weight_profile"];
+    prompt_versions: LeadRunRow["prompt_versions"];
+  };
+  label: {
+    scores: FactorScores;
+    final_score: number;
+    interpretation: string;
+    reason: string;
+    overridden_at: string;
+  };
+};
+
+export function toOverrideLabel(run: LeadRunRow & { override: LeadRunOverride }): OverrideLabel {
+  const modelScores = normalizeFactorScores(run.scores);
+  return {
+    run_id: run.id,
+    lead_id: run.lead_id,
+    company: run.company,
+    industry: run.industry,
+    scored_at: run.created_at,
+    input: {
+      cleaned: run.enriched?.cleaned ?? null,
+      reviews: run.enriched?.reviews
+        ? { averageRating: run.enriched.reviews.averageRating, reviewCount: run.enriched.reviews.reviewCount }
+        : null,
+      website: run.enriched?.website ?? null
+    },
+    model: {
+      scores: modelScores,
+      final_score: Number(run.final_score),
+      interpretation: run.interpretation,
+      reasoning: run.reasoning,
+      scoring_mode: run.scoring_mode,
+      weights: run.weights,
+      weight_profile: run.weight_profile,
+      prompt_versions: run.prompt_versions
+    },
+    label: {
+      scores: { ...modelScores, ...(run.override.scores ?? {}) },
+      final_score: Number(run.override.final_score),
+      interpretation: run.override.interpretation,
+      reason: run.override.reason,
+      overridden_at: run.override.created_at
+    }
+  };
+}
+
+export async function listOverrideLabels(client: SupabaseClient, userId: string): Promise<OverrideLabel[]> {
+  const labels: OverrideLabel[] = [];
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const { data, error } = await client
+      .from("lead_runs")
+      .select("*")
+      .eq("user_id", userId)
+      .not("override", "is", null)
+      .order("created_at", { ascending: true })
+      .range(offset, offset + EXPORT_PAGE_SIZE - 1)
+      .returns<Array<LeadRunRow & { override: LeadRunOverride }>>();
+
+    if (error) {
+      console.error("Failed to export override labels", { userId }, error);
+      throw new Error(error.message ?? "Failed to export override labels");
+    }
+    labels.push(...(data ?? []).map(toOverrideLabel));
+    if (!data || data.length < EXPORT_PAGE_SIZE) {
+      return labels;
+    }
+  }
+}
+
+// Flat form of the labels for spreadsheets; the enrichment inputs only survive in JSONL.
+export function overrideLabelsToCsv(labels: OverrideLabel[]): string {
+  const factorIds = Array.from(
+    new Set(labels.flatMap((label) => [...Object.keys(label.model.scores), ...Object.keys(label.label.scores)]))
+  ).sort();
+  const headers = [
+    "run_id",
+    "lead_id",
+    "company",
+    "industry",
+    "scored_at",
+    "scoring_mode",
+    "weight_profile",
+    "model_final_score",
+    "model_interpretation",
+    "label_final_score",
+    "label_interpretation",
+    "reason",
+    "overridden_at",
+    ...factorIds.flatMap((id) => [`model_${id}`, `label_${id}`])
+  ];
+  const format = (value: unknown) => escapeCsv(value === null || value === undefined ? "" : String(value));
+
+  const rows = labels.map((label) =>
+    [
+      label.run_id,
+      label.lead_id,
+      label.company,
+      label.industry,
+      label.scored_at,
+      label.model.scoring_mode,
+      label.model.weight_profile?.name,
+      label.model.final_score,
+      label.model.interpretation,
+      label.label.final_score,
+      label.label.interpretation,
+      label.label.reason,
+      label.label.overridden_at,
+      ...factorIds.flatMap((id) => [label.model.scores[id], label.label.scores[id]])
+    ]
+      .map(format)
+      .join(",")
+  );
+  return [headers.join(","), ...rows].join("\n");
+}
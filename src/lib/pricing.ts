@@ -0,0 +1,86 @@
+// USD per million tokens.
+export type ModelPrice = {
+  prompt: number;
+  completion: number;
+};
+
+// OpenRouter list prices. Override or extend with MODEL_PRICES_JSON, e.g.
+// {"openai/gpt-5": {"prompt": 1.25, "completion": 10}, "local/llama": {"prompt": 0, "completion": 0}}.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "openai/gpt-5": { prompt: 1.25, completion: 10 },
+  "openai/gpt-5-mini": { prompt: 0.25, completion: 2 },
+  "openai/gpt-5-nano": { prompt: 0.05, completion: 0.4 },
+  "openai/gpt-4.1": { prompt: 2, completion: 8 },
+  "openai/gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "openai/gpt-4o": { prompt: 2.5, completion: 10 },
+  "openai/gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "anthropic/claude-sonnet-4": { prompt: 3, completion: 15 },
+  "anthropic/claude-3.5-haiku": { prompt: 0.8, completion: 4 },
+  "google/gemini-2.5-flash": { prompt: 0.3, completion: 2.5 },
+  "google/gemini-2.5-pro": { prompt: 1.25, completion: 10 },
+  scripted: { prompt: 0, completion: 0 }
+};
+
+const isPrice = (value: unknown): value is ModelPrice =>
+  typeof value === "object" &&
+  value !== null &&
+  Number.isFinite((value as ModelPrice).prompt) &&
+  Number.isFinite((value as ModelPrice).completion);
+
+function loadPriceTable(): Record<string, ModelPrice> {
+  const table = { ...DEFAULT_MODEL_PRICES };
+  const raw = process.env.MODEL_PRICES_JSON;
+  if (!raw) {
+    return table;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    for (const [model, price] of Object.entries(parsed)) {
+      if (isPrice(price)) {
+        table[model.toLowerCase()] = { prompt: price.prompt, completion: price.completion };
+      } else {
+        console.warn("Ignoring invalid MODEL_PRICES_JSON entry", { model });
+      }
+    }
+  } catch (error) {
+    console.error("Failed to parse MODEL_PRICES_JSON; using default prices", error);
+  }
+  return table;
+}
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+// Providers often answer with a dated variant (openai/gpt-5-2025-08-07), so the longest
+// table key that prefixes the model name wins.
+export function getModelPrice(model: string | null | undefined): ModelPrice | null {
+  if (!model) {
+    return null;
+  }
+  cachedPrices ??= loadPriceTable();
+  const normalized = model.trim().toLowerCase();
+  if (cachedPrices[normalized]) {
+    return cachedPrices[normalized];
+  }
+
+  let match: string | null = null;
+  for (const key of Object.keys(cachedPrices)) {
+    if (normalized.startsWith(`${key}-`) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match ? cachedPrices[match] : null;
+}
+
+// Null when the model has no known price, so unpriced spend isn't reported as $0.
+export function computeCostUsd(
+  model: string | null | undefined,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  const price = getModelPrice(model);
+  if (!price) {
+    return null;
+  }
+  const cost = (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+  return Number(cost.toFixed(6));
+}
@@ -0,0 +1,345 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { BUILTIN_PROMPTS, isBuiltinPromptId, type PromptTemplate } from "@/lib/ai/prompts";
+import { getFactor } from "@/lib/factors";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+import type { PromptKind } from "@/lib/types";
+
+const MAX_PROMPT_LENGTH = 20000;
+const PROMPT_KINDS: ReadonlyArray<PromptKind> = ["score", "clean"];
+
+export class PromptVersionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptVersionValidationError";
+  }
+}
+
+type PromptVersionRow = {
+  id: string;
+  user_id: string | null;
+  kind: PromptKind;
+  version: number;
+  name: string;
+  system_prompt: string;
+  guidance: Record<string, string> | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PromptVersionInput = {
+  kind?: unknown;
+  name?: unknown;
+  system?: unknown;
+  guidance?: unknown;
+  isActive?: boolean;
+};
+
+export type PromptVersionDetail = PromptTemplate & {
+  isActive: boolean;
+  createdAt: number | null;
+};
+
+function requireClient(): SupabaseClient {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error("Supabase client not configured");
+  }
+  return client;
+}
+
+export function parsePromptKind(value: unknown): PromptKind {
+  if (!PROMPT_KINDS.includes(value as PromptKind)) {
+    throw new PromptVersionValidationError('Prompt kind must be "score" or "clean"');
+  }
+  return value as PromptKind;
+}
+
+function validateName(raw: unknown): string {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    throw new PromptVersionValidationError("Prompt name is required");
+  }
+  return raw.trim();
+}
+
+function validateSystem(raw: unknown): string {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    throw new PromptVersionValidationError("System prompt is required");
+  }
+  if (raw.length > MAX_PROMPT_LENGTH) {
+    throw new PromptVersionValidationError(`System prompt must be under ${MAX_PROMPT_LENGTH} characters`);
+  }
+  return raw.trim();
+}
+
+function validateGuidance(raw: unknown, kind: PromptKind): Record<string, string> {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new PromptVersionValidationError("Guidance must be an object keyed by factor id");
+  }
+
+  const guidance: Record<string, string> = {};
+  for (const [factor, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value !== "string" || value.trim() === "") {
+      continue;
+    }
+    if (kind !== "score") {
+      throw new PromptVersionValidationError("Only scoring prompts accept factor guidance");
+    }
+    if (!getFactor(factor)) {
+      throw new PromptVersionValidationError(`Unknown scoring factor "${factor}"`);
+    }
+    guidance[factor] = value.trim();
+  }
+  return guidance;
+}
+
+function toDetail(row: PromptVersionRow): PromptVersionDetail {
+  return {
+    id: row.id,
+    kind: row.kind,
+    version: row.version,
+    name: row.name,
+    system: row.system_prompt,
+    guidance: row.guidance ?? {},
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at).getTime()
+  };
+}
+
+function builtinDetail(kind: PromptKind, isActive: boolean): PromptVersionDetail {
+  return { ...BUILTIN_PROMPTS[kind], isActive, createdAt: null };
+}
+
+export async function listPromptVersions(userId: string): Promise<PromptVersionDetail[]> {
+  if (!userId) {
+    return [];
+  }
+
+  const client = requireClient();
+  const { data, error } = await client
+    .from("prompt_versions")
+    .select("*")
+    .eq("user_id", userId)
+    .order("kind", { ascending: true })
+    .order("version", { ascending: false })
+    .returns<PromptVersionRow[]>();
+
+  if (error) {
+    console.error("Failed to list prompt versions", { userId }, error);
+    throw new Error(error.message ?? "Failed to list prompt versions");
+  }
+
+  return (data ?? []).map(toDetail);
+}
+
+export async function getPromptVersion(
+  promptId: string,
+  userId: string | null
+): Promise<PromptVersionDetail | null> {
+  if (isBuiltinPromptId(promptId)) {
+    return builtinDetail(promptId === BUILTIN_PROMPTS.score.id ? "score" : "clean", false);
+  }
+  if (!userId) {
+    return null;
+  }
+
+  const client = requireClient();
+  const { data, error } = await client
+    .from("prompt_versions")
+    .select("*")
+    .eq("id", promptId)
+    .eq("user_id", userId)
+    .maybeSingle<PromptVersionRow>();
+
+  if (error) {
+    console.error("Failed to load prompt version", { promptId }, error);
+    throw new Error(error.message ?? "Failed to load prompt version");
+  }
+
+  return data ? toDetail(data) : null;
+}
+
+export async function getActivePrompt(userId: string | null, kind: PromptKind): Promise<PromptVersionDetail> {
+  if (!userId) {
+    return builtinDetail(kind, true);
+  }
+
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    return builtinDetail(kind, true);
+  }
+
+  const { data, error } = await client
+    .from("prompt_versions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("kind", kind)
+    .eq("is_active", true)
+    .maybeSingle<PromptVersionRow>();
+
+  if (error) {
+    console.error("Failed to load active prompt; using built-in", { userId, kind }, error);
+    return builtinDetail(kind, true);
+  }
+
+  return data ? toDetail(data) : builtinDetail(kind, true);
+}
+
+// Without a pin the active prompt applies. A pinned id must exist, belong to the user, and match the kind.
+export async function resolvePrompt(
+  userId: string | null,
+  kind: PromptKind,
+  pinnedId?: string | null
+): Promise<PromptTemplate> {
+  if (!pinnedId) {
+    return getActivePrompt(userId, kind);
+  }
+
+  const pinned = await getPromptVersion(pinnedId, userId);
+  if (!pinned) {
+    throw new PromptVersionValidationError(`Prompt version ${pinnedId} was not found`);
+  }
+  if (pinned.kind !== kind) {
+    throw new PromptVersionValidationError(`Prompt version ${pinnedId} is a ${pinned.kind} prompt, not ${kind}`);
+  }
+  return pinned;
+}
+
+async function deactivateOthers(client: SupabaseClient, userId: string, kind: PromptKind, keepId: string | null) {
+  let query = client
+    .from("prompt_versions")
+    .update({ is_active: false })
+    .eq("user_id", userId)
+    .eq("kind", kind)
+    .eq("is_active", true);
+  if (keepId) {
+    query = query.neq("id", keepId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error("Failed to deactivate prompt versions", { userId, kind }, error);
+    throw new Error(error.message ?? "Failed to deactivate prompt versions");
+  }
+}
+
+export async function createPromptVersion(
+  userId: string,
+  input: PromptVersionInput
+): Promise<PromptVersionDetail> {
+  const kind = parsePromptKind(input.kind);
+  const name = validateName(input.name);
+  const system = validateSystem(input.system);
+  const guidance = validateGuidance(input.guidance, kind);
+  const client = requireClient();
+
+  const { data: latest, error: latestError } = await client
+    .from("prompt_versions")
+    .select("version")
+    .eq("user_id", userId)
+    .eq("kind", kind)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle<{ version: number }>();
+
+  if (latestError) {
+    console.error("Failed to load latest prompt version", { userId, kind }, latestError);
+    throw new Error(latestError.message ?? "Failed to load latest prompt version");
+  }
+
+  // The (user_id, kind, version) unique key rejects a concurrent save of the same version.
+  const { data, error } = await client
+    .from("prompt_versions")
+    .insert({
+      user_id: userId,
+      kind,
+      version: (latest?.version ?? 0) + 1,
+      name,
+      system_prompt: system,
+      guidance,
+      is_active: false
+    })
+    .select("*")
+    .single<PromptVersionRow>();
+
+  if (error || !data) {
+    console.error("Failed to create prompt version", { userId, kind }, error);
+    throw new Error(error?.message ?? "Failed to create prompt version");
+  }
+
+  if (input.isActive === true) {
+    const activated = await setPromptVersionActive(data.id, userId, true);
+    if (activated) {
+      return activated;
+    }
+  }
+
+  return toDetail(data);
+}
+
+// Prompt text is immutable; only the active flag changes. Deactivating falls back to the built-in prompt.
+export async function setPromptVersionActive(
+  promptId: string,
+  userId: string,
+  isActive: boolean
+): Promise<PromptVersionDetail | null> {
+  const existing = await getPromptVersion(promptId, userId);
+  if (!existing || isBuiltinPromptId(existing.id)) {
+    return null;
+  }
+
+  const client = requireClient();
+  if (isActive) {
+    await deactivateOthers(client, userId, existing.kind, promptId);
+  }
+
+  const { data, error } = await client
+    .from("prompt_versions")
+    .update({ is_active: isActive })
+    .eq("id", promptId)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle<PromptVersionRow>();
+
+  if (error) {
+    console.error("Failed to update prompt version", { promptId }, error);
+    throw new Error(error.message ?? "Failed to update prompt version");
+  }
+
+  return data ? toDetail(data) : null;
+}
+
+export async function activateBuiltinPrompt(userId: string, kind: PromptKind): Promise<void> {
+  await deactivateOthers(requireClient(), userId, kind, null);
+}
+
+export type PromptVersionPins = Partial<Record<PromptKind, string>>;
+
+export function parsePromptVersionPins(value: unknown): PromptVersionPins {
+  const pins: PromptVersionPins = {};
+  if (!value || typeof value !== "object") {
+    return pins;
+  }
+  for (const kind of PROMPT_KINDS) {
+    const id = (value as Record<string, unknown>)[kind];
+    if (typeof id === "string" && id.trim() !== "") {
+      pins[kind] = id.trim();
+    }
+  }
+  return pins;
+}
+
+// Jobs record the exact prompt ids at enqueue time so a later prompt edit can't change a queued run.
+export async function pinPromptVersions(
+  userId: string | null,
+  requested: PromptVersionPins = {}
+): Promise<Record<PromptKind, string>> {
+  const [score, clean] = await Promise.all(
+    PROMPT_KINDS.map((kind) => resolvePrompt(userId, kind, requested[kind]))
+  );
+  return { score: score.id, clean: clean.id };
+}
@@ -0,0 +1,1011 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+
+import type { CleanLead } from "@/lib/ai/clean";
+import { blendLeadScores, resolveHybridBlend } from "@/lib/ai/hybrid";
+import { toPromptRef } from "@/lib/ai/prompts";
+import { scoreLeadWithRules } from "@/lib/ai/rules";
+import { scoreLeadBatchWithModel, type BatchItem, type WeightProfile } from "@/lib/ai/scoring";
+import { getActiveBandSet } from "@/lib/bandSets";
+import { resolveBand, type BandSet } from "@/lib/bands";
+import type { WebsiteSignals } from "@/lib/enrich/website";
+import { getLlmProvider, getLlmProviderForModel } from "@/lib/llm/config";
+import type { LlmProvider } from "@/lib/llm/provider";
+import { computeCostUsd } from "@/lib/pricing";
+import { PromptVersionValidationError, resolvePrompt } from "@/lib/promptVersions";
+import { parseScoringMode } from "@/lib/scoreLeads";
+import { logTokenUsage, type TokenUsageEntry } from "@/lib/supabase";
+import type {
+  FactorScores,
+  HybridBlend,
+  LeadScoreApiResponse,
+  LeadScoreResponse,
+  PromptKind,
+  PromptRef,
+  ReviewSnapshot,
+  ScoringMode,
+  TokenUsageTotals,
+  WeightProfileRef
+} from "@/lib/types";
+import { getWeightProfile, listWeightProfiles } from "@/lib/weightProfiles";
+
+export class ReplayValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayValidationError";
+  }
+}
+
+const SCORE_BATCH_SIZE = Math.max(Number(process.env.SCORE_BATCH_SIZE ?? "5"), 1);
+const STALE_REPLAY_THRESHOLD_MS = Number(process.env.LEAD_JOB_STALE_MS ?? "60000");
+// Replays this process is running, so the worker can heartbeat and release them.
+const replayAbortControllers = new Map<string, AbortController>();
+// PostgREST caps a select at 1000 rows by default.
+const PAGE_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
+const MAX_NAME_LENGTH = 200;
+const MAX_MODEL_LENGTH = 200;
+
+export type ReplayUsage = TokenUsageTotals & {
+  // Models that answered, in first-seen order. Fallbacks can add more than one.
+  models: string[];
+};
+
+export type SnapshotBaseline = {
+  scoringMode: ScoringMode;
+  hybrid: HybridBlend | null;
+  promptVersionIds: Partial<Record<PromptKind, string>>;
+  // Scoring calls only; cleaning isn't repeated by a replay.
+  usage: ReplayUsage;
+};
+
+// One lead's score as stored on a snapshot item (from the job) or a replay result.
+export type ReplayScore = {
+  final_score: number;
+  interpretation: string;
+  scores: FactorScores;
+  weight_profile: WeightProfileRef | null;
+  // Set when the lead couldn't be scored; final_score is then 0.
+  error?: string;
+};
+
+export type ReplayResultEntry = ReplayScore & {
+  item_index: number;
+  lead_id: string;
+};
+
+export type ReplayConfig = {
+  scoringMode: ScoringMode;
+  hybrid: HybridBlend;
+  // Null uses the deployment's model and its fallbacks.
+  model: string | null;
+  // Null in rules mode.
+  prompt: PromptRef | null;
+  // The profile applied to every lead, or null to match the user's profiles by industry.
+  weightProfile: WeightProfileRef | null;
+  // Profiles as they were when the replay was created.
+  weightProfiles: WeightProfile[];
+  bandSet: Pick<BandSet, "id" | "name" | "bands">;
+};
+
+export type ScoringReplay = {
+  id: string;
+  snapshotId: string;
+  status: "queued" | "running" | "completed" | "failed";
+  config: ReplayConfig;
+  processed: number;
+  usage: ReplayUsage | null;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+  completedAt: number | null;
+};
+
+export type ScoringSnapshot = {
+  id: string;
+  jobId: string | null;
+  name: string;
+  itemCount: number;
+  baseline: SnapshotBaseline;
+  createdAt: number;
+  replays: ScoringReplay[];
+};
+
+export type ReplayInput = {
+  scoringMode?: unknown;
+  model?: unknown;
+  promptVersionId?: unknown;
+  weightProfileId?: unknown;
+};
+
+export type ReplayDiffRow = {
+  itemIndex: number;
+  leadId: string;
+  company: string | null;
+  baseline: { finalScore: number; band: string; error: string | null };
+  // Null until the replay completes.
+  replay: { finalScore: number; band: string; error: string | null } | null;
+  delta: number | null;
+  bandChanged: boolean;
+};
+
+export type ReplayDiff = {
+  rows: ReplayDiffRow[];
+  summary: {
+    // Leads scored successfully on both sides; the stats below cover only these.
+    compared: number;
+    failed: number;
+    bandChanges: number;
+    upgrades: number;
+    downgrades: number;
+    meanDelta: number | null;
+    meanAbsDelta: number | null;
+    maxAbsDelta: number | null;
+  };
+  transitions: Array<{ from: string; to: string; count: number }>;
+  cost: { baseline: ReplayUsage; replay: ReplayUsage | null };
+};
+
+export type SnapshotCandidate = {
+  id: string;
+  total: number;
+  createdAt: number;
+};
+
+type SnapshotRow = {
+  id: string;
+  user_id: string | null;
+  job_id: string | null;
+  name: string;
+  item_count: number;
+  baseline: SnapshotBaseline;
+  created_at: string;
+};
+
+type SnapshotItemRow = {
+  snapshot_id: string;
+  item_index: number;
+  lead_id: string;
+  cleaned: CleanLead;
+  reviews: ReviewSnapshot;
+  website: WebsiteSignals | null;
+  baseline: ReplayScore;
+};
+
+type ReplayRow = {
+  id: string;
+  snapshot_id: string;
+  user_id: string | null;
+  status: ScoringReplay["status"];
+  config: ReplayConfig;
+  processed: number;
+  results: ReplayResultEntry[] | null;
+  usage: ReplayUsage | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+};
+
+type JobRow = {
+  id: string;
+  user_id: string | null;
+  status: string;
+  total: number;
+  metadata: {
+    options?: { scoringMode?: ScoringMode; hybrid?: HybridBlend; promptVersionIds?: Partial<Record<PromptKind, string>> };
+    usage?: { scoring?: TokenUsageTotals } | null;
+  } | null;
+  created_at: string;
+};
+
+const emptyUsage = (): ReplayUsage => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  unpricedTokens: 0,
+  models: []
+});
+
+const addUsage = (
+  usage: ReplayUsage,
+  tokens: { promptTokens: number; completionTokens: number; totalTokens: number },
+  model: string | null,
+  costUsd: number | null
+) => {
+  usage.promptTokens += tokens.promptTokens;
+  usage.completionTokens += tokens.completionTokens;
+  usage.totalTokens += tokens.totalTokens;
+  if (costUsd === null) {
+    usage.unpricedTokens = (usage.unpricedTokens ?? 0) + tokens.totalTokens;
+  } else {
+    usage.costUsd = Number(((usage.costUsd ?? 0) + costUsd).toFixed(6));
+  }
+  if (model && !usage.models.includes(model)) {
+    usage.models.push(model);
+  }
+};
+
+// Everything but `results`, which only the diff and a resuming run read.
+const REPLAY_COLUMNS =
+  "id, snapshot_id, user_id, status, config, processed, usage, error, created_at, updated_at, completed_at";
+
+function toReplay(row: Omit<ReplayRow, "results">): ScoringReplay {
+  return {
+    id: row.id,
+    snapshotId: row.snapshot_id,
+    status: row.status,
+    config: row.config,
+    processed: row.processed,
+    usage: row.usage,
+    error: row.error,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+    completedAt: row.completed_at ? new Date(row.completed_at).getTime() : null
+  };
+}
+
+function toSnapshot(row: SnapshotRow, replays: ReplayRow[]): ScoringSnapshot {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    name: row.name,
+    itemCount: row.item_count,
+    baseline: row.baseline,
+    createdAt: new Date(row.created_at).getTime(),
+    replays: replays.map(toReplay)
+  };
+}
+
+function toReplayScore(score: LeadScoreResponse, error?: string): ReplayScore {
+  return {
+    final_score: score.final_score,
+    interpretation: score.interpretation,
+    scores: score.scores,
+    weight_profile: score.weight_profile ?? null,
+    ...(error ? { error } : {})
+  };
+}
+
+// scoreLeads gives a lead it couldn't score a zero "Scoring failed: ..." result.
+const baselineError = (score: LeadScoreResponse) =>
+  score.reasoning.startsWith("Scoring failed") ? score.reasoning : undefined;
+
+// The job's scoring spend from the per-call usage log, falling back to the job summary
+// for jobs logged before models were recorded.
+async function loadBaselineUsage(client: SupabaseClient, job: JobRow): Promise<ReplayUsage> {
+  const usage = emptyUsage();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from("lead_token_usage")
+      .select("prompt_tokens, completion_tokens, total_tokens, model, cost_usd")
+      .eq("job_id", job.id)
+      .eq("category", "score")
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<
+        Array<{
+          prompt_tokens: number;
+          completion_tokens: number;
+          total_tokens: number;
+          model: string | null;
+          cost_usd: number | string | null;
+        }>
+      >();
+
+    if (error) {
+      console.error("Failed to load job token usage", { jobId: job.id }, error);
+      throw new Error(error.message ?? "Failed to load job token usage");
+    }
+    for (const row of data ?? []) {
+      addUsage(
+        usage,
+        { promptTokens: row.prompt_tokens, completionTokens: row.completion_tokens, totalTokens: row.total_tokens },
+        row.model,
+        row.cost_usd === null ? null : Number(row.cost_usd)
+      );
+    }
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const summary = job.metadata?.usage?.scoring;
+  if (usage.totalTokens === 0 && summary) {
+    return { ...emptyUsage(), ...summary };
+  }
+  return usage;
+}
+
+async function loadSnapshotRow(client: SupabaseClient, snapshotId: string, userId: string): Promise<SnapshotRow | null> {
+  const { data, error } = await client
+    .from("scoring_snapshots")
+    .select("*")
+    .eq("id", snapshotId)
+    .eq("user_id", userId)
+    .maybeSingle<SnapshotRow>();
+
+  if (error) {
+    console.error("Failed to load scoring snapshot", { snapshotId }, error);
+    throw new Error(error.message ?? "Failed to load scoring snapshot");
+  }
+  return data;
+}
+
+async function loadSnapshotItems(client: SupabaseClient, snapshotId: string): Promise<SnapshotItemRow[]> {
+  const items: SnapshotItemRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from("scoring_snapshot_items")
+      .select("*")
+      .eq("snapshot_id", snapshotId)
+      .order("item_index", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<SnapshotItemRow[]>();
+
+    if (error) {
+      console.error("Failed to load scoring snapshot items", { snapshotId }, error);
+      throw new Error(error.message ?? "Failed to load scoring snapshot items");
+    }
+    items.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) {
+      return items;
+    }
+  }
+}
+
+async function loadReplayRows(client: SupabaseClient, snapshotIds: string[]): Promise<ReplayRow[]> {
+  if (snapshotIds.length === 0) {
+    return [];
+  }
+  const { data, error } = await client
+    .from("scoring_replays")
+    .select("id, snapshot_id, user_id, status, config, processed, usage, error, created_at, updated_at, completed_at")
+    .in("snapshot_id", snapshotIds)
+    .order("created_at", { ascending: false })
+    .returns<ReplayRow[]>();
+
+  if (error) {
+    console.error("Failed to list scoring replays", { snapshotIds }, error);
+    throw new Error(error.message ?? "Failed to list scoring replays");
+  }
+  return data ?? [];
+}
+
+// Recent completed jobs owned by the user, newest first.
+export async function listSnapshotCandidates(client: SupabaseClient, userId: string): Promise<SnapshotCandidate[]> {
+  const { data, error } = await client
+    .from("lead_jobs")
+    .select("id, total, created_at")
+    .eq("user_id", userId)
+    .eq("status", "completed")
+    .order("created_at", { ascending: false })
+    .limit(20)
+    .returns<Array<{ id: string; total: number; created_at: string }>>();
+
+  if (error) {
+    console.error("Failed to list snapshot candidates", { userId }, error);
+    throw new Error(error.message ?? "Failed to list jobs");
+  }
+  return (data ?? []).map((job) => ({ id: job.id, total: job.total, createdAt: new Date(job.created_at).getTime() }));
+}
+
+// Copies a completed job's enrichment and scores. Duplicates that took their primary's
+// score and items without a result are left out.
+export async function createSnapshot(
+  client: SupabaseClient,
+  jobId: string,
+  userId: string,
+  name?: unknown
+): Promise<ScoringSnapshot | null> {
+  if (name !== undefined && name !== null && typeof name !== "string") {
+    throw new ReplayValidationError("name must be a string");
+  }
+
+  const { data: job, error: jobError } = await client
+    .from("lead_jobs")
+    .select("id, user_id, status, total, metadata, created_at")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle<JobRow>();
+
+  if (jobError) {
+    console.error("Failed to load job for snapshot", { jobId }, jobError);
+    throw new Error(jobError.message ?? "Failed to load job");
+  }
+  if (!job) {
+    return null;
+  }
+  if (job.status !== "completed") {
+    throw new ReplayValidationError("Only completed jobs can be snapshotted");
+  }
+
+  const items: Array<Omit<SnapshotItemRow, "snapshot_id">> = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from("lead_job_items")
+      .select("item_index, result")
+      .eq("job_id", jobId)
+      .not("result", "is", null)
+      .order("item_index", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<Array<{ item_index: number; result: LeadScoreApiResponse["leads"][number] }>>();
+
+    if (error) {
+      console.error("Failed to load job items for snapshot", { jobId }, error);
+      throw new Error(error.message ?? "Failed to load job items");
+    }
+    for (const { item_index, result } of data ?? []) {
+      if (result.duplicate_of) {
+        continue;
+      }
+      items.push({
+        item_index,
+        lead_id: result.lead.lead_id,
+        cleaned: result.enriched.cleaned,
+        reviews: result.enriched.reviews,
+        website: result.enriched.website,
+        baseline: toReplayScore(result.score, baselineError(result.score))
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  if (items.length === 0) {
+    throw new ReplayValidationError("Job has no scored leads to snapshot");
+  }
+
+  const options = job.metadata?.options ?? {};
+  const baseline: SnapshotBaseline = {
+    scoringMode: options.scoringMode ?? "model",
+    hybrid: options.hybrid ?? null,
+    promptVersionIds: options.promptVersionIds ?? {},
+    usage: await loadBaselineUsage(client, job)
+  };
+  const trimmedName = typeof name === "string" ? name.trim().slice(0, MAX_NAME_LENGTH) : "";
+
+  const { data: snapshot, error: snapshotError } = await client
+    .from("scoring_snapshots")
+    .insert({
+      user_id: userId,
+      job_id: jobId,
+      name: trimmedName || `Job ${jobId.slice(0, 8)} · ${new Date(job.created_at).toISOString().slice(0, 10)}`,
+      item_count: items.length,
+      baseline
+    })
+    .select("*")
+    .single<SnapshotRow>();
+
+  if (snapshotError || !snapshot) {
+    console.error("Failed to create scoring snapshot", { jobId }, snapshotError);
+    throw new Error(snapshotError?.message ?? "Failed to create scoring snapshot");
+  }
+
+  for (let offset = 0; offset < items.length; offset += INSERT_CHUNK_SIZE) {
+    const { error } = await client
+      .from("scoring_snapshot_items")
+      .insert(items.slice(offset, offset + INSERT_CHUNK_SIZE).map((item) => ({ ...item, snapshot_id: snapshot.id })));
+
+    if (error) {
+      console.error("Failed to store scoring snapshot items", { snapshotId: snapshot.id, offset }, error);
+      // Items cascade with the snapshot, so a partial copy doesn't linger.
+      await client.from("scoring_snapshots").delete().eq("id", snapshot.id);
+      throw new Error(error.message ?? "Failed to store scoring snapshot items");
+    }
+  }
+
+  return toSnapshot(snapshot, []);
+}
+
+export async function listSnapshots(client: SupabaseClient, userId: string): Promise<ScoringSnapshot[]> {
+  const { data, error } = await client
+    .from("scoring_snapshots")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .returns<SnapshotRow[]>();
+
+  if (error) {
+    console.error("Failed to list scoring snapshots", { userId }, error);
+    throw new Error(error.message ?? "Failed to list scoring snapshots");
+  }
+
+  const rows = data ?? [];
+  const replays = await loadReplayRows(client, rows.map((row) => row.id));
+  return rows.map((row) => toSnapshot(row, replays.filter((replay) => replay.snapshot_id === row.id)));
+}
+
+export async function getSnapshot(
+  client: SupabaseClient,
+  snapshotId: string,
+  userId: string
+): Promise<ScoringSnapshot | null> {
+  const row = await loadSnapshotRow(client, snapshotId, userId);
+  if (!row) {
+    return null;
+  }
+  return toSnapshot(row, await loadReplayRows(client, [row.id]));
+}
+
+export async function deleteSnapshot(client: SupabaseClient, snapshotId: string, userId: string): Promise<boolean> {
+  const { data, error } = await client
+    .from("scoring_snapshots")
+    .delete()
+    .eq("id", snapshotId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    console.error("Failed to delete scoring snapshot", { snapshotId }, error);
+    throw new Error(error.message ?? "Failed to delete scoring snapshot");
+  }
+  return (data ?? []).length > 0;
+}
+
+// Matches every industry, and as the only default also covers leads without one.
+const applyToEveryLead = (profile: WeightProfile): WeightProfile => ({
+  ...profile,
+  isDefault: true,
+  matchRules: [{ type: "regex", value: "." }]
+});
+
+// Anything not given defaults to the snapshot's baseline, so a replay differs from it only
+// in what was asked for. The prompt, profiles and bands are resolved now and stored.
+async function resolveReplayConfig(
+  snapshot: SnapshotRow,
+  userId: string,
+  input: ReplayInput
+): Promise<ReplayConfig> {
+  const scoringMode =
+    input.scoringMode === undefined || input.scoringMode === null || input.scoringMode === ""
+      ? snapshot.baseline.scoringMode
+      : parseScoringMode(input.scoringMode);
+
+  let model: string | null = null;
+  if (input.model !== undefined && input.model !== null && input.model !== "") {
+    if (typeof input.model !== "string" || input.model.trim().length > MAX_MODEL_LENGTH) {
+      throw new ReplayValidationError("model must be a model id string");
+    }
+    model = input.model.trim() || null;
+  }
+
+  let prompt: PromptRef | null = null;
+  if (scoringMode !== "rules") {
+    const pinned =
+      typeof input.promptVersionId === "string" && input.promptVersionId.trim() !== ""
+        ? input.promptVersionId.trim()
+        : snapshot.baseline.promptVersionIds.score;
+    try {
+      prompt = toPromptRef(await resolvePrompt(userId, "score", pinned));
+    } catch (error) {
+      if (error instanceof PromptVersionValidationError) {
+        throw new ReplayValidationError(error.message);
+      }
+      throw error;
+    }
+
+    const provider = model ? getLlmProviderForModel(model) : getLlmProvider();
+    if (!provider.configured) {
+      throw new ReplayValidationError(`${provider.name} is not configured; use rules mode or configure the provider`);
+    }
+  } else {
+    model = null;
+  }
+
+  let weightProfile: WeightProfileRef | null = null;
+  let weightProfiles: WeightProfile[];
+  if (typeof input.weightProfileId === "string" && input.weightProfileId.trim() !== "") {
+    const detail = await getWeightProfile(input.weightProfileId.trim(), userId);
+    if (!detail) {
+      throw new ReplayValidationError(`Weight profile ${input.weightProfileId} was not found`);
+    }
+    const profile: WeightProfile = {
+      id: detail.id,
+      name: detail.name,
+      version: detail.version,
+      priority: detail.priority,
+      isDefault: detail.isDefault,
+      weights: detail.weights,
+      matchRules: detail.matchRules
+    };
+    weightProfile = { id: profile.id, name: profile.name, version: profile.version };
+    weightProfiles = [applyToEveryLead(profile)];
+  } else {
+    weightProfiles = await listWeightProfiles(userId);
+  }
+
+  const bandSet = await getActiveBandSet(userId);
+
+  return {
+    scoringMode,
+    hybrid: snapshot.baseline.hybrid ?? resolveHybridBlend(),
+    model,
+    prompt,
+    weightProfile,
+    weightProfiles,
+    bandSet: { id: bandSet.id, name: bandSet.name, bands: bandSet.bands }
+  };
+}
+
+export async function createReplay(
+  client: SupabaseClient,
+  snapshotId: string,
+  userId: string,
+  input: ReplayInput
+): Promise<ScoringReplay | null> {
+  const snapshot = await loadSnapshotRow(client, snapshotId, userId);
+  if (!snapshot) {
+    return null;
+  }
+
+  const config = await resolveReplayConfig(snapshot, userId, input);
+  const { data, error } = await client
+    .from("scoring_replays")
+    .insert({ snapshot_id: snapshotId, user_id: userId, status: "queued", config })
+    .select("*")
+    .single<ReplayRow>();
+
+  if (error || !data) {
+    console.error("Failed to create scoring replay", { snapshotId }, error);
+    throw new Error(error?.message ?? "Failed to create scoring replay");
+  }
+  return toReplay(data);
+}
+
+// Queued replays, then running ones whose worker stopped reporting progress, oldest first.
+export async function listClaimableReplays(client: SupabaseClient, limit: number): Promise<ScoringReplay[]> {
+  const staleBefore = new Date(Date.now() - STALE_REPLAY_THRESHOLD_MS).toISOString();
+  const { data, error } = await client
+    .from("scoring_replays")
+    .select(REPLAY_COLUMNS)
+    .or(`status.eq.queued,and(status.eq.running,updated_at.lte."${staleBefore}")`)
+    .order("created_at", { ascending: true })
+    .limit(limit)
+    .returns<Array<Omit<ReplayRow, "results">>>();
+
+  if (error) {
+    console.error("Failed to list claimable scoring replays", error);
+    throw new Error(error.message ?? "Failed to list scoring replays");
+  }
+  return (data ?? []).map(toReplay);
+}
+
+// A conditional update, so only one worker gets each replay. A reclaimed replay keeps the
+// results it had checkpointed.
+export async function claimReplay(client: SupabaseClient, replay: ScoringReplay): Promise<boolean> {
+  let query = client
+    .from("scoring_replays")
+    .update({ status: "running", updated_at: new Date().toISOString() })
+    .eq("id", replay.id);
+  query =
+    replay.status === "queued"
+      ? query.eq("status", "queued")
+      : query
+          .eq("status", "running")
+          .lte("updated_at", new Date(Date.now() - STALE_REPLAY_THRESHOLD_MS).toISOString());
+
+  const { data, error } = await query.select("id").maybeSingle();
+  if (error) {
+    console.error("Failed to claim scoring replay", { replayId: replay.id }, error);
+    return false;
+  }
+  return Boolean(data);
+}
+
+async function scoreReplayBatch(
+  items: SnapshotItemRow[],
+  config: ReplayConfig,
+  context: {
+    provider: LlmProvider | null;
+    prompt: Awaited<ReturnType<typeof resolvePrompt>> | null;
+    usage: ReplayUsage;
+    userId: string | null;
+  }
+): Promise<ReplayResultEntry[]> {
+  const batch: BatchItem[] = items.map((item) => ({ lead: item.cleaned, reviews: item.reviews, website: item.website }));
+  const options = { weightProfiles: config.weightProfiles, bands: config.bandSet.bands };
+  const entry = (item: SnapshotItemRow, score: ReplayScore): ReplayResultEntry => ({
+    item_index: item.item_index,
+    lead_id: item.lead_id,
+    ...score
+  });
+  const failed = (item: SnapshotItemRow, message: string): ReplayResultEntry => {
+    const band = resolveBand(0, config.bandSet.bands);
+    return entry(item, { final_score: 0, interpretation: band.label, scores: {}, weight_profile: null, error: message });
+  };
+
+  if (config.scoringMode === "rules" || !context.provider) {
+    return items.map((item, index) => entry(item, toReplayScore(scoreLeadWithRules(batch[index], options))));
+  }
+
+  let result: Awaited<ReturnType<typeof scoreLeadBatchWithModel>>;
+  try {
+    result = await scoreLeadBatchWithModel(batch, {
+      ...options,
+      prompt: context.prompt ?? undefined,
+      provider: context.provider
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return items.map((item) => failed(item, message));
+  }
+
+  const { outcomes, usage, leadUsage, model } = result;
+  if (usage) {
+    addUsage(context.usage, usage, model, computeCostUsd(model, usage.promptTokens, usage.completionTokens));
+    const batchId = randomUUID();
+    await logTokenUsage(
+      items.flatMap((item, index): TokenUsageEntry[] => {
+        const share = leadUsage[index];
+        if (!share) {
+          return [];
+        }
+        return [
+          {
+            lead_id: item.lead_id,
+            job_id: null,
+            category: "score",
+            prompt_tokens: share.promptTokens,
+            completion_tokens: share.completionTokens,
+            total_tokens: share.totalTokens,
+            batch_id: batchId,
+            user_id: context.userId,
+            model,
+            cost_usd: computeCostUsd(model, share.promptTokens, share.completionTokens)
+          }
+        ];
+      })
+    );
+  }
+
+  return outcomes.map((outcome, index) => {
+    const item = items[index];
+    if (!outcome.ok) {
+      return failed(item, `Model returned an invalid score: ${outcome.errors.join("; ")}`);
+    }
+    const score =
+      config.scoringMode === "hybrid"
+        ? blendLeadScores(
+            outcome.score,
+            scoreLeadWithRules(batch[index], options),
+            config.hybrid,
+            config.bandSet.bands
+          )
+        : outcome.score;
+    return entry(item, toReplayScore(score));
+  });
+}
+
+// Re-scores the snapshot items a claimed replay hasn't scored yet, one batch at a time.
+// Results and usage are checkpointed after every batch, so a replay that is released or
+// reclaimed carries on from there.
+export async function runReplay(client: SupabaseClient, replayId: string): Promise<void> {
+  const { data: replay, error: loadError } = await client
+    .from("scoring_replays")
+    .select("*")
+    .eq("id", replayId)
+    .maybeSingle<ReplayRow>();
+
+  if (loadError || !replay) {
+    if (loadError) {
+      console.error("Failed to load scoring replay", { replayId }, loadError);
+    }
+    return;
+  }
+  if (replay.status !== "running") {
+    return;
+  }
+
+  const controller = new AbortController();
+  replayAbortControllers.set(replayId, controller);
+
+  const config = replay.config;
+  const results: ReplayResultEntry[] = [...(replay.results ?? [])];
+  const usage: ReplayUsage = replay.usage ? { ...replay.usage, models: [...replay.usage.models] } : emptyUsage();
+  try {
+    const scored = new Set(results.map((result) => result.item_index));
+    const items = (await loadSnapshotItems(client, replay.snapshot_id)).filter((item) => !scored.has(item.item_index));
+    const provider =
+      config.scoringMode === "rules" ? null : config.model ? getLlmProviderForModel(config.model) : getLlmProvider();
+    const prompt = config.prompt ? await resolvePrompt(replay.user_id, "score", config.prompt.id) : null;
+
+    for (let offset = 0; offset < items.length; offset += SCORE_BATCH_SIZE) {
+      if (controller.signal.aborted) {
+        console.info("Scoring replay released", { replayId, processed: results.length });
+        const { error: releaseError } = await client
+          .from("scoring_replays")
+          .update({ status: "queued", processed: results.length, results, usage })
+          .eq("id", replayId)
+          .eq("status", "running");
+        if (releaseError) {
+          console.error("Failed to release scoring replay", { replayId }, releaseError);
+        }
+        return;
+      }
+
+      const batch = items.slice(offset, offset + SCORE_BATCH_SIZE);
+      results.push(...(await scoreReplayBatch(batch, config, { provider, prompt, usage, userId: replay.user_id })));
+
+      const { error: progressError } = await client
+        .from("scoring_replays")
+        .update({ processed: results.length, results, usage })
+        .eq("id", replayId);
+      if (progressError) {
+        console.error("Failed to update replay progress", { replayId }, progressError);
+      }
+    }
+
+    const { error: completeError } = await client
+      .from("scoring_replays")
+      .update({
+        status: "completed",
+        processed: results.length,
+        results,
+        usage,
+        error: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq("id", replayId)
+      .eq("status", "running");
+    if (completeError) {
+      console.error("Failed to complete scoring replay", { replayId }, completeError);
+    }
+  } catch (error) {
+    console.error("Scoring replay failed", { replayId }, error);
+    const { error: failError } = await client
+      .from("scoring_replays")
+      .update({ status: "failed", usage, error: error instanceof Error ? error.message : String(error) })
+      .eq("id", replayId);
+    if (failError) {
+      console.error("Failed to mark scoring replay failed", { replayId }, failError);
+    }
+  } finally {
+    replayAbortControllers.delete(replayId);
+  }
+}
+
+// Touches every replay this process is running so other workers don't treat it as stale.
+export async function heartbeatReplays(client: SupabaseClient) {
+  const replayIds = Array.from(replayAbortControllers.keys());
+  if (replayIds.length === 0) {
+    return;
+  }
+
+  const { error } = await client
+    .from("scoring_replays")
+    .update({ updated_at: new Date().toISOString() })
+    .in("id", replayIds)
+    .eq("status", "running");
+
+  if (error) {
+    console.error("Failed to send replay heartbeat", { replayIds }, error);
+  }
+}
+
+// Stops every replay this process is running after its current batch and hands it back
+// to the queue.
+export function releaseReplays(): number {
+  const controllers = Array.from(replayAbortControllers.values());
+  for (const controller of controllers) {
+    controller.abort();
+  }
+  return controllers.length;
+}
+
+// Both sides are banded with the replay's band set, so a band change always reflects a
+// score change rather than an edit to the bands since the job ran.
+export function buildReplayDiff(
+  snapshot: Pick<ScoringSnapshot, "baseline">,
+  items: Array<Pick<SnapshotItemRow, "item_index" | "lead_id" | "cleaned" | "baseline">>,
+  replay: Pick<ScoringReplay, "config" | "usage">,
+  results: ReplayResultEntry[] | null
+): ReplayDiff {
+  const bands = replay.config.bandSet.bands;
+  const rank = new Map(
+    [...bands].sort((a, b) => a.min - b.min).map((band, index) => [band.label, index])
+  );
+  const byIndex = new Map((results ?? []).map((result) => [result.item_index, result]));
+  const transitions = new Map<string, { from: string; to: string; count: number }>();
+  const deltas: number[] = [];
+  let failed = 0;
+  let upgrades = 0;
+  let downgrades = 0;
+
+  const rows = items.map((item): ReplayDiffRow => {
+    const baseline = {
+      finalScore: item.baseline.final_score,
+      band: resolveBand(item.baseline.final_score, bands).label,
+      error: item.baseline.error ?? null
+    };
+    const result = byIndex.get(item.item_index);
+    const replayed = result
+      ? { finalScore: result.final_score, band: result.interpretation, error: result.error ?? null }
+      : null;
+
+    const row: ReplayDiffRow = {
+      itemIndex: item.item_index,
+      leadId: item.lead_id,
+      company: item.cleaned.company ?? null,
+      baseline,
+      replay: replayed,
+      delta: null,
+      bandChanged: false
+    };
+    if (!replayed) {
+      return row;
+    }
+    if (baseline.error || replayed.error) {
+      failed += 1;
+      return row;
+    }
+
+    row.delta = Number((replayed.finalScore - baseline.finalScore).toFixed(2));
+    row.bandChanged = replayed.band !== baseline.band;
+    deltas.push(row.delta);
+    if (row.bandChanged) {
+      const key = `${baseline.band}\u0000${replayed.band}`;
+      const transition = transitions.get(key) ?? { from: baseline.band, to: replayed.band, count: 0 };
+      transition.count += 1;
+      transitions.set(key, transition);
+      if ((rank.get(replayed.band) ?? 0) > (rank.get(baseline.band) ?? 0)) {
+        upgrades += 1;
+      } else {
+        downgrades += 1;
+      }
+    }
+    return row;
+  });
+
+  const mean = (values: number[]) =>
+    values.length > 0 ? Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(2)) : null;
+  const absolute = deltas.map((delta) => Math.abs(delta));
+
+  return {
+    rows,
+    summary: {
+      compared: deltas.length,
+      failed,
+      bandChanges: upgrades + downgrades,
+      upgrades,
+      downgrades,
+      meanDelta: mean(deltas),
+      meanAbsDelta: mean(absolute),
+      maxAbsDelta: absolute.length > 0 ? Math.max(...absolute) : null
+    },
+    transitions: Array.from(transitions.values()).sort((a, b) => b.count - a.count),
+    cost: { baseline: snapshot.baseline.usage, replay: replay.usage }
+  };
+}
+
+export async function getReplay(
+  client: SupabaseClient,
+  snapshotId: string,
+  replayId: string,
+  userId: string
+): Promise<{ snapshot: ScoringSnapshot; replay: ScoringReplay; diff: ReplayDiff } | null> {
+  const snapshot = await getSnapshot(client, snapshotId, userId);
+  if (!snapshot) {
+    return null;
+  }
+
+  const { data: row, error } = await client
+    .from("scoring_replays")
+    .select("*")
+    .eq("id", replayId)
+    .eq("snapshot_id", snapshotId)
+    .maybeSingle<ReplayRow>();
+
+  if (error) {
+    console.error("Failed to load scoring replay", { replayId }, error);
+    throw new Error(error.message ?? "Failed to load scoring replay");
+  }
+  if (!row) {
+    return null;
+  }
+
+  const replay = toReplay(row);
+  const items = await loadSnapshotItems(client, snapshotId);
+  return { snapshot, replay, diff: buildReplayDiff(snapshot, items, replay, row.results) };
+}
@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { CleanLead } from "@/lib/ai/clean";
+import type { StoredLeadRun } from "@/lib/dedupe";
+import type { WebsiteSignals } from "@/lib/enrich/website";
+import type {
+  HybridBlend,
+  InterpretationBand,
+  LeadInput,
+  LeadRunOverride,
+  LeadScoreResponse,
+  PromptKind,
+  ReviewSnapshot,
+  ScoringMode
+} from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseReuseMaxAgeDays(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0 ? days : undefined;
+}
+
+// 0 turns reuse off.
+export const DEFAULT_REUSE_MAX_AGE_DAYS = parseReuseMaxAgeDays(process.env.REUSE_MAX_AGE_DAYS) ?? 7;
+
+export type InputHashSource = {
+  cleaned: CleanLead;
+  reviews: ReviewSnapshot;
+  website: WebsiteSignals | null;
+  scoringMode: ScoringMode;
+  hybrid: HybridBlend | null;
+  // "<provider>:<model>" that would score the lead; null in rules mode.
+  model: string | null;
+  weights: Record<string, number>;
+  bands: InterpretationBand[];
+  promptVersionIds: Partial<Record<PromptKind, string>>;
+};
+
+// Everything that can change a score: the cleaned fields the scorer sees, the enrichment
+// signals (not where or how they were fetched), and the scoring setup. Provenance, the raw
+// row and the lead id are left out so a renamed or reordered export still matches.
+export function computeInputHash(source: InputHashSource): string {
+  const { cleaned, reviews, website } = source;
+  const payload = [
+    [
+      cleaned.company,
+      cleaned.industry,
+      cleaned.website,
+      cleaned.location,
+      cleaned.email,
+      cleaned.phone,
+      cleaned.maps_url,
+      cleaned.notes,
+      cleaned.years_in_business
+    ].map((value) => value ?? null),
+    [reviews.averageRating, reviews.reviewCount],
+    website
+      ? [website.ok, website.baseScore, website.bonuses.pricing, website.bonuses.booking, website.bonuses.cta, website.finalScore]
+      : null,
+    source.scoringMode,
+    source.scoringMode === "hybrid" ? source.hybrid : null,
+    source.scoringMode === "rules" ? null : source.model,
+    Object.entries(source.weights).sort(([a], [b]) => a.localeCompare(b)),
+    source.bands.map((band) => [band.label, band.min]),
+    [source.promptVersionIds.score ?? null, source.promptVersionIds.clean ?? null]
+  ];
+  return createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+}
+
+// Most recent saved run for this user with the same input hash, no older than maxAgeDays.
+// A run the user overrode is never reused: its model score is the one they rejected.
+export async function findReusableRun(
+  client: SupabaseClient,
+  userId: string,
+  inputHash: string,
+  maxAgeDays: number
+): Promise<StoredLeadRun | null> {
+  const since = new Date(Date.now() - maxAgeDays * DAY_MS).toISOString();
+  const { data, error } = await client
+    .from("lead_runs")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("input_hash", inputHash)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .returns<Array<StoredLeadRun & { override: LeadRunOverride | null }>>();
+
+  if (error) {
+    console.error("Failed to look up reusable lead run", { userId }, error);
+    throw new Error(error.message ?? "Failed to look up reusable lead run");
+  }
+
+  const run = data?.[0];
+  return run && !run.override ? run : null;
+}
+
+export function storedRunToScore(run: StoredLeadRun, lead: LeadInput): LeadScoreResponse {
+  return {
+    lead_id: lead.lead_id,
+    industry: run.industry ?? lead.industry ?? "default",
+    weights_applied: run.weights,
+    weight_profile: run.weight_profile ?? undefined,
+    scores: run.scores,
+    factors: run.factors ?? undefined,
+    reasoning: run.reasoning,
+    final_score: Number(run.final_score),
+    interpretation: run.interpretation,
+    band: run.band ?? undefined,
+    scoring_mode: run.scoring_mode ?? undefined,
+    disagreement: run.disagreement ?? undefined,
+    needs_review: run.needs_review === true,
+    prompt_versions: run.prompt_versions ?? undefined
+  };
+}
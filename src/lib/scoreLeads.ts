@@ -1,6 +1,34 @@
 import { cleanLeadRecord, type CleanLeadResult } from "@/lib/ai/clean";
-import { scoreLeadBatchWithModel, selectWeights } from "@/lib/ai/scoring";
+import { blendLeadScores, resolveHybridBlend } from "@/lib/ai/hybrid";
+import { scoreLeadWithRules } from "@/lib/ai/rules";
+import {
+  scoreLeadBatchWithModel,
+  selectWeights,
+  usedFactors,
+  type WeightProfile
+} from "@/lib/ai/scoring";
 import { analyzeWebsite } from "@/lib/enrich/website";
+import { getLlmProvider } from "@/lib/llm/config";
+import { LlmHttpError, type LlmProvider, type LlmUsage } from "@/lib/llm/provider";
+import { computeCostUsd } from "@/lib/pricing";
+import {
+  DEFAULT_DEDUPE_POLICY,
+  dedupeKeys,
+  findDuplicateClusters,
+  findExistingRuns,
+  mergeCleanLeads,
+  normalizeUrlKey,
+  serializeDedupeKeys,
+  type ExistingRunMatch,
+  type StoredLeadRun
+} from "@/lib/dedupe";
+import {
+  DEFAULT_REUSE_MAX_AGE_DAYS,
+  computeInputHash,
+  findReusableRun,
+  storedRunToScore
+} from "@/lib/reuse";
+import { mapsThrottledSince } from "@/lib/enrich/mapsLimiter";
 import { fetchGoogleMapsReviews } from "@/lib/reviews";
 import {
   getSupabaseAdminClient,
@@ -8,10 +36,22 @@ import {
   saveLeadRunsToSupabase,
   type TokenUsageEntry
 } from "@/lib/supabase";
+import { getActiveBandSet } from "@/lib/bandSets";
+import { resolveBand, type BandSet } from "@/lib/bands";
+import { toFactorMeta } from "@/lib/factors";
+import { toPromptRef } from "@/lib/ai/prompts";
+import { resolvePrompt, type PromptVersionPins } from "@/lib/promptVersions";
+import { listWeightProfiles } from "@/lib/weightProfiles";
 import type {
+  DedupeCluster,
+  DedupePolicy,
+  DedupeReport,
+  HybridBlend,
   LeadInput,
   LeadScoreApiResponse,
   LeadScoreResponse,
+  LeadStepUsage,
+  ScoringMode,
   TokenUsageSummary
 } from "@/lib/types";
 import { randomUUID } from "crypto";
@@ -22,12 +62,38 @@ const SCORE_BATCH_FLUSH_MS = Math.max(Number(process.env.SCORE_BATCH_FLUSH_MS ??
 const TOKEN_USAGE_FLUSH_SIZE = Math.max(Number(process.env.TOKEN_USAGE_FLUSH_SIZE ?? "25"), 1);
 
 export class LeadScoringAbortError extends Error {
+  // Tokens spent before the abort; set by scoreLeads once in-flight calls have settled.
+  usage: TokenUsageSummary | null = null;
+
   constructor(message = "Lead scoring aborted") {
     super(message);
     this.name = "LeadScoringAbortError";
   }
 }
 
+// The review lookup came back empty while Google was throttling Maps requests.
+export class MapsThrottledError extends Error {
+  constructor(message = "Google Maps lookup was throttled") {
+    super(message);
+    this.name = "MapsThrottledError";
+  }
+}
+
+// Provider overload, rate limits, timeouts and network failures can succeed on a later
+// attempt; bad credentials, invalid model output and code errors will not.
+function isTransientError(error: unknown): boolean {
+  if (error instanceof MapsThrottledError) {
+    return true;
+  }
+  if (error instanceof LlmHttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof Error) {
+    return error.name === "AbortError" || error.name === "TimeoutError" || error.message === "fetch failed";
+  }
+  return false;
+}
+
 const normalizeKey = (value?: string | null) => {
   if (!value) {
     return null;
@@ -39,55 +105,57 @@ const normalizeKey = (value?: string | null) => {
   return trimmed.replace(/\s+/g, " ");
 };
 
-const normalizeUrlKey = (value?: string | null) => {
-  if (!value) {
-    return null;
-  }
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return null;
+const loadWeightProfiles = async (userId: string | null): Promise<WeightProfile[]> => {
+  if (!userId) {
+    return [];
   }
   try {
-    const url = new URL(trimmed);
-    url.hash = "";
-    const paramsToStrip = ["authuser", "hl", "entry", "sa", "ved", "ei", "source"];
-    for (const param of paramsToStrip) {
-      url.searchParams.delete(param);
-    }
-    url.searchParams.sort();
-    return url.toString();
-  } catch {
-    return trimmed;
+    return await listWeightProfiles(userId);
+  } catch (error) {
+    console.error("Failed to load weight profiles; using built-in weights", { userId }, error);
+    return [];
   }
 };
 
 const createUsageSummary = () => ({
-  cleaning: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-  scoring: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+  cleaning: { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, unpricedTokens: 0 },
+  scoring: { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, unpricedTokens: 0 }
 });
 
-const splitTokens = (total: number, count: number) => {
-  if (count <= 0) {
-    return [];
-  }
-  const base = Math.floor(total / count);
-  let remainder = total - base * count;
-  return Array.from({ length: count }, () => {
-    const value = base + (remainder > 0 ? 1 : 0);
-    if (remainder > 0) {
-      remainder -= 1;
-    }
-    return value;
-  });
-};
+const toStepUsage = (usage: LlmUsage | null, model: string | null): LeadStepUsage | null =>
+  usage ? { ...usage, costUsd: computeCostUsd(model, usage.promptTokens, usage.completionTokens), model } : null;
+
+export function parseScoringMode(value: unknown): ScoringMode {
+  return value === "rules" || value === "hybrid" ? value : "model";
+}
 
 export type ScoreLeadOptions = {
   useCleaner?: boolean;
+  scoringMode?: ScoringMode;
+  hybrid?: HybridBlend;
+  promptVersionIds?: PromptVersionPins;
+  // Defaults to the deployment's LLM_PROVIDER.
+  provider?: LlmProvider;
+  // Defaults to DEDUPE_POLICY.
+  dedupePolicy?: DedupePolicy;
+  // Reuse saved scores with the same input hash up to this age; 0 always rescores.
+  // Defaults to REUSE_MAX_AGE_DAYS. Needs a userId.
+  reuseMaxAgeDays?: number;
   saveToSupabase?: boolean;
   userId?: string | null;
   jobId?: string | null;
   maxConcurrency?: number;
+  weightProfiles?: WeightProfile[];
+  bandSet?: BandSet;
   signal?: AbortSignal | null;
+  // Fail a lead with MapsThrottledError instead of scoring it without reviews when its
+  // lookup was throttled. Set by the job queue, which retries such leads later.
+  failOnThrottledLookups?: boolean;
+  // Cleaned records kept from an earlier attempt, keyed by lead; those leads are not cleaned
+  // (or billed) again. The job queue fills it from its items.
+  cleanedLeads?: Map<LeadInput, CleanLeadResult>;
+  // Called once per lead as soon as it is cleaned, before enrichment or scoring.
+  onCleaned?: (payload: { lead: LeadInput; result: CleanLeadResult }) => void | Promise<void>;
   onProgress?: (payload: {
     processed: number;
     total: number;
@@ -96,12 +164,17 @@ export type ScoreLeadOptions = {
   }) => void | Promise<void>;
 };
 
+type ModelScoreResult = {
+  score: LeadScoreResponse;
+  usage: LeadStepUsage | null;
+};
+
 type PendingScoreRequest = {
   lead: LeadInput;
   cleaned: CleanLeadResult["cleaned"];
   reviews: Awaited<ReturnType<typeof fetchGoogleMapsReviews>>;
   website: Awaited<ReturnType<typeof analyzeWebsite>>;
-  resolve: (score: LeadScoreResponse) => void;
+  resolve: (result: ModelScoreResult) => void;
   reject: (error: unknown) => void;
 };
 
@@ -112,25 +185,47 @@ export async function scoreLeads(
   leads: LeadScoreApiResponse["leads"];
   supabase?: LeadScoreApiResponse["supabase"];
   usage: TokenUsageSummary;
+  dedupe: DedupeReport | null;
 }> {
   if (!Array.isArray(leads) || leads.length === 0) {
-    return { leads: [], supabase: null, usage: createUsageSummary() };
+    return { leads: [], supabase: null, usage: createUsageSummary(), dedupe: null };
   }
 
-  const useCleaner = options.useCleaner !== false;
+  const scoringMode: ScoringMode = options.scoringMode ?? "model";
+  // Rules mode never calls the LLM provider, so the LLM cleaner is skipped too.
+  const useCleaner = scoringMode !== "rules" && options.useCleaner !== false;
   const saveToSupabase = options.saveToSupabase === true;
   const maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
   const abortSignal = options.signal ?? null;
+  const failOnThrottledLookups = options.failOnThrottledLookups === true;
   const jobId = options.jobId ?? null;
   const userId = options.userId ?? null;
+  const weightProfiles = options.weightProfiles ?? (await loadWeightProfiles(userId));
+  const bandSet = options.bandSet ?? (await getActiveBandSet(userId));
+  const hybrid = options.hybrid ?? resolveHybridBlend();
+  const dedupePolicy = options.dedupePolicy ?? DEFAULT_DEDUPE_POLICY;
+  const reuseMaxAgeDays = options.reuseMaxAgeDays ?? DEFAULT_REUSE_MAX_AGE_DAYS;
+  const reuseClient = userId && reuseMaxAgeDays > 0 ? getSupabaseAdminClient() : null;
+  const provider = options.provider ?? getLlmProvider();
+  const scorePrompt =
+    scoringMode === "rules" ? null : await resolvePrompt(userId, "score", options.promptVersionIds?.score);
+  const cleanPrompt = useCleaner
+    ? await resolvePrompt(userId, "clean", options.promptVersionIds?.clean)
+    : undefined;
 
   const usageSummary: TokenUsageSummary = createUsageSummary();
   const pendingUsageLogs: TokenUsageEntry[] = [];
 
-  const addUsageToSummary = (category: "cleaning" | "scoring", usage: { promptTokens: number; completionTokens: number; totalTokens: number }) => {
-    usageSummary[category].promptTokens += usage.promptTokens;
-    usageSummary[category].completionTokens += usage.completionTokens;
-    usageSummary[category].totalTokens += usage.totalTokens;
+  const addUsageToSummary = (category: "cleaning" | "scoring", usage: LlmUsage, costUsd: number | null) => {
+    const totals = usageSummary[category];
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += usage.totalTokens;
+    if (costUsd === null) {
+      totals.unpricedTokens = (totals.unpricedTokens ?? 0) + usage.totalTokens;
+    } else {
+      totals.costUsd = Number(((totals.costUsd ?? 0) + costUsd).toFixed(6));
+    }
   };
 
   const flushUsageLogs = async (force = false) => {
@@ -169,26 +264,40 @@ export async function scoreLeads(
         reviews: item.reviews,
         website: item.website
       }));
-      const { scores, usage } = await scoreLeadBatchWithModel(batchItems);
-      scores.forEach((score, index) => {
-        chunk[index].resolve(score);
+      const { outcomes, usage, leadUsage, model } = await scoreLeadBatchWithModel(batchItems, {
+        weightProfiles,
+        bands: bandSet.bands,
+        prompt: scorePrompt ?? undefined,
+        provider
+      });
+      outcomes.forEach((outcome, index) => {
+        if (outcome.ok) {
+          chunk[index].resolve({ score: outcome.score, usage: toStepUsage(leadUsage[index], model) });
+        } else {
+          chunk[index].reject(
+            new Error(`Model returned an invalid score for lead ${chunk[index].cleaned.lead_id}: ${outcome.errors.join("; ")}`)
+          );
+        }
       });
       if (usage) {
-        addUsageToSummary("scoring", usage);
+        addUsageToSummary("scoring", usage, computeCostUsd(model, usage.promptTokens, usage.completionTokens));
         const batchId = randomUUID();
-        const promptShares = splitTokens(usage.promptTokens, chunk.length);
-        const completionShares = splitTokens(usage.completionTokens, chunk.length);
-        const totalShares = splitTokens(usage.totalTokens, chunk.length);
         for (let i = 0; i < chunk.length; i += 1) {
+          const share = toStepUsage(leadUsage[i], model);
+          if (!share) {
+            continue;
+          }
           await recordUsageEntry({
             lead_id: chunk[i].cleaned.lead_id,
             job_id: jobId ?? null,
             category: "score",
-            prompt_tokens: promptShares[i],
-            completion_tokens: completionShares[i],
-            total_tokens: totalShares[i],
+            prompt_tokens: share.promptTokens,
+            completion_tokens: share.completionTokens,
+            total_tokens: share.totalTokens,
             batch_id: batchId,
-            user_id: userId
+            user_id: userId,
+            model,
+            cost_usd: share.costUsd
           });
         }
       }
@@ -218,7 +327,7 @@ export async function scoreLeads(
   };
 
   const enqueueScoreRequest = (request: Omit<PendingScoreRequest, "resolve" | "reject">) =>
-    new Promise<LeadScoreResponse>((resolve, reject) => {
+    new Promise<ModelScoreResult>((resolve, reject) => {
       scoringQueue.push({ ...request, resolve, reject });
       scheduleScoreFlush();
     });
@@ -237,15 +346,217 @@ export async function scoreLeads(
 
   const batches: LeadScoreApiResponse["leads"] = [];
   const orderMap = new Map(leads.map((lead, index) => [lead.lead_id, index]));
-  const queue = [...leads];
   const workers: Promise<void>[] = [];
 
+  // Filled by the dedupe stage, which cleans every lead before any is enriched.
+  const cleanStages = new Map<LeadInput, { result: CleanLeadResult; durationMs: number }>();
+  const mergedLeads = new Map<LeadInput, CleanLeadResult["cleaned"]>();
+  const followersByPrimary = new Map<LeadInput, { clusterId: string; followers: LeadInput[] }>();
+
   const ensureNotAborted = () => {
     if (aborted) {
       throw new LeadScoringAbortError();
     }
   };
 
+  const runPool = async (items: LeadInput[], task: (lead: LeadInput) => Promise<void>) => {
+    const queue = [...items];
+    while (queue.length > 0 || workers.length > 0) {
+      if (aborted) {
+        break;
+      }
+
+      while (queue.length > 0 && workers.length < maxConcurrency) {
+        if (aborted) {
+          break;
+        }
+        const lead = queue.shift();
+        if (!lead) {
+          break;
+        }
+        const worker = task(lead).finally(() => {
+          const index = workers.indexOf(worker);
+          if (index >= 0) {
+            workers.splice(index, 1);
+          }
+        });
+        workers.push(worker);
+      }
+
+      if (workers.length > 0) {
+        await Promise.race(workers);
+      }
+    }
+  };
+
+  const cleanLead = async (lead: LeadInput): Promise<CleanLeadResult> => {
+    const earlier = options.cleanedLeads?.get(lead);
+    if (earlier) {
+      // Its tokens were counted when it was first cleaned.
+      return { ...earlier, usage: null };
+    }
+
+    const cleanResult = await cleanLeadRecord(lead.normalized ?? {}, lead.lead_id, {
+      useAi: useCleaner,
+      prompt: cleanPrompt,
+      provider,
+      mapping: lead.mapping
+    });
+    if (cleanResult.usage) {
+      const cleanCost = computeCostUsd(
+        cleanResult.model,
+        cleanResult.usage.promptTokens,
+        cleanResult.usage.completionTokens
+      );
+      addUsageToSummary("cleaning", cleanResult.usage, cleanCost);
+      await recordUsageEntry({
+        lead_id: cleanResult.cleaned.lead_id,
+        job_id: jobId ?? null,
+        category: "clean",
+        prompt_tokens: cleanResult.usage.promptTokens,
+        completion_tokens: cleanResult.usage.completionTokens,
+        total_tokens: cleanResult.usage.totalTokens,
+        user_id: userId,
+        model: cleanResult.model,
+        cost_usd: cleanCost
+      });
+    }
+    if (options.onCleaned) {
+      await options.onCleaned({ lead, result: cleanResult });
+    }
+    return cleanResult;
+  };
+
+  const emitResult = async (result: LeadScoreApiResponse["leads"][number]) => {
+    batches.push(result);
+    if (options.onProgress) {
+      await options.onProgress({
+        processed: batches.length,
+        total: leads.length,
+        lead: result.lead,
+        result
+      });
+    }
+  };
+
+  // Duplicates share the primary's score and enrichment but keep their own cleaned record.
+  const emitFollowers = async (primary: LeadInput, result: LeadScoreApiResponse["leads"][number]) => {
+    const group = followersByPrimary.get(primary);
+    if (!group) {
+      return;
+    }
+    for (const follower of group.followers) {
+      const followerClean = cleanStages.get(follower)?.result;
+      await emitResult({
+        lead: follower,
+        score: { ...result.score, lead_id: follower.lead_id },
+        enriched: {
+          ...result.enriched,
+          cleaned: followerClean?.cleaned ?? result.enriched.cleaned
+        },
+        duplicate_of: { cluster_id: group.clusterId, lead_id: primary.lead_id },
+        usage: {
+          clean: followerClean ? toStepUsage(followerClean.usage, followerClean.model) : null,
+          score: null
+        }
+      });
+    }
+  };
+
+  const planDedupe = async (): Promise<DedupeReport> => {
+    const cleanedLeads = leads.filter((lead) => cleanStages.has(lead));
+    const records = cleanedLeads.map((lead) => cleanStages.get(lead)!.result.cleaned);
+    const keysByIndex = records.map((record) => serializeDedupeKeys(dedupeKeys(record)));
+
+    let existingRuns = new Map<number, ExistingRunMatch>();
+    const client = userId ? getSupabaseAdminClient() : null;
+    if (client && userId) {
+      try {
+        existingRuns = await findExistingRuns(client, userId, keysByIndex);
+      } catch (error) {
+        console.error("Failed to check saved runs for duplicates; continuing without them", { userId }, error);
+      }
+    }
+
+    const groups = findDuplicateClusters(records);
+    const clustered = new Set(groups.flatMap((group) => group.members));
+    existingRuns.forEach((_, index) => {
+      if (!clustered.has(index)) {
+        groups.push({ members: [index], matchedOn: [] });
+      }
+    });
+
+    const clusters: DedupeCluster[] = [];
+    let skipped = 0;
+
+    groups.forEach((group, position) => {
+      const clusterId = `c${position + 1}`;
+      const members = group.members.map((index) => cleanedLeads[index]);
+      const [primary, ...followers] = members;
+      const matchedOn = new Set(group.matchedOn);
+
+      let existingRun: ExistingRunMatch | null = null;
+      for (const index of group.members) {
+        const run = existingRuns.get(index);
+        if (run && (!existingRun || existingRun.created_at < run.created_at)) {
+          existingRun = run;
+        }
+      }
+      if (existingRun) {
+        for (const index of group.members) {
+          for (const key of keysByIndex[index]) {
+            if (existingRun.dedupe_keys?.includes(key)) {
+              matchedOn.add(key.slice(0, key.indexOf(":")) as DedupeCluster["matched_on"][number]);
+            }
+          }
+        }
+      }
+
+      // A saved run is only reported here; whether its score is reused depends on the
+      // input hash once the lead is enriched.
+      let action: DedupeCluster["action"] = "reported";
+      if (dedupePolicy !== "report" && followers.length > 0) {
+        action = dedupePolicy === "merge" ? "merged" : "skipped";
+        followersByPrimary.set(primary, { clusterId, followers });
+        if (dedupePolicy === "merge") {
+          mergedLeads.set(
+            primary,
+            mergeCleanLeads(
+              cleanStages.get(primary)!.result.cleaned,
+              followers.map((follower) => cleanStages.get(follower)!.result.cleaned)
+            )
+          );
+        }
+        skipped += followers.length;
+      }
+
+      clusters.push({
+        id: clusterId,
+        primary_lead_id: primary.lead_id,
+        lead_ids: members.map((member) => member.lead_id),
+        matched_on: Array.from(matchedOn),
+        existing_run: existingRun
+          ? { id: existingRun.id, lead_id: existingRun.lead_id, created_at: existingRun.created_at }
+          : null,
+        action
+      });
+    });
+
+    return { policy: dedupePolicy, clusters, skipped };
+  };
+
+  const findFreshRun = async (inputHash: string, leadId: string): Promise<StoredLeadRun | null> => {
+    if (!reuseClient || !userId) {
+      return null;
+    }
+    try {
+      return await findReusableRun(reuseClient, userId, inputHash, reuseMaxAgeDays);
+    } catch (error) {
+      console.error("Failed to check for a reusable score; rescoring", { leadId }, error);
+      return null;
+    }
+  };
+
   const processLead = async (lead: LeadInput) => {
     const rawRecord = lead.normalized ?? {};
     const startedAt = Date.now();
@@ -253,7 +564,9 @@ export async function scoreLeads(
     let reviewDuration = 0;
     let websiteDuration = 0;
     let scoreDuration = 0;
+    let scoreUsage: LeadStepUsage | null = null;
     let reviewCacheHitKey: string | null = null;
+    let lookupStart = 0;
     let status: "success" | "error" | "cancelled" = "success";
     let reviewStart = 0;
     let websiteStart = 0;
@@ -275,21 +588,10 @@ export async function scoreLeads(
 
     try {
       const cleanStart = Date.now();
-      cleanResult = await cleanLeadRecord(rawRecord, lead.lead_id, { useAi: useCleaner });
-      cleanDuration = Date.now() - cleanStart;
-      cleaned = cleanResult.cleaned;
-      if (cleanResult.usage) {
-        addUsageToSummary("cleaning", cleanResult.usage);
-        await recordUsageEntry({
-          lead_id: cleaned.lead_id,
-          job_id: jobId ?? null,
-          category: "clean",
-          prompt_tokens: cleanResult.usage.promptTokens,
-          completion_tokens: cleanResult.usage.completionTokens,
-          total_tokens: cleanResult.usage.totalTokens,
-          user_id: userId
-        });
-      }
+      const stage = cleanStages.get(lead);
+      cleanResult = stage?.result ?? (await cleanLead(lead));
+      cleanDuration = stage?.durationMs ?? Date.now() - cleanStart;
+      cleaned = mergedLeads.get(lead) ?? cleanResult.cleaned;
 
       ensureNotAborted();
 
@@ -312,6 +614,7 @@ export async function scoreLeads(
         reviewCacheKeys.add(`query:${normalizedQuery}`);
       }
 
+      lookupStart = Date.now();
       for (const key of reviewCacheKeys) {
         const existing = reviewPromiseCache.get(key);
         if (existing) {
@@ -373,6 +676,9 @@ export async function scoreLeads(
             reviewPromiseCache.delete(key);
           }
         }
+        if (failOnThrottledLookups && mapsThrottledSince(lookupStart)) {
+          throw new MapsThrottledError();
+        }
       }
 
       if (websitePromise) {
@@ -383,34 +689,69 @@ export async function scoreLeads(
 
       ensureNotAborted();
 
-      scoreStart = Date.now();
-      const modelScore = await enqueueScoreRequest({
-        lead,
+      const inputHash = computeInputHash({
         cleaned,
         reviews: reviewSnapshot,
-        website: websiteSignals
+        website: websiteSignals,
+        scoringMode,
+        hybrid,
+        model: `${provider.name}:${provider.model ?? ""}`,
+        weights: selectWeights(cleaned.industry ?? lead.industry, weightProfiles).weights,
+        bands: bandSet.bands,
+        promptVersionIds: {
+          ...(scorePrompt ? { score: scorePrompt.id } : {}),
+          ...(cleanResult.prompt ? { clean: cleanResult.prompt.id } : {})
+        }
       });
+      const freshRun = await findFreshRun(inputHash, lead.lead_id);
+
+      ensureNotAborted();
+
+      scoreStart = Date.now();
+      let leadScore: LeadScoreResponse;
+      if (freshRun) {
+        leadScore = storedRunToScore(freshRun, lead);
+      } else {
+        const batchItem = { lead: cleaned, reviews: reviewSnapshot, website: websiteSignals };
+        const scoreWithRules = () =>
+          scoreLeadWithRules(batchItem, { weightProfiles, bands: bandSet.bands });
+        if (scoringMode === "rules") {
+          leadScore = scoreWithRules();
+        } else {
+          const { score: modelScore, usage: modelUsage } = await enqueueScoreRequest({
+            lead,
+            cleaned,
+            reviews: reviewSnapshot,
+            website: websiteSignals
+          });
+          scoreUsage = modelUsage;
+          leadScore =
+            scoringMode === "hybrid"
+              ? blendLeadScores(modelScore, scoreWithRules(), hybrid, bandSet.bands)
+              : modelScore;
+        }
+        leadScore.prompt_versions = {
+          ...(scorePrompt ? { score: toPromptRef(scorePrompt) } : {}),
+          ...(cleanResult.prompt ? { clean: cleanResult.prompt } : {})
+        };
+      }
       scoreDuration = Date.now() - scoreStart;
 
       const result = {
         lead,
-        score: modelScore,
+        score: leadScore,
         enriched: {
           cleaned,
           reviews: reviewSnapshot,
           website: websiteSignals
-        }
+        },
+        input_hash: inputHash,
+        ...(freshRun ? { reused: { run_id: freshRun.id, scored_at: freshRun.created_at } } : {}),
+        usage: { clean: toStepUsage(cleanResult.usage, cleanResult.model), score: scoreUsage }
       } as LeadScoreApiResponse["leads"][number];
 
-      batches.push(result);
-      if (options.onProgress) {
-        await options.onProgress({
-          processed: batches.length,
-          total: leads.length,
-          lead,
-          result
-        });
-      }
+      await emitResult(result);
+      await emitFollowers(lead, result);
     } catch (processingError) {
       if (processingError instanceof LeadScoringAbortError) {
         status = "cancelled";
@@ -432,7 +773,7 @@ export async function scoreLeads(
       }
       console.error("Failed to score lead", { leadId: lead.lead_id }, processingError);
 
-      const weights = selectWeights(cleaned?.industry ?? lead.industry);
+      const weights = selectWeights(cleaned?.industry ?? lead.industry, weightProfiles);
       const safeCleaned =
         cleaned ?? {
           lead_id: lead.lead_id,
@@ -447,27 +788,23 @@ export async function scoreLeads(
           provenance: {}
         };
 
+      const fallbackBand = resolveBand(0, bandSet.bands);
       const fallbackScore: LeadScoreApiResponse["leads"][number]["score"] = {
         lead_id: lead.lead_id,
         industry: safeCleaned.industry ?? lead.industry ?? "default",
-        weights_applied: weights,
-        scores: {
-          website_activity: 0,
-          reviews: {
-            average_rating: reviewSnapshot.averageRating,
-            review_count: reviewSnapshot.reviewCount,
-            score: 0
-          },
-          years_in_business: 0,
-          revenue_proxies: 0,
-          industry_fit: 0
-        },
+        weights_applied: weights.weights,
+        weight_profile: weights.profile,
+        scores: Object.fromEntries(usedFactors(weights.weights).map((factor) => [factor.id, 0])),
+        factors: usedFactors(weights.weights).map(toFactorMeta),
         reasoning:
           processingError instanceof Error
             ? `Scoring failed: ${processingError.message}`
             : `Scoring failed: ${String(processingError)}`,
         final_score: 0,
-        interpretation: "Cold Dead"
+        interpretation: fallbackBand.label,
+        band: fallbackBand,
+        scoring_mode: scoringMode,
+        prompt_versions: cleanResult?.prompt ? { clean: cleanResult.prompt } : undefined
       };
 
       const result = {
@@ -477,18 +814,19 @@ export async function scoreLeads(
           cleaned: safeCleaned,
           reviews: reviewSnapshot,
           website: websiteSignals
+        },
+        usage: {
+          clean: cleanResult ? toStepUsage(cleanResult.usage, cleanResult.model) : null,
+          score: scoreUsage
+        },
+        error: {
+          message: processingError instanceof Error ? processingError.message : String(processingError),
+          transient: isTransientError(processingError)
         }
       } as LeadScoreApiResponse["leads"][number];
 
-      batches.push(result);
-      if (options.onProgress) {
-        await options.onProgress({
-          processed: batches.length,
-          total: leads.length,
-          lead,
-          result
-        });
-      }
+      await emitResult(result);
+      await emitFollowers(lead, result);
     } finally {
       const totalDuration = Date.now() - startedAt;
       console.info("lead processing timing", {
@@ -514,33 +852,29 @@ export async function scoreLeads(
   };
 
   try {
-    while (queue.length > 0 || workers.length > 0) {
-      if (aborted) {
-        break;
-      }
+    let dedupeReport: DedupeReport | null = null;
+    let leadsToScore = leads;
 
-      while (queue.length > 0 && workers.length < maxConcurrency) {
-        if (aborted) {
-          break;
-        }
-        const lead = queue.shift();
-        if (!lead) {
-          break;
+    if (dedupePolicy !== "off") {
+      await runPool(leads, async (lead) => {
+        const startedAt = Date.now();
+        try {
+          cleanStages.set(lead, { result: await cleanLead(lead), durationMs: Date.now() - startedAt });
+        } catch (error) {
+          // Left out of dedupe; processLead cleans it again and records the failure.
+          console.error("Failed to clean lead before dedupe", { leadId: lead.lead_id }, error);
         }
-        const worker = processLead(lead).finally(() => {
-          const index = workers.indexOf(worker);
-          if (index >= 0) {
-            workers.splice(index, 1);
-          }
-        });
-        workers.push(worker);
-      }
+      });
 
-      if (workers.length > 0) {
-        await Promise.race(workers);
+      if (!aborted) {
+        dedupeReport = await planDedupe();
+        const followers = new Set(Array.from(followersByPrimary.values()).flatMap((group) => group.followers));
+        leadsToScore = leads.filter((lead) => !followers.has(lead));
       }
     }
 
+    await runPool(leadsToScore, processLead);
+
     await drainScoringQueue();
     await flushUsageLogs(true);
 
@@ -559,11 +893,12 @@ export async function scoreLeads(
         if (!client) {
           throw new Error("Supabase environment variables missing");
         }
-        const result = await saveLeadRunsToSupabase(
-          batches,
-          client,
-          options.userId ?? null
-        );
+        // Scores reused from saved runs are already stored; failed leads have no real score.
+        const unsaved = batches.filter((entry) => !entry.reused && !entry.error);
+        const result =
+          unsaved.length > 0
+            ? await saveLeadRunsToSupabase(unsaved, client, options.userId ?? null)
+            : { saved: true, count: 0 };
         supabaseResult = { ...result, requested: true };
       } catch (supabaseError) {
         supabaseResult = {
@@ -582,7 +917,13 @@ export async function scoreLeads(
       supabaseResult = { saved: false, count: 0, requested: true };
     }
 
-    return { leads: batches, supabase: supabaseResult, usage: usageSummary };
+    return { leads: batches, supabase: supabaseResult, usage: usageSummary, dedupe: dedupeReport };
+  } catch (error) {
+    if (error instanceof LeadScoringAbortError) {
+      // The finally block below drains the scoring queue first, so this ends up complete.
+      error.usage = usageSummary;
+    }
+    throw error;
   } finally {
     abortSignal?.removeEventListener("abort", handleAbort);
     await drainScoringQueue();
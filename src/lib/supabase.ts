@@ -1,6 +1,8 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
 import type { LeadScoreApiResponse, SupabaseSaveResult } from "./types";
+import { companyIdentity, resolveCompanyIds } from "./companies";
+import { dedupeKeys, serializeDedupeKeys } from "./dedupe";
 import { getEnv } from "./env";
 
 let cachedAdminClient: SupabaseClient | null = null;
@@ -37,17 +39,41 @@ export async function saveLeadRunsToSupabase(
     return { saved: false, count: 0, error: "No leads provided" };
   }
 
-  const rows = leads.map(({ lead, score, enriched }) => ({
+  // A run is still saved when its company can't be resolved; it just has no history link.
+  let companyIds: Array<string | null> = leads.map(() => null);
+  if (userId) {
+    try {
+      companyIds = await resolveCompanyIds(
+        client,
+        userId,
+        leads.map(({ enriched }) => (enriched?.cleaned ? companyIdentity(enriched.cleaned) : null))
+      );
+    } catch (error) {
+      console.error("Failed to link lead runs to companies", { userId }, error);
+    }
+  }
+
+  const rows = leads.map(({ lead, score, enriched, input_hash }, index) => ({
     user_id: userId ?? null,
+    company_id: companyIds[index],
     lead_id: lead.lead_id,
     company: lead.company,
     industry: score.industry,
     final_score: score.final_score,
     interpretation: score.interpretation,
+    band: score.band ?? null,
+    scoring_mode: score.scoring_mode ?? null,
+    disagreement: score.disagreement ?? null,
+    needs_review: score.needs_review === true,
     weights: score.weights_applied,
+    weight_profile: score.weight_profile ?? null,
     scores: score.scores,
+    factors: score.factors ?? null,
+    prompt_versions: score.prompt_versions ?? null,
     reasoning: score.reasoning,
     enriched,
+    dedupe_keys: enriched?.cleaned ? serializeDedupeKeys(dedupeKeys(enriched.cleaned)) : [],
+    input_hash: input_hash ?? null,
     created_at: new Date().toISOString()
   }));
 
@@ -68,6 +94,9 @@ export type TokenUsageEntry = {
   total_tokens: number;
   batch_id?: string | null;
   user_id?: string | null;
+  model?: string | null;
+  // Null when the model has no price in src/lib/pricing.ts.
+  cost_usd?: number | null;
 };
 
 export async function logTokenUsage(entries: TokenUsageEntry[]): Promise<void> {
@@ -90,6 +119,8 @@ export async function logTokenUsage(entries: TokenUsageEntry[]): Promise<void> {
     total_tokens: entry.total_tokens,
     batch_id: entry.batch_id ?? null,
     user_id: entry.user_id ?? null,
+    model: entry.model ?? null,
+    cost_usd: entry.cost_usd ?? null,
     created_at: new Date().toISOString()
   }));
 
@@ -1,3 +1,22 @@
+// Lead fields an upload column can be mapped to (see src/lib/leadFields.ts).
+export type LeadField =
+  | "lead_id"
+  | "company"
+  | "industry"
+  | "website"
+  | "email"
+  | "phone"
+  | "contact"
+  | "city"
+  | "state"
+  | "country"
+  | "address"
+  | "notes"
+  | "founded";
+
+// Lead field -> normalized header key. A field set to null is deliberately left unmapped.
+export type ColumnMapping = Partial<Record<LeadField, string | null>>;
+
 export type LeadInput = {
   lead_id: string;
   company: string;
@@ -6,6 +25,8 @@ export type LeadInput = {
   website?: string;
   notes?: string;
   normalized?: Record<string, string>;
+  // When present, fields are read from these columns instead of the alias lists.
+  mapping?: ColumnMapping;
 };
 
 export type ReviewSnapshot = {
@@ -25,6 +46,10 @@ export type TokenUsageTotals = {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  // Absent on jobs recorded before cost tracking.
+  costUsd?: number;
+  // Tokens from models missing from the price table; not included in costUsd.
+  unpricedTokens?: number;
 };
 
 export type TokenUsageSummary = {
@@ -32,32 +57,148 @@ export type TokenUsageSummary = {
   scoring: TokenUsageTotals;
 };
 
+// Tokens and cost attributed to one lead for one LLM step. Batched calls are split by each
+// lead's share of the request and reply (see src/lib/llm/usage.ts).
+export type LeadStepUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Null when the model has no known price.
+  costUsd: number | null;
+  model: string | null;
+};
+
+export type LeadUsage = {
+  clean: LeadStepUsage | null;
+  // Null when no model call scored the lead (rules mode, reused scores, duplicates).
+  score: LeadStepUsage | null;
+};
+
+export type WeightProfileRef = {
+  id: string | null;
+  name: string;
+  version: number | null;
+};
+
+export type InterpretationBand = {
+  label: string;
+  min: number;
+  color: string;
+  action: string;
+};
+
+export type PromptKind = "score" | "clean";
+
+// Built-in prompts use ids like "builtin:score" and version 0.
+export type PromptRef = {
+  id: string;
+  kind: PromptKind;
+  version: number;
+  name: string;
+};
+
+export type ScoringMode = "model" | "rules" | "hybrid";
+
+export type FactorMeta = {
+  id: string;
+  label: string;
+  scorer: "deterministic" | "model";
+};
+
+// Factor id -> 0-10 score for every factor the run's weight profile used.
+export type FactorScores = Record<string, number>;
+
+export type FactorDisagreement = {
+  model: number;
+  rules: number;
+  blended: number;
+  gap: number;
+};
+
+export type HybridBlend = {
+  model_ratio: number;
+  review_threshold: number;
+};
+
 export type LeadScoreResponse = {
   lead_id: string;
   industry: string;
-  weights_applied: {
-    website_activity: number;
-    reviews: number;
-    years_in_business: number;
-    revenue_proxies: number;
-    industry_fit: number;
-  };
-  scores: {
-    website_activity: number;
-    reviews: {
-      average_rating: number | null;
-      review_count: number | null;
-      score: number;
-    };
-    years_in_business: number;
-    revenue_proxies: number;
-    industry_fit: number;
-  };
+  weights_applied: Record<string, number>;
+  weight_profile?: WeightProfileRef;
+  scores: FactorScores;
+  factors?: FactorMeta[];
   reasoning: string;
   final_score: number;
-  interpretation: "Cold Dead" | "Borderline" | "Qualified" | "Hot";
+  interpretation: string;
+  band?: InterpretationBand;
+  scoring_mode?: ScoringMode;
+  blend?: HybridBlend;
+  disagreement?: Record<string, FactorDisagreement>;
+  needs_review?: boolean;
+  prompt_versions?: Partial<Record<PromptKind, PromptRef>>;
 };
 
+// off: score every row. report: detect and report clusters only. skip: duplicates reuse the
+// primary's score. merge: like skip, but the primary is enriched with fields merged from its
+// duplicates first.
+export type DedupePolicy = "off" | "report" | "skip" | "merge";
+
+export type DedupeMatchKind = "domain" | "phone" | "maps_url" | "company_location";
+
+export type DedupeCluster = {
+  id: string;
+  primary_lead_id: string;
+  // Includes the primary.
+  lead_ids: string[];
+  matched_on: DedupeMatchKind[];
+  // Most recent saved lead run for the same business, if any.
+  existing_run: { id: string; lead_id: string; created_at: string } | null;
+  action: "reported" | "skipped" | "merged";
+};
+
+export type DedupeReport = {
+  policy: DedupePolicy;
+  clusters: DedupeCluster[];
+  // Rows that were not enriched or scored because another row's score was copied.
+  skipped: number;
+};
+
+// Set on a result whose score was copied from another row.
+export type DuplicateRef = {
+  cluster_id: string;
+  lead_id: string;
+};
+
+// Set on a result whose score was taken from a recent saved run with the same input hash.
+export type ReusedScoreRef = {
+  run_id: string;
+  scored_at: string;
+};
+
+// Transient errors (provider 5xx/429, timeouts, Maps throttling) are worth retrying.
+export type LeadScoreError = {
+  message: string;
+  transient: boolean;
+};
+
+// A rep's correction to a saved run. The run's own score fields keep the model's answer.
+export type LeadRunOverride = {
+  id: string;
+  // Overridden factors only.
+  scores: FactorScores | null;
+  // Recomputed from the overridden factors, or the run's score when only the band changed.
+  final_score: number;
+  interpretation: string;
+  band: InterpretationBand | null;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+};
+
+// What sales reported after working a saved lead. bad_data means the lead itself was wrong
+// (closed business, wrong contact) and says nothing about the score.
+export type LeadOutcome = "contacted" | "meeting_booked" | "won" | "lost" | "bad_data";
+
 export type LeadScoreApiResponse = {
   leads: Array<{
     lead: LeadInput;
@@ -67,7 +208,15 @@ export type LeadScoreApiResponse = {
       reviews: ReviewSnapshot;
       website: import("./enrich/website").WebsiteSignals | null;
     };
+    duplicate_of?: DuplicateRef;
+    // Hash of the cleaned lead, enrichment signals and scoring setup (see src/lib/reuse.ts).
+    input_hash?: string;
+    reused?: ReusedScoreRef;
+    usage?: LeadUsage;
+    // Set on the placeholder result of a lead that could not be scored.
+    error?: LeadScoreError;
   }>;
   supabase?: (SupabaseSaveResult & { requested: boolean }) | null;
   usage?: TokenUsageSummary;
+  dedupe?: DedupeReport | null;
 };
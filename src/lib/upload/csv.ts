@@ -0,0 +1,128 @@
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+
+// Picks the candidate that appears most often outside quotes in the header line.
+export function detectDelimiter(headerLine: string): string {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of headerLine) {
+    if (char === "\"") {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+  }
+
+  let best = ",";
+  let bestCount = 0;
+  for (const [delimiter, count] of counts) {
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export type CsvParser = {
+  // Returns the rows completed by this chunk; a partial trailing row is kept for the next call.
+  push(chunk: string): string[][];
+  flush(): string[][];
+};
+
+// Incremental RFC 4180 parser. Quotes, escaped quotes, and CRLF pairs may straddle chunk
+// boundaries. Without an explicit delimiter, input is buffered until the header line is complete.
+export function createCsvParser(explicitDelimiter?: string | null): CsvParser {
+  let delimiter = explicitDelimiter ?? null;
+  let pending = "";
+  let started = false;
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let quoteInQuoted = false;
+  let skipLineFeed = false;
+
+  const consume = (text: string, rows: string[][]) => {
+    for (let i = 0; i < text.length; i += 1) {
+      const char = text[i];
+
+      if (quoteInQuoted) {
+        quoteInQuoted = false;
+        if (char === "\"") {
+          cell += "\"";
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === "\"") {
+          quoteInQuoted = true;
+        } else {
+          cell += char;
+        }
+        continue;
+      }
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === "\n") {
+          continue;
+        }
+      }
+
+      if (char === "\"") {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = "";
+      } else if (char === "\n" || char === "\r") {
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = "";
+        skipLineFeed = char === "\r";
+      } else {
+        cell += char;
+      }
+    }
+  };
+
+  const push = (chunk: string): string[][] => {
+    let text = chunk;
+    if (!started) {
+      text = (pending + text).replace(/^\uFEFF/, "");
+      pending = "";
+      if (!delimiter) {
+        const lineEnd = text.search(/[\r\n]/);
+        if (lineEnd === -1) {
+          pending = text;
+          return [];
+        }
+        delimiter = detectDelimiter(text.slice(0, lineEnd));
+      }
+      started = true;
+    }
+    const rows: string[][] = [];
+    consume(text, rows);
+    return rows;
+  };
+
+  const flush = (): string[][] => {
+    const rows: string[][] = [];
+    if (!started && pending) {
+      delimiter ??= detectDelimiter(pending);
+      started = true;
+      consume(pending, rows);
+      pending = "";
+    }
+    if (cell.length > 0 || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    }
+    return rows;
+  };
+
+  return { push, flush };
+}
@@ -0,0 +1,34 @@
+import { getValue } from "@/lib/leadFields";
+import { OutcomeValidationError, type OutcomeInput } from "@/lib/outcomes";
+import { readUploadRecords, type UploadFormat } from "./parse";
+
+const MAX_IMPORT_ROWS = 10000;
+
+// Import column aliases, as normalized headers.
+const RUN_ID_ALIASES = ["run_id", "lead_run_id"];
+const LEAD_ID_ALIASES = ["lead_id", "lead"];
+const OUTCOME_ALIASES = ["outcome", "status", "stage", "result"];
+const NOTE_ALIASES = ["note", "notes", "comment", "comments"];
+const DATE_ALIASES = ["occurred_at", "date", "outcome_date", "closed_at", "updated_at"];
+
+// A CRM export with one row per lead: run_id or lead_id, outcome, and optionally a note and date.
+export async function readOutcomeImport(
+  stream: ReadableStream<Uint8Array>,
+  format: UploadFormat,
+  delimiter?: string | null
+): Promise<OutcomeInput[]> {
+  const inputs: OutcomeInput[] = [];
+  for await (const record of readUploadRecords(stream, format, { delimiter })) {
+    if (inputs.length >= MAX_IMPORT_ROWS) {
+      throw new OutcomeValidationError(`Outcome imports are limited to ${MAX_IMPORT_ROWS} rows`);
+    }
+    inputs.push({
+      runId: getValue(record, RUN_ID_ALIASES) ?? null,
+      leadId: getValue(record, LEAD_ID_ALIASES) ?? null,
+      outcome: getValue(record, OUTCOME_ALIASES) ?? "",
+      note: getValue(record, NOTE_ALIASES) ?? null,
+      occurredAt: getValue(record, DATE_ALIASES) ?? null
+    });
+  }
+  return inputs;
+}
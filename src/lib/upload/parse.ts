@@ -0,0 +1,261 @@
+import { normalizeHeader, type ParsedLead } from "@/lib/leadFields";
+import { createCsvParser } from "./csv";
+import { readXlsxRows, XlsxFormatError } from "./xlsx";
+
+export type UploadFormat = "csv" | "tsv" | "xlsx" | "jsonl";
+
+const UPLOAD_FORMATS: UploadFormat[] = ["csv", "tsv", "xlsx", "jsonl"];
+
+const UPLOAD_MAX_BYTES = Math.max(Number(process.env.UPLOAD_MAX_BYTES ?? String(50 * 1024 * 1024)), 1);
+// Worksheet XML rarely compresses better than this; anything past it is treated as a zip bomb.
+const XLSX_MAX_EXPANSION = 20;
+
+export class UploadValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadValidationError";
+  }
+}
+
+export function detectUploadFormat(
+  fileName: string | null,
+  contentType: string | null,
+  explicit?: string | null
+): UploadFormat {
+  const requested = explicit?.trim().toLowerCase();
+  if (requested) {
+    if (!UPLOAD_FORMATS.includes(requested as UploadFormat)) {
+      throw new UploadValidationError(`Unsupported upload format "${explicit}"`);
+    }
+    return requested as UploadFormat;
+  }
+
+  const extension = fileName?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  switch (extension) {
+    case "xlsx":
+      return "xlsx";
+    case "tsv":
+    case "tab":
+      return "tsv";
+    case "jsonl":
+    case "ndjson":
+      return "jsonl";
+    case "xls":
+      throw new UploadValidationError("Legacy .xls workbooks are not supported; save as .xlsx or CSV");
+  }
+
+  const type = contentType?.toLowerCase() ?? "";
+  if (type.includes("spreadsheetml")) {
+    return "xlsx";
+  }
+  if (type.includes("tab-separated")) {
+    return "tsv";
+  }
+  if (type.includes("ndjson") || type.includes("jsonl")) {
+    return "jsonl";
+  }
+  return "csv";
+}
+
+async function* readChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let bytes = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      bytes += value.byteLength;
+      if (bytes > UPLOAD_MAX_BYTES) {
+        throw new UploadValidationError(`Upload exceeds the ${Math.round(UPLOAD_MAX_BYTES / 1024 / 1024)} MB limit`);
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* readTextChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder("utf-8");
+  for await (const chunk of readChunks(stream)) {
+    const text = decoder.decode(chunk, { stream: true });
+    if (text) {
+      yield text;
+    }
+  }
+  const tail = decoder.decode();
+  if (tail) {
+    yield tail;
+  }
+}
+
+async function* readDelimitedRows(
+  stream: ReadableStream<Uint8Array>,
+  delimiter: string | null
+): AsyncGenerator<string[]> {
+  const parser = createCsvParser(delimiter);
+  for await (const text of readTextChunks(stream)) {
+    yield* parser.push(text);
+  }
+  yield* parser.flush();
+}
+
+async function* readXlsx(stream: ReadableStream<Uint8Array>): AsyncGenerator<string[]> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of readChunks(stream)) {
+    chunks.push(chunk);
+  }
+  try {
+    yield* readXlsxRows(Buffer.concat(chunks), { maxEntryBytes: UPLOAD_MAX_BYTES * XLSX_MAX_EXPANSION });
+  } catch (error) {
+    if (error instanceof XlsxFormatError) {
+      throw new UploadValidationError(error.message);
+    }
+    throw error;
+  }
+}
+
+const stringifyCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+async function* readJsonLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<Record<string, string>> {
+  let buffer = "";
+  let lineNumber = 0;
+
+  const parseLine = (line: string): Record<string, string> | null => {
+    lineNumber += 1;
+    const trimmed = line.trim().replace(/^\uFEFF/, "");
+    if (!trimmed) {
+      return null;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new UploadValidationError(`Line ${lineNumber} is not valid JSON`);
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new UploadValidationError(`Line ${lineNumber} must be a JSON object`);
+    }
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, unknown>).map(([key, value]) => [key, stringifyCell(value)])
+    );
+  };
+
+  for await (const text of readTextChunks(stream)) {
+    buffer += text;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const record = parseLine(line);
+      if (record) {
+        yield record;
+      }
+    }
+  }
+  const record = parseLine(buffer);
+  if (record) {
+    yield record;
+  }
+}
+
+export type UploadReadOptions = {
+  // Forces the CSV delimiter; detected from the header line otherwise.
+  delimiter?: string | null;
+  // Called once with the original header names, before the first record.
+  onHeaders?: (headers: string[]) => void;
+};
+
+// Yields one record per data row, keyed by normalized header. Blank rows are skipped.
+export async function* readUploadRecords(
+  stream: ReadableStream<Uint8Array>,
+  format: UploadFormat,
+  options: UploadReadOptions = {}
+): AsyncGenerator<ParsedLead> {
+  if (format === "jsonl") {
+    // JSON Lines has no header row; the first record's keys stand in for it.
+    let first = true;
+    for await (const raw of readJsonLines(stream)) {
+      if (first) {
+        options.onHeaders?.(Object.keys(raw));
+        first = false;
+      }
+      const record: ParsedLead = {};
+      Object.entries(raw).forEach(([key, value], index) => {
+        record[normalizeHeader(key, index)] = value;
+      });
+      yield record;
+    }
+    return;
+  }
+
+  const rows =
+    format === "xlsx"
+      ? readXlsx(stream)
+      : readDelimitedRows(stream, format === "tsv" ? "\t" : options.delimiter ?? null);
+
+  let keys: string[] | null = null;
+  for await (const row of rows) {
+    if (!keys) {
+      if (row.every((cell) => cell.trim() === "")) {
+        continue;
+      }
+      const headers = row.map((cell) => cell.trim());
+      keys = headers.map((header, index) => normalizeHeader(header, index));
+      options.onHeaders?.(headers);
+      continue;
+    }
+    if (row.every((cell) => cell.trim() === "")) {
+      continue;
+    }
+
+    const record: ParsedLead = {};
+    keys.forEach((key, index) => {
+      record[key] = row[index]?.trim() ?? "";
+    });
+    yield record;
+  }
+
+  if (!keys) {
+    throw new UploadValidationError("Upload is empty or has no header row");
+  }
+}
+
+export type UploadPreview = {
+  headers: string[];
+  // Normalized header keys, aligned with headers; these are what a column mapping refers to.
+  keys: string[];
+  sample: ParsedLead[];
+};
+
+// Reads just enough of the stream for the header row and a few sample records.
+export async function previewUpload(
+  stream: ReadableStream<Uint8Array>,
+  format: UploadFormat,
+  options: { delimiter?: string | null; sampleSize?: number } = {}
+): Promise<UploadPreview> {
+  let headers: string[] = [];
+  const sample: ParsedLead[] = [];
+  const sampleSize = options.sampleSize ?? 5;
+
+  const records = readUploadRecords(stream, format, {
+    delimiter: options.delimiter,
+    onHeaders: (names) => {
+      headers = names;
+    }
+  });
+  for await (const record of records) {
+    sample.push(record);
+    if (sample.length >= sampleSize) {
+      break;
+    }
+  }
+
+  return { headers, keys: headers.map((header, index) => normalizeHeader(header, index)), sample };
+}
@@ -0,0 +1,203 @@
+import { inflateRawSync } from "zlib";
+
+// Minimal XLSX reader: enough of ZIP and SpreadsheetML to pull cell text from the first
+// worksheet. The archive is read into memory (the central directory sits at the end), but
+// rows are decoded lazily. Numbers and dates come back as their raw cell values.
+
+export class XlsxFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XlsxFormatError";
+  }
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// Hard ceiling on one inflated entry, well under the longest string V8 can hold.
+const MAX_ENTRY_BYTES = 256 * 1024 * 1024;
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+};
+
+function readZipDirectory(buffer: Buffer): Map<string, ZipEntry> {
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset -= 1) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new XlsxFormatError("File is not a valid XLSX workbook");
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new XlsxFormatError("ZIP64 workbooks are not supported; save as CSV instead");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let index = 0; index < entryCount; index += 1) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new XlsxFormatError("Corrupt XLSX central directory");
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, { method, compressedSize, uncompressedSize, localOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readZipEntry(
+  buffer: Buffer,
+  entries: Map<string, ZipEntry>,
+  name: string,
+  maxEntryBytes: number
+): string | null {
+  const entry = entries.get(name);
+  if (!entry) {
+    return null;
+  }
+  // The declared size can lie, so inflating is capped as well.
+  if (entry.uncompressedSize > maxEntryBytes) {
+    throw new XlsxFormatError("Workbook is too large once uncompressed; save as CSV instead");
+  }
+  if (buffer.readUInt32LE(entry.localOffset) !== LOCAL_SIGNATURE) {
+    throw new XlsxFormatError(`Corrupt XLSX entry ${name}`);
+  }
+  const nameLength = buffer.readUInt16LE(entry.localOffset + 26);
+  const extraLength = buffer.readUInt16LE(entry.localOffset + 28);
+  const start = entry.localOffset + 30 + nameLength + extraLength;
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return data.toString("utf8");
+    case 8:
+      try {
+        return inflateRawSync(data, { maxOutputLength: maxEntryBytes }).toString("utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new XlsxFormatError("Workbook is too large once uncompressed; save as CSV instead");
+        }
+        throw new XlsxFormatError(`Corrupt XLSX entry ${name}`);
+      }
+    default:
+      throw new XlsxFormatError(`Unsupported XLSX compression method ${entry.method}`);
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(Number(entity.slice(1)));
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Concatenates every <t> run, which covers plain and rich-text strings.
+function readText(xml: string): string {
+  let text = "";
+  for (const match of xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+function columnIndex(reference: string | null, fallback: number): number {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) {
+    return fallback;
+  }
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function firstSheetPath(buffer: Buffer, entries: Map<string, ZipEntry>, maxEntryBytes: number): string {
+  const workbook = readZipEntry(buffer, entries, "xl/workbook.xml", maxEntryBytes);
+  const rels = readZipEntry(buffer, entries, "xl/_rels/workbook.xml.rels", maxEntryBytes);
+  const sheetTag = workbook?.match(/<sheet\b([^>]*)\/?>/)?.[1];
+  const relId = sheetTag ? readAttribute(sheetTag, "r:id") : null;
+  if (relId && rels) {
+    for (const match of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+      if (readAttribute(match[1], "Id") === relId) {
+        const target = readAttribute(match[1], "Target") ?? "";
+        return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+      }
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+// `maxEntryBytes` caps each inflated part of the archive, so a zip bomb fails with an
+// XlsxFormatError instead of exhausting memory.
+export function* readXlsxRows(buffer: Buffer, options: { maxEntryBytes?: number } = {}): Generator<string[]> {
+  const maxEntryBytes = Math.min(options.maxEntryBytes ?? MAX_ENTRY_BYTES, MAX_ENTRY_BYTES);
+  const entries = readZipDirectory(buffer);
+  const sheet = readZipEntry(buffer, entries, firstSheetPath(buffer, entries, maxEntryBytes), maxEntryBytes);
+  if (sheet === null) {
+    throw new XlsxFormatError("Workbook has no worksheets");
+  }
+
+  const sharedXml = readZipEntry(buffer, entries, "xl/sharedStrings.xml", maxEntryBytes) ?? "";
+  const sharedStrings = Array.from(sharedXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), (match) =>
+    readText(match[1])
+  );
+
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+    let position = 0;
+    for (const cellMatch of (rowMatch[1] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const index = columnIndex(readAttribute(attributes, "r"), position);
+      const type = readAttribute(attributes, "t");
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s") {
+        value = raw !== undefined ? (sharedStrings[Number(raw)] ?? "") : "";
+      } else if (type === "inlineStr") {
+        value = readText(body);
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+
+      while (cells.length < index) {
+        cells.push("");
+      }
+      cells[index] = value;
+      position = index + 1;
+    }
+    yield cells;
+  }
+}
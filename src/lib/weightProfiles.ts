@@ -0,0 +1,481 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  MAX_MATCH_PATTERN_LENGTH,
+  isSafeMatchPattern,
+  type WeightMatchRule,
+  type WeightProfile,
+  type WeightSet
+} from "@/lib/ai/scoring";
+import { getFactor } from "@/lib/factors";
+import { getSupabaseAdminClient } from "@/lib/supabase";
+
+const WEIGHT_SUM_TOLERANCE = 0.01;
+const MATCH_RULE_TYPES: ReadonlyArray<WeightMatchRule["type"]> = ["contains", "equals", "regex"];
+// Concurrent edits can pick the same next version; the loser re-reads and tries again.
+const VERSION_INSERT_ATTEMPTS = 3;
+const UNIQUE_VIOLATION = "23505";
+
+export class WeightProfileValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WeightProfileValidationError";
+  }
+}
+
+type WeightProfileRow = {
+  id: string;
+  user_id: string | null;
+  name: string;
+  priority: number;
+  is_default: boolean;
+  current_version: number;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type WeightProfileVersionRow = {
+  profile_id: string;
+  version: number;
+  weights: WeightSet;
+  match_rules: WeightMatchRule[] | null;
+  created_at: string;
+};
+
+export type WeightProfileInput = {
+  name?: string;
+  priority?: number;
+  isDefault?: boolean;
+  weights?: WeightSet;
+  matchRules?: WeightMatchRule[];
+};
+
+export type WeightProfileVersion = {
+  version: number;
+  weights: WeightSet;
+  matchRules: WeightMatchRule[];
+  createdAt: number;
+};
+
+export type WeightProfileDetail = WeightProfile & {
+  id: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  versions: WeightProfileVersion[];
+};
+
+function requireClient(): SupabaseClient {
+  const client = getSupabaseAdminClient();
+  if (!client) {
+    throw new Error("Supabase client not configured");
+  }
+  return client;
+}
+
+function validateWeights(raw: unknown): WeightSet {
+  if (!raw || typeof raw !== "object") {
+    throw new WeightProfileValidationError("Weights are required");
+  }
+
+  const weights: WeightSet = {};
+  let sum = 0;
+
+  for (const [factor, rawValue] of Object.entries(raw as Record<string, unknown>)) {
+    if (!getFactor(factor)) {
+      throw new WeightProfileValidationError(`Unknown scoring factor "${factor}"`);
+    }
+    const value = Number(rawValue);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new WeightProfileValidationError(`Weight for ${factor} must be a non-negative number`);
+    }
+    if (value > 0) {
+      weights[factor] = value;
+      sum += value;
+    }
+  }
+
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    throw new WeightProfileValidationError(`Weights must sum to 1 (received ${Number(sum.toFixed(3))})`);
+  }
+
+  return weights;
+}
+
+function validateMatchRules(raw: unknown): WeightMatchRule[] {
+  if (raw === undefined || raw === null) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    throw new WeightProfileValidationError("Match rules must be an array");
+  }
+
+  return raw.map((entry, index) => {
+    const type = (entry as { type?: unknown })?.type ?? "contains";
+    const value = (entry as { value?: unknown })?.value;
+
+    if (!MATCH_RULE_TYPES.includes(type as WeightMatchRule["type"])) {
+      throw new WeightProfileValidationError(`Match rule ${index + 1} has an unknown type`);
+    }
+    if (typeof value !== "string" || value.trim() === "") {
+      throw new WeightProfileValidationError(`Match rule ${index + 1} needs a value`);
+    }
+    if (type === "regex") {
+      try {
+        new RegExp(value, "i");
+      } catch {
+        throw new WeightProfileValidationError(`Match rule ${index + 1} is not a valid regular expression`);
+      }
+      if (value.trim().length > MAX_MATCH_PATTERN_LENGTH) {
+        throw new WeightProfileValidationError(
+          `Match rule ${index + 1} is longer than ${MAX_MATCH_PATTERN_LENGTH} characters`
+        );
+      }
+      if (!isSafeMatchPattern(value.trim())) {
+        throw new WeightProfileValidationError(
+          `Match rule ${index + 1} repeats a group that has its own quantifier or alternation, or uses a backreference`
+        );
+      }
+    }
+
+    return { type: type as WeightMatchRule["type"], value: value.trim() };
+  });
+}
+
+function validateName(raw: unknown): string {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    throw new WeightProfileValidationError("Profile name is required");
+  }
+  return raw.trim();
+}
+
+function validatePriority(raw: unknown): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value)) {
+    throw new WeightProfileValidationError("Priority must be an integer");
+  }
+  return value;
+}
+
+function toProfile(row: WeightProfileRow, version: WeightProfileVersionRow): WeightProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    version: version.version,
+    priority: row.priority,
+    isDefault: row.is_default,
+    weights: version.weights,
+    matchRules: version.match_rules ?? []
+  };
+}
+
+function toVersion(row: WeightProfileVersionRow): WeightProfileVersion {
+  return {
+    version: row.version,
+    weights: row.weights,
+    matchRules: row.match_rules ?? [],
+    createdAt: new Date(row.created_at).getTime()
+  };
+}
+
+async function loadProfileRow(
+  client: SupabaseClient,
+  profileId: string,
+  userId: string
+): Promise<WeightProfileRow | null> {
+  const { data, error } = await client
+    .from("weight_profiles")
+    .select("*")
+    .eq("id", profileId)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .maybeSingle<WeightProfileRow>();
+
+  if (error) {
+    console.error("Failed to load weight profile", { profileId }, error);
+    throw new Error(error.message ?? "Failed to load weight profile");
+  }
+
+  return data ?? null;
+}
+
+async function clearOtherDefaults(client: SupabaseClient, userId: string, keepId: string) {
+  const { error } = await client
+    .from("weight_profiles")
+    .update({ is_default: false })
+    .eq("user_id", userId)
+    .eq("is_default", true)
+    .neq("id", keepId);
+
+  if (error) {
+    console.error("Failed to clear default weight profiles", { userId }, error);
+  }
+}
+
+export async function listWeightProfiles(userId: string): Promise<WeightProfile[]> {
+  if (!userId) {
+    return [];
+  }
+
+  const client = requireClient();
+
+  const { data: rows, error } = await client
+    .from("weight_profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("priority", { ascending: true })
+    .returns<WeightProfileRow[]>();
+
+  if (error) {
+    console.error("Failed to list weight profiles", { userId }, error);
+    throw new Error(error.message ?? "Failed to list weight profiles");
+  }
+
+  if (!rows || rows.length === 0) {
+    return [];
+  }
+
+  const { data: versions, error: versionsError } = await client
+    .from("weight_profile_versions")
+    .select("*")
+    .in(
+      "profile_id",
+      rows.map((row) => row.id)
+    )
+    .returns<WeightProfileVersionRow[]>();
+
+  if (versionsError) {
+    console.error("Failed to load weight profile versions", { userId }, versionsError);
+    throw new Error(versionsError.message ?? "Failed to load weight profile versions");
+  }
+
+  const currentVersions = new Map<string, WeightProfileVersionRow>();
+  for (const version of versions ?? []) {
+    const row = rows.find((candidate) => candidate.id === version.profile_id);
+    if (row && row.current_version === version.version) {
+      currentVersions.set(row.id, version);
+    }
+  }
+
+  return rows
+    .filter((row) => currentVersions.has(row.id))
+    .map((row) => toProfile(row, currentVersions.get(row.id)!));
+}
+
+export async function getWeightProfile(
+  profileId: string,
+  userId: string
+): Promise<WeightProfileDetail | null> {
+  const client = requireClient();
+
+  const row = await loadProfileRow(client, profileId, userId);
+  if (!row) {
+    return null;
+  }
+
+  const { data: versions, error } = await client
+    .from("weight_profile_versions")
+    .select("*")
+    .eq("profile_id", profileId)
+    .order("version", { ascending: false })
+    .returns<WeightProfileVersionRow[]>();
+
+  if (error) {
+    console.error("Failed to load weight profile versions", { profileId }, error);
+    throw new Error(error.message ?? "Failed to load weight profile versions");
+  }
+
+  const current = (versions ?? []).find((version) => version.version === row.current_version);
+  if (!current) {
+    return null;
+  }
+
+  return {
+    ...toProfile(row, current),
+    id: row.id,
+    version: current.version,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+    versions: (versions ?? []).map(toVersion)
+  };
+}
+
+export async function createWeightProfile(
+  userId: string,
+  input: WeightProfileInput
+): Promise<WeightProfileDetail> {
+  const name = validateName(input.name);
+  const weights = validateWeights(input.weights);
+  const matchRules = validateMatchRules(input.matchRules);
+  const priority = input.priority === undefined ? 100 : validatePriority(input.priority);
+  const isDefault = input.isDefault === true;
+
+  const client = requireClient();
+
+  const { data: row, error } = await client
+    .from("weight_profiles")
+    .insert({
+      user_id: userId,
+      name,
+      priority,
+      is_default: isDefault,
+      current_version: 1
+    })
+    .select("*")
+    .single<WeightProfileRow>();
+
+  if (error || !row) {
+    console.error("Failed to create weight profile", { userId }, error);
+    throw new Error(error?.message ?? "Failed to create weight profile");
+  }
+
+  const { error: versionError } = await client.from("weight_profile_versions").insert({
+    profile_id: row.id,
+    version: 1,
+    weights,
+    match_rules: matchRules
+  });
+
+  if (versionError) {
+    console.error("Failed to store weight profile version", { profileId: row.id }, versionError);
+    await client.from("weight_profiles").delete().eq("id", row.id);
+    throw new Error(versionError.message ?? "Failed to store weight profile version");
+  }
+
+  if (isDefault) {
+    await clearOtherDefaults(client, userId, row.id);
+  }
+
+  const detail = await getWeightProfile(row.id, userId);
+  if (!detail) {
+    throw new Error("Failed to retrieve weight profile after creating it");
+  }
+  return detail;
+}
+
+// Stores a version one past the profile's highest. (profile_id, version) is the primary key,
+// so two edits racing for the same number can't both win.
+async function insertNextVersion(
+  client: SupabaseClient,
+  profileId: string,
+  weights: WeightSet,
+  matchRules: WeightMatchRule[]
+): Promise<number> {
+  for (let attempt = 1; ; attempt += 1) {
+    const { data: latest, error: latestError } = await client
+      .from("weight_profile_versions")
+      .select("version")
+      .eq("profile_id", profileId)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle<{ version: number }>();
+
+    if (latestError) {
+      console.error("Failed to load weight profile versions", { profileId }, latestError);
+      throw new Error(latestError.message ?? "Failed to load weight profile versions");
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+    const { error } = await client.from("weight_profile_versions").insert({
+      profile_id: profileId,
+      version,
+      weights,
+      match_rules: matchRules
+    });
+
+    if (!error) {
+      return version;
+    }
+    if (error.code !== UNIQUE_VIOLATION || attempt >= VERSION_INSERT_ATTEMPTS) {
+      console.error("Failed to store weight profile version", { profileId }, error);
+      throw new Error(error.message ?? "Failed to store weight profile version");
+    }
+  }
+}
+
+export async function updateWeightProfile(
+  profileId: string,
+  userId: string,
+  input: WeightProfileInput
+): Promise<WeightProfileDetail | null> {
+  const client = requireClient();
+
+  const existing = await getWeightProfile(profileId, userId);
+  if (!existing) {
+    return null;
+  }
+
+  const updates: Partial<Pick<WeightProfileRow, "name" | "priority" | "is_default">> = {};
+  if (input.name !== undefined) {
+    updates.name = validateName(input.name);
+  }
+  if (input.priority !== undefined) {
+    updates.priority = validatePriority(input.priority);
+  }
+  if (input.isDefault !== undefined) {
+    updates.is_default = input.isDefault === true;
+  }
+
+  // Scoring inputs are immutable per version so saved runs keep pointing at the weights they used.
+  if (input.weights !== undefined || input.matchRules !== undefined) {
+    const weights = input.weights !== undefined ? validateWeights(input.weights) : existing.weights;
+    const matchRules =
+      input.matchRules !== undefined ? validateMatchRules(input.matchRules) : existing.matchRules;
+    const nextVersion = await insertNextVersion(client, profileId, weights, matchRules);
+
+    // Another edit may have stored a later version first; never move current_version back.
+    const { error: currentError } = await client
+      .from("weight_profiles")
+      .update({ current_version: nextVersion })
+      .eq("id", profileId)
+      .eq("user_id", userId)
+      .lt("current_version", nextVersion);
+
+    if (currentError) {
+      console.error("Failed to update weight profile version", { profileId }, currentError);
+      throw new Error(currentError.message ?? "Failed to update weight profile");
+    }
+  }
+
+  if (Object.keys(updates).length > 0) {
+    const { error } = await client
+      .from("weight_profiles")
+      .update(updates)
+      .eq("id", profileId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Failed to update weight profile", { profileId }, error);
+      throw new Error(error.message ?? "Failed to update weight profile");
+    }
+  }
+
+  if (updates.is_default) {
+    await clearOtherDefaults(client, userId, profileId);
+  }
+
+  return getWeightProfile(profileId, userId);
+}
+
+export async function deleteWeightProfile(profileId: string, userId: string): Promise<boolean> {
+  const client = requireClient();
+
+  // Soft delete: saved lead runs still reference the profile id and version.
+  const { data, error } = await client
+    .from("weight_profiles")
+    .update({ deleted_at: new Date().toISOString(), is_default: false })
+    .eq("id", profileId)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .select("id")
+    .maybeSingle<{ id: string }>();
+
+  if (error) {
+    console.error("Failed to delete weight profile", { profileId }, error);
+    throw new Error(error.message ?? "Failed to delete weight profile");
+  }
+
+  return Boolean(data);
+}
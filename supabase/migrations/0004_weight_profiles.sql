@@ -0,0 +1,52 @@
+-- User-defined scoring weight profiles with immutable versions
+
+create table if not exists weight_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  name text not null,
+  priority integer not null default 100, -- lower values are matched first
+  is_default boolean not null default false, -- used when no match rule applies
+  current_version integer not null default 1,
+  deleted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists weight_profile_versions (
+  profile_id uuid references weight_profiles(id) on delete cascade,
+  version integer not null,
+  weights jsonb not null,
+  match_rules jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  primary key (profile_id, version)
+);
+
+create index if not exists weight_profiles_user_idx on weight_profiles (user_id) where deleted_at is null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'weight_profiles_set_updated_at'
+  ) then
+    create trigger weight_profiles_set_updated_at
+    before update on weight_profiles
+    for each row execute function public.set_updated_at();
+  end if;
+end;
+$$;
+
+alter table weight_profiles enable row level security;
+alter table weight_profile_versions enable row level security;
+
+create policy "Weight profiles are viewable by owner" on weight_profiles
+  for select using (auth.uid() = user_id);
+
+create policy "Weight profile versions are viewable by owner" on weight_profile_versions
+  for select using (
+    exists (
+      select 1 from weight_profiles
+      where weight_profiles.id = weight_profile_versions.profile_id
+        and weight_profiles.user_id = auth.uid()
+    )
+  );
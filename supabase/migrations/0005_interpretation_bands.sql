@@ -0,0 +1,38 @@
+-- Per-user interpretation band sets (labels, cutoffs, colors, next actions)
+
+create table if not exists interpretation_band_sets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  name text not null,
+  bands jsonb not null, -- [{ label, min, color, action }]
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists interpretation_band_sets_user_idx on interpretation_band_sets (user_id);
+create unique index if not exists interpretation_band_sets_active_idx
+  on interpretation_band_sets (user_id)
+  where is_active;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'interpretation_band_sets_set_updated_at'
+  ) then
+    create trigger interpretation_band_sets_set_updated_at
+    before update on interpretation_band_sets
+    for each row execute function public.set_updated_at();
+  end if;
+end;
+$$;
+
+alter table interpretation_band_sets enable row level security;
+
+create policy "Band sets are viewable by owner" on interpretation_band_sets
+  for select using (auth.uid() = user_id);
+
+-- Band snapshot recorded at scoring time (label, cutoff, color, recommended action)
+alter table lead_runs
+  add column if not exists band jsonb;
@@ -0,0 +1,8 @@
+-- Hybrid scoring: per-factor model vs rules gaps and the review flag they raise
+alter table lead_runs
+  add column if not exists scoring_mode text,
+  add column if not exists disagreement jsonb,
+  add column if not exists needs_review boolean not null default false;
+
+create index if not exists lead_runs_needs_review_idx on lead_runs (user_id, created_at desc)
+  where needs_review;
@@ -0,0 +1,5 @@
+-- Factor registry: scores jsonb is now a flat { factor_id: score } map, with the
+-- factor labels and weight profile the run used stored alongside it
+alter table lead_runs
+  add column if not exists factors jsonb,
+  add column if not exists weight_profile jsonb;
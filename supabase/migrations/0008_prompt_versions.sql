@@ -0,0 +1,43 @@
+-- Per-user prompt templates for the scorer and cleaner. Rows are immutable once
+-- written; editing a prompt inserts the next version.
+
+create table if not exists prompt_versions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('score', 'clean')),
+  version integer not null,
+  name text not null,
+  system_prompt text not null,
+  guidance jsonb not null default '{}'::jsonb, -- { factor_id: instruction } overrides (score only)
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, kind, version)
+);
+
+create index if not exists prompt_versions_user_kind_idx on prompt_versions (user_id, kind, version desc);
+create unique index if not exists prompt_versions_active_idx
+  on prompt_versions (user_id, kind)
+  where is_active;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'prompt_versions_set_updated_at'
+  ) then
+    create trigger prompt_versions_set_updated_at
+    before update on prompt_versions
+    for each row execute function public.set_updated_at();
+  end if;
+end;
+$$;
+
+alter table prompt_versions enable row level security;
+
+create policy "Prompt versions are viewable by owner" on prompt_versions
+  for select using (auth.uid() = user_id);
+
+-- Prompt versions that produced each saved score ({ score, clean })
+alter table lead_runs
+  add column if not exists prompt_versions jsonb;
@@ -0,0 +1,3 @@
+-- Model that actually answered each call (the primary or a fallback from OPENROUTER_FALLBACK_MODELS)
+alter table lead_token_usage
+  add column if not exists model text;
@@ -0,0 +1,5 @@
+-- Dollar cost per usage row, priced from the answering model (null when the model has no known price)
+alter table lead_token_usage
+  add column if not exists cost_usd numeric(12, 6);
+
+create index if not exists lead_token_usage_user_created_idx on lead_token_usage (user_id, created_at desc);
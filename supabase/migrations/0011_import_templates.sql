@@ -0,0 +1,36 @@
+-- Saved column mappings for recurring export layouts (e.g. "HubSpot companies export").
+-- header_signature is the sorted, de-duplicated list of normalized header keys joined
+-- with "|", so a template matches the same export regardless of column order.
+
+create table if not exists import_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  name text not null,
+  header_signature text not null,
+  headers jsonb not null default '[]'::jsonb, -- original header names, for display
+  mapping jsonb not null, -- { lead_field: normalized_header_key | null }
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists import_templates_signature_idx
+  on import_templates (user_id, header_signature, updated_at desc);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'import_templates_set_updated_at'
+  ) then
+    create trigger import_templates_set_updated_at
+    before update on import_templates
+    for each row execute function public.set_updated_at();
+  end if;
+end;
+$$;
+
+alter table import_templates enable row level security;
+
+create policy "Import templates are viewable by owner" on import_templates
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Normalized identity keys ("domain:acme.com", "phone:5125550100", "maps_url:...",
+-- "company_location:acme|austin") so new uploads can be matched against saved runs.
+-- Runs saved before this migration have no keys and never match.
+
+alter table lead_runs
+  add column if not exists dedupe_keys text[] not null default '{}';
+
+create index if not exists lead_runs_dedupe_keys_idx on lead_runs using gin (dedupe_keys);
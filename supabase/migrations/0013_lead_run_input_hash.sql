@@ -0,0 +1,10 @@
+-- Hash of the cleaned lead, enrichment signals and scoring setup (src/lib/reuse.ts).
+-- A new upload reuses the most recent run with the same hash while it is fresh enough.
+-- Runs saved before this migration have no hash and are never reused.
+
+alter table lead_runs
+  add column if not exists input_hash text;
+
+create index if not exists lead_runs_user_input_hash_idx
+  on lead_runs (user_id, input_hash, created_at desc)
+  where input_hash is not null;
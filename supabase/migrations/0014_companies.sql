@@ -0,0 +1,71 @@
+-- Stable company identity so runs of the same business can be compared over time.
+-- identity_key is "domain:<normalized domain>" when the lead has a usable website and
+-- "place:<maps place id>" otherwise (see src/lib/companies.ts). A company is matched
+-- on either its domain or its place id.
+
+create table if not exists companies (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  identity_key text not null,
+  name text not null,
+  domain text,
+  maps_place_id text,
+  last_scored_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, identity_key)
+);
+
+create index if not exists companies_domain_idx on companies (user_id, domain) where domain is not null;
+create index if not exists companies_place_idx on companies (user_id, maps_place_id) where maps_place_id is not null;
+
+alter table lead_runs
+  add column if not exists company_id uuid references companies(id) on delete set null;
+
+create index if not exists lead_runs_company_idx on lead_runs (company_id, created_at desc);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'companies_set_updated_at'
+  ) then
+    create trigger companies_set_updated_at
+    before update on companies
+    for each row execute function public.set_updated_at();
+  end if;
+end;
+$$;
+
+alter table companies enable row level security;
+
+create policy "Companies are viewable by owner" on companies
+  for select using (auth.uid() = user_id);
+
+-- Backfill from the domain dedupe keys saved since 0012. Older runs and runs with only a
+-- Maps URL stay unlinked.
+with keyed as (
+  select r.user_id, r.company, r.created_at, k.key
+  from lead_runs r
+  cross join lateral unnest(r.dedupe_keys) as k(key)
+  where r.user_id is not null and r.company_id is null and k.key like 'domain:%'
+)
+insert into companies (user_id, identity_key, name, domain, created_at, last_scored_at)
+select distinct on (user_id, key)
+  user_id,
+  key,
+  company,
+  substring(key from 8),
+  min(created_at) over (partition by user_id, key),
+  max(created_at) over (partition by user_id, key)
+from keyed
+order by user_id, key, created_at desc
+on conflict (user_id, identity_key) do nothing;
+
+update lead_runs r
+set company_id = c.id
+from companies c
+where r.company_id is null
+  and r.user_id = c.user_id
+  and c.domain is not null
+  and ('domain:' || c.domain) = any(r.dedupe_keys);
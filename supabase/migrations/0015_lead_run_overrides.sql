@@ -0,0 +1,38 @@
+-- Manual score overrides. The model's final_score, interpretation and scores stay as they
+-- were; lead_runs.override holds the active override and the effective_* columns are what
+-- filters, exports and reports use. Every change is appended to lead_run_overrides.
+
+create table if not exists lead_run_overrides (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references lead_runs(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete cascade,
+  action text not null check (action in ('set', 'cleared')),
+  interpretation text,
+  scores jsonb, -- { factor_id: score } for overridden factors only
+  final_score numeric(5,2),
+  reason text not null,
+  previous jsonb, -- lead_runs.override before this change; null means the model's score
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lead_run_overrides_run_idx on lead_run_overrides (run_id, created_at desc);
+create index if not exists lead_run_overrides_user_idx on lead_run_overrides (user_id, created_at desc);
+
+alter table lead_run_overrides enable row level security;
+
+create policy "Lead run overrides are viewable by owner" on lead_run_overrides
+  for select using (auth.uid() = user_id);
+
+alter table lead_runs
+  add column if not exists override jsonb;
+
+alter table lead_runs
+  add column if not exists effective_final_score numeric(5,2)
+  generated always as (coalesce((override ->> 'final_score')::numeric(5,2), final_score)) stored;
+
+alter table lead_runs
+  add column if not exists effective_interpretation text
+  generated always as (coalesce(override ->> 'interpretation', interpretation)) stored;
+
+create index if not exists lead_runs_effective_score_idx on lead_runs (user_id, effective_final_score);
+create index if not exists lead_runs_overridden_idx on lead_runs (user_id) where override is not null;
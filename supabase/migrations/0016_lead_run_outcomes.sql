@@ -0,0 +1,53 @@
+-- What happened to a scored lead after it was handed to sales. Events are appended to
+-- lead_run_outcomes; lead_runs.outcome mirrors the most recent one so lists can show and
+-- filter it without a join. The calibration report reads the full history.
+
+create table if not exists lead_run_outcomes (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references lead_runs(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete cascade,
+  outcome text not null check (outcome in ('contacted', 'meeting_booked', 'won', 'lost', 'bad_data')),
+  note text,
+  source text not null default 'ui' check (source in ('ui', 'import')),
+  occurred_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lead_run_outcomes_run_idx on lead_run_outcomes (run_id, occurred_at desc);
+create index if not exists lead_run_outcomes_user_idx on lead_run_outcomes (user_id, occurred_at desc);
+
+alter table lead_run_outcomes enable row level security;
+
+create policy "Lead run outcomes are viewable by owner" on lead_run_outcomes
+  for select using (auth.uid() = user_id);
+
+alter table lead_runs
+  add column if not exists outcome text,
+  add column if not exists outcome_at timestamptz;
+
+create index if not exists lead_runs_outcome_idx on lead_runs (user_id, outcome) where outcome is not null;
+
+-- An event dated before the run's current outcome (a late import of old CRM history)
+-- is recorded but doesn't replace it.
+create or replace function public.sync_lead_run_outcome()
+returns trigger as $$
+begin
+  update lead_runs
+  set outcome = new.outcome, outcome_at = new.occurred_at
+  where id = new.run_id and (outcome_at is null or outcome_at <= new.occurred_at);
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'lead_run_outcomes_sync'
+  ) then
+    create trigger lead_run_outcomes_sync
+    after insert on lead_run_outcomes
+    for each row execute function public.sync_lead_run_outcome();
+  end if;
+end;
+$$;
@@ -0,0 +1,76 @@
+-- Frozen scoring input for A/B comparisons. A snapshot copies a finished job's cleaned leads
+-- and enrichment (review snapshot, website signals) with the score each lead got, so later
+-- replays can re-score the same input under another model, prompt version or weight profile
+-- without cleaning or scraping again.
+
+create table if not exists scoring_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  job_id uuid references lead_jobs(id) on delete set null,
+  name text not null,
+  item_count integer not null default 0,
+  baseline jsonb not null, -- scoring mode, prompt ids, model and token cost of the source job
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scoring_snapshots_user_idx on scoring_snapshots (user_id, created_at desc);
+
+create table if not exists scoring_snapshot_items (
+  snapshot_id uuid not null references scoring_snapshots(id) on delete cascade,
+  item_index integer not null,
+  lead_id text not null,
+  cleaned jsonb not null,
+  reviews jsonb not null,
+  website jsonb,
+  baseline jsonb not null, -- final_score, interpretation, scores and weight profile from the job
+  primary key (snapshot_id, item_index)
+);
+
+create table if not exists scoring_replays (
+  id uuid primary key default gen_random_uuid(),
+  snapshot_id uuid not null references scoring_snapshots(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete cascade,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  config jsonb not null, -- resolved at creation: mode, model, prompt id, weight profile, bands
+  processed integer not null default 0,
+  results jsonb, -- one entry per snapshot item, written when the replay completes
+  usage jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists scoring_replays_snapshot_idx on scoring_replays (snapshot_id, created_at desc);
+
+alter table scoring_snapshots enable row level security;
+alter table scoring_snapshot_items enable row level security;
+alter table scoring_replays enable row level security;
+
+create policy "Scoring snapshots are viewable by owner" on scoring_snapshots
+  for select using (auth.uid() = user_id);
+
+create policy "Scoring snapshot items are viewable by owner" on scoring_snapshot_items
+  for select using (
+    exists (
+      select 1 from scoring_snapshots
+      where scoring_snapshots.id = scoring_snapshot_items.snapshot_id
+        and scoring_snapshots.user_id = auth.uid()
+    )
+  );
+
+create policy "Scoring replays are viewable by owner" on scoring_replays
+  for select using (auth.uid() = user_id);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'scoring_replays_set_updated_at'
+  ) then
+    create trigger scoring_replays_set_updated_at
+    before update on scoring_replays
+    for each row execute function public.set_updated_at();
+  end if;
+end;
+$$;
@@ -0,0 +1,9 @@
+-- Per-item retry state for lead jobs. A lead whose scoring fails with a transient error
+-- (provider 5xx/429, timeouts, Maps throttling) goes back to 'queued' with next_attempt_at
+-- set; once it runs out of attempts, or fails for a non-transient reason, it is 'dead' and
+-- keeps no result. Item statuses are now queued | completed | failed | dead.
+
+alter table lead_job_items
+  add column if not exists attempts integer not null default 0,
+  add column if not exists last_error text,
+  add column if not exists next_attempt_at timestamptz;
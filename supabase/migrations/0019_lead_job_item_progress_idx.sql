@@ -0,0 +1,5 @@
+-- Job progress deltas read the items of one job changed after a cursor of
+-- (updated_at, item_index), in that order.
+
+create index if not exists lead_job_items_job_updated_idx
+  on lead_job_items (job_id, updated_at, item_index);
@@ -0,0 +1,34 @@
+-- One row per lead job with its item counts by status, so job lists and summaries need a
+-- single query and never read item payloads or results. Counts come from the
+-- (job_id, status) index; security_invoker keeps the owner policies of both tables.
+
+create or replace view lead_job_summaries
+with (security_invoker = true) as
+select
+  j.id,
+  j.user_id,
+  j.status,
+  j.total,
+  j.processed,
+  j.error,
+  j.metadata,
+  j.created_at,
+  j.updated_at,
+  coalesce(c.queued, 0) as queued_items,
+  coalesce(c.retrying, 0) as retrying_items,
+  coalesce(c.completed, 0) as completed_items,
+  coalesce(c.dead, 0) as dead_items,
+  coalesce(c.failed, 0) as failed_items
+from lead_jobs j
+left join lateral (
+  select
+    count(*) filter (where i.status = 'queued') as queued,
+    count(*) filter (where i.status = 'queued' and i.attempts > 0) as retrying,
+    count(*) filter (where i.status = 'completed') as completed,
+    count(*) filter (where i.status = 'dead') as dead,
+    count(*) filter (where i.status = 'failed') as failed
+  from lead_job_items i
+  where i.job_id = j.id
+) c on true;
+
+create index if not exists lead_jobs_user_created_idx on lead_jobs (user_id, created_at desc);
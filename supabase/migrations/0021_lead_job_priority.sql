@@ -0,0 +1,38 @@
+-- Job priority for the worker's scheduler. Higher runs first; jobs of equal priority are
+-- shared round-robin across users, each capped at LEAD_JOB_USER_CONCURRENCY running jobs.
+
+alter table lead_jobs
+  add column if not exists priority integer not null default 0;
+
+create index if not exists lead_jobs_claim_idx on lead_jobs (status, priority desc, created_at);
+
+-- Same view as 0020 with the priority appended.
+create or replace view lead_job_summaries
+with (security_invoker = true) as
+select
+  j.id,
+  j.user_id,
+  j.status,
+  j.total,
+  j.processed,
+  j.error,
+  j.metadata,
+  j.created_at,
+  j.updated_at,
+  coalesce(c.queued, 0) as queued_items,
+  coalesce(c.retrying, 0) as retrying_items,
+  coalesce(c.completed, 0) as completed_items,
+  coalesce(c.dead, 0) as dead_items,
+  coalesce(c.failed, 0) as failed_items,
+  j.priority
+from lead_jobs j
+left join lateral (
+  select
+    count(*) filter (where i.status = 'queued') as queued,
+    count(*) filter (where i.status = 'queued' and i.attempts > 0) as retrying,
+    count(*) filter (where i.status = 'completed') as completed,
+    count(*) filter (where i.status = 'dead') as dead,
+    count(*) filter (where i.status = 'failed') as failed
+  from lead_job_items i
+  where i.job_id = j.id
+) c on true;
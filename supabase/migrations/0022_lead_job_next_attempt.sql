@@ -0,0 +1,6 @@
+-- When a job's remaining items are all waiting out a retry backoff, the worker hands the
+-- job back as 'queued' with next_attempt_at set to the earliest retry, and workers don't
+-- claim it before then. Null means the job can be claimed right away.
+
+alter table lead_jobs
+  add column if not exists next_attempt_at timestamptz;
@@ -0,0 +1,58 @@
+-- Claims one lead job for a worker while enforcing the per-user cap
+-- (LEAD_JOB_USER_CONCURRENCY). An advisory lock per user serialises claims, so two workers
+-- can't both take a user's last free slot; it is held until the calling transaction ends.
+-- Returns the claimed row, or nothing when the job was taken, isn't due, or its user is at
+-- the cap. Processing jobs with no heartbeat since p_stale_before count as abandoned.
+
+create or replace function public.claim_lead_job(p_job_id uuid, p_user_cap integer, p_stale_before timestamptz)
+returns setof lead_jobs as $$
+declare
+  v_user_id uuid;
+  v_running integer;
+begin
+  select user_id into v_user_id from lead_jobs where id = p_job_id;
+  if not found then
+    return;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('lead_jobs:' || coalesce(v_user_id::text, '')));
+
+  select count(*) into v_running
+  from lead_jobs
+  where user_id is not distinct from v_user_id
+    and status = 'processing'
+    and updated_at > p_stale_before
+    and id <> p_job_id;
+
+  if v_running >= p_user_cap then
+    return;
+  end if;
+
+  return query
+  update lead_jobs
+  set status = 'processing', updated_at = now()
+  where id = p_job_id
+    and (
+      (status = 'queued' and (next_attempt_at is null or next_attempt_at <= now()))
+      or (status = 'processing' and updated_at <= p_stale_before)
+    )
+  returning *;
+end;
+$$ language plpgsql;
+
+-- Due queued jobs for the scheduler: at most p_per_user per user (their highest priority,
+-- then oldest), so one user's backlog can't fill the list and hide everyone else's jobs.
+create or replace function public.list_claimable_lead_jobs(p_per_user integer, p_limit integer)
+returns setof lead_jobs as $$
+  select j.*
+  from lead_jobs j
+  join (
+    select id, row_number() over (partition by user_id order by priority desc, created_at) as user_rank
+    from lead_jobs
+    where status = 'queued'
+      and (next_attempt_at is null or next_attempt_at <= now())
+  ) ranked on ranked.id = j.id
+  where ranked.user_rank <= p_per_user
+  order by ranked.user_rank, j.created_at
+  limit p_limit;
+$$ language sql stable;
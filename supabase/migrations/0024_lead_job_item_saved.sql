@@ -0,0 +1,6 @@
+-- The worker saves a job's finished leads to lead_runs after every scoring round rather
+-- than once at the end, so a job released or cancelled midway keeps what it scored.
+-- saved_at marks the items already written, so a resumed job saves only the rest.
+
+alter table lead_job_items
+  add column if not exists saved_at timestamptz;
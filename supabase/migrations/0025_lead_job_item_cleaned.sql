@@ -0,0 +1,6 @@
+-- Stores each job item's cleaned record (CleanLeadResult) as soon as the lead is cleaned.
+-- With dedupe on, every lead in a round is cleaned before any is scored; keeping the
+-- result means a retried item or a released job doesn't clean (and pay for) it again.
+
+alter table lead_job_items
+  add column if not exists cleaned jsonb;
@@ -0,0 +1,41 @@
+-- Progress cursors used (updated_at, item_index), but two item writes can share an
+-- updated_at or carry timestamps out of step with the order they commit in, so a client
+-- past one could skip the other. progress_seq is drawn from a sequence as the row is
+-- written, each time an item's status, attempts, or error changes, and deltas are read
+-- in that order.
+
+create sequence if not exists lead_job_items_progress_seq;
+
+alter table lead_job_items
+  add column if not exists progress_seq bigint not null default nextval('lead_job_items_progress_seq');
+
+create or replace function public.bump_lead_job_item_progress_seq()
+returns trigger as $$
+begin
+  new.progress_seq := nextval('lead_job_items_progress_seq');
+  return new;
+end;
+$$ language plpgsql;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger
+    where tgname = 'lead_job_items_bump_progress_seq'
+  ) then
+    create trigger lead_job_items_bump_progress_seq
+    before update on lead_job_items
+    for each row
+    when (
+      old.status is distinct from new.status
+      or old.attempts is distinct from new.attempts
+      or old.error is distinct from new.error
+      or old.last_error is distinct from new.last_error
+    )
+    execute function public.bump_lead_job_item_progress_seq();
+  end if;
+end;
+$$;
+
+create index if not exists lead_job_items_job_progress_idx
+  on lead_job_items (job_id, progress_seq);